@@ -0,0 +1,25 @@
+/**
+ * Mock Backend Route
+ * ==================
+ *
+ * Serves /api/mock/<backend path> from fixtures when NEXT_PUBLIC_MOCK_BACKEND=true.
+ * HttpClient points here instead of the FastAPI backend in mock mode,
+ * e.g. /api/crea/listings -> /api/mock/api/crea/listings.
+ */
+
+import { NextRequest } from 'next/server'
+import { handleMockRequest } from '@/lib/mock-backend'
+
+// Fixture state and SSE streams must never be cached
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+    params: Promise<{ path: string[] }>
+}
+
+async function handler(request: NextRequest, { params }: RouteParams) {
+    const { path } = await params
+    return handleMockRequest(request, `/${path.join('/')}`)
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as PATCH, handler as DELETE }
@@ -0,0 +1,77 @@
+/**
+ * Query Optimizer Route
+ * =====================
+ *
+ * POST /api/search/optimize-query  { query }  ->  { optimized_query, intent }
+ *
+ * Owns the Gemini call so GOOGLE_AI_API_KEY stays on the server.
+ * Rate limited per client IP; optimizations are cached for an hour.
+ *
+ * Without Gemini (no key, API errors, mock backend) the local optimizer
+ * rules answer instead. Gemini's answers are cross-checked against the
+ * rules and disagreements are logged and returned.
+ */
+
+import { NextRequest } from 'next/server'
+import type { OptimizeQueryResponse } from '@/lib/services/query-optimizer.service'
+import { optimizeQueryByRules, crossCheckOptimization, RuleOptimization } from '@/lib/services/query-optimizer.rules'
+import { QueryOptimizerProvider } from '@/lib/server/query-optimizer.provider'
+import { RateLimiter } from '@/lib/server/rate-limit'
+import { checkRateLimit, errorResponse, readJsonBody } from '@/lib/server/route-helpers'
+import { MOCK_BACKEND_ENABLED } from '@/lib/mock-backend'
+
+// Higher than the search routes - clients optimize before every search
+const limiter = new RateLimiter({ limit: 30, windowMs: 60000 })
+
+export async function POST(request: NextRequest) {
+    const limited = checkRateLimit(limiter, request)
+    if (limited) return limited
+
+    const body = await readJsonBody<{ query?: string }>(request)
+    const query = body?.query?.trim()
+    if (!query) {
+        return errorResponse(422, 'query is required')
+    }
+
+    const rules = optimizeQueryByRules(query)
+    if (MOCK_BACKEND_ENABLED) {
+        return rulesResponse(rules)
+    }
+
+    let provider: QueryOptimizerProvider
+    try {
+        provider = new QueryOptimizerProvider()
+    } catch (error: any) {
+        console.warn('⚠️ Query optimizer unavailable, using local rules:', error.message)
+        return rulesResponse(rules)
+    }
+
+    const [optimizedQuery, intent] = await Promise.all([
+        provider.optimize(query),
+        provider.extractIntent(query),
+    ])
+    if (optimizedQuery === null && intent === null) {
+        return rulesResponse(rules)
+    }
+
+    const disagreements = crossCheckOptimization(rules, { optimized_query: optimizedQuery, intent })
+    if (disagreements.length > 0) {
+        console.warn(`⚠️ Gemini disagrees with the optimizer rules for "${query}":`, disagreements)
+    }
+
+    return Response.json({
+        optimized_query: optimizedQuery ?? rules.optimized_query,
+        intent: intent ?? rules.intent,
+        source: 'gemini',
+        disagreements,
+    } satisfies OptimizeQueryResponse)
+}
+
+function rulesResponse(rules: RuleOptimization): Response {
+    return Response.json({
+        optimized_query: rules.optimized_query,
+        intent: rules.intent,
+        source: 'rules',
+        disagreements: [],
+    } satisfies OptimizeQueryResponse)
+}
@@ -0,0 +1,43 @@
+/**
+ * SerpAPI Search Route
+ * ====================
+ *
+ * POST /api/search/serp  { query, sources }  ->  { properties: SerpProperty[] }
+ *
+ * Owns the SerpAPI call so SERP_API_KEY stays on the server.
+ * Rate limited per client IP; SerpAPI responses are cached for an hour.
+ */
+
+import { NextRequest } from 'next/server'
+import type { SerpPropertySearchRequest, SerpSearchRouteResponse } from '@/lib/services/serp-property-search.service'
+import { SerpSearchProvider } from '@/lib/server/serp-search.provider'
+import { RateLimiter } from '@/lib/server/rate-limit'
+import { checkRateLimit, errorResponse, readJsonBody } from '@/lib/server/route-helpers'
+import { MOCK_BACKEND_ENABLED } from '@/lib/mock-backend'
+import { buildSerpProperties } from '@/lib/mock-backend/fixtures'
+
+const limiter = new RateLimiter({ limit: 10, windowMs: 60000 })
+
+export async function POST(request: NextRequest) {
+    const limited = checkRateLimit(limiter, request)
+    if (limited) return limited
+
+    const body = await readJsonBody<Partial<SerpPropertySearchRequest>>(request)
+    const query = body?.query?.trim()
+    if (!query) {
+        return errorResponse(422, 'query is required')
+    }
+
+    if (MOCK_BACKEND_ENABLED) {
+        return Response.json({ properties: buildSerpProperties(query) } satisfies SerpSearchRouteResponse)
+    }
+
+    try {
+        const provider = new SerpSearchProvider()
+        const properties = await provider.search({ query, sources: body?.sources || '', provider: 'serpapi' })
+        return Response.json({ properties } satisfies SerpSearchRouteResponse)
+    } catch (error: any) {
+        console.error('❌ SerpAPI route error:', error.message)
+        return errorResponse(502, error.message || 'SerpAPI search failed')
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Tavily Search Route
+ * ===================
+ *
+ * POST /api/search/tavily  { query, sources }  ->  { results: [...] }
+ *
+ * Owns the Tavily call so TAVILY_API_KEY stays on the server.
+ * Rate limited per client IP; Tavily responses are cached for an hour.
+ */
+
+import { NextRequest } from 'next/server'
+import type { TavilySearchRouteResponse } from '@/lib/services/tavily-property-search.service'
+import { TavilySearchProvider } from '@/lib/server/tavily-search.provider'
+import { RateLimiter } from '@/lib/server/rate-limit'
+import { checkRateLimit, errorResponse, readJsonBody } from '@/lib/server/route-helpers'
+import { MOCK_BACKEND_ENABLED } from '@/lib/mock-backend'
+import { buildTavilyResults } from '@/lib/mock-backend/fixtures'
+
+const limiter = new RateLimiter({ limit: 10, windowMs: 60000 })
+
+export async function POST(request: NextRequest) {
+    const limited = checkRateLimit(limiter, request)
+    if (limited) return limited
+
+    const body = await readJsonBody<{ query?: string; sources?: string }>(request)
+    const query = body?.query?.trim()
+    if (!query) {
+        return errorResponse(422, 'query is required')
+    }
+
+    if (MOCK_BACKEND_ENABLED) {
+        return Response.json({ results: buildTavilyResults(query) } satisfies TavilySearchRouteResponse)
+    }
+
+    try {
+        const provider = new TavilySearchProvider()
+        const results = await provider.search(query, body?.sources || undefined)
+        return Response.json({ results } satisfies TavilySearchRouteResponse)
+    } catch (error: any) {
+        console.error('❌ Tavily route error:', error.message)
+        return errorResponse(502, error.message || 'Tavily search failed')
+    }
+}
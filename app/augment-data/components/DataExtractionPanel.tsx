@@ -32,12 +32,15 @@ import {
     SelectValue,
 } from '@/components/ui/select'
 import { Play, Square, Loader2, RefreshCw, Upload, CheckCircle2, AlertCircle } from 'lucide-react'
+import { HttpClient, isAbortError } from '@/lib/services/http-client'
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
-const UPLOAD_FILE_ENDPOINT = `${API_BASE_URL}/api/whatsapp-raw/upload-file`
-const PROCESS_STREAM_ENDPOINT = `${API_BASE_URL}/api/whatsapp-raw/process-unprocessed-stream`
-const STATS_ENDPOINT = `${API_BASE_URL}/api/whatsapp-listings/stats`
-const RAW_STATS_ENDPOINT = `${API_BASE_URL}/api/whatsapp-raw/raw-stats`
+const UPLOAD_FILE_ENDPOINT = '/api/whatsapp-raw/upload-file'
+const PROCESS_STREAM_ENDPOINT = '/api/whatsapp-raw/process-unprocessed-stream'
+const STATS_ENDPOINT = '/api/whatsapp-listings/stats'
+const RAW_STATS_ENDPOINT = '/api/whatsapp-raw/raw-stats'
+
+// Large chat exports can take a while to parse and insert
+const UPLOAD_TIMEOUT_MS = 300000
 
 interface UploadResponse {
     success: boolean
@@ -145,20 +148,17 @@ export default function DataExtractionPanel() {
     const fetchStats = useCallback(async () => {
         setIsLoadingStats(true)
         try {
-            const response = await fetch(STATS_ENDPOINT)
-            if (response.ok) {
-                const result = await response.json()
-                // Handle both wrapped and direct response formats
-                if (result.success && result.data) {
-                    setStats(result.data)
-                } else if (result.success) {
-                    // If success is true but data is at root level
-                    const { success, message, ...statsData } = result
-                    setStats(statsData)
-                } else {
-                    // Direct format
-                    setStats(result)
-                }
+            const result = await HttpClient.get<any>(STATS_ENDPOINT)
+            // Handle both wrapped and direct response formats
+            if (result.success && result.data) {
+                setStats(result.data)
+            } else if (result.success) {
+                // If success is true but data is at root level
+                const { success, message, ...statsData } = result
+                setStats(statsData)
+            } else {
+                // Direct format
+                setStats(result)
             }
         } catch (error) {
             console.error('Error fetching stats:', error)
@@ -170,11 +170,8 @@ export default function DataExtractionPanel() {
     const fetchRawStats = useCallback(async () => {
         setIsLoadingRawStats(true)
         try {
-            const response = await fetch(RAW_STATS_ENDPOINT)
-            if (response.ok) {
-                const data = await response.json()
-                setRawStats(data)
-            }
+            const data = await HttpClient.get<RawStatsData>(RAW_STATS_ENDPOINT)
+            setRawStats(data)
         } catch (error) {
             console.error('Error fetching raw stats:', error)
         } finally {
@@ -209,23 +206,21 @@ export default function DataExtractionPanel() {
                 formData.append('cutoff_days_from_ui', daysFilter)
 
                 // Make POST request with file upload
-                const response = await fetch(UPLOAD_FILE_ENDPOINT, {
-                    method: 'POST',
-                    body: formData,
-                })
-
-                if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({ message: 'Upload failed' }))
+                let data: UploadResponse
+                try {
+                    data = await HttpClient.post<UploadResponse>(UPLOAD_FILE_ENDPOINT, formData, {
+                        timeoutMs: UPLOAD_TIMEOUT_MS,
+                    })
+                } catch (uploadError: any) {
                     const errorResponse: UploadResponse & { fileName: string } = {
                         success: false,
-                        error: errorData.message || `HTTP error! status: ${response.status}`,
+                        error: uploadError.message || 'Upload failed',
                         fileName: file.name,
                     }
                     setUploadResponses(prev => [...prev, errorResponse])
                     continue
                 }
 
-                const data = await response.json()
                 setUploadResponses(prev => [...prev, { ...data, fileName: file.name }])
             }
 
@@ -256,18 +251,15 @@ export default function DataExtractionPanel() {
 
         try {
             // Make POST request to process unprocessed messages
-            const response = await fetch(`${PROCESS_STREAM_ENDPOINT}?limit=${processLimit}`, {
+            const response = await HttpClient.stream(PROCESS_STREAM_ENDPOINT, {
                 method: 'POST',
+                query: { limit: processLimit },
                 headers: {
                     'Accept': 'text/event-stream',
                 },
                 signal: abortController.signal,
             })
 
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`)
-            }
-
             // Read the stream using Fetch API with streaming
             // Based on STREAMING_API_EXAMPLES.md - uses named events (event: start, event: progress, etc.)
             const reader = response.body?.getReader()
@@ -376,7 +368,7 @@ export default function DataExtractionPanel() {
                 }
             }
         } catch (error: any) {
-            if (error.name === 'AbortError') {
+            if (isAbortError(error)) {
                 console.log('Stream aborted by user')
             } else {
                 console.error('Error during processing:', error)
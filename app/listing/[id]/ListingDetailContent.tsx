@@ -3,11 +3,13 @@
  * ========================================
  *
  * Client component that fetches and displays listing information in a mobile-friendly card format.
+ * Price, location, bedrooms and size can be corrected inline; the edits save to the
+ * CREA listing with the same id (see useListingEdits).
  */
 
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, ReactNode } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { Loader2, Phone, MessageSquare, ChevronDown, ChevronUp, User, MapPin } from 'lucide-react'
@@ -17,8 +19,11 @@ import WhatsAppMessageDialog from '@/app/whatsapp-obs/components/WhatsAppMessage
 import { CREAListing } from '@/lib/services/crea-listings.service'
 import { Button } from '@/components/ui/button'
 import Image from 'next/image'
-
-const API_BASE_URL = ''
+import { ApiError, HttpClient } from '@/lib/services/http-client'
+import EditableField from '@/app/whatsapp-obs/components/EditableField'
+import UndoToast from '@/app/whatsapp-obs/components/UndoToast'
+import { useListingEdits } from '@/app/whatsapp-obs/hooks/useListingEdits'
+import { EditableFieldValue, EditableListingField } from '@/app/whatsapp-obs/utils/listing-edits'
 
 interface ListingData {
     processed: any
@@ -34,6 +39,34 @@ interface ListingDetailContentProps {
     listingId: string
 }
 
+/**
+ * Processed-listing fields for an edit to the CREA listing
+ */
+function toProcessedFields(patch: Partial<CREAListing>): Record<string, unknown> {
+    const fields: Record<string, unknown> = {}
+    if (patch.price !== undefined) fields.price = patch.price
+    if (patch.location !== undefined) fields.location = patch.location
+    if (patch.size_sqft !== undefined) fields.area_sqft = patch.size_sqft
+    if (patch.configuration !== undefined) {
+        const bedrooms = parseFloat(patch.configuration ?? '') || null
+        fields.bedroom_count = bedrooms
+        fields.bedrooms = bedrooms
+    }
+    return fields
+}
+
+/**
+ * Current value of an editable field, in CREA listing terms
+ */
+function editableValue(processed: any, field: EditableListingField): EditableFieldValue {
+    switch (field) {
+        case 'price': return processed.price || 0
+        case 'location': return processed.location || ''
+        case 'size_sqft': return processed.area_sqft || 0
+        case 'configuration': return processed.bedroom_count ? `${processed.bedroom_count} BHK` : ''
+    }
+}
+
 export default function ListingDetailContent({ listingId }: ListingDetailContentProps) {
     const router = useRouter()
     const [listingData, setListingData] = useState<ListingData | null>(null)
@@ -41,22 +74,21 @@ export default function ListingDetailContent({ listingId }: ListingDetailContent
     const [error, setError] = useState<string | null>(null)
     const [showRawMessage, setShowRawMessage] = useState(false)
 
+    const applyListingPatch = useCallback((_listingId: string, patch: Partial<CREAListing>) => {
+        setListingData(current => current && {
+            ...current,
+            processed: { ...current.processed, ...toProcessedFields(patch) },
+        })
+    }, [])
+    const { saveField, isSaving, toast, dismissToast } = useListingEdits(applyListingPatch)
+
     useEffect(() => {
         const fetchListingData = async () => {
             setIsLoading(true)
             setError(null)
 
             try {
-                const response = await fetch(`${API_BASE_URL}/api/whatsapp-listings/${listingId}/source`)
-
-                if (!response.ok) {
-                    if (response.status === 404) {
-                        throw new Error('Listing not found')
-                    }
-                    throw new Error(`Failed to fetch listing data: ${response.statusText}`)
-                }
-
-                const result = await response.json()
+                const result = await HttpClient.get<any>(`/api/whatsapp-listings/${listingId}/source`)
 
                 if (result.success && result.data) {
                     setListingData(result.data)
@@ -65,7 +97,11 @@ export default function ListingDetailContent({ listingId }: ListingDetailContent
                 }
             } catch (err: any) {
                 console.error('Error fetching listing data:', err)
-                setError(err.message || 'Failed to load listing data')
+                if (err instanceof ApiError && err.status === 404) {
+                    setError('Listing not found')
+                } else {
+                    setError(err.message || 'Failed to load listing data')
+                }
             } finally {
                 setIsLoading(false)
             }
@@ -111,6 +147,21 @@ export default function ListingDetailContent({ listingId }: ListingDetailContent
     const processed = listingData?.processed
     const raw = listingData?.raw
 
+    const renderEditable = (field: EditableListingField, display: ReactNode, className?: string) => {
+        const value = editableValue(processed, field)
+        return (
+            <EditableField
+                field={field}
+                value={value}
+                onSave={next => saveField(listingId, field, next, value)}
+                isSaving={isSaving(listingId, field)}
+                className={className}
+            >
+                {display}
+            </EditableField>
+        )
+    }
+
     return (
         <div className="min-h-screen bg-white flex flex-col font-sans">
             {/* Header */}
@@ -170,20 +221,22 @@ export default function ListingDetailContent({ listingId }: ListingDetailContent
                                     {processed.bedroom_count ? ` ${processed.bedroom_count} BHK` : ''}
                                     {processed.project_name ? ` in ${processed.project_name}` : processed.location ? ` in ${processed.location}` : ''}
                                 </h1>
-                                {processed.location && (
+                                {renderEditable('location', (
                                     <div className="flex items-center gap-1.5 text-gray-600">
                                         <MapPin className="w-4 h-4 text-gray-400" />
-                                        <span className="text-sm font-medium">{processed.location}</span>
+                                        <span className="text-sm font-medium">{processed.location || 'No location'}</span>
                                     </div>
-                                )}
+                                ))}
                                 <div className="text-xs text-gray-400 font-medium">
                                     Listed on {formatDate(processed.message_date || processed.created_at)}
                                 </div>
                             </div>
                             <div className="flex flex-col md:items-end">
-                                <div className="text-2xl md:text-3xl font-bold text-gray-900">
-                                    {formatPrice(processed.price)}
-                                </div>
+                                {renderEditable('price', (
+                                    <div className="text-2xl md:text-3xl font-bold text-gray-900">
+                                        {formatPrice(processed.price)}
+                                    </div>
+                                ), 'md:justify-end')}
                                 {processed.price_text && formatPrice(processed.price).replace(/[₹,]/g, '') !== processed.price_text.replace(/[Rs,]/gi, '').trim() && (
                                     <p className="text-sm text-gray-500 mt-1">{processed.price_text}</p>
                                 )}
@@ -216,14 +269,22 @@ export default function ListingDetailContent({ listingId }: ListingDetailContent
                             {/* Main Details */}
                             <div className="md:col-span-8 space-y-10">
                                 {/* Key Details Grid */}
-                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
                                     <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
                                         <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Type</p>
                                         <p className="text-sm font-bold text-gray-900 capitalize">{processed.property_type || 'N/A'}</p>
                                     </div>
                                     <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
                                         <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Bedrooms</p>
-                                        <p className="text-sm font-bold text-gray-900">{processed.bedroom_count ? `${processed.bedroom_count} BHK` : 'N/A'}</p>
+                                        {renderEditable('configuration', (
+                                            <p className="text-sm font-bold text-gray-900">{processed.bedroom_count ? `${processed.bedroom_count} BHK` : 'N/A'}</p>
+                                        ))}
+                                    </div>
+                                    <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
+                                        <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Size</p>
+                                        {renderEditable('size_sqft', (
+                                            <p className="text-sm font-bold text-gray-900">{processed.area_sqft ? `${Number(processed.area_sqft).toLocaleString('en-IN')} sq.ft` : 'N/A'}</p>
+                                        ))}
                                     </div>
                                     <div className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm">
                                         <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">Furnishing</p>
@@ -321,6 +382,8 @@ export default function ListingDetailContent({ listingId }: ListingDetailContent
                 )}
             </main>
 
+            <UndoToast toast={toast} onDismiss={dismissToast} />
+
             {/* Footer */}
             <footer className="py-6 px-6 bg-gray-100 border-t border-gray-200 mt-20">
                 <div className="max-w-5xl mx-auto flex flex-col md:flex-row items-center justify-between gap-4 md:gap-0 text-xs md:text-sm text-gray-600">
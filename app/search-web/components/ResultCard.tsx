@@ -23,22 +23,25 @@ interface Property {
   id: string
   title: string
   location: string
-  price: number
-  bedrooms: number
-  bathrooms: number
-  area: number
+  price: number | null
+  priceMax?: number | null
+  bedrooms: number | null
+  bathrooms: number | null
+  area: number | null
   imageUrl: string
   description: string
   propertyFor?: 'rent' | 'sale'
   url?: string
   source?: string
+  providers?: string[] // Search providers that found this result
 }
 
 interface ResultCardProps {
   property: Property
+  providerLabels?: Record<string, string> // Provider id → display name
 }
 
-export default function ResultCard({ property }: ResultCardProps) {
+export default function ResultCard({ property, providerLabels = {} }: ResultCardProps) {
   const router = useRouter()
 
   // Handle card click - navigate to listing details page
@@ -62,38 +65,32 @@ export default function ResultCard({ property }: ResultCardProps) {
     e.stopPropagation() // Stop the click from bubbling up to the card
   }
 
-  // Format price based on property type (rent vs sale)
-  const formatPrice = (price: number, propertyFor: 'rent' | 'sale' = 'rent'): { display: string; label: string } => {
-    if (propertyFor === 'sale') {
-      // For sale: Convert to Crores or Lakhs
-      if (price >= 10000000) {
-        const crores = price / 10000000
-        return {
-          display: `₹${crores.toFixed(2)} Cr`,
-          label: 'Total Price'
-        }
-      } else if (price >= 100000) {
-        const lakhs = price / 100000
-        return {
-          display: `₹${lakhs.toFixed(2)} L`,
-          label: 'Total Price'
-        }
-      } else {
-        return {
-          display: `₹${price.toLocaleString('en-IN')}`,
-          label: 'Total Price'
-        }
-      }
-    } else {
-      // For rent: Show monthly rent
-      return {
-        display: `₹${price.toLocaleString('en-IN')}`,
-        label: 'per month'
-      }
+  // Format an amount: Crores/Lakhs for sale, plain rupees for rent
+  const formatAmount = (price: number, propertyFor?: 'rent' | 'sale'): string => {
+    if (propertyFor !== 'rent') {
+      if (price >= 10000000) return `₹${(price / 10000000).toFixed(2)} Cr`
+      if (price >= 100000) return `₹${(price / 100000).toFixed(2)} L`
     }
+    return `₹${price.toLocaleString('en-IN')}`
   }
 
-  const { display: priceDisplay, label: priceLabel } = formatPrice(property.price, property.propertyFor)
+  // Format price based on property type (rent vs sale); unknown prices are shown as such
+  const formatPrice = (property: Property): { display: string; label: string } => {
+    if (property.price === null) {
+      return { display: 'Price on request', label: '' }
+    }
+
+    const amount = formatAmount(property.price, property.propertyFor)
+    const display = property.priceMax
+      ? `${amount} - ${formatAmount(property.priceMax, property.propertyFor)}`
+      : amount
+
+    if (property.propertyFor === 'rent') return { display, label: 'per month' }
+    if (property.propertyFor === 'sale') return { display, label: 'Total Price' }
+    return { display, label: '' }
+  }
+
+  const { display: priceDisplay, label: priceLabel } = formatPrice(property)
   return (
     <Card
       className="overflow-hidden hover:shadow-lg transition-shadow duration-300 cursor-pointer"
@@ -126,7 +123,7 @@ export default function ResultCard({ property }: ResultCardProps) {
               <div className="text-2xl font-bold text-gray-900">
                 {priceDisplay}
               </div>
-              <div className="text-xs text-gray-500">{priceLabel}</div>
+              {priceLabel && <div className="text-xs text-gray-500">{priceLabel}</div>}
             </div>
           </div>
 
@@ -136,20 +133,31 @@ export default function ResultCard({ property }: ResultCardProps) {
 
           {/* Property Features */}
           <div className="flex flex-wrap gap-2 mb-4">
-            <Badge variant="secondary" className="flex items-center gap-1">
-              🛏️ {property.bedrooms || 0} Bedrooms
-            </Badge>
-            <Badge variant="secondary" className="flex items-center gap-1">
-              🚿 {property.bathrooms || 0} Bathrooms
-            </Badge>
-            <Badge variant="secondary" className="flex items-center gap-1">
-              📐 {property.area || 0} sq.ft
-            </Badge>
+            {property.bedrooms !== null && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                🛏️ {property.bedrooms} Bedrooms
+              </Badge>
+            )}
+            {property.bathrooms !== null && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                🚿 {property.bathrooms} Bathrooms
+              </Badge>
+            )}
+            {property.area !== null && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                📐 {property.area.toLocaleString('en-IN')} sq.ft
+              </Badge>
+            )}
             {property.source && (
               <Badge variant="outline" className="flex items-center gap-1 capitalize">
                 🌐 {property.source}
               </Badge>
             )}
+            {property.providers?.map(providerId => (
+              <Badge key={providerId} variant="outline" className="flex items-center gap-1">
+                🔎 {providerLabels[providerId] || providerId}
+              </Badge>
+            ))}
           </div>
 
           {/* View Listing Link */}
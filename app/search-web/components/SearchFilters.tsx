@@ -17,6 +17,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { searchProviders, DEFAULT_SEARCH_PROVIDER } from '@/lib/search'
 
 export default function SearchFilters() {
   // 🔗 Next.js hooks for URL navigation (only work in Client Components!)
@@ -28,15 +29,36 @@ export default function SearchFilters() {
   // 📝 Local state for input (controlled component)
   const [query, setQuery] = useState(searchParams.get('query') || '3BHK apartment indiranagar 2500 sqft')
 
-  // 🎯 Auto-set provider to tavily if not set (hidden from UI)
+  // 🎯 Auto-set provider to tavily if not set
   useEffect(() => {
     if (!searchParams.get('provider')) {
       const params = new URLSearchParams(searchParams.toString())
-      params.set('provider', 'tavily')
+      params.set('provider', DEFAULT_SEARCH_PROVIDER)
       router.replace(`${pathname}?${params.toString()}`)
     }
   }, [searchParams, router, pathname])
 
+  // 🔀 Selected providers - a query fans out to all of them
+  const selectedProviders = (searchParams.get('provider') || DEFAULT_SEARCH_PROVIDER)
+    .split(',')
+    .filter(Boolean)
+
+  /**
+   * Toggle a provider in the URL (at least one stays selected)
+   */
+  const toggleProvider = (providerId: string) => {
+    const next = selectedProviders.includes(providerId)
+      ? selectedProviders.filter(id => id !== providerId)
+      : [...selectedProviders, providerId]
+    if (next.length === 0) return
+
+    const params = new URLSearchParams(searchParams.toString())
+    params.set('provider', next.join(','))
+    startTransition(() => {
+      router.push(`${pathname}?${params.toString()}`)
+    })
+  }
+
   // Check if all required fields are present for search
   const canSearch = query.trim().length > 0
 
@@ -96,7 +118,26 @@ export default function SearchFilters() {
         </div>
       </div>
 
-      {/* Provider hidden but set to tavily by default */}
+      {/* Section 2: Providers (tavily by default) */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-700">
+          Search Providers
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {searchProviders.list().map(provider => (
+            <Button
+              key={provider.id}
+              type="button"
+              size="sm"
+              variant={selectedProviders.includes(provider.id) ? 'default' : 'outline'}
+              onClick={() => toggleProvider(provider.id)}
+              disabled={isPending}
+            >
+              {provider.label}
+            </Button>
+          ))}
+        </div>
+      </div>
 
     </Card>
   )
@@ -15,13 +15,14 @@
 import { Card } from '@/components/ui/card'
 import ResultCard from './ResultCard'
 import SearchResultsTabs from './SearchResultsTabs'
-import { QueryOptimizerService } from '@/lib/services'
 import { fetchProperties } from '@/lib/api/property-search'
+import { searchProviders } from '@/lib/search'
+import { forwardedClientHeaders } from '@/lib/server/route-helpers'
 
 interface SearchResultsProps {
   query: string
   sources: string
-  provider: string
+  provider: string // One provider id or a comma-separated list
 }
 
 /**
@@ -30,9 +31,8 @@ interface SearchResultsProps {
  */
 export default async function SearchResults({ query, sources, provider }: SearchResultsProps) {
   const timestamp = new Date().toISOString()
-  console.log(`\n⏰ [${timestamp}] SearchResults component rendered (PYTHON BACKEND)`)
+  console.log(`\n⏰ [${timestamp}] SearchResults component rendered`)
   console.log('📝 Props received:', { query, sources, provider })
-  console.log('🎯 Using: Python Backend (FastAPI + LangChain)')
 
   // Initial empty state - no filters selected yet
   if (!query && !sources && !provider) {
@@ -88,52 +88,68 @@ export default async function SearchResults({ query, sources, provider }: Search
 
   // ✨ This is the magic of Server Components!
   // We can use 'await' directly - no useEffect, no useState needed!
-  let results = await fetchProperties(query, sources || undefined, provider)
-
-  // Determine if we're showing raw JSON or parsed properties
-  const isTavilyRaw = provider === 'tavily'
-
-
-  // For Tavily, optimize the query to show optimized version instead of original
-  let displayQuery = query
-  if (isTavilyRaw && query) {
-    try {
-      const optimizer = new QueryOptimizerService()
-      const optimizedQuery = await optimizer.optimize(query)
-      displayQuery = optimizedQuery
-    } catch (error) {
-      console.warn('Failed to optimize query for display:', error)
-      // Fall back to original query if optimization fails
-    }
-  }
+  // Forward the visitor's IP so the search routes rate limit per visitor, not per server
+  const headers = await forwardedClientHeaders()
+  const { results, outcomes } = await fetchProperties(query, sources || undefined, provider, { headers })
+
+  // Tavily results are listings pages - show them in the per-site tabs
+  const showTabs = outcomes.some(outcome => outcome.provider === 'tavily')
+
+  // Show the optimized query (Tavily rewrites it) instead of the original
+  const displayQuery = outcomes.find(outcome => outcome.effectiveQuery)?.effectiveQuery || query
+  // Structured intent is passed on to the listing page (filters + relevance context)
+  const intent = outcomes.find(outcome => outcome.intent)?.intent ?? null
+
+  const providerLabels = Object.fromEntries(searchProviders.list().map(p => [p.id, p.label]))
+  const failed = outcomes.filter(outcome => outcome.error)
+
+  const failedNotice = failed.length > 0 && (
+    <Card className="bg-amber-50 border border-amber-200 p-4 text-sm text-amber-800">
+      {failed.map(outcome => (
+        <p key={outcome.provider}>
+          ⚠️ {outcome.label} failed: {outcome.error}
+        </p>
+      ))}
+    </Card>
+  )
 
   // No results found (after search)
   if (results.length === 0) {
     return (
-      <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6">
-        <div className="text-center py-12">
-          <div className="text-gray-400 text-5xl mb-4">🏠</div>
-          <h3 className="text-xl font-semibold text-gray-700 mb-2">
-            No properties found
-          </h3>
-          <p className="text-gray-500">
-            {query || provider
-              ? 'Try adjusting your search query or selecting different data sources'
-              : 'Enter a search query and choose a provider to get started'}
-          </p>
-        </div>
-      </Card>
+      <div className="space-y-4">
+        {failedNotice}
+        <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6">
+          <div className="text-center py-12">
+            <div className="text-gray-400 text-5xl mb-4">🏠</div>
+            <h3 className="text-xl font-semibold text-gray-700 mb-2">
+              No properties found
+            </h3>
+            <p className="text-gray-500">
+              {query || provider
+                ? 'Try adjusting your search query or selecting different data sources'
+                : 'Enter a search query and choose a provider to get started'}
+            </p>
+          </div>
+        </Card>
+      </div>
     )
   }
 
   // For Tavily results, use tabs to organize by source
-  if (isTavilyRaw) {
-    return <SearchResultsTabs query={displayQuery} provider={provider} results={results} />
+  if (showTabs) {
+    return (
+      <div className="space-y-4">
+        {failedNotice}
+        <SearchResultsTabs query={displayQuery} intent={intent} providerLabels={providerLabels} results={results} />
+      </div>
+    )
   }
 
   // For other providers, show traditional cards
   return (
     <div className="space-y-6">
+      {failedNotice}
+
       {/* Results header in card */}
       <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6">
         <div className="flex items-center justify-between">
@@ -144,15 +160,15 @@ export default async function SearchResults({ query, sources, provider }: Search
             </p>
           </div>
           <div className="text-xs text-gray-600 bg-gray-100 px-3 py-1.5 rounded-full font-medium">
-            Source: {sources || 'All sources'} | Provider: {provider}
+            Source: {sources || 'All sources'} | Provider: {outcomes.map(outcome => `${outcome.label} (${outcome.count})`).join(', ')}
           </div>
         </div>
       </Card>
 
       {/* Property cards */}
       <div className="grid grid-cols-1 gap-6">
-        {results.map((property: any) => (
-          <ResultCard key={property.id} property={property} />
+        {results.map(property => (
+          <ResultCard key={property.id} property={property} providerLabels={providerLabels} />
         ))}
       </div>
     </div>
@@ -10,23 +10,27 @@
 import { useRouter } from 'next/navigation'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card } from '@/components/ui/card'
+import type { SearchResult } from '@/lib/search'
+import { SearchIntent, serializeSearchIntent } from '@/lib/services/query-optimizer.service'
+import { detectSourceFromUrl } from '@/lib/services/property-scrape.service'
 
 interface SearchResultsTabsProps {
     query: string
-    provider: string
-    results: any[] // All results from backend
+    intent: SearchIntent | null // Pre-populates the listing page filters
+    providerLabels: Record<string, string> // Provider id → display name
+    results: SearchResult[] // Merged results from every provider
 }
 
-export default function SearchResultsTabs({ query, provider, results }: SearchResultsTabsProps) {
+export default function SearchResultsTabs({ query, intent, providerLabels, results }: SearchResultsTabsProps) {
     const router = useRouter()
 
     // Define available sources
     const sources = [
         { value: 'magicbricks', label: 'MagicBricks', status: true },
-        { value: 'housing', label: 'Housing', status: false },
-        { value: '99acres', label: '99acres', status: false },
-        { value: 'nobroker', label: 'NoBroker', status: false },
-        { value: 'commonfloor', label: 'CommonFloor', status: false },
+        { value: 'housing', label: 'Housing', status: true },
+        { value: '99acres', label: '99acres', status: true },
+        { value: 'nobroker', label: 'NoBroker', status: true },
+        { value: 'commonfloor', label: 'CommonFloor', status: true },
         { value: 'squareyards', label: 'SquareYards', status: true },
     ]
 
@@ -37,20 +41,21 @@ export default function SearchResultsTabs({ query, provider, results }: SearchRe
         // Encode the URL for the query parameter
         const encodedUrl = encodeURIComponent(url)
 
-        // Navigate to listing page with URL and original query
-        router.push(`/search-web/listing?url=${encodedUrl}&orig_query=${encodeURIComponent(query)}`)
+        // Navigate to listing page with URL, original query and intent
+        const intentParam = intent ? `&intent=${encodeURIComponent(serializeSearchIntent(intent))}` : ''
+        router.push(`/search-web/listing?url=${encodedUrl}&orig_query=${encodeURIComponent(query)}${intentParam}`)
     }
 
     // Filter results by source
     const filterBySource = (sourceValue: string) => {
-        return results.filter((result: any) => {
+        return results.filter(result => {
             // Normalize both values for comparison
             const resultSource = (result.source || '').toLowerCase().trim()
             const targetSource = sourceValue.toLowerCase().trim()
 
-            // Check if result URL or source matches
+            // Check if result source or URL's site matches
             if (resultSource === targetSource) return true
-            if (result.url && result.url.toLowerCase().includes(targetSource)) return true
+            if (result.url && detectSourceFromUrl(result.url) === targetSource) return true
 
             return false
         })
@@ -101,11 +106,11 @@ export default function SearchResultsTabs({ query, provider, results }: SearchRe
                                 <TabsContent key={source.value} value={source.value} className="mt-6">
                                     {filteredResults.length > 0 ? (
                                         <div className="space-y-4">
-                                            {filteredResults.map((result: any, index: number) => (
+                                            {filteredResults.map((result, index) => (
                                                 <Card
                                                     key={result.url || index}
                                                     className="p-6 hover:shadow-lg transition-shadow cursor-pointer"
-                                                    onClick={() => handleCardClick(result.url)}
+                                                    onClick={() => handleCardClick(result.url || '')}
                                                 >
                                                     <div className="flex items-start justify-between mb-4">
                                                         <h3 className="text-lg font-semibold text-gray-900 flex-1">
@@ -124,6 +129,18 @@ export default function SearchResultsTabs({ query, provider, results }: SearchRe
                                                         </p>
                                                     )}
 
+                                                    {/* Providers that found this result */}
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {result.providers.map(providerId => (
+                                                            <span
+                                                                key={providerId}
+                                                                className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full text-xs font-medium"
+                                                            >
+                                                                {providerLabels[providerId] || providerId}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+
                                                     {/* {result.content && (
                                                     <div className="mb-3">
                                                         <p className="text-sm text-gray-500 uppercase tracking-wide mb-1">CONTENT</p>
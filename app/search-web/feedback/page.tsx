@@ -0,0 +1,174 @@
+/**
+ * Relevance Feedback Page - Client Component
+ * ===========================================
+ *
+ * What users think of the relevance scores on the listing page: vote
+ * totals, the mismatch reasons users most often override (thumbs up even
+ * though the scorer listed the reason as a mismatch) and recent
+ * "wrong because..." notes.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, RefreshCw, ThumbsDown, ThumbsUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+    RelevanceFeedbackService,
+    RelevanceFeedbackSummary,
+    MismatchOverride,
+} from '@/lib/services/relevance-feedback.service'
+import { LoadingState, ErrorState } from '../listing/components/EmptyStates'
+import { safeDecodeURIComponent } from '../listing/utils/property-utils'
+
+/**
+ * Share of votes on a reason that overrode it, as a whole percentage
+ */
+function overrideRate({ overrides, confirmations }: MismatchOverride): number {
+    const votes = overrides + confirmations
+    return votes === 0 ? 0 : Math.round((overrides / votes) * 100)
+}
+
+export default function RelevanceFeedbackPage() {
+    const [summary, setSummary] = useState<RelevanceFeedbackSummary | null>(null)
+    const [error, setError] = useState<Error | null>(null)
+    const [isLoading, setIsLoading] = useState(true)
+    const [queuedCount, setQueuedCount] = useState(0)
+
+    /**
+     * Send anything queued offline first, so the summary includes it
+     */
+    const loadSummary = useCallback(async () => {
+        setIsLoading(true)
+        setError(null)
+        try {
+            await RelevanceFeedbackService.flushQueue()
+            setQueuedCount(RelevanceFeedbackService.getQueue().length)
+            setSummary(await RelevanceFeedbackService.getSummary())
+        } catch (err) {
+            console.error('Error loading feedback summary:', err)
+            setError(err instanceof Error ? err : new Error('Failed to load feedback summary'))
+        } finally {
+            setIsLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadSummary()
+    }, [loadSummary])
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+            <div className="max-w-5xl mx-auto px-4 space-y-6">
+                <div className="flex items-center justify-between">
+                    <Link
+                        href="/search-web"
+                        className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                    >
+                        <ArrowLeft className="w-4 h-4" />
+                        Back to Search
+                    </Link>
+                    <Button variant="outline" size="sm" onClick={loadSummary} disabled={isLoading} className="flex items-center gap-2">
+                        <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+                        Reload
+                    </Button>
+                </div>
+
+                {isLoading && !summary && <LoadingState message="Loading relevance feedback..." />}
+                {error && !summary && <ErrorState error={error} />}
+
+                {summary && (
+                    <>
+                        {/* Totals */}
+                        <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6">
+                            <h2 className="text-xl font-bold text-gray-900">Relevance Feedback</h2>
+                            <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+                                <span className="text-gray-700">{summary.total} votes</span>
+                                <span className="inline-flex items-center gap-1 text-green-700 bg-green-100 px-2 py-0.5 rounded-full font-medium">
+                                    <ThumbsUp className="w-3 h-3" /> {summary.up} relevant
+                                </span>
+                                <span className="inline-flex items-center gap-1 text-red-700 bg-red-100 px-2 py-0.5 rounded-full font-medium">
+                                    <ThumbsDown className="w-3 h-3" /> {summary.down} not relevant
+                                </span>
+                                {queuedCount > 0 && (
+                                    <span className="text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full font-medium">
+                                        {queuedCount} still queued in this browser
+                                    </span>
+                                )}
+                            </div>
+                            {error && <p className="text-xs text-red-600 mt-2">{error.message}</p>}
+                        </Card>
+
+                        {/* Mismatch reasons users override */}
+                        <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6">
+                            <h3 className="text-lg font-semibold text-gray-900">Most overridden mismatch reasons</h3>
+                            <p className="text-xs text-gray-500 mt-1 mb-3">
+                                Overridden: thumbs up although the score listed this mismatch.
+                                Confirmed: thumbs down with this mismatch.
+                            </p>
+                            {summary.mismatch_overrides.length === 0 ? (
+                                <p className="text-sm text-gray-500">No feedback on mismatches yet.</p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Mismatch reason</TableHead>
+                                            <TableHead className="text-right">Overridden</TableHead>
+                                            <TableHead className="text-right">Confirmed</TableHead>
+                                            <TableHead className="text-right">Override rate</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {summary.mismatch_overrides.map(entry => (
+                                            <TableRow key={entry.reason}>
+                                                <TableCell className="text-sm text-gray-800">{entry.reason}</TableCell>
+                                                <TableCell className="text-right text-green-700 font-medium">{entry.overrides}</TableCell>
+                                                <TableCell className="text-right text-red-700">{entry.confirmations}</TableCell>
+                                                <TableCell className="text-right text-gray-700">{overrideRate(entry)}%</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </Card>
+
+                        {/* Recent notes */}
+                        <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6">
+                            <h3 className="text-lg font-semibold text-gray-900 mb-3">Recent notes</h3>
+                            {summary.recent_notes.length === 0 ? (
+                                <p className="text-sm text-gray-500">No notes yet.</p>
+                            ) : (
+                                <ul className="space-y-3">
+                                    {summary.recent_notes.map(note => (
+                                        <li key={`${note.property_url}-${note.created_at}`} className="text-sm border-l-2 pl-3 border-gray-200">
+                                            <div className="flex items-center gap-2">
+                                                {note.vote === 'up'
+                                                    ? <ThumbsUp className="w-3 h-3 text-green-600 flex-shrink-0" />
+                                                    : <ThumbsDown className="w-3 h-3 text-red-600 flex-shrink-0" />}
+                                                <span className="text-gray-800">{note.note}</span>
+                                            </div>
+                                            <p className="text-xs text-gray-500 mt-0.5 truncate">
+                                                {note.orig_query && `"${safeDecodeURIComponent(note.orig_query)}" · `}
+                                                <a
+                                                    href={note.property_url}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="text-indigo-600 hover:underline"
+                                                >
+                                                    {note.property_url}
+                                                </a>
+                                            </p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Card>
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
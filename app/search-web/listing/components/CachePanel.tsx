@@ -0,0 +1,179 @@
+/**
+ * CachePanel Component
+ * ====================
+ *
+ * Scrape cache for the session's URLs: when each was last scraped, how many
+ * properties are cached and the API calls the scrape made, with a button to
+ * refresh in place. RefreshSummary shows what the last refresh changed.
+ *
+ * CONCEPT: Presentational Components
+ * - Everything comes in through props (state lives in useScrapeCache)
+ */
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Database, RefreshCw, X } from 'lucide-react'
+import { detectSourceFromUrl } from '@/lib/services/property-scrape.service'
+import { CacheRefreshDiff, CacheRefreshState, ScrapeCacheEntry } from '../types/listing.types'
+import { SOURCE_LABELS } from '../constants/listing.constants'
+import { safeDecodeURIComponent } from '../utils/property-utils'
+
+interface CachePanelProps {
+    entries: ScrapeCacheEntry[]
+    refreshState: CacheRefreshState
+    onRefresh: () => void
+}
+
+interface RefreshSummaryProps {
+    diff: CacheRefreshDiff
+    onDismiss: () => void
+}
+
+/**
+ * "just now", "5 min ago", "3 h ago", "2 days ago"
+ */
+function formatScrapedAt(iso: string | null): string {
+    if (!iso) return 'unknown'
+    const timestamp = new Date(iso).getTime()
+    if (isNaN(timestamp)) return 'unknown'
+
+    const minutes = Math.floor((Date.now() - timestamp) / 60000)
+    if (minutes < 1) return 'just now'
+    if (minutes < 60) return `${minutes} min ago`
+    const hours = Math.floor(minutes / 60)
+    if (hours < 24) return `${hours} h ago`
+    const days = Math.floor(hours / 24)
+    return `${days} ${days === 1 ? 'day' : 'days'} ago`
+}
+
+/**
+ * Cache button with a per-URL info popover
+ */
+export function CachePanel({ entries, refreshState, onRefresh }: CachePanelProps) {
+    const isBusy = refreshState.phase !== 'idle'
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                    {isBusy ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Database className="w-4 h-4" />}
+                    {refreshState.phase === 'deleting' ? 'Clearing...' : refreshState.phase === 'streaming' ? 'Refreshing...' : 'Cache'}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-96" align="end">
+                <div className="space-y-3">
+                    <h4 className="font-semibold text-sm leading-none border-b pb-2">Scrape cache</h4>
+
+                    {/* One row per URL */}
+                    <ul className="space-y-2">
+                        {entries.map(({ url, info, error }) => (
+                            <li key={url} className="text-xs space-y-0.5">
+                                <div className="flex items-center gap-2 min-w-0">
+                                    <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 flex-shrink-0">
+                                        {SOURCE_LABELS[detectSourceFromUrl(url)]}
+                                    </Badge>
+                                    <span className="text-gray-700 truncate" title={url}>
+                                        {safeDecodeURIComponent(url)}
+                                    </span>
+                                </div>
+                                {error ? (
+                                    <p className="text-red-600">{error}</p>
+                                ) : !info ? (
+                                    <p className="text-gray-400">Loading...</p>
+                                ) : info.cached ? (
+                                    <p className="text-gray-500">
+                                        Scraped {formatScrapedAt(info.scraped_at)} · {info.count} cached
+                                        {info.api_calls_made !== null && ` · ${info.api_calls_made} API calls`}
+                                    </p>
+                                ) : (
+                                    <p className="text-gray-500">Not cached</p>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {/* Refresh in place */}
+                    <div className="pt-2 border-t space-y-2">
+                        <Button
+                            size="sm"
+                            onClick={onRefresh}
+                            disabled={isBusy || entries.length === 0}
+                            className="w-full flex items-center gap-2"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${isBusy ? 'animate-spin' : ''}`} />
+                            {isBusy ? 'Refreshing...' : 'Refresh in place'}
+                        </Button>
+                        <p className="text-xs text-gray-500">
+                            Clears the cache and scrapes again without reloading the page.
+                            New, removed and re-priced properties are highlighted.
+                        </p>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
+
+/**
+ * What the last refresh found, compared with the cached copy
+ */
+export function RefreshSummary({ diff, onDismiss }: RefreshSummaryProps) {
+    const changes = Object.values(diff.changes)
+    const added = changes.filter(change => change.kind === 'new').length
+    const repriced = changes.filter(change => change.kind === 'price_changed').length
+    const removed = diff.removed.length
+    const unchanged = added === 0 && repriced === 0 && removed === 0
+
+    return (
+        <div className="text-xs bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-2 mt-2">
+            <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-800">
+                    {diff.isFinal ? 'Refreshed' : 'Refreshing'} - compared with the cached copy:
+                </span>
+                {unchanged && diff.removalsChecked ? (
+                    <span className="text-gray-600">no changes</span>
+                ) : (
+                    <>
+                        <span className="text-green-700 bg-green-100 px-2 py-0.5 rounded-full font-medium">{added} new</span>
+                        <span className="text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full font-medium">{repriced} price changed</span>
+                        <span className="text-red-700 bg-red-100 px-2 py-0.5 rounded-full font-medium">
+                            {diff.removalsChecked
+                                ? `${removed} removed`
+                                : diff.isFinal ? 'removed not checked - a source failed' : 'checking removed...'}
+                        </span>
+                    </>
+                )}
+                <button
+                    onClick={onDismiss}
+                    className="ml-auto rounded-full p-0.5 text-gray-500 hover:bg-indigo-100 hover:text-gray-900 transition-colors"
+                    aria-label="Dismiss refresh summary"
+                >
+                    <X className="w-3 h-3" />
+                </button>
+            </div>
+
+            {/* Removed properties aren't in the grid any more - list them here */}
+            {removed > 0 && (
+                <details className="mt-1">
+                    <summary className="cursor-pointer text-gray-600">Removed properties</summary>
+                    <ul className="mt-1 space-y-0.5 pl-3">
+                        {diff.removed.map(property => (
+                            <li key={property.property_url} className="text-gray-600 line-through truncate">
+                                <a
+                                    href={property.property_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="hover:text-indigo-700"
+                                >
+                                    {property.title || property.property_url}
+                                </a>
+                                {property.price && ` · ${property.price}`}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,35 @@
+/**
+ * CompactCommonFloorCard - Compact CommonFloor Property Card
+ * ===========================================================
+ *
+ * CommonFloor properties in the shared portal layout, plus project,
+ * floor, transaction type and property age.
+ */
+
+'use client'
+
+import { CommonFloorProperty } from '@/lib/services/property-scrape.service'
+import CompactPortalCard from './CompactPortalCard'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+
+interface CompactCommonFloorCardProps extends RelevanceFeedbackCardProps {
+    property: CommonFloorProperty
+}
+
+export default function CompactCommonFloorCard({ property, ...feedbackProps }: CompactCommonFloorCardProps) {
+    return (
+        <CompactPortalCard
+            property={property}
+            {...feedbackProps}
+            project={property.project_name}
+            highlights={[
+                { icon: '💼', label: 'Transaction', value: property.transaction },
+            ]}
+            details={[
+                { icon: '🏢', label: 'Floor', value: property.floor },
+                { icon: '🏚️', label: 'Property age', value: property.property_age },
+            ]}
+            lister={{ name: property.agent_name }}
+        />
+    )
+}
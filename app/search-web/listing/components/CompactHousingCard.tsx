@@ -0,0 +1,35 @@
+/**
+ * CompactHousingCard - Compact Housing.com Property Card
+ * =======================================================
+ *
+ * Housing.com properties in the shared portal layout, plus project,
+ * builder, possession and amenities.
+ */
+
+'use client'
+
+import { HousingProperty } from '@/lib/services/property-scrape.service'
+import CompactPortalCard from './CompactPortalCard'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+
+interface CompactHousingCardProps extends RelevanceFeedbackCardProps {
+    property: HousingProperty
+}
+
+export default function CompactHousingCard({ property, ...feedbackProps }: CompactHousingCardProps) {
+    return (
+        <CompactPortalCard
+            property={property}
+            {...feedbackProps}
+            project={property.project_name}
+            highlights={[
+                { icon: '📅', label: 'Possession', value: property.possession },
+            ]}
+            details={[
+                { icon: '🏗️', label: 'Builder', value: property.builder_name },
+                { icon: '✨', label: 'Amenities', value: property.amenities?.join(', ') },
+            ]}
+            lister={{ name: property.agent_name }}
+        />
+    )
+}
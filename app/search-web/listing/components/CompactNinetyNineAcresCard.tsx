@@ -0,0 +1,37 @@
+/**
+ * CompactNinetyNineAcresCard - Compact 99acres Property Card
+ * ===========================================================
+ *
+ * 99acres properties in the shared portal layout, plus possession,
+ * area type, RERA id and the dealer/owner who posted them.
+ */
+
+'use client'
+
+import { NinetyNineAcresProperty } from '@/lib/services/property-scrape.service'
+import CompactPortalCard from './CompactPortalCard'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+
+interface CompactNinetyNineAcresCardProps extends RelevanceFeedbackCardProps {
+    property: NinetyNineAcresProperty
+}
+
+export default function CompactNinetyNineAcresCard({ property, ...feedbackProps }: CompactNinetyNineAcresCardProps) {
+    return (
+        <CompactPortalCard
+            property={property}
+            {...feedbackProps}
+            highlights={[
+                { icon: '📅', label: 'Possession', value: property.possession },
+            ]}
+            details={[
+                { icon: '📐', label: 'Area type', value: property.area_type },
+                { icon: '📝', label: 'RERA', value: property.rera_id },
+            ]}
+            lister={{
+                name: property.dealer_name,
+                note: property.posted_by ? `Posted by ${property.posted_by}` : undefined,
+            }}
+        />
+    )
+}
@@ -0,0 +1,37 @@
+/**
+ * CompactNoBrokerCard - Compact NoBroker Property Card
+ * =====================================================
+ *
+ * NoBroker properties in the shared portal layout. NoBroker is mostly
+ * owner-listed rentals, so deposit, maintenance and tenant preferences
+ * are up front.
+ */
+
+'use client'
+
+import { NoBrokerProperty } from '@/lib/services/property-scrape.service'
+import CompactPortalCard from './CompactPortalCard'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+
+interface CompactNoBrokerCardProps extends RelevanceFeedbackCardProps {
+    property: NoBrokerProperty
+}
+
+export default function CompactNoBrokerCard({ property, ...feedbackProps }: CompactNoBrokerCardProps) {
+    return (
+        <CompactPortalCard
+            property={property}
+            {...feedbackProps}
+            highlights={[
+                { icon: '💰', label: 'Deposit', value: property.deposit && `Deposit ${property.deposit}` },
+                { icon: '👪', label: 'Preferred tenants', value: property.preferred_tenants },
+            ]}
+            details={[
+                { icon: '🧾', label: 'Maintenance', value: property.maintenance },
+                { icon: '📅', label: 'Available from', value: property.available_from },
+                { icon: '🏚️', label: 'Property age', value: property.property_age },
+            ]}
+            lister={{ name: property.owner_name, note: property.owner_name ? 'Owner' : undefined }}
+        />
+    )
+}
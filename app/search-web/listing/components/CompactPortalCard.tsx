@@ -0,0 +1,285 @@
+/**
+ * CompactPortalCard - Compact Card for 99acres, Housing, NoBroker and CommonFloor
+ * ================================================================================
+ *
+ * These portals return the same core fields (PortalPropertyBase), so they
+ * share one layout. Each portal's card (CompactNinetyNineAcresCard etc.)
+ * passes in its own extra fields as highlights, details and the lister.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Card } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Info, ExternalLink, ChevronDown, ChevronUp, User, Building2 } from 'lucide-react'
+import { PortalPropertyBase } from '@/lib/services/property-scrape.service'
+import { RelevanceFeedback } from './RelevanceFeedback'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+
+/**
+ * One labelled portal-specific value - skipped when the value is missing
+ */
+export interface PortalCardDetail {
+    icon: string
+    label: string
+    value?: string
+}
+
+interface CompactPortalCardProps extends RelevanceFeedbackCardProps {
+    property: PortalPropertyBase
+
+    /** Project or society name, shown under the title */
+    project?: string
+
+    /** Key facts shown as badges next to area and BHK */
+    highlights?: PortalCardDetail[]
+
+    /** Extra facts in the expanded section */
+    details?: PortalCardDetail[]
+
+    /** Who listed the property (agent, dealer or owner) */
+    lister?: { name?: string; note?: string }
+}
+
+/**
+ * Get badge color based on relevance score
+ */
+function getRelevanceBadgeColor(score?: number): string {
+    if (score === undefined || score === null) return 'bg-gray-100 text-gray-700'
+    const normalizedScore = Math.max(0, Math.min(10, score))
+
+    if (normalizedScore >= 8) return 'bg-green-500 text-white'
+    if (normalizedScore >= 6) return 'bg-green-400 text-white'
+    if (normalizedScore >= 4) return 'bg-yellow-400 text-yellow-900'
+    if (normalizedScore >= 2) return 'bg-orange-100 text-orange-800'
+    return 'bg-red-100 text-red-800'
+}
+
+/**
+ * Details that actually have a value
+ */
+function present(details: PortalCardDetail[] = []): PortalCardDetail[] {
+    return details.filter(detail => detail.value && detail.value.trim())
+}
+
+export default function CompactPortalCard({ property, project, highlights, details, lister, feedback, onFeedback }: CompactPortalCardProps) {
+    const [isExpanded, setIsExpanded] = useState(false)
+    const relevanceColor = getRelevanceBadgeColor(property.relevance_score)
+
+    // BHK from the bedrooms field, else from the title
+    const bhkMatch = (property.bedrooms || property.title).match(/(\d+)\s*BHK/i)
+    const bhk = bhkMatch ? bhkMatch[1] + ' BHK' : property.bedrooms || ''
+
+    const shownHighlights = present(highlights)
+    const shownDetails = present([
+        { icon: '🪑', label: 'Furnishing', value: property.furnishing },
+        ...(details ?? []),
+    ])
+    const matches = property.matches || []
+    const mismatches = property.mismatches || []
+
+    return (
+        <Card className="overflow-hidden hover:shadow-md transition-all duration-200 border border-gray-200 hover:border-indigo-300">
+            <div className="p-3 space-y-2">
+                {/* Posted Date - Top Left */}
+                {property.posted_date && (
+                    <p className="text-xs text-gray-500 mb-1">
+                        Posted: {property.posted_date}
+                    </p>
+                )}
+
+                {/* Header: Title and Price */}
+                <div className="space-y-1">
+                    <h3 className="text-sm font-semibold text-gray-900 line-clamp-2">
+                        {property.title || 'No title'}
+                    </h3>
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm font-bold text-gray-900">
+                            {property.price || 'N/A'}
+                        </div>
+                        {property.price_per_sqft && (
+                            <span className="text-xs text-gray-500">{property.price_per_sqft}</span>
+                        )}
+                    </div>
+                </div>
+
+                {/* Location and Project */}
+                {property.location && (
+                    <p className="text-xs text-gray-600 line-clamp-1">
+                        📍 {property.location}
+                    </p>
+                )}
+                {project && (
+                    <div className="flex items-center gap-1.5">
+                        <Building2 className="w-3 h-3 text-gray-500" />
+                        <span className="text-xs text-gray-600">{project}</span>
+                    </div>
+                )}
+
+                {/* Key Features - Always Visible */}
+                <div className="flex flex-wrap gap-1">
+                    {property.area && (
+                        <Badge variant="secondary" className="text-xs px-1.5 py-0 h-5">
+                            📐 {property.area}
+                        </Badge>
+                    )}
+                    {bhk && (
+                        <Badge variant="secondary" className="text-xs px-1.5 py-0 h-5">
+                            🛏️ {bhk}
+                            {property.bathrooms && ` · ${property.bathrooms} Bath`}
+                        </Badge>
+                    )}
+                    {property.facing && (
+                        <Badge variant="outline" className="text-xs px-1.5 py-0 h-5">
+                            🧭 {property.facing}
+                        </Badge>
+                    )}
+                    {shownHighlights.map(highlight => (
+                        <Badge
+                            key={highlight.label}
+                            variant="outline"
+                            className="text-xs px-1.5 py-0 h-5"
+                            title={highlight.label}
+                        >
+                            {highlight.icon} {highlight.value}
+                        </Badge>
+                    ))}
+                </div>
+
+                {/* Expanded Details */}
+                {isExpanded && (
+                    <div className="space-y-2 pt-2 border-t border-gray-200">
+                        {/* Description */}
+                        <p className="text-xs text-gray-700 leading-relaxed">
+                            {property.description || 'No description'}
+                        </p>
+
+                        {/* Portal-specific Features */}
+                        {shownDetails.length > 0 && (
+                            <div className="grid grid-cols-2 gap-2 text-xs">
+                                {shownDetails.map(detail => (
+                                    <div key={detail.label} className="flex items-center gap-1.5" title={detail.label}>
+                                        <span>{detail.icon}</span>
+                                        <span className="text-gray-600">{detail.value}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Lister Info */}
+                        {lister?.name && (
+                            <div className="pt-2 border-t border-gray-100">
+                                <div className="flex items-center gap-2 text-xs text-gray-700">
+                                    <User className="w-3 h-3" />
+                                    <span className="font-medium">{lister.name}</span>
+                                </div>
+                                {lister.note && (
+                                    <p className="text-xs text-gray-500 ml-5">{lister.note}</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Bottom Actions */}
+                <div className="flex items-center justify-between pt-1">
+                    <div className="flex items-center gap-1.5">
+                        {property.relevance_score !== undefined && (
+                            <>
+                                <Badge className={`text-xs px-2 py-0 h-5 font-semibold ${relevanceColor}`}>
+                                    {property.relevance_score}/10
+                                </Badge>
+                                {(property.relevance_reason || matches.length > 0 || mismatches.length > 0) && (
+                                    <Popover>
+                                        <PopoverTrigger asChild>
+                                            <button
+                                                className="inline-flex items-center justify-center rounded-full p-0.5 hover:bg-gray-100 transition-colors"
+                                                aria-label="View relevance reason"
+                                            >
+                                                <Info className="h-3 w-3 text-gray-500" />
+                                            </button>
+                                        </PopoverTrigger>
+                                        <PopoverContent className="w-96" align="start">
+                                            <div className="space-y-3">
+                                                <h4 className="font-semibold text-sm leading-none border-b pb-2">
+                                                    Relevance Score: {property.relevance_score}/10
+                                                </h4>
+                                                {matches.length > 0 && (
+                                                    <div className="space-y-2">
+                                                        <p className="text-xs font-semibold text-green-700 uppercase tracking-wide">Matches</p>
+                                                        <ul className="space-y-1 pl-3 border-l-2 border-green-200">
+                                                            {matches.map((match, idx) => (
+                                                                <li key={idx} className="text-sm text-gray-700 leading-relaxed">
+                                                                    • {match}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    </div>
+                                                )}
+                                                {mismatches.length > 0 && (
+                                                    <div className="space-y-2">
+                                                        <p className="text-xs font-semibold text-red-700 uppercase tracking-wide">Mismatches</p>
+                                                        <ul className="space-y-1 pl-3 border-l-2 border-red-200">
+                                                            {mismatches.map((mismatch, idx) => (
+                                                                <li key={idx} className="text-sm text-gray-700 leading-relaxed">
+                                                                    • {mismatch}
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    </div>
+                                                )}
+                                                {property.relevance_reason && (
+                                                    <p className="text-sm text-muted-foreground leading-relaxed">
+                                                        {property.relevance_reason}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </PopoverContent>
+                                    </Popover>
+                                )}
+                                <RelevanceFeedback feedback={feedback} onFeedback={onFeedback} />
+                            </>
+                        )}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        {/* Expand/Collapse Button */}
+                        <button
+                            onClick={() => setIsExpanded(!isExpanded)}
+                            className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 transition-colors"
+                            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+                        >
+                            {isExpanded ? (
+                                <>
+                                    <ChevronUp className="w-3 h-3" />
+                                    <span>Less</span>
+                                </>
+                            ) : (
+                                <>
+                                    <ChevronDown className="w-3 h-3" />
+                                    <span>More</span>
+                                </>
+                            )}
+                        </button>
+
+                        {/* View Link */}
+                        {property.property_url && (
+                            <a
+                                href={property.property_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700 transition-colors"
+                                onClick={(e) => e.stopPropagation()}
+                            >
+                                View
+                                <ExternalLink className="w-3 h-3" />
+                            </a>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </Card>
+    )
+}
@@ -15,8 +15,11 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import Image from 'next/image'
 import { Info, ExternalLink, ChevronDown, ChevronUp, User, Star } from 'lucide-react'
 import { SquareYardsProperty } from '@/lib/services/property-scrape.service'
+import { RelevanceFeedback } from './RelevanceFeedback'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+import { getMatchesAndMismatches } from '../utils/property-utils'
 
-interface CompactPropertyCardProps {
+interface CompactPropertyCardProps extends RelevanceFeedbackCardProps {
     property: SquareYardsProperty
 }
 
@@ -34,47 +37,7 @@ function getRelevanceBadgeColor(score?: number): string {
     return 'bg-red-100 text-red-800'
 }
 
-/**
- * Parse relevance reason into matches and mismatches (for backward compatibility)
- */
-function parseRelevanceReason(reason: string): { matches: string; mismatches: string } {
-    const matchesPattern = /Matches?:\s*([^.]*(?:\.[^M]*?)*?)(?=Mismatch|$)/i
-    const mismatchesPattern = /Mismatches?:\s*([^.]*(?:\.[^M]*?)*?)$/i
-
-    const matchesMatch = reason.match(matchesPattern)
-    const mismatchesMatch = reason.match(mismatchesPattern)
-
-    return {
-        matches: matchesMatch ? matchesMatch[1].trim() : '',
-        mismatches: mismatchesMatch ? mismatchesMatch[1].trim() : reason
-    }
-}
-
-/**
- * Get matches and mismatches from property (uses arrays if available, fallback to parsing)
- */
-function getMatchesAndMismatches(property: SquareYardsProperty): { matches: string[]; mismatches: string[] } {
-    // If new format with arrays, use them directly
-    if (property.matches || property.mismatches) {
-        return {
-            matches: property.matches || [],
-            mismatches: property.mismatches || []
-        }
-    }
-
-    // Fallback to parsing relevance_reason (old format)
-    if (property.relevance_reason) {
-        const parsed = parseRelevanceReason(property.relevance_reason)
-        return {
-            matches: parsed.matches ? [parsed.matches] : [],
-            mismatches: parsed.mismatches ? [parsed.mismatches] : []
-        }
-    }
-
-    return { matches: [], mismatches: [] }
-}
-
-export default function CompactPropertyCard({ property }: CompactPropertyCardProps) {
+export default function CompactPropertyCard({ property, feedback, onFeedback }: CompactPropertyCardProps) {
     const [isExpanded, setIsExpanded] = useState(false)
     const relevanceColor = getRelevanceBadgeColor(property.relevance_score)
 
@@ -357,6 +320,7 @@ export default function CompactPropertyCard({ property }: CompactPropertyCardPro
                                             </PopoverContent>
                                         </Popover>
                                     )}
+                                    <RelevanceFeedback feedback={feedback} onFeedback={onFeedback} />
                                 </>
                             )}
                         </div>
@@ -0,0 +1,90 @@
+/**
+ * DuplicateCluster Component
+ * ==========================
+ *
+ * Footer for a card that stands for several postings of the same flat:
+ * "3 listings from 2 agents" and the price spread, expanding to the
+ * individual postings.
+ *
+ * CONCEPT: Presentational Components
+ * - The cluster comes in through props (built in usePropertyFilters)
+ * - Only expanded/collapsed is local state
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, ChevronUp, Copy, ExternalLink } from 'lucide-react'
+import { MagicBricksProperty } from '@/lib/services/property-scrape.service'
+import { PropertyCluster } from '../types/listing.types'
+import { formatRupees, getPropertyPrice } from '../utils/property-utils'
+
+interface DuplicateClusterProps {
+    cluster: PropertyCluster
+}
+
+/**
+ * "₹1.2 Cr - ₹1.3 Cr (8% spread)", or one price when they're all the same
+ */
+function describePriceRange(range: PropertyCluster['priceRange']): string | null {
+    if (!range) return null
+    if (range.min === range.max) return formatRupees(range.min)
+    const spread = Math.round(((range.max - range.min) / range.min) * 100)
+    return `${formatRupees(range.min)} - ${formatRupees(range.max)} (${spread}% spread)`
+}
+
+export function DuplicateCluster({ cluster }: DuplicateClusterProps) {
+    const [isExpanded, setIsExpanded] = useState(false)
+    const { listings, agents } = cluster
+    const priceRange = describePriceRange(cluster.priceRange)
+
+    return (
+        <div className="border border-t-0 border-indigo-100 bg-indigo-50/60 rounded-b-lg px-3 py-2 -mt-1 text-xs">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center gap-2 text-left text-indigo-800 hover:text-indigo-950"
+                aria-expanded={isExpanded}
+            >
+                <Copy className="w-3 h-3 flex-shrink-0" />
+                <span className="font-medium">
+                    {listings.length} listings
+                    {agents.length > 0 && ` from ${agents.length} ${agents.length === 1 ? 'agent' : 'agents'}`}
+                </span>
+                {priceRange && <span className="text-gray-600 truncate">· {priceRange}</span>}
+                {isExpanded ? <ChevronUp className="w-3 h-3 ml-auto flex-shrink-0" /> : <ChevronDown className="w-3 h-3 ml-auto flex-shrink-0" />}
+            </button>
+
+            {/* Individual postings, cheapest first */}
+            {isExpanded && (
+                <ul className="mt-2 space-y-1.5">
+                    {[...listings]
+                        .sort((a, b) => (getPropertyPrice(a) ?? Infinity) - (getPropertyPrice(b) ?? Infinity))
+                        .map(listing => {
+                            const posting = listing as MagicBricksProperty
+                            return (
+                                <li key={listing.property_url} className="flex items-start gap-2 min-w-0">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-gray-800 truncate" title={listing.title}>{listing.title}</p>
+                                        <p className="text-gray-500 truncate">
+                                            {posting.agent_name || 'Unknown agent'}
+                                            {posting.posted_date && ` · ${posting.posted_date.replace(/^Posted:\s*/i, '')}`}
+                                        </p>
+                                    </div>
+                                    <span className="font-semibold text-gray-900 flex-shrink-0">{listing.price || '—'}</span>
+                                    <a
+                                        href={listing.property_url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-indigo-600 hover:text-indigo-700 flex-shrink-0 pt-0.5"
+                                        aria-label="View posting"
+                                    >
+                                        <ExternalLink className="w-3 h-3" />
+                                    </a>
+                                </li>
+                            )
+                        })}
+                </ul>
+            )}
+        </div>
+    )
+}
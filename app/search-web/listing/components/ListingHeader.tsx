@@ -2,7 +2,8 @@
  * ListingHeader Component
  * =======================
  * 
- * Displays title, property count, URL, and cache reset button.
+ * Displays title, property count, the scraped URLs with per-stream progress
+ * and connection status, the export menu and the scrape cache panel.
  * 
  * CONCEPT: Container Component with Props
  * - Receives all data via props
@@ -11,10 +12,113 @@
  * - Easy to reuse (works with any data shape matching props interface)
  */
 
+import { useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { Trash2 } from 'lucide-react'
-import { ListingHeaderProps } from '../types/listing.types'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import Link from 'next/link'
+import { Download, FileSpreadsheet, FileText, Printer, ThumbsUp, WifiOff } from 'lucide-react'
+import { ExportFormat, ListingHeaderProps, PropertyStreamState } from '../types/listing.types'
 import { safeDecodeURIComponent } from '../utils/property-utils'
+import { STREAM_MAX_RECONNECT_ATTEMPTS, SOURCE_LABELS } from '../constants/listing.constants'
+import { CachePanel, RefreshSummary } from './CachePanel'
+
+/**
+ * Status line for one stream (loading, reconnecting, done or failed)
+ */
+function StreamStatus({ stream }: { stream: PropertyStreamState }) {
+    const { connection } = stream
+
+    // Stream Error - the other streams and the properties received are kept
+    if (stream.error) {
+        return (
+            <span className="text-red-600 bg-red-100 px-2 py-0.5 rounded-full font-medium">
+                {stream.error.message}
+            </span>
+        )
+    }
+
+    // Reconnect Badge - the stream dropped, properties so far are kept
+    if (connection.status === 'reconnecting') {
+        return (
+            <span className="inline-flex items-center gap-1 text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full font-medium">
+                <WifiOff className="w-3 h-3" />
+                Connection lost - reconnecting
+                {connection.retryDelayMs !== null && ` in ${Math.round(connection.retryDelayMs / 1000)}s`}
+                {' '}(attempt {connection.attempt} of {STREAM_MAX_RECONNECT_ATTEMPTS})
+            </span>
+        )
+    }
+
+    // Loading Badge
+    if (stream.isLoading) {
+        return (
+            <span className="text-gray-600 bg-indigo-100 px-2 py-0.5 rounded-full font-medium">
+                {connection.status === 'open' && connection.attempt > 0 ? 'Reconnected, resuming...' : 'Loading...'}
+            </span>
+        )
+    }
+
+    return (
+        <span className="text-green-700 bg-green-100 px-2 py-0.5 rounded-full font-medium">
+            Done
+        </span>
+    )
+}
+
+/**
+ * Export formats offered in the menu
+ */
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; hint: string; icon: typeof FileText }[] = [
+    { format: 'csv', label: 'CSV', hint: 'Any spreadsheet or script', icon: FileText },
+    { format: 'xlsx', label: 'Excel (.xlsx)', hint: 'Opens with a bold, frozen header', icon: FileSpreadsheet },
+    { format: 'pdf', label: 'PDF summary', hint: 'Print or save as PDF', icon: Printer },
+]
+
+/**
+ * Export button with a format menu
+ * Owns only its open/closed state - the export itself happens in the page
+ */
+function ExportMenu({ count, onExport }: { count: number; onExport: (format: ExportFormat) => void }) {
+    const [isOpen, setIsOpen] = useState(false)
+
+    return (
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={count === 0}
+                    className="flex items-center gap-2"
+                >
+                    <Download className="w-4 h-4" />
+                    Export
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-2" align="end">
+                <p className="text-xs text-gray-500 px-2 pb-2 border-b mb-1">
+                    {count} {count === 1 ? 'property' : 'properties'} as currently filtered and grouped
+                </p>
+                {EXPORT_OPTIONS.map(({ format, label, hint, icon: Icon }) => (
+                    <button
+                        key={format}
+                        onClick={() => {
+                            setIsOpen(false)
+                            onExport(format)
+                        }}
+                        className="w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left hover:bg-gray-100 transition-colors"
+                    >
+                        <Icon className="w-4 h-4 mt-0.5 text-gray-500" />
+                        <span>
+                            <span className="block text-sm font-medium text-gray-900">{label}</span>
+                            <span className="block text-xs text-gray-500">{hint}</span>
+                        </span>
+                    </button>
+                ))}
+            </PopoverContent>
+        </Popover>
+    )
+}
 
 /**
  * ListingHeader Component
@@ -22,16 +126,24 @@ import { safeDecodeURIComponent } from '../utils/property-utils'
  * @param props - See ListingHeaderProps interface for details
  */
 export function ListingHeader({
-    url,
+    streams,
     origQuery,
     propertyCount,
     isLoading,
-    cacheState,
-    onResetCache,
+    cacheEntries,
+    refreshState,
+    refreshDiff,
+    onRefresh,
+    onDismissRefreshDiff,
+    exportCount,
+    exportError,
+    onExport,
+    queuedFeedbackCount,
 }: ListingHeaderProps) {
-    // Decode URL and query for display
-    const displayUrl = url ? safeDecodeURIComponent(url) : ''
+    // Decode query for display
     const displayQuery = origQuery ? safeDecodeURIComponent(origQuery) : ''
+    // Single-URL sessions keep the compact layout (no per-stream counts)
+    const isMultiSource = streams.length > 1
 
     return (
         <div className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-6 mb-4 rounded-lg">
@@ -50,6 +162,7 @@ export function ListingHeader({
                                 <p className="text-sm text-gray-500 mt-1 break-words line-clamp-2">
                                     Found {propertyCount}{' '}
                                     {propertyCount === 1 ? 'property' : 'properties'} matching "{displayQuery}"
+                                    {isMultiSource && ` across ${streams.length} sources`}
                                 </p>
                             ) : (
                                 <p className="text-sm text-gray-600 mt-1 break-words line-clamp-2">
@@ -57,54 +170,88 @@ export function ListingHeader({
                                 </p>
                             )}
 
-                            {/* URL Display - Line 2 (single line) */}
-                            {displayUrl && (
-                                <p className="text-xs text-gray-500 mt-1 break-all line-clamp-1">
-                                    <a
-                                        href={displayUrl}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-indigo-600 hover:text-indigo-700 hover:underline cursor-pointer"
-                                    >
-                                        {displayUrl}
-                                    </a>
-                                </p>
-                            )}
+                            {/* Streams - one line per URL with its source, progress and status */}
+                            <ul className="mt-1 space-y-1">
+                                {streams.map(stream => {
+                                    const displayUrl = safeDecodeURIComponent(stream.url)
+                                    return (
+                                        <li key={stream.url} className="flex items-center gap-2 text-xs text-gray-500 min-w-0">
+                                            {isMultiSource && (
+                                                <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 flex-shrink-0">
+                                                    {SOURCE_LABELS[stream.source]}
+                                                </Badge>
+                                            )}
+                                            <a
+                                                href={displayUrl}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="text-indigo-600 hover:text-indigo-700 hover:underline cursor-pointer truncate"
+                                            >
+                                                {displayUrl}
+                                            </a>
+                                            {isMultiSource && (
+                                                <span className="flex-shrink-0">
+                                                    {stream.count} {stream.count === 1 ? 'property' : 'properties'}
+                                                    {stream.duplicates > 0 && ` (+${stream.duplicates} duplicate${stream.duplicates === 1 ? '' : 's'})`}
+                                                </span>
+                                            )}
+                                            {(isMultiSource || stream.isLoading || stream.error || stream.connection.status === 'reconnecting') && (
+                                                <span className="flex-shrink-0">
+                                                    <StreamStatus stream={stream} />
+                                                </span>
+                                            )}
+                                        </li>
+                                    )
+                                })}
+                            </ul>
 
-                            {/* Loading Badge */}
-                            {isLoading && (
+                            {/* Overall Loading Badge */}
+                            {isMultiSource && isLoading && (
                                 <div className="text-xs text-gray-600 bg-indigo-100 px-3 py-1.5 rounded-full font-medium mt-2">
-                                    Loading...
+                                    Loading {streams.filter(stream => stream.isLoading).length} of {streams.length} sources...
                                 </div>
                             )}
 
-                            {/* Success Message */}
-                            {cacheState.success && (
-                                <div className="text-xs text-green-600 bg-green-100 px-3 py-1.5 rounded-full font-medium mt-2">
-                                    Cache reset successfully, reloading...
-                                </div>
+                            {/* Refresh Summary - new, re-priced and removed vs the cached copy */}
+                            {refreshDiff && (
+                                <RefreshSummary diff={refreshDiff} onDismiss={onDismissRefreshDiff} />
                             )}
 
                             {/* Error Message */}
-                            {cacheState.error && (
+                            {refreshState.error && (
                                 <div className="text-xs text-red-600 bg-red-100 px-3 py-1.5 rounded-full font-medium mt-2">
-                                    {cacheState.error}
+                                    {refreshState.error}
+                                </div>
+                            )}
+
+                            {/* Export Error */}
+                            {exportError && (
+                                <div className="text-xs text-red-600 bg-red-100 px-3 py-1.5 rounded-full font-medium mt-2">
+                                    {exportError}
+                                </div>
+                            )}
+
+                            {/* Relevance feedback given offline */}
+                            {queuedFeedbackCount > 0 && (
+                                <div className="text-xs text-amber-700 bg-amber-100 px-3 py-1.5 rounded-full font-medium mt-2 inline-flex items-center gap-1">
+                                    <WifiOff className="w-3 h-3" />
+                                    {queuedFeedbackCount} feedback {queuedFeedbackCount === 1 ? 'vote' : 'votes'} saved offline - sent when back online
                                 </div>
                             )}
                         </div>
 
-                        {/* Right Side: Reset Cache Button */}
-                        {displayUrl && (
-                            <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={onResetCache}
-                                disabled={cacheState.isDeleting}
-                                className="flex items-center gap-2 text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
-                            >
-                                <Trash2 className="w-4 h-4" />
-                                {cacheState.isDeleting ? 'Resetting...' : 'Reset Cache'}
-                            </Button>
+                        {/* Right Side: Feedback summary, Export Menu and Cache Panel (refreshes every URL in the session) */}
+                        {streams.length > 0 && (
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <Button variant="ghost" size="sm" asChild>
+                                    <Link href="/search-web/feedback" className="flex items-center gap-2">
+                                        <ThumbsUp className="w-4 h-4" />
+                                        Feedback
+                                    </Link>
+                                </Button>
+                                <ExportMenu count={exportCount} onExport={onExport} />
+                                <CachePanel entries={cacheEntries} refreshState={refreshState} onRefresh={onRefresh} />
+                            </div>
                         )}
                     </div>
                 </div>
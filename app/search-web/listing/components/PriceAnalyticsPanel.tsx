@@ -0,0 +1,175 @@
+/**
+ * PriceAnalyticsPanel Component
+ * =============================
+ *
+ * Strip above the grid once a scrape finishes: how prices and prices per
+ * sqft are spread (histograms with the median marked), quartiles per BHK
+ * and how many listings are priced well above or below their median.
+ * Clicking a price bar narrows the cost filter to it.
+ *
+ * CONCEPT: Presentational Components
+ * - Analytics come in through props (computed in usePriceAnalytics)
+ * - Bars are plain divs - heights are a share of the tallest bar
+ */
+
+import { Card } from '@/components/ui/card'
+import { BarChart3, TrendingDown, TrendingUp } from 'lucide-react'
+import { HistogramBin, PriceAnalytics, RangeFilter } from '../types/listing.types'
+import { formatRupees } from '../utils/property-utils'
+import { COST_RANGE_STEP, PRICE_OUTLIER_THRESHOLD, RUPEES_PER_CRORE } from '../constants/listing.constants'
+
+interface PriceAnalyticsPanelProps {
+    analytics: PriceAnalytics
+
+    /** Narrow the cost filter to a price bar (range in crores) */
+    onCostRangeSelect: (range: RangeFilter) => void
+}
+
+interface HistogramProps {
+    title: string
+    bins: HistogramBin[]
+    median: number | null
+    format: (value: number) => string
+    onSelect?: (bin: HistogramBin) => void
+}
+
+const formatPerSqft = (value: number) => `${formatRupees(value)}/sqft`
+
+/**
+ * Bars for the bins, with a line at the median
+ */
+function Histogram({ title, bins, median, format, onSelect }: HistogramProps) {
+    if (bins.length === 0) return null
+
+    const tallest = Math.max(...bins.map(bin => bin.count), 1)
+    const min = bins[0].from
+    const max = bins[bins.length - 1].to
+    const medianOffset = median !== null && max > min ? ((median - min) / (max - min)) * 100 : null
+
+    return (
+        <div className="min-w-0">
+            <div className="flex items-baseline justify-between gap-2 mb-1">
+                <h4 className="text-xs font-semibold text-gray-700">{title}</h4>
+                {median !== null && <span className="text-[11px] text-gray-500 truncate">median {format(median)}</span>}
+            </div>
+            <div className="relative flex items-end gap-px h-16 border-b border-gray-200">
+                {bins.map(bin => {
+                    const label = `${format(bin.from)} - ${format(bin.to)}: ${bin.count} ${bin.count === 1 ? 'listing' : 'listings'}`
+                    const height = `${(bin.count / tallest) * 100}%`
+                    return onSelect && bin.count > 0 ? (
+                        <button
+                            key={bin.from}
+                            onClick={() => onSelect(bin)}
+                            className="flex-1 bg-indigo-400 hover:bg-indigo-600 rounded-t-sm transition-colors"
+                            style={{ height }}
+                            title={`${label} - click to filter`}
+                            aria-label={label}
+                        />
+                    ) : (
+                        <div
+                            key={bin.from}
+                            className="flex-1 bg-indigo-300 rounded-t-sm"
+                            style={{ height }}
+                            title={label}
+                        />
+                    )
+                })}
+                {medianOffset !== null && (
+                    <div
+                        className="absolute inset-y-0 border-l-2 border-dashed border-gray-800 pointer-events-none"
+                        style={{ left: `${medianOffset}%` }}
+                    />
+                )}
+            </div>
+            <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+                <span>{format(min)}</span>
+                <span>{format(max)}</span>
+            </div>
+        </div>
+    )
+}
+
+export function PriceAnalyticsPanel({ analytics, onCostRangeSelect }: PriceAnalyticsPanelProps) {
+    const { overall, byBhk, flagged } = analytics
+    const threshold = Math.round(PRICE_OUTLIER_THRESHOLD * 100)
+
+    /**
+     * Cost filter to a bar's range, widened to the slider's steps
+     */
+    const selectPriceBin = (bin: HistogramBin) => {
+        const toStep = (rupees: number, round: (value: number) => number) =>
+            Number((round(rupees / RUPEES_PER_CRORE / COST_RANGE_STEP) * COST_RANGE_STEP).toFixed(1))
+        onCostRangeSelect([toStep(bin.from, Math.floor), toStep(bin.to, Math.ceil)])
+    }
+
+    return (
+        <Card className="bg-white/95 backdrop-blur-xl shadow-md border border-white/20 p-4 space-y-4">
+            {/* Summary */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <BarChart3 className="w-4 h-4 text-indigo-600" />
+                <span className="font-semibold text-gray-900">Price analytics</span>
+                <span className="text-gray-500">{analytics.count} sale listings</span>
+                {flagged.above > 0 && (
+                    <span className="inline-flex items-center gap-1 text-xs text-red-700 bg-red-100 px-2 py-0.5 rounded-full font-medium">
+                        <TrendingUp className="w-3 h-3" /> {flagged.above} over {threshold}% above median
+                    </span>
+                )}
+                {flagged.below > 0 && (
+                    <span className="inline-flex items-center gap-1 text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full font-medium">
+                        <TrendingDown className="w-3 h-3" /> {flagged.below} over {threshold}% below median
+                    </span>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Histogram
+                    title="Price"
+                    bins={analytics.priceHistogram}
+                    median={overall.price?.median ?? null}
+                    format={formatRupees}
+                    onSelect={selectPriceBin}
+                />
+                <Histogram
+                    title="Price per sqft"
+                    bins={analytics.pricePerSqftHistogram}
+                    median={overall.pricePerSqft?.median ?? null}
+                    format={formatPerSqft}
+                />
+
+                {/* Quartiles per BHK */}
+                <div className="min-w-0 overflow-x-auto">
+                    <h4 className="text-xs font-semibold text-gray-700 mb-1">By configuration (p25 / median / p75)</h4>
+                    <table className="w-full text-[11px]">
+                        <thead>
+                            <tr className="text-gray-500 text-left">
+                                <th className="font-medium py-0.5 pr-2"></th>
+                                <th className="font-medium py-0.5 pr-2">Price</th>
+                                <th className="font-medium py-0.5">Per sqft</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {byBhk.map(stats => (
+                                <tr key={stats.bhk} className="border-t border-gray-100 text-gray-700">
+                                    <td className="py-0.5 pr-2 whitespace-nowrap">
+                                        <span className="font-medium text-gray-900">{stats.bhk}</span>
+                                        <span className="text-gray-400"> ({stats.count})</span>
+                                    </td>
+                                    <td className="py-0.5 pr-2 whitespace-nowrap">
+                                        {stats.price
+                                            ? <>{formatRupees(stats.price.p25)} / <b>{formatRupees(stats.price.median)}</b> / {formatRupees(stats.price.p75)}</>
+                                            : '—'}
+                                    </td>
+                                    <td className="py-0.5 whitespace-nowrap">
+                                        {stats.pricePerSqft
+                                            ? <>{formatRupees(stats.pricePerSqft.p25)} / <b>{formatRupees(stats.pricePerSqft.median)}</b> / {formatRupees(stats.pricePerSqft.p75)}</>
+                                            : '—'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </Card>
+    )
+}
@@ -0,0 +1,47 @@
+/**
+ * PricePositionMarker Component
+ * =============================
+ *
+ * Small badge on a card: how far the listing's price per sqft is from the
+ * median of comparable listings ("+24% vs median"). Red when it's priced
+ * well above, green well below, grey otherwise.
+ *
+ * CONCEPT: Presentational Components
+ * - The position comes in through props (from usePriceAnalytics)
+ */
+
+import { Badge } from '@/components/ui/badge'
+import { PricePosition } from '../types/listing.types'
+import { formatRupees } from '../utils/property-utils'
+
+interface PricePositionMarkerProps {
+    position: PricePosition
+}
+
+/**
+ * "+24%", "-8%", "±0%"
+ */
+export function formatDeviation(deviation: number): string {
+    const percent = Math.round(deviation * 100)
+    return percent === 0 ? '±0%' : `${percent > 0 ? '+' : ''}${percent}%`
+}
+
+export function PricePositionMarker({ position }: PricePositionMarkerProps) {
+    const colors = position.flag === 'above'
+        ? 'bg-red-100 text-red-800 border-red-200'
+        : position.flag === 'below'
+        ? 'bg-green-100 text-green-800 border-green-200'
+        : 'bg-white text-gray-600 border-gray-200'
+
+    const peers = position.peers === 'bhk' ? 'same BHK' : 'all listings'
+
+    return (
+        <Badge
+            variant="outline"
+            className={`text-[10px] px-1.5 py-0 h-4 cursor-help ${colors}`}
+            title={`${formatRupees(position.pricePerSqft)}/sqft · median ${formatRupees(position.median)}/sqft (${peers})`}
+        >
+            {formatDeviation(position.deviation)} vs median
+        </Badge>
+    )
+}
@@ -2,7 +2,8 @@
  * PropertyFilters Component
  * =========================
  * 
- * Displays search and filter controls (search, cost, area, relevance sliders).
+ * Displays search and filter controls (search, cost, area, relevance sliders),
+ * plus the sort order, the grouping and duplicate toggles and the attribute filters.
  * 
  * CONCEPT: Controlled Components
  * - Component doesn't manage own state
@@ -20,13 +21,72 @@ import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Slider } from '@/components/ui/slider'
 import { Input } from '@/components/ui/input'
-import { Search } from 'lucide-react'
-import { PropertyFiltersProps } from '../types/listing.types'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Button } from '@/components/ui/button'
+import { ArrowUpDown, ChevronDown, Search, SlidersHorizontal, X } from 'lucide-react'
+import { AttributeFacet, PropertyFiltersProps, PropertySortMode } from '../types/listing.types'
 import {
     COST_RANGE_STEP,
     AREA_RANGE_STEP,
+    SORT_OPTIONS,
 } from '../constants/listing.constants'
 
+/**
+ * One attribute's values as checkboxes, with the number of matching properties
+ */
+function AttributeFacetMenu({ facet, onChange }: { facet: AttributeFacet; onChange: (values: string[]) => void }) {
+    const selected = facet.options.filter(option => option.selected).map(option => option.value)
+
+    const toggle = (value: string, checked: boolean) => {
+        onChange(checked ? [...selected, value] : selected.filter(item => item !== value))
+    }
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={`h-8 text-xs flex items-center gap-1 ${selected.length > 0 ? 'border-indigo-400 bg-indigo-50 text-indigo-800' : 'bg-white'}`}
+                >
+                    <span className="max-w-[12rem] truncate">
+                        {facet.label}{selected.length > 0 && `: ${selected.join(', ')}`}
+                    </span>
+                    <ChevronDown className="w-3 h-3 flex-shrink-0" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-2" align="start">
+                <ul className="max-h-72 overflow-y-auto space-y-0.5">
+                    {facet.options.map(option => (
+                        <li key={option.value}>
+                            <label className="flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer hover:bg-gray-50">
+                                <Checkbox
+                                    checked={option.selected}
+                                    onCheckedChange={(checked) => toggle(option.value, checked === true)}
+                                />
+                                <span className={`flex-1 truncate ${option.count === 0 ? 'text-gray-400' : 'text-gray-800'}`}>
+                                    {option.value}
+                                </span>
+                                <span className="text-xs text-gray-500">{option.count}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+                {selected.length > 0 && (
+                    <button
+                        onClick={() => onChange([])}
+                        className="w-full mt-1 pt-2 border-t text-xs text-gray-600 hover:text-gray-900"
+                    >
+                        Clear {facet.label.toLowerCase()}
+                    </button>
+                )}
+            </PopoverContent>
+        </Popover>
+    )
+}
+
 /**
  * PropertyFilters Component
  * 
@@ -36,6 +96,10 @@ import {
  * 3. Area range slider
  * 4. Relevance threshold (for grouping)
  * 
+ * Below them: sort order, whether to group by relevance/date and to
+ * combine likely duplicates, and one
+ * menu per attribute the streamed properties have (furnishing, facing, ...)
+ * 
  * @param props - See PropertyFiltersProps interface
  */
 export function PropertyFilters({
@@ -47,109 +111,192 @@ export function PropertyFilters({
     onCostChange,
     onAreaChange,
     onRelevanceChange,
+    onSortChange,
+    onGroupingChange,
+    onCombineDuplicatesChange,
+    hiddenDuplicateCount,
+    attributeFacets,
+    onAttributeChange,
+    onClearAttributes,
 }: PropertyFiltersProps) {
+    const hasAttributeSelection = attributeFacets.some(facet => facet.options.some(option => option.selected))
+
     return (
-        <div className="grid grid-cols-1 lg:grid-cols-4 gap-3">
-            {/* ================================================================ */}
-            {/* FILTER 1: TEXT SEARCH */}
-            {/* ================================================================ */}
-            <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
-                <div className="space-y-2">
-                    <label className="text-xs font-medium text-gray-700">Search</label>
-                    <div className="relative">
-                        <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                        <Input
-                            type="text"
-                            placeholder="Search titles & descriptions..."
-                            value={filters.searchQuery}
-                            onChange={(e) => onSearchChange(e.target.value)}
-                            className="pl-8 h-9 text-sm"
-                        />
+        <div className="space-y-3">
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-3">
+                {/* ================================================================ */}
+                {/* FILTER 1: TEXT SEARCH */}
+                {/* ================================================================ */}
+                <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-gray-700">Search</label>
+                        <div className="relative">
+                            <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <Input
+                                type="text"
+                                placeholder="Search titles & descriptions..."
+                                value={filters.searchQuery}
+                                onChange={(e) => onSearchChange(e.target.value)}
+                                className="pl-8 h-9 text-sm"
+                            />
+                        </div>
                     </div>
-                </div>
-            </Card>
+                </Card>
 
-            {/* ================================================================ */}
-            {/* FILTER 2: COST RANGE */}
-            {/* ================================================================ */}
-            <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
-                <div className="space-y-2">
-                    <label className="text-xs font-medium text-gray-700">Price</label>
-                    <div className="flex items-center">
-                        <Slider
-                            value={filters.costRange}
-                            onValueChange={(value) => onCostChange(value as [number, number])}
-                            min={costBounds.min}
-                            max={costBounds.max}
-                            step={COST_RANGE_STEP}
-                            className="w-full"
-                        />
+                {/* ================================================================ */}
+                {/* FILTER 2: COST RANGE */}
+                {/* ================================================================ */}
+                <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-gray-700">Price</label>
+                        <div className="flex items-center">
+                            <Slider
+                                value={filters.costRange}
+                                onValueChange={(value) => onCostChange(value as [number, number])}
+                                min={costBounds.min}
+                                max={costBounds.max}
+                                step={COST_RANGE_STEP}
+                                className="w-full"
+                            />
+                        </div>
+                        <div className="text-center">
+                            <span className="text-lg font-semibold text-gray-900">
+                                ₹{filters.costRange[0]}Cr - ₹{filters.costRange[1]}Cr
+                            </span>
+                        </div>
                     </div>
-                    <div className="text-center">
-                        <span className="text-lg font-semibold text-gray-900">
-                            ₹{filters.costRange[0]}Cr - ₹{filters.costRange[1]}Cr
-                        </span>
+                </Card>
+
+                {/* ================================================================ */}
+                {/* FILTER 3: AREA RANGE */}
+                {/* ================================================================ */}
+                <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
+                    <div className="space-y-2">
+                        <label className="text-xs font-medium text-gray-700">Area</label>
+                        <div className="flex items-center">
+                            <Slider
+                                value={filters.areaRange}
+                                onValueChange={(value) => onAreaChange(value as [number, number])}
+                                min={areaBounds.min}
+                                max={areaBounds.max}
+                                step={AREA_RANGE_STEP}
+                                className="w-full"
+                            />
+                        </div>
+                        <div className="text-center">
+                            <span className="text-lg font-semibold text-gray-900">
+                                {filters.areaRange[0]} - {filters.areaRange[1]} sqft
+                            </span>
+                        </div>
                     </div>
-                </div>
-            </Card>
+                </Card>
+
+                {/* ================================================================ */}
+                {/* FILTER 4: RELEVANCE THRESHOLD */}
+                {/* ================================================================ */}
+                <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs font-medium text-gray-700">
+                                Relevance ≥ {filters.relevanceThreshold}
+                            </label>
+                            <Badge variant="outline" className="text-xs h-5">
+                                {groupedProperties.mostRelevant.today.length +
+                                    groupedProperties.mostRelevant.thisWeek.length +
+                                    groupedProperties.mostRelevant.thisMonth.length +
+                                    groupedProperties.mostRelevant.previousMonths.length}
+                                /
+                                {groupedProperties.others.today.length +
+                                    groupedProperties.others.thisWeek.length +
+                                    groupedProperties.others.thisMonth.length +
+                                    groupedProperties.others.previousMonths.length}
+                            </Badge>
+                        </div>
+                        <div className="flex items-center">
+                            <Slider
+                                value={[filters.relevanceThreshold]}
+                                onValueChange={(value) => onRelevanceChange(value[0])}
+                                min={0}
+                                max={10}
+                                step={1}
+                                className="w-full"
+                            />
+                        </div>
+                    </div>
+                </Card>
+            </div>
 
             {/* ================================================================ */}
-            {/* FILTER 3: AREA RANGE */}
+            {/* SORT ORDER AND GROUPING */}
             {/* ================================================================ */}
-            <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
-                <div className="space-y-2">
-                    <label className="text-xs font-medium text-gray-700">Area</label>
-                    <div className="flex items-center">
-                        <Slider
-                            value={filters.areaRange}
-                            onValueChange={(value) => onAreaChange(value as [number, number])}
-                            min={areaBounds.min}
-                            max={areaBounds.max}
-                            step={AREA_RANGE_STEP}
-                            className="w-full"
-                        />
-                    </div>
-                    <div className="text-center">
-                        <span className="text-lg font-semibold text-gray-900">
-                            {filters.areaRange[0]} - {filters.areaRange[1]} sqft
-                        </span>
-                    </div>
+            <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                    <ArrowUpDown className="w-4 h-4 text-gray-500" />
+                    <label className="text-xs font-medium text-gray-700">Sort by</label>
+                    <Select
+                        value={filters.sortMode}
+                        onValueChange={(value) => onSortChange(value as PropertySortMode)}
+                    >
+                        <SelectTrigger className="h-8 w-52 text-sm bg-white">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {SORT_OPTIONS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
                 </div>
-            </Card>
+
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-700 cursor-pointer">
+                    <Checkbox
+                        checked={filters.groupResults}
+                        onCheckedChange={(checked) => onGroupingChange(checked === true)}
+                    />
+                    Group by relevance and posting date
+                </label>
+
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-700 cursor-pointer">
+                    <Checkbox
+                        checked={filters.combineDuplicates}
+                        onCheckedChange={(checked) => onCombineDuplicatesChange(checked === true)}
+                    />
+                    Combine likely duplicates
+                    {hiddenDuplicateCount > 0 && (
+                        <span className="text-gray-500 font-normal">
+                            ({hiddenDuplicateCount} {hiddenDuplicateCount === 1 ? 'posting' : 'postings'} combined)
+                        </span>
+                    )}
+                </label>
+            </div>
 
             {/* ================================================================ */}
-            {/* FILTER 4: RELEVANCE THRESHOLD */}
+            {/* ATTRIBUTE FILTERS (values and counts from the current stream) */}
             {/* ================================================================ */}
-            <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4">
-                <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                        <label className="text-xs font-medium text-gray-700">
-                            Relevance ≥ {filters.relevanceThreshold}
-                        </label>
-                        <Badge variant="outline" className="text-xs h-5">
-                            {groupedProperties.mostRelevant.today.length +
-                                groupedProperties.mostRelevant.thisWeek.length +
-                                groupedProperties.mostRelevant.thisMonth.length +
-                                groupedProperties.mostRelevant.previousMonths.length}
-                            /
-                            {groupedProperties.others.today.length +
-                                groupedProperties.others.thisWeek.length +
-                                groupedProperties.others.thisMonth.length +
-                                groupedProperties.others.previousMonths.length}
-                        </Badge>
-                    </div>
-                    <div className="flex items-center">
-                        <Slider
-                            value={[filters.relevanceThreshold]}
-                            onValueChange={(value) => onRelevanceChange(value[0])}
-                            min={0}
-                            max={10}
-                            step={1}
-                            className="w-full"
+            {attributeFacets.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <SlidersHorizontal className="w-4 h-4 text-gray-500" />
+                    <label className="text-xs font-medium text-gray-700">Filter by</label>
+                    {attributeFacets.map(facet => (
+                        <AttributeFacetMenu
+                            key={facet.attribute}
+                            facet={facet}
+                            onChange={(values) => onAttributeChange(facet.attribute, values)}
                         />
-                    </div>
+                    ))}
+                    {hasAttributeSelection && (
+                        <button
+                            onClick={onClearAttributes}
+                            className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+                        >
+                            <X className="w-3 h-3" />
+                            Clear all
+                        </button>
+                    )}
                 </div>
-            </Card>
+            )}
         </div>
     )
 }
@@ -17,8 +17,30 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { Card } from '@/components/ui/card'
 import CompactPropertyCard from './CompactPropertyCard'
 import CompactMagicBricksCard from './CompactMagicBricksCard'
-import { PropertyGridProps } from '../types/listing.types'
+import CompactNinetyNineAcresCard from './CompactNinetyNineAcresCard'
+import CompactHousingCard from './CompactHousingCard'
+import CompactNoBrokerCard from './CompactNoBrokerCard'
+import CompactCommonFloorCard from './CompactCommonFloorCard'
+import CompactPortalCard from './CompactPortalCard'
+import { PropertyGridProps, PropertyType, RelevanceFeedbackCardProps, isPropertyFrom } from '../types/listing.types'
+import { PropertySource, SOURCE_LABELS } from '../constants/listing.constants'
 import { EmptyResultsState } from './EmptyStates'
+import { DuplicateCluster } from './DuplicateCluster'
+import { PricePositionMarker } from './PricePositionMarker'
+
+/**
+ * Card component for a property from the given source
+ * (a property whose source isn't known gets the card built on the shared fields)
+ */
+function renderSourceCard(source: PropertySource, property: PropertyType, feedbackProps: RelevanceFeedbackCardProps) {
+    if (isPropertyFrom(property, source, 'squareyards')) return <CompactPropertyCard property={property} {...feedbackProps} />
+    if (isPropertyFrom(property, source, 'magicbricks')) return <CompactMagicBricksCard property={property} {...feedbackProps} />
+    if (isPropertyFrom(property, source, '99acres')) return <CompactNinetyNineAcresCard property={property} {...feedbackProps} />
+    if (isPropertyFrom(property, source, 'housing')) return <CompactHousingCard property={property} {...feedbackProps} />
+    if (isPropertyFrom(property, source, 'nobroker')) return <CompactNoBrokerCard property={property} {...feedbackProps} />
+    if (isPropertyFrom(property, source, 'commonfloor')) return <CompactCommonFloorCard property={property} {...feedbackProps} />
+    return <CompactPortalCard property={property} {...feedbackProps} />
+}
 
 /**
  * PropertyGrid Component
@@ -28,12 +50,21 @@ import { EmptyResultsState } from './EmptyStates'
  * 2. Others (score < threshold) - with date sub-groups
  * 
  * Date sub-groups: Today → This Week → This Month → Previous Months
+ * With grouping off, one flat grid in the selected sort order
  * 
  * @param props - See PropertyGridProps interface
  */
 export function PropertyGrid({
     groupedProperties,
-    isMagicBricks,
+    sortedProperties,
+    isGrouped,
+    sourceOf,
+    showSourceBadges,
+    changeOf,
+    positionOf,
+    clusterOf,
+    feedbackOf,
+    onFeedback,
     relevanceThreshold,
     isComplete,
     isLoading = false,
@@ -52,6 +83,98 @@ export function PropertyGrid({
 
     const hasProperties = hasMostRelevant || hasOthers
 
+    /**
+     * Card for one property - each site has its own layout.
+     * Sessions spanning several sites also label each card with its source,
+     * and after an in-place refresh new and re-priced cards are highlighted.
+     * Once the scrape finishes, cards show their price per sqft vs the median.
+     * Cards show thumbs up/down on their relevance score, and a card standing
+     * for several postings of the same flat lists them underneath.
+     */
+    const renderCard = (property: PropertyType) => {
+        const card = renderDecoratedCard(property)
+        const cluster = clusterOf(property)
+        if (!cluster) return card
+
+        return (
+            <div className="flex flex-col">
+                {card}
+                <DuplicateCluster cluster={cluster} />
+            </div>
+        )
+    }
+
+    const renderDecoratedCard = (property: PropertyType) => {
+        const source = sourceOf(property)
+        const card = renderSourceCard(source, property, {
+            feedback: feedbackOf(property),
+            onFeedback: (vote, note) => onFeedback(property, vote, note),
+        })
+        const change = changeOf(property)
+        const position = positionOf(property)
+
+        if (!showSourceBadges && !change && !position) return card
+
+        return (
+            <div className={`relative rounded-lg ${change?.kind === 'new' ? 'ring-2 ring-green-400' : change ? 'ring-2 ring-amber-400' : ''}`}>
+                {card}
+                {showSourceBadges && (
+                    <Badge variant="outline" className="absolute bottom-2 right-2 bg-white text-[10px] px-1.5 py-0 h-4 pointer-events-none">
+                        {SOURCE_LABELS[source]}
+                    </Badge>
+                )}
+                {/* Top right: refresh change above the price position */}
+                {(change || position) && (
+                    <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
+                        {change?.kind === 'new' && (
+                            <Badge className="bg-green-500 text-white text-[10px] px-1.5 py-0 h-4 pointer-events-none">
+                                New
+                            </Badge>
+                        )}
+                        {change?.kind === 'price_changed' && (
+                            <Badge className="bg-amber-400 text-amber-950 text-[10px] px-1.5 py-0 h-4 pointer-events-none">
+                                Price changed{change.previousPrice && ` (was ${change.previousPrice})`}
+                            </Badge>
+                        )}
+                        {position && <PricePositionMarker position={position} />}
+                    </div>
+                )}
+            </div>
+        )
+    }
+
+    // ========================================================================
+    // RENDER: Ungrouped - one flat list in the selected sort order
+    // ========================================================================
+    if (!isGrouped) {
+        if (sortedProperties.length === 0) {
+            return isComplete ? <EmptyResultsState /> : null
+        }
+
+        return (
+            <div>
+                <div className="flex items-center gap-2 mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                        {isLoading ? 'Loading properties' : 'All Properties'}
+                    </h3>
+                    <Badge className="bg-indigo-500 text-white text-xs">
+                        {sortedProperties.length}
+                    </Badge>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {sortedProperties.map((property, index) => {
+                        const key = property.property_url || `all-${index}`
+                        return (
+                            <Fragment key={key}>
+                                {renderCard(property)}
+                            </Fragment>
+                        )
+                    })}
+                </div>
+            </div>
+        )
+    }
+
     // ========================================================================
     // RENDER: No properties found
     // ========================================================================
@@ -113,17 +236,10 @@ export function PropertyGrid({
                                 {groupedProperties.mostRelevant.today.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.mostRelevant.today.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `most-relevant-today-${index}`
+                                            const key = property.property_url || `most-relevant-today-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -151,17 +267,10 @@ export function PropertyGrid({
                                 {groupedProperties.mostRelevant.thisWeek.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.mostRelevant.thisWeek.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `most-relevant-thisweek-${index}`
+                                            const key = property.property_url || `most-relevant-thisweek-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -189,17 +298,10 @@ export function PropertyGrid({
                                 {groupedProperties.mostRelevant.thisMonth.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.mostRelevant.thisMonth.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `most-relevant-thismonth-${index}`
+                                            const key = property.property_url || `most-relevant-thismonth-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -227,17 +329,10 @@ export function PropertyGrid({
                                 {groupedProperties.mostRelevant.previousMonths.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.mostRelevant.previousMonths.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `most-relevant-previous-${index}`
+                                            const key = property.property_url || `most-relevant-previous-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -300,17 +395,10 @@ export function PropertyGrid({
                                 {groupedProperties.others.today.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.others.today.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `others-today-${index}`
+                                            const key = property.property_url || `others-today-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -338,17 +426,10 @@ export function PropertyGrid({
                                 {groupedProperties.others.thisWeek.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.others.thisWeek.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `others-thisweek-${index}`
+                                            const key = property.property_url || `others-thisweek-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -376,17 +457,10 @@ export function PropertyGrid({
                                 {groupedProperties.others.thisMonth.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.others.thisMonth.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `others-thismonth-${index}`
+                                            const key = property.property_url || `others-thismonth-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -414,17 +488,10 @@ export function PropertyGrid({
                                 {groupedProperties.others.previousMonths.length > 0 ? (
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                                         {groupedProperties.others.previousMonths.map((property, index) => {
-                                            const key =
-                                                typeof property.property_url === 'string'
-                                                    ? property.property_url
-                                                    : `others-previous-${index}`
+                                            const key = property.property_url || `others-previous-${index}`
                                             return (
                                                 <Fragment key={key}>
-                                                    {isMagicBricks ? (
-                                                        <CompactMagicBricksCard property={property as any} />
-                                                    ) : (
-                                                        <CompactPropertyCard property={property as any} />
-                                                    )}
+                                                    {renderCard(property)}
                                                 </Fragment>
                                             )
                                         })}
@@ -479,7 +546,7 @@ export function PropertyGrid({
  * - Tailwind handles all screen sizes
  * 
  * Card Rendering:
- * - Choose component based on source (isMagicBricks)
+ * - Choose component based on each property's source (sourceOf)
  * - Use Fragment to avoid extra wrapper divs
  * - Key ensures React tracks components correctly
  */
@@ -0,0 +1,117 @@
+/**
+ * RelevanceFeedback Component
+ * ===========================
+ *
+ * Thumbs up/down next to a card's relevance score. A vote is sent right
+ * away; the popover that opens lets the user add why the score was wrong.
+ *
+ * CONCEPT: Presentational Components
+ * - Everything comes in through props (state lives in useRelevanceFeedback)
+ * - Only the note being typed is local state
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover'
+import { ThumbsUp, ThumbsDown } from 'lucide-react'
+import { RelevanceVote } from '@/lib/services/relevance-feedback.service'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+
+interface RelevanceFeedbackProps extends RelevanceFeedbackCardProps {
+    /** Icon size - cards with larger relevance badges use 'md' */
+    size?: 'sm' | 'md'
+}
+
+const STATUS_LABELS = {
+    sending: 'Sending...',
+    sent: 'Thanks!',
+    queued: 'Saved offline - sends when back online',
+    error: 'Not sent',
+} as const
+
+/**
+ * Thumbs up/down with an optional "wrong because..." note
+ */
+export function RelevanceFeedback({ feedback, onFeedback, size = 'sm' }: RelevanceFeedbackProps) {
+    const [isNoteOpen, setIsNoteOpen] = useState(false)
+    const [note, setNote] = useState('')
+
+    if (!onFeedback) return null
+
+    const iconClass = size === 'md' ? 'h-4 w-4' : 'h-3 w-3'
+
+    const vote = (value: RelevanceVote) => {
+        onFeedback(value, feedback?.note ?? '')
+        setNote(feedback?.note ?? '')
+        setIsNoteOpen(true)
+    }
+
+    const sendNote = () => {
+        if (feedback) onFeedback(feedback.vote, note)
+        setIsNoteOpen(false)
+    }
+
+    return (
+        <Popover open={isNoteOpen} onOpenChange={setIsNoteOpen}>
+            <PopoverAnchor asChild>
+                <span className="inline-flex items-center gap-0.5">
+                    <button
+                        onClick={() => vote('up')}
+                        className={`inline-flex items-center justify-center rounded-full p-0.5 transition-colors ${
+                            feedback?.vote === 'up' ? 'bg-green-100 text-green-700' : 'text-gray-400 hover:bg-gray-100 hover:text-gray-700'
+                        }`}
+                        aria-label="Relevance score is right"
+                        aria-pressed={feedback?.vote === 'up'}
+                    >
+                        <ThumbsUp className={iconClass} />
+                    </button>
+                    <button
+                        onClick={() => vote('down')}
+                        className={`inline-flex items-center justify-center rounded-full p-0.5 transition-colors ${
+                            feedback?.vote === 'down' ? 'bg-red-100 text-red-700' : 'text-gray-400 hover:bg-gray-100 hover:text-gray-700'
+                        }`}
+                        aria-label="Relevance score is wrong"
+                        aria-pressed={feedback?.vote === 'down'}
+                    >
+                        <ThumbsDown className={iconClass} />
+                    </button>
+                    {feedback?.status === 'queued' && (
+                        <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title={STATUS_LABELS.queued} />
+                    )}
+                    {feedback?.status === 'error' && (
+                        <span className="w-1.5 h-1.5 rounded-full bg-red-500" title={feedback.error || STATUS_LABELS.error} />
+                    )}
+                </span>
+            </PopoverAnchor>
+            <PopoverContent className="w-72" align="start">
+                <div className="space-y-2">
+                    <p className="text-xs text-gray-600">
+                        {feedback?.vote === 'down' ? 'Not relevant' : 'Relevant'}
+                        {feedback && ` · ${STATUS_LABELS[feedback.status]}`}
+                    </p>
+                    {feedback?.status === 'error' && feedback.error && (
+                        <p className="text-xs text-red-600">{feedback.error}</p>
+                    )}
+                    <Textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Wrong because... (optional)"
+                        className="min-h-[60px] text-sm"
+                        maxLength={500}
+                    />
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setIsNoteOpen(false)}>
+                            Skip
+                        </Button>
+                        <Button size="sm" onClick={sendNote} disabled={!note.trim() || note.trim() === feedback?.note}>
+                            Add note
+                        </Button>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
@@ -15,8 +15,11 @@ import Image from 'next/image'
 import { Info } from 'lucide-react'
 import { SquareYardsProperty } from '@/lib/services/property-scrape.service'
 import AgentCard from './AgentCard'
+import { RelevanceFeedback } from './RelevanceFeedback'
+import { RelevanceFeedbackCardProps } from '../types/listing.types'
+import { parseRelevanceReason } from '../utils/property-utils'
 
-interface SquareYardsPropertyCardProps {
+interface SquareYardsPropertyCardProps extends RelevanceFeedbackCardProps {
     property: SquareYardsProperty
 }
 
@@ -86,24 +89,7 @@ function getRelevanceBadgeStyle(score?: number): { variant: "default" | "seconda
     }
 }
 
-/**
- * Parse relevance reason into matches and mismatches
- */
-function parseRelevanceReason(reason: string): { matches: string; mismatches: string } {
-    // Try to split by "Matches:" and "Mismatches:" patterns
-    const matchesPattern = /Matches?:\s*([^.]*(?:\.[^M]*?)*?)(?=Mismatch|$)/i
-    const mismatchesPattern = /Mismatches?:\s*([^.]*(?:\.[^M]*?)*?)$/i
-
-    const matchesMatch = reason.match(matchesPattern)
-    const mismatchesMatch = reason.match(mismatchesPattern)
-
-    return {
-        matches: matchesMatch ? matchesMatch[1].trim() : '',
-        mismatches: mismatchesMatch ? mismatchesMatch[1].trim() : reason
-    }
-}
-
-export default function SquareYardsPropertyCard({ property }: SquareYardsPropertyCardProps) {
+export default function SquareYardsPropertyCard({ property, feedback, onFeedback }: SquareYardsPropertyCardProps) {
     const relevanceBgColor = getRelevanceColor(property.relevance_score)
 
     return (
@@ -266,6 +252,7 @@ export default function SquareYardsPropertyCard({ property }: SquareYardsPropert
                                         </PopoverContent>
                                     </Popover>
                                 )}
+                                <RelevanceFeedback feedback={feedback} onFeedback={onFeedback} size="md" />
                             </div>
                         </div>
                     )}
@@ -6,6 +6,8 @@
  * Extracting these makes the code more maintainable and self-documenting.
  */
 
+import type { PropertyAttribute, PropertySortMode } from '../types/listing.types'
+
 // ============================================================================
 // PRICE CONSTANTS
 // ============================================================================
@@ -16,6 +18,11 @@
  */
 export const RUPEES_PER_CRORE = 10000000
 
+/**
+ * Conversion factor: 1 Lakh = 100,000 Rupees
+ */
+export const RUPEES_PER_LAKH = 100000
+
 /**
  * Default minimum cost range in crores
  * Used as initial value for cost filter slider
@@ -89,14 +96,102 @@ export const MAX_RELEVANCE_SCORE = 10
 export const RELEVANCE_STEP = 1
 
 // ============================================================================
-// TIMING CONSTANTS
+// SORT CONSTANTS
+// ============================================================================
+
+/**
+ * Sort options for the listing page, in selector order
+ */
+export const SORT_OPTIONS: Array<{ value: PropertySortMode; label: string }> = [
+  { value: 'relevance', label: 'Most relevant' },
+  { value: 'price_asc', label: 'Cheapest first' },
+  { value: 'price_per_sqft_asc', label: 'Lowest price per sqft' },
+  { value: 'carpet_area_desc', label: 'Largest carpet area' },
+  { value: 'newest', label: 'Newest posted' },
+]
+
+/**
+ * Average days in a month, for "N months ago" posting dates
+ */
+export const DAYS_PER_MONTH = 30
+
+// ============================================================================
+// ATTRIBUTE FILTER CONSTANTS
+// ============================================================================
+
+/**
+ * Attribute filters, in display order
+ */
+export const ATTRIBUTE_FILTERS: Array<{ attribute: PropertyAttribute; label: string }> = [
+  { attribute: 'furnishing', label: 'Furnishing' },
+  { attribute: 'facing', label: 'Facing' },
+  { attribute: 'floor', label: 'Floor' },
+  { attribute: 'transaction', label: 'Transaction' },
+  { attribute: 'ownership', label: 'Ownership' },
+  { attribute: 'parking', label: 'Parking' },
+  { attribute: 'bathroom', label: 'Bathrooms' },
+  { attribute: 'balcony', label: 'Balconies' },
+  { attribute: 'overlooking', label: 'Overlooking' },
+  { attribute: 'flooring', label: 'Flooring' },
+]
+
+/**
+ * Floor bands for the floor filter - "5 out of 11" is filtered as "4-10"
+ * (upper bounds inclusive, the last band is open)
+ */
+export const FLOOR_BANDS: Array<{ max: number; label: string }> = [
+  { max: 0, label: 'Ground' },
+  { max: 3, label: '1-3' },
+  { max: 10, label: '4-10' },
+  { max: Infinity, label: '11+' },
+]
+
+// ============================================================================
+// DUPLICATE DETECTION CONSTANTS
 // ============================================================================
 
 /**
- * Delay before reloading page after cache reset (in milliseconds)
- * Gives user time to see success message before reload
+ * Largest area difference (fraction of the larger area) between two
+ * postings of the same flat - sites round areas differently
  */
-export const CACHE_RESET_RELOAD_DELAY = 500
+export const DUPLICATE_AREA_TOLERANCE = 0.03
+
+/**
+ * Largest price difference (fraction of the higher price) between two
+ * postings of the same flat - agents quote a little above or below
+ */
+export const DUPLICATE_PRICE_TOLERANCE = 0.15
+
+/**
+ * Smallest title similarity (shared words / all words, ignoring words
+ * every title has) when the society name doesn't settle it
+ */
+export const DUPLICATE_TITLE_SIMILARITY = 0.5
+
+// ============================================================================
+// PRICE ANALYTICS CONSTANTS
+// ============================================================================
+
+/**
+ * Bars per histogram in the analytics strip
+ */
+export const HISTOGRAM_BIN_COUNT = 12
+
+/**
+ * How far from the median (fraction) a listing's price per sqft has to be
+ * to be flagged as priced well above or below the market
+ */
+export const PRICE_OUTLIER_THRESHOLD = 0.2
+
+/**
+ * Fewest listings of a BHK to compare within it - with fewer, a listing is
+ * compared with every listing in the scrape
+ */
+export const MIN_BHK_PEERS = 3
+
+// ============================================================================
+// TIMING CONSTANTS
+// ============================================================================
 
 /**
  * Duration to show success message (in milliseconds)
@@ -111,14 +206,29 @@ export const SUCCESS_MESSAGE_DURATION = 3000
 export const ERROR_MESSAGE_DURATION = 5000
 
 // ============================================================================
-// API CONSTANTS
+// STREAM RECONNECT CONSTANTS
 // ============================================================================
 
 /**
- * Default API base URL
- * Falls back to localhost if environment variable not set
+ * Delay before the first reconnect after the property stream drops (in milliseconds)
+ * Doubles with every failed attempt
+ */
+export const STREAM_RECONNECT_BASE_DELAY = 1000
+
+/**
+ * Upper limit for the reconnect delay (in milliseconds)
+ */
+export const STREAM_RECONNECT_MAX_DELAY = 15000
+
+/**
+ * Reconnect attempts in a row before giving up
+ * The count resets whenever a property arrives
  */
-export const DEFAULT_API_BASE_URL = 'http://localhost:8000'
+export const STREAM_MAX_RECONNECT_ATTEMPTS = 6
+
+// ============================================================================
+// API CONSTANTS
+// ============================================================================
 
 /**
  * Property source identifiers
@@ -127,9 +237,27 @@ export const DEFAULT_API_BASE_URL = 'http://localhost:8000'
 export const PROPERTY_SOURCES = {
   MAGIC_BRICKS: 'magicbricks',
   SQUARE_YARDS: 'squareyards',
+  NINETY_NINE_ACRES: '99acres',
+  HOUSING: 'housing',
+  NO_BROKER: 'nobroker',
+  COMMON_FLOOR: 'commonfloor',
   UNKNOWN: 'unknown',
 } as const
 
+/**
+ * Display names for property sources
+ * Shown on source badges when a session merges several listing URLs
+ */
+export const SOURCE_LABELS: Record<PropertySource, string> = {
+  magicbricks: 'MagicBricks',
+  squareyards: 'SquareYards',
+  '99acres': '99acres',
+  housing: 'Housing',
+  nobroker: 'NoBroker',
+  commonfloor: 'CommonFloor',
+  unknown: 'Other',
+}
+
 // ============================================================================
 // GRID LAYOUT CONSTANTS
 // ============================================================================
@@ -150,7 +278,7 @@ export const GRID_COLUMNS = {
 
 /**
  * Property source type (derived from PROPERTY_SOURCES)
- * This creates a union type: 'magicbricks' | 'squareyards' | 'unknown'
+ * This creates a union type: 'magicbricks' | 'squareyards' | '99acres' | ... | 'unknown'
  */
 export type PropertySource = typeof PROPERTY_SOURCES[keyof typeof PROPERTY_SOURCES]
 
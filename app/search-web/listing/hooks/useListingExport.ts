@@ -0,0 +1,90 @@
+/**
+ * useListingExport Hook
+ * =====================
+ *
+ * Exports exactly what the grid shows - the filtered properties, in the
+ * current sort order and grouping - as CSV, XLSX or a printable PDF summary.
+ * Everything is generated in the browser; nothing is sent to the backend.
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import { downloadBlob, exportFileName, printReport, toCsvBlob, toXlsxBlob } from '@/lib/export'
+import { PropertySource } from '@/lib/services/property-scrape.service'
+import {
+    ExportFormat,
+    GroupedProperties,
+    PropertyType,
+    UseListingExportReturn,
+} from '../types/listing.types'
+import { buildExportReport, buildExportTable, getExportSections } from '../utils/export-utils'
+import { ERROR_MESSAGE_DURATION } from '../constants/listing.constants'
+
+interface UseListingExportOptions {
+    groupedProperties: GroupedProperties
+    sortedProperties: PropertyType[]
+    isGrouped: boolean
+    relevanceThreshold: number
+    sourceOf: (property: PropertyType) => PropertySource
+    origQuery?: string
+}
+
+/**
+ * Custom hook for exporting the listing
+ *
+ * @param options - The grid's current view (same values PropertyGrid receives)
+ * @returns Export count, error and the export function
+ */
+export function useListingExport({
+    groupedProperties,
+    sortedProperties,
+    isGrouped,
+    relevanceThreshold,
+    sourceOf,
+    origQuery,
+}: UseListingExportOptions): UseListingExportReturn {
+    const [exportError, setExportError] = useState<string | null>(null)
+
+    /**
+     * Sections in grid order - recomputed only when the view changes
+     */
+    const sections = useMemo(
+        () => getExportSections(groupedProperties, sortedProperties, isGrouped, relevanceThreshold),
+        [groupedProperties, sortedProperties, isGrouped, relevanceThreshold]
+    )
+
+    const exportCount = useMemo(
+        () => sections.reduce((count, section) => count + section.properties.length, 0),
+        [sections]
+    )
+
+    const exportListing = useCallback((format: ExportFormat) => {
+        setExportError(null)
+        if (exportCount === 0) return
+
+        const baseName = 'property-listings'
+
+        switch (format) {
+            case 'csv':
+                downloadBlob(toCsvBlob(buildExportTable(sections, sourceOf)), exportFileName(baseName, 'csv'))
+                break
+            case 'xlsx':
+                downloadBlob(toXlsxBlob(buildExportTable(sections, sourceOf), 'Listings'), exportFileName(baseName, 'xlsx'))
+                break
+            case 'pdf':
+                if (!printReport(buildExportReport(sections, sourceOf, origQuery))) {
+                    setExportError('Allow pop-ups for this site to export a PDF')
+                    // Auto-clear error message after duration
+                    setTimeout(() => setExportError(null), ERROR_MESSAGE_DURATION)
+                }
+                break
+        }
+
+        console.log(`📤 Exported ${exportCount} properties as ${format.toUpperCase()}`)
+    }, [sections, exportCount, sourceOf, origQuery])
+
+    return {
+        exportCount,
+        exportError,
+        exportListing,
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * usePriceAnalytics Hook
+ * ======================
+ *
+ * Price and price-per-sqft analytics for a finished scrape, and where each
+ * listing sits against the median of comparable listings (see
+ * utils/price-analytics.ts for how listings are compared).
+ *
+ * Works on every scraped property, not the filtered ones - the market
+ * doesn't change when the user narrows the grid.
+ *
+ * CONCEPT: Derived State
+ * - Nothing here is stored; it's all computed from the properties
+ * - useMemo recomputes only when the properties (or bounds) change
+ */
+
+import { useMemo, useCallback } from 'react'
+import {
+    PropertyType,
+    RangeBounds,
+    UsePriceAnalyticsReturn,
+} from '../types/listing.types'
+import { buildPriceAnalytics } from '../utils/price-analytics'
+
+/**
+ * Custom hook for the price analytics strip and the per-card price markers
+ *
+ * @param properties - Every scraped property
+ * @param costBounds - Cost slider bounds from usePropertyFilters (price histogram range)
+ * @param isComplete - Have all streams completed? Analytics wait for the whole scrape
+ * @returns Analytics (null until complete) and the position of a listing
+ */
+export function usePriceAnalytics(
+    properties: PropertyType[],
+    costBounds: RangeBounds,
+    isComplete: boolean
+): UsePriceAnalyticsReturn {
+    /**
+     * WHY WAIT FOR THE WHOLE SCRAPE?
+     * Medians of a half-streamed scrape move with every batch - listings
+     * would be flagged and unflagged while the user reads them
+     */
+    const result = useMemo(
+        () => isComplete ? buildPriceAnalytics(properties, costBounds) : null,
+        [properties, costBounds, isComplete]
+    )
+
+    const positionOf = useCallback(
+        (property: PropertyType) => result?.positions.get(property.property_url),
+        [result]
+    )
+
+    return {
+        analytics: result?.analytics ?? null,
+        positionOf,
+    }
+}
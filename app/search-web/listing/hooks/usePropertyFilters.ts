@@ -4,6 +4,8 @@
  * 
  * Custom hook to manage property filtering and grouping logic.
  * Extracts complex state management from the component.
+ * Filters the user sets are mirrored into the URL (see utils/filter-params),
+ * so a refresh or a shared link restores the same view.
  * 
  * CONCEPT: Custom Hooks
  * - Extract reusable stateful logic
@@ -11,12 +13,21 @@
  * - Easier to test and maintain
  */
 
-import { useState, useMemo, useEffect } from 'react'
-import { extractPrice, extractArea } from '../utils/property-utils'
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { getPropertyPrice, getPropertyArea, getPropertyComparator } from '../utils/property-utils'
+import { readFiltersFromParams, writeFiltersToParams } from '../utils/filter-params'
+import { buildAttributeFacets, matchesAttributes } from '../utils/attribute-utils'
+import { clusterDuplicates } from '../utils/duplicate-utils'
 import { MagicBricksProperty } from '@/lib/services/property-scrape.service'
+import { SearchIntent, IntentRange } from '@/lib/services/query-optimizer.service'
 import {
+    AttributeFacet,
+    PropertyAttribute,
+    PropertyCluster,
     PropertyType,
     PropertyFilters,
+    PropertySortMode,
     RangeBounds,
     GroupedProperties,
     UsePropertyFiltersReturn,
@@ -30,19 +41,51 @@ import {
     DEFAULT_MAX_AREA_SQFT,
     RUPEES_PER_CRORE,
     AREA_ROUNDING_FACTOR,
+    COST_RANGE_STEP,
 } from '../constants/listing.constants'
 
+/**
+ * Slider range for one side of a search intent range
+ *
+ * Values are divided by `unit` and snapped outwards to `step`, so the
+ * intent's own bounds stay inside the range. Open ends stay null.
+ */
+function intentSliderRange(range: IntentRange | null, unit: number, step: number): [number | null, number | null] {
+    if (!range) return [null, null]
+    // Round before snapping so 1.2 Cr doesn't become 1.1 through float error
+    const snap = (value: number, round: (n: number) => number) =>
+        round(Number((value / unit / step).toFixed(6))) * step
+
+    return [
+        range.min !== null ? Number(snap(range.min, Math.floor).toFixed(2)) : null,
+        range.max !== null ? Number(snap(range.max, Math.ceil).toFixed(2)) : null,
+    ]
+}
+
+/**
+ * Widen slider bounds so a range taken from the search intent (or URL) fits
+ */
+function withIntent(bounds: RangeBounds, [min, max]: [number | null, number | null]): RangeBounds {
+    return {
+        min: min !== null ? Math.min(bounds.min, min) : bounds.min,
+        max: max !== null ? Math.max(bounds.max, max) : bounds.max,
+    }
+}
+
 /**
  * Custom hook for managing property filters
  * 
  * @param properties - Array of properties to filter
+ * @param intent - Optional structured search intent - its budget and area
+ *                 pre-populate the cost and area sliders (filters in the
+ *                 URL take precedence)
  * @returns Filter state, bounds, grouped properties, and update functions
  * 
  * LEARNING: Hook Parameters
  * - Hooks can accept parameters just like regular functions
  * - This makes them flexible and reusable
  */
-export function usePropertyFilters(properties: PropertyType[]): UsePropertyFiltersReturn {
+export function usePropertyFilters(properties: PropertyType[], intent?: SearchIntent | null): UsePropertyFiltersReturn {
     // ========================================================================
     // STATE MANAGEMENT
     // ========================================================================
@@ -53,8 +96,36 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
      * - Returns [currentValue, setterFunction]
      * - When state changes, component re-renders
      * - Initial value is set only once (on mount)
+     *
+     * Ranges from the search intent (budget, area) and filters from the URL
+     * are taken once, on mount
+     */
+    const router = useRouter()
+    const pathname = usePathname()
+    const searchParams = useSearchParams()
+    const [urlFilters] = useState(() => readFiltersFromParams(searchParams))
+
+    // A range from the URL replaces the intent's (it's what the link's author chose)
+    const [intentCost] = useState(() =>
+        urlFilters.costRange ?? intentSliderRange(intent?.budget_inr ?? null, RUPEES_PER_CRORE, COST_RANGE_STEP))
+    const [intentArea] = useState(() =>
+        urlFilters.areaRange ?? intentSliderRange(intent?.area_sqft ?? null, 1, AREA_ROUNDING_FACTOR))
+
+    const [filters, setFilters] = useState<PropertyFilters>(() => ({
+        ...DEFAULT_FILTERS,
+        costRange: [intentCost[0] ?? DEFAULT_FILTERS.costRange[0], intentCost[1] ?? DEFAULT_FILTERS.costRange[1]],
+        areaRange: [intentArea[0] ?? DEFAULT_FILTERS.areaRange[0], intentArea[1] ?? DEFAULT_FILTERS.areaRange[1]],
+        ...urlFilters,
+    }))
+
+    /**
+     * Filters that belong in the URL: the ones it already had, plus any the
+     * user changes. Defaults and auto-initialized ranges stay out of the link.
+     *
+     * CONCEPT: useRef for non-rendering state
+     * - Changing it doesn't need a re-render, the next URL sync just reads it
      */
-    const [filters, setFilters] = useState<PropertyFilters>(DEFAULT_FILTERS)
+    const urlFieldsRef = useRef(new Set(Object.keys(urlFilters) as (keyof PropertyFilters)[]))
 
     // ========================================================================
     // CALCULATE BOUNDS (for slider min/max)
@@ -75,23 +146,23 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
     const costBounds = useMemo<RangeBounds>(() => {
         // Return default bounds if no properties
         if (properties.length === 0) {
-            return {
+            return withIntent({
                 min: DEFAULT_MIN_COST_CRORES,
                 max: DEFAULT_MAX_COST_CRORES
-            }
+            }, intentCost)
         }
 
         // Extract all prices and filter out invalid ones
         const prices = properties
-            .map(p => extractPrice(p.price || '0'))
-            .filter(p => p > 0)
+            .map(getPropertyPrice)
+            .filter((p): p is number => p !== null)
 
         // If no valid prices, return defaults
         if (prices.length === 0) {
-            return {
+            return withIntent({
                 min: DEFAULT_MIN_COST_CRORES,
                 max: DEFAULT_MAX_COST_CRORES
-            }
+            }, intentCost)
         }
 
         // Find min/max and convert to crores
@@ -101,11 +172,11 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
         const min = Math.floor(minPrice / RUPEES_PER_CRORE)
         const max = Math.ceil(maxPrice / RUPEES_PER_CRORE)
 
-        return {
+        return withIntent({
             min: Math.max(0, min),
             max: Math.max(DEFAULT_MAX_COST_CRORES, max)
-        }
-    }, [properties])  // ← Dependency array: only recalculate when properties change
+        }, intentCost)
+    }, [properties, intentCost])  // ← Dependency array: only recalculate when properties change
 
     /**
      * Calculate min/max area from properties
@@ -114,28 +185,21 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
      */
     const areaBounds = useMemo<RangeBounds>(() => {
         if (properties.length === 0) {
-            return {
+            return withIntent({
                 min: DEFAULT_MIN_AREA_SQFT,
                 max: DEFAULT_MAX_AREA_SQFT
-            }
+            }, intentArea)
         }
 
         const areas = properties
-            .map(p => {
-                // Handle both property types (MagicBricks has different area fields)
-                const area = p.area ||
-                    ((p as MagicBricksProperty).carpet_area) ||
-                    ((p as MagicBricksProperty).super_area) ||
-                    '0'
-                return extractArea(area)
-            })
-            .filter(a => a > 0)
+            .map(getPropertyArea)
+            .filter((a): a is number => a !== null)
 
         if (areas.length === 0) {
-            return {
+            return withIntent({
                 min: DEFAULT_MIN_AREA_SQFT,
                 max: DEFAULT_MAX_AREA_SQFT
-            }
+            }, intentArea)
         }
 
         const minArea = Math.min(...areas)
@@ -145,11 +209,11 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
         const min = Math.floor(minArea / AREA_ROUNDING_FACTOR) * AREA_ROUNDING_FACTOR
         const max = Math.ceil(maxArea / AREA_ROUNDING_FACTOR) * AREA_ROUNDING_FACTOR
 
-        return {
+        return withIntent({
             min: Math.max(0, min),
             max: Math.max(DEFAULT_MAX_AREA_SQFT, max)
-        }
-    }, [properties])
+        }, intentArea)
+    }, [properties, intentArea])
 
     // ========================================================================
     // AUTO-INITIALIZE RANGES
@@ -168,11 +232,12 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
      * but only if it's still at the default value
      */
     useEffect(() => {
-        // Only update if still at default max value
+        // Only update if still at default max value - a max from the search intent or URL is kept
+        if (intentCost[1] !== null) return
         if (filters.costRange[1] === DEFAULT_MAX_COST_CRORES && costBounds.max > DEFAULT_MAX_COST_CRORES) {
             setFilters(prev => ({
                 ...prev,  // Keep other filter values
-                costRange: [costBounds.min, costBounds.max]  // Update only costRange
+                costRange: [intentCost[0] ?? costBounds.min, costBounds.max]  // Update only costRange
             }))
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -182,15 +247,36 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
      * Initialize area range when bounds are first calculated
      */
     useEffect(() => {
+        if (intentArea[1] !== null) return
         if (filters.areaRange[1] === DEFAULT_MAX_AREA_SQFT && areaBounds.max > DEFAULT_MAX_AREA_SQFT) {
             setFilters(prev => ({
                 ...prev,
-                areaRange: [areaBounds.min, areaBounds.max]
+                areaRange: [intentArea[0] ?? areaBounds.min, areaBounds.max]
             }))
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [areaBounds])
 
+    // ========================================================================
+    // SYNC FILTERS TO URL
+    // ========================================================================
+
+    /**
+     * Write the filters into the query string whenever they change
+     *
+     * Reads window.location rather than searchParams so this only runs on
+     * filter changes (not on the URL change it causes), and replace() keeps
+     * filter tweaks out of the back-button history.
+     */
+    useEffect(() => {
+        const current = window.location.search.replace(/^\?/, '')
+        const next = writeFiltersToParams(current, filters, urlFieldsRef.current)
+        if (next !== current) {
+            router.replace(next ? `${pathname}?${next}` : pathname, { scroll: false })
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [filters])
+
     // ========================================================================
     // FILTER AND GROUP PROPERTIES
     // ========================================================================
@@ -249,11 +335,10 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
     }
 
     /**
-     * Filter properties and group by relevance, then by date
-     * 
-     * This is the "business logic" - separated from UI rendering
+     * Properties passing the text, cost and area filters
+     * Attribute facets count within these, the attribute filter narrows them further
      */
-    const groupedProperties = useMemo<GroupedProperties>(() => {
+    const baseFiltered = useMemo<PropertyType[]>(() => {
         // Start with all properties
         let filtered = properties
 
@@ -270,7 +355,9 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
         // STEP 2: Filter by cost range
         const [minCost, maxCost] = filters.costRange
         filtered = filtered.filter(p => {
-            const price = extractPrice(p.price || '0')
+            const price = getPropertyPrice(p)
+            // Unknown prices can't be compared - only kept while the range is open at the bottom
+            if (price === null) return minCost <= 0
             const priceInCrores = price / RUPEES_PER_CRORE
             return priceInCrores >= minCost && priceInCrores <= maxCost
         })
@@ -278,33 +365,63 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
         // STEP 3: Filter by area range
         const [minArea, maxArea] = filters.areaRange
         filtered = filtered.filter(p => {
-            const area = p.area ||
-                ((p as MagicBricksProperty).carpet_area) ||
-                ((p as MagicBricksProperty).super_area) ||
-                '0'
-            const areaValue = extractArea(area)
-            return areaValue >= minArea && areaValue <= maxArea
+            const area = getPropertyArea(p)
+            if (area === null) return minArea <= 0
+            return area >= minArea && area <= maxArea
         })
 
-        // STEP 4: Group by relevance threshold
-        const mostRelevant = filtered.filter(
+        return filtered
+    }, [properties, filters.searchQuery, filters.costRange, filters.areaRange])
+
+    /**
+     * Facets (value + count) for the attribute filters
+     *
+     * Built from the properties streamed so far, so new values and counts
+     * appear live as more properties arrive
+     */
+    const attributeFacets = useMemo<AttributeFacet[]>(
+        () => buildAttributeFacets(baseFiltered, filters.attributes),
+        [baseFiltered, filters.attributes]
+    )
+
+    /**
+     * Filter and sort properties, then group by relevance and date
+     * 
+     * This is the "business logic" - separated from UI rendering
+     * The flat sorted list is kept too, for when grouping is switched off
+     */
+    const { sortedProperties, groupedProperties, clusters } = useMemo<{
+        sortedProperties: PropertyType[]
+        groupedProperties: GroupedProperties
+        clusters: Map<string, PropertyCluster>
+    }>(() => {
+        // STEP 4: Filter by the selected attribute values (furnishing, facing, ...)
+        const filtered = baseFiltered.filter(p => matchesAttributes(p, filters.attributes))
+
+        // STEP 5: Sort by the selected mode (relevance score by default)
+        let sorted = [...filtered].sort(getPropertyComparator(filters.sortMode))
+
+        // STEP 6: Combine likely duplicates - each cluster keeps its first posting
+        // (in the sort order) as its card, the other postings are hidden behind it
+        const clusters = new Map<string, PropertyCluster>()
+        if (filters.combineDuplicates) {
+            const hidden = new Set<PropertyType>()
+            for (const cluster of clusterDuplicates(sorted)) {
+                clusters.set(cluster.primary.property_url, cluster)
+                cluster.listings.slice(1).forEach(listing => hidden.add(listing))
+            }
+            sorted = sorted.filter(p => !hidden.has(p))
+        }
+
+        // STEP 7: Group by relevance threshold (filter keeps the sort order)
+        const sortedMostRelevant = sorted.filter(
             p => (p.relevance_score ?? 0) >= filters.relevanceThreshold
         )
-        const others = filtered.filter(
+        const sortedOthers = sorted.filter(
             p => (p.relevance_score ?? 0) < filters.relevanceThreshold
         )
 
-        // STEP 5: Sort by relevance score (descending)
-        const sortByRelevance = (a: PropertyType, b: PropertyType) => {
-            const scoreA = a.relevance_score ?? -1
-            const scoreB = b.relevance_score ?? -1
-            return scoreB - scoreA
-        }
-
-        const sortedMostRelevant = [...mostRelevant].sort(sortByRelevance)
-        const sortedOthers = [...others].sort(sortByRelevance)
-
-        // STEP 6: Sub-group each relevance group by date category
+        // STEP 8: Sub-group each relevance group by date category
         const groupByDate = (properties: PropertyType[]) => {
             const today: PropertyType[] = []
             const thisWeek: PropertyType[] = []
@@ -328,10 +445,24 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
         }
 
         return {
-            mostRelevant: groupByDate(sortedMostRelevant),
-            others: groupByDate(sortedOthers),
+            sortedProperties: sorted,
+            groupedProperties: {
+                mostRelevant: groupByDate(sortedMostRelevant),
+                others: groupByDate(sortedOthers),
+            },
+            clusters,
         }
-    }, [properties, filters])  // Recalculate when properties OR filters change
+    }, [baseFiltered, filters])  // Recalculate when properties OR filters change
+
+    const clusterOf = useCallback(
+        (property: PropertyType) => clusters.get(property.property_url),
+        [clusters]
+    )
+
+    const hiddenDuplicateCount = useMemo(
+        () => [...clusters.values()].reduce((hidden, cluster) => hidden + cluster.listings.length - 1, 0),
+        [clusters]
+    )
 
     // ========================================================================
     // UPDATE FUNCTIONS
@@ -346,22 +477,52 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
      * PATTERN: Partial State Updates
      * - Use spread operator (...prev) to keep other properties
      * - Only update the specific field that changed
+     *
+     * Every user change goes through updateFilter, which also marks the
+     * field for the URL
      */
 
+    const updateFilter = <K extends keyof PropertyFilters>(field: K, value: PropertyFilters[K]) => {
+        urlFieldsRef.current.add(field)
+        setFilters(prev => ({ ...prev, [field]: value }))
+    }
+
     const updateSearchQuery = (query: string) => {
-        setFilters(prev => ({ ...prev, searchQuery: query }))
+        updateFilter('searchQuery', query)
     }
 
     const updateCostRange = (range: [number, number]) => {
-        setFilters(prev => ({ ...prev, costRange: range }))
+        updateFilter('costRange', range)
     }
 
     const updateAreaRange = (range: [number, number]) => {
-        setFilters(prev => ({ ...prev, areaRange: range }))
+        updateFilter('areaRange', range)
     }
 
     const updateRelevanceThreshold = (threshold: number) => {
-        setFilters(prev => ({ ...prev, relevanceThreshold: threshold }))
+        updateFilter('relevanceThreshold', threshold)
+    }
+
+    const updateSortMode = (mode: PropertySortMode) => {
+        updateFilter('sortMode', mode)
+    }
+
+    const updateGrouping = (groupResults: boolean) => {
+        updateFilter('groupResults', groupResults)
+    }
+
+    const updateAttribute = (attribute: PropertyAttribute, values: string[]) => {
+        const attributes = { ...filters.attributes, [attribute]: values }
+        if (values.length === 0) delete attributes[attribute]
+        updateFilter('attributes', attributes)
+    }
+
+    const clearAttributes = () => {
+        updateFilter('attributes', {})
+    }
+
+    const updateCombineDuplicates = (combineDuplicates: boolean) => {
+        updateFilter('combineDuplicates', combineDuplicates)
     }
 
     // ========================================================================
@@ -379,10 +540,19 @@ export function usePropertyFilters(properties: PropertyType[]): UsePropertyFilte
         costBounds,
         areaBounds,
         groupedProperties,
+        sortedProperties,
         updateSearchQuery,
         updateCostRange,
         updateAreaRange,
         updateRelevanceThreshold,
+        updateSortMode,
+        updateGrouping,
+        updateAttribute,
+        clearAttributes,
+        updateCombineDuplicates,
+        attributeFacets,
+        clusterOf,
+        hiddenDuplicateCount,
     }
 }
 
@@ -0,0 +1,396 @@
+/**
+ * usePropertyStreams - Custom Hook for Streaming Properties via SSE
+ * =================================================================
+ *
+ * Handles streaming property data from backend using Server-Sent Events (SSE).
+ * Properties arrive incrementally as backend processes batches of 5.
+ *
+ * Multi-URL: one stream per listing URL (e.g. a MagicBricks and a SquareYards
+ * results page), merged into one list. Adding or removing a URL only opens or
+ * closes that URL's stream - the others keep going. A property found by two
+ * streams is kept once, credited to the stream that sent it first.
+ *
+ * Resumable: every property event carries an SSE id (its index in the
+ * stream). When the connection drops we reconnect with exponential backoff
+ * and pass the last id back, so the backend only sends what we're missing.
+ * Properties are also deduped by property_url, so a backend that restarts
+ * the stream from the beginning doesn't produce duplicates either. A
+ * property without a URL can't be told apart that way - it's deduped by its
+ * event id within its own stream, and never across streams.
+ *
+ * restart() re-opens every stream from scratch in place (used after the
+ * scrape cache is cleared, so the page doesn't need a reload).
+ * 
+ * Next.js Best Practices:
+ * - Uses useRef to track EventSources for proper cleanup
+ * - Functional state updates to avoid stale closures
+ * - Proper cleanup on unmount or URL change
+ * - Error handling for connection and data errors
+ */
+
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+    PropertyScrapeService,
+    PropertySource,
+    PropertyStreamComplete,
+    detectSourceFromUrl,
+} from '@/lib/services/property-scrape.service'
+import { validateRecord, getStreamedPropertySchema, PROPERTY_STREAM_COMPLETE_SCHEMA } from '@/lib/validation'
+import { SearchIntent, serializeSearchIntent } from '@/lib/services/query-optimizer.service'
+import {
+    PropertyType,
+    PropertyStreamState,
+    StreamConnectionState,
+    UsePropertyStreamsReturn,
+} from '../types/listing.types'
+import {
+    STREAM_RECONNECT_BASE_DELAY,
+    STREAM_RECONNECT_MAX_DELAY,
+    STREAM_MAX_RECONNECT_ATTEMPTS,
+} from '../constants/listing.constants'
+
+const CONNECTING: StreamConnectionState = { status: 'connecting', attempt: 0, retryDelayMs: null }
+const CLOSED: StreamConnectionState = { status: 'closed', attempt: 0, retryDelayMs: null }
+
+interface StreamHandlers {
+    onProperty: (property: PropertyType) => void
+    onConnection: (connection: StreamConnectionState) => void
+    onComplete: (data: PropertyStreamComplete) => void
+    /** The stream is over - the server reported an error or reconnecting gave up */
+    onError: (error: Error) => void
+}
+
+/**
+ * Backoff before reconnect attempt n (1-based): 1s, 2s, 4s, ... capped
+ */
+function reconnectDelay(attempt: number): number {
+    return Math.min(STREAM_RECONNECT_BASE_DELAY * 2 ** (attempt - 1), STREAM_RECONNECT_MAX_DELAY)
+}
+
+function initialStreamState(url: string): PropertyStreamState {
+    return {
+        url,
+        source: detectSourceFromUrl(url),
+        count: 0,
+        duplicates: 0,
+        isLoading: true,
+        isComplete: false,
+        error: null,
+        connection: CONNECTING,
+        apiCallsMade: null,
+    }
+}
+
+/**
+ * Open one resumable property stream
+ *
+ * @returns Function that closes the stream and cancels any pending reconnect
+ */
+function openPropertyStream(
+    url: string,
+    origQuery: string | undefined,
+    intent: SearchIntent | null | undefined,
+    handlers: StreamHandlers
+): () => void {
+    const source = detectSourceFromUrl(url)
+
+    let eventSource: EventSource | null = null
+    let lastEventId: string | null = null
+    let attempt = 0
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    // Set once the stream completed, failed for good or was closed by the caller
+    let done = false
+    // A resumed stream may resend properties it already sent (by property_url, or event id without one)
+    const seenKeys = new Set<string>()
+
+    const finish = () => {
+        done = true
+        eventSource?.close()
+        eventSource = null
+        handlers.onConnection(CLOSED)
+    }
+
+    /**
+     * Reconnect with backoff - we close the EventSource ourselves rather
+     * than let the browser retry instantly in a loop
+     */
+    const scheduleReconnect = () => {
+        eventSource?.close()
+        eventSource = null
+
+        if (attempt >= STREAM_MAX_RECONNECT_ATTEMPTS) {
+            console.error(`❌ Stream closed without completion event - gave up after ${attempt} reconnects:`, url)
+            finish()
+            handlers.onError(new Error('Connection error: Stream closed unexpectedly'))
+            return
+        }
+
+        attempt++
+        const delay = reconnectDelay(attempt)
+        console.warn(`⚠️ Stream dropped - reconnecting in ${delay}ms (attempt ${attempt}/${STREAM_MAX_RECONNECT_ATTEMPTS}, last event ${lastEventId ?? 'none'}):`, url)
+        handlers.onConnection({ status: 'reconnecting', attempt, retryDelayMs: delay })
+        retryTimer = setTimeout(connect, delay)
+    }
+
+    // Back online: don't wait out the rest of the backoff
+    const handleOnline = () => {
+        if (!retryTimer) return
+        clearTimeout(retryTimer)
+        connect()
+    }
+    window.addEventListener('online', handleOnline)
+
+    function connect() {
+        retryTimer = null
+        if (done) return
+
+        // Create EventSource for streaming (resuming after the last event received)
+        let current: EventSource
+        try {
+            current = PropertyScrapeService.createPropertyStream(url, origQuery, intent, lastEventId)
+        } catch (err) {
+            // Not a site we can scrape - nothing to retry
+            console.error('❌ Could not open stream:', err)
+            finish()
+            handlers.onError(err instanceof Error ? err : new Error('Could not open stream'))
+            return
+        }
+        eventSource = current
+
+        current.onopen = () => {
+            handlers.onConnection({ status: 'open', attempt, retryDelayMs: null })
+        }
+
+        // Listen for 'property' events - each event contains a single property
+        current.addEventListener('property', (event: MessageEvent) => {
+            if (event.lastEventId) lastEventId = event.lastEventId
+
+            // Progress made - the next drop gets a fresh set of attempts
+            if (attempt > 0) {
+                attempt = 0
+                handlers.onConnection({ status: 'open', attempt: 0, retryDelayMs: null })
+            }
+
+            try {
+                // Validate against the source's schema - unrepairable properties are dropped
+                const property = validateRecord<PropertyType>(
+                    getStreamedPropertySchema(source),
+                    JSON.parse(event.data),
+                    `SSE property (${source})`
+                )
+                if (!property) return
+
+                const key = property.property_url || (event.lastEventId ? `#${event.lastEventId}` : null)
+                if (key !== null) {
+                    if (seenKeys.has(key)) return
+                    seenKeys.add(key)
+                }
+
+                handlers.onProperty(property)
+                console.log('📥 Received property:', property.title || 'No title')
+            } catch (err) {
+                console.error('❌ Error parsing property event:', err)
+                // Don't set error state for individual property parse errors, just log
+            }
+        })
+
+        // Listen for 'complete' event - signals end of stream
+        current.addEventListener('complete', (event: MessageEvent) => {
+            try {
+                const data = validateRecord<PropertyStreamComplete>(
+                    PROPERTY_STREAM_COMPLETE_SCHEMA,
+                    JSON.parse(event.data),
+                    `SSE complete (${source})`
+                )
+                if (!data) throw new Error('Invalid completion payload')
+
+                console.log('✅ Stream complete:', data.count, 'properties received with', data.api_calls_made, 'API calls')
+                finish()
+                handlers.onComplete(data)
+            } catch (err) {
+                console.error('❌ Error parsing complete event:', err)
+                finish()
+                handlers.onError(new Error('Failed to parse completion data'))
+            }
+        })
+
+        // Listen for 'error' events from server
+        current.addEventListener('error', (event: Event) => {
+            // Connection errors arrive here too, without data - onerror handles those
+            if (!(event instanceof MessageEvent) || event.data === undefined) return
+
+            let message: string
+            try {
+                const errorData = JSON.parse(event.data)
+                message = errorData.error || 'Unknown error from server'
+                console.error('❌ Server error event:', message)
+            } catch {
+                // If error event data is not JSON, use generic error
+                console.error('❌ Error event (non-JSON):', event.data)
+                message = event.data || 'Stream error occurred'
+            }
+            // The server gave up on this URL - reconnecting won't help
+            finish()
+            handlers.onError(new Error(message))
+        })
+
+        // Handle EventSource connection errors (dropped or refused connections)
+        current.onerror = () => {
+            // Ignore errors after completion, and from connections we already replaced
+            if (done || eventSource !== current) return
+            scheduleReconnect()
+        }
+    }
+
+    connect()
+
+    return () => {
+        done = true
+        window.removeEventListener('online', handleOnline)
+        if (retryTimer) clearTimeout(retryTimer)
+        if (eventSource) {
+            console.log('🧹 Cleaning up EventSource:', url)
+            eventSource.close()
+            eventSource = null
+        }
+    }
+}
+
+/**
+ * Custom hook for streaming properties from several listing URLs via SSE
+ * 
+ * @param urls - The property listing URLs to scrape (one stream each)
+ * @param origQuery - Optional original search query for relevance scoring
+ * @param intent - Optional structured search intent, sent along as relevance context
+ * @returns Merged properties (accumulating), per-URL stream state and overall loading/completion
+ */
+export function usePropertyStreams(urls: string[], origQuery?: string, intent?: SearchIntent | null): UsePropertyStreamsReturn {
+    const [properties, setProperties] = useState<PropertyType[]>([])
+    const [streams, setStreams] = useState<PropertyStreamState[]>([])
+    // Bumped by restart() - part of the stream context, so it starts everything over
+    const [generation, setGeneration] = useState(0)
+
+    // Compare URLs and intent by value so re-created arrays/objects don't restart streams
+    const urlsKey = urls.join('\n')
+    const intentKey = intent ? serializeSearchIntent(intent) : ''
+
+    // Close functions of the open streams, by URL
+    const closersRef = useRef<Map<string, () => void>>(new Map())
+    // Which stream each property (by property_url) came from - only properties with a URL
+    const ownersRef = useRef<Map<string, string>>(new Map())
+    // Which stream each property object came from - including those without a URL
+    const streamOfRef = useRef<WeakMap<PropertyType, string>>(new WeakMap())
+    // Query + intent the open streams were started with
+    const contextRef = useRef<string | null>(null)
+
+    const updateStream = useCallback((url: string, patch: (stream: PropertyStreamState) => Partial<PropertyStreamState>) => {
+        setStreams(prev => prev.map(stream => stream.url === url ? { ...stream, ...patch(stream) } : stream))
+    }, [])
+
+    useEffect(() => {
+        const wanted = [...new Set(urlsKey.split('\n').filter(Boolean))]
+        const context = `${origQuery ?? ''}\n${intentKey}\n${generation}`
+        const closers = closersRef.current
+        const owners = ownersRef.current
+
+        // Relevance depends on the query - a different one (or a restart) starts everything over
+        if (contextRef.current !== context) {
+            closers.forEach(close => close())
+            closers.clear()
+            owners.clear()
+            streamOfRef.current = new WeakMap()
+            setProperties([])
+            setStreams([])
+            contextRef.current = context
+        }
+
+        // Close streams for removed URLs and drop their properties
+        for (const [url, close] of [...closers]) {
+            if (wanted.includes(url)) continue
+            close()
+            closers.delete(url)
+
+            owners.forEach((owner, propertyUrl) => {
+                if (owner === url) owners.delete(propertyUrl)
+            })
+            const streamOf = streamOfRef.current
+            setProperties(prev => prev.filter(property => streamOf.get(property) !== url))
+        }
+
+        // Keep stream state in URL order (new URLs start fresh) - before opening,
+        // since a stream can report an error straight away
+        setStreams(prev => wanted.map(url => prev.find(stream => stream.url === url) ?? initialStreamState(url)))
+
+        // Open streams for new URLs
+        for (const url of wanted) {
+            if (closers.has(url)) continue
+
+            closers.set(url, openPropertyStream(url, origQuery, intent, {
+                onProperty: property => {
+                    // Without a URL there's nothing to match another stream's property on
+                    if (property.property_url) {
+                        const owner = owners.get(property.property_url)
+                        if (owner !== undefined) {
+                            // Another stream got there first
+                            if (owner !== url) updateStream(url, stream => ({ duplicates: stream.duplicates + 1 }))
+                            return
+                        }
+                        owners.set(property.property_url, url)
+                    }
+                    streamOfRef.current.set(property, url)
+
+                    // Use functional state update to avoid stale closures
+                    setProperties(prev => [...prev, property])
+                    updateStream(url, stream => ({ count: stream.count + 1 }))
+                },
+                onConnection: connection => updateStream(url, () => ({ connection })),
+                onComplete: data => updateStream(url, () => ({
+                    isLoading: false,
+                    isComplete: true,
+                    apiCallsMade: data.api_calls_made || null,
+                    // Check for top-level relevance (MagicBricks format)
+                    relevanceScore: data.relevance_score,
+                    relevanceReason: data.relevance_reason,
+                })),
+                onError: error => updateStream(url, () => ({ isLoading: false, isComplete: true, error })),
+            }))
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [urlsKey, origQuery, intentKey, generation]) // Only depend on the URLs, origQuery, the intent's contents and restarts
+
+    // Cleanup function: close every EventSource when component unmounts
+    useEffect(() => {
+        const closers = closersRef.current
+        return () => {
+            closers.forEach(close => close())
+            closers.clear()
+            // A remount (e.g. Strict Mode) starts over
+            contextRef.current = null
+        }
+    }, [])
+
+    const sourceOf = useCallback((property: PropertyType): PropertySource => {
+        const owner = streamOfRef.current.get(property) ?? ownersRef.current.get(property.property_url)
+        return owner ? detectSourceFromUrl(owner) : 'unknown'
+    }, [])
+
+    const restart = useCallback(() => {
+        console.log('🔄 Restarting property streams')
+        setGeneration(prev => prev + 1)
+    }, [])
+
+    const isComplete = streams.length > 0 && streams.every(stream => stream.isComplete)
+    const failed = streams.filter(stream => stream.error)
+
+    return {
+        properties,
+        streams,
+        sourceOf,
+        restart,
+        isLoading: streams.some(stream => stream.isLoading),
+        isComplete,
+        error: streams.length > 0 && failed.length === streams.length ? failed[0].error : null,
+    }
+}
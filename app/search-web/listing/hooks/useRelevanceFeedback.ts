@@ -0,0 +1,151 @@
+/**
+ * useRelevanceFeedback Hook
+ * =========================
+ *
+ * Thumbs up/down on a property's relevance score, with an optional
+ * "wrong because..." note. Feedback is stored with the search query the
+ * score was given for, so the scoring can be checked against it later.
+ *
+ * Offline feedback goes to a local queue (see RelevanceFeedbackService)
+ * and is sent when the browser comes back online - or on the next visit.
+ *
+ * CONCEPT: Async Logic in Hooks
+ * - Encapsulates async operations (API calls)
+ * - Manages loading, success, and error states
+ * - Keeps components clean from async complexity
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { PropertySource } from '@/lib/services/property-scrape.service'
+import {
+    RelevanceFeedbackService,
+    RelevanceVote,
+} from '@/lib/services/relevance-feedback.service'
+import {
+    PropertyFeedback,
+    PropertyType,
+    UseRelevanceFeedbackReturn,
+} from '../types/listing.types'
+import { shownMatchesAndMismatches } from '../utils/property-utils'
+
+/**
+ * Custom hook for relevance feedback on the listing's properties
+ *
+ * @param origQuery - The search the relevance scores were given for
+ * @param sourceOf - Source of a property (sent with the feedback)
+ * @returns Feedback per property, the submit function and the offline queue size
+ */
+export function useRelevanceFeedback(
+    origQuery: string | undefined,
+    sourceOf: (property: PropertyType) => PropertySource
+): UseRelevanceFeedbackReturn {
+    // ========================================================================
+    // STATE MANAGEMENT
+    // ========================================================================
+
+    // Feedback by property_url
+    const [feedback, setFeedback] = useState<Record<string, PropertyFeedback>>({})
+    const [queuedCount, setQueuedCount] = useState(0)
+
+    /**
+     * Feedback id per property_url - changing a vote resends the same id,
+     * so the backend (and the offline queue) replace the earlier vote
+     */
+    const feedbackIdsRef = useRef(new Map<string, string>())
+
+    const updateFeedback = useCallback((url: string, update: Partial<PropertyFeedback>) => {
+        setFeedback(prev => prev[url] ? { ...prev, [url]: { ...prev[url], ...update } } : prev)
+    }, [])
+
+    // ========================================================================
+    // OFFLINE QUEUE
+    // ========================================================================
+
+    /**
+     * Send whatever was queued - cards still showing "queued" become "sent"
+     */
+    const flushQueue = useCallback(async () => {
+        const sentIds = new Set(await RelevanceFeedbackService.flushQueue())
+        const queue = RelevanceFeedbackService.getQueue()
+        setQueuedCount(queue.length)
+        if (sentIds.size === 0) return
+
+        // A vote changed during the flush is still queued under the same id
+        const queuedIds = new Set(queue.map(item => item.id))
+        feedbackIdsRef.current.forEach((id, url) => {
+            if (sentIds.has(id) && !queuedIds.has(id)) updateFeedback(url, { status: 'sent' })
+        })
+    }, [updateFeedback])
+
+    // Flush on mount (feedback from an earlier visit) and whenever we're back online
+    useEffect(() => {
+        flushQueue()
+        window.addEventListener('online', flushQueue)
+        return () => window.removeEventListener('online', flushQueue)
+    }, [flushQueue])
+
+    // ========================================================================
+    // SUBMIT
+    // ========================================================================
+
+    /**
+     * Record a vote and send it
+     *
+     * STEPS:
+     * 1. Show the vote on the card right away (status: sending)
+     * 2. Send it - or queue it when offline / the backend is unreachable
+     * 3. Update the status: sent, queued or error
+     */
+    const submitFeedback = useCallback(async (property: PropertyType, vote: RelevanceVote, note: string) => {
+        const url = property.property_url
+        let id = feedbackIdsRef.current.get(url)
+        if (!id) {
+            id = uuidv4()
+            feedbackIdsRef.current.set(url, id)
+        }
+
+        const trimmedNote = note.trim()
+        const source = sourceOf(property)
+        setFeedback(prev => ({ ...prev, [url]: { vote, note: trimmedNote, status: 'sending' } }))
+
+        try {
+            const delivery = await RelevanceFeedbackService.sendOrQueue({
+                id,
+                property_url: url,
+                source,
+                orig_query: origQuery || '',
+                vote,
+                ...(trimmedNote && { note: trimmedNote }),
+                relevance_score: property.relevance_score ?? null,
+                // What the card lists - older properties only have relevance_reason
+                ...shownMatchesAndMismatches(property, source),
+                created_at: new Date().toISOString(),
+            })
+
+            updateFeedback(url, { status: delivery })
+            setQueuedCount(RelevanceFeedbackService.getQueue().length)
+        } catch (error) {
+            console.error('Error sending relevance feedback:', error)
+            updateFeedback(url, {
+                status: 'error',
+                error: error instanceof Error ? error.message : 'Failed to send feedback',
+            })
+        }
+    }, [origQuery, sourceOf, updateFeedback])
+
+    const feedbackOf = useCallback(
+        (property: PropertyType) => feedback[property.property_url],
+        [feedback]
+    )
+
+    // ========================================================================
+    // RETURN PUBLIC API
+    // ========================================================================
+
+    return {
+        feedbackOf,
+        submitFeedback,
+        queuedCount,
+    }
+}
@@ -0,0 +1,271 @@
+/**
+ * useScrapeCache Hook
+ * ===================
+ *
+ * Custom hook for the scrape cache of the listing URLs: what's cached
+ * (when it was scraped, how many properties, API calls made) and an
+ * in-place refresh.
+ *
+ * Refresh clears the cache for every URL and restarts the streams - no
+ * page reload. The properties shown before the refresh came from the cache,
+ * so they're kept as the "cached copy" and the fresh scrape is compared
+ * against them: new properties, changed prices and removed properties.
+ *
+ * CONCEPT: Async Logic in Hooks
+ * - Encapsulates async operations (API calls)
+ * - Manages loading, success, and error states
+ * - Keeps components clean from async complexity
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { PropertyScrapeService, detectSourceFromUrl } from '@/lib/services/property-scrape.service'
+import {
+    CacheRefreshDiff,
+    CacheRefreshState,
+    PropertyChange,
+    PropertyStreamState,
+    PropertyType,
+    ScrapeCacheEntry,
+    UseScrapeCacheReturn,
+    INITIAL_REFRESH_STATE,
+} from '../types/listing.types'
+import { getPropertyPrice } from '../utils/property-utils'
+import { ERROR_MESSAGE_DURATION, SOURCE_LABELS } from '../constants/listing.constants'
+
+interface UseScrapeCacheOptions {
+    /** Properties currently shown (all streams, after dedupe) */
+    properties: PropertyType[]
+
+    /** Per-URL stream state - a refresh is over when every stream finished */
+    streams: PropertyStreamState[]
+
+    /** Have all streams finished (or failed)? */
+    isComplete: boolean
+
+    /** Re-open every stream (from usePropertyStreams) */
+    restartStreams: () => void
+}
+
+/**
+ * Has the price changed? Compares rupee amounts when both prices parse
+ * (so "₹1.2 Cr" vs "₹ 1.20 Cr" isn't a change), otherwise the text
+ */
+function hasPriceChanged(cached: PropertyType, fresh: PropertyType): boolean {
+    const cachedAmount = getPropertyPrice(cached)
+    const freshAmount = getPropertyPrice(fresh)
+    if (cachedAmount !== null && freshAmount !== null) return cachedAmount !== freshAmount
+    return (cached.price || '') !== (fresh.price || '')
+}
+
+/**
+ * Custom hook for scrape cache info and in-place refresh
+ *
+ * @param urls - The listing URLs in the session
+ * @param options - Stream data the refresh works with (see UseScrapeCacheOptions)
+ * @returns Cache entries, refresh state, the refresh diff and actions
+ */
+export function useScrapeCache(
+    urls: string[],
+    { properties, streams, isComplete, restartStreams }: UseScrapeCacheOptions
+): UseScrapeCacheReturn {
+    // ========================================================================
+    // STATE MANAGEMENT
+    // ========================================================================
+
+    const [entries, setEntries] = useState<ScrapeCacheEntry[]>([])
+    const [refreshState, setRefreshState] = useState<CacheRefreshState>(INITIAL_REFRESH_STATE)
+
+    /**
+     * Properties shown before the last refresh, by property_url
+     * null before any refresh, and once the summary is dismissed
+     */
+    const [baseline, setBaseline] = useState<Map<string, PropertyType> | null>(null)
+
+    // Compare URLs by value - the caller may pass a new array every render
+    const urlsKey = urls.join('\n')
+
+    // Only the latest info request may update entries
+    const loadRequestRef = useRef(0)
+
+    // ========================================================================
+    // LOAD CACHE INFO
+    // ========================================================================
+
+    /**
+     * Fetch cache info for every URL - a failed URL gets an error, the rest still show
+     */
+    const loadEntries = useCallback(async () => {
+        const requestId = ++loadRequestRef.current
+        const wanted = urlsKey ? urlsKey.split('\n') : []
+
+        const loaded = await Promise.all(wanted.map(async (url): Promise<ScrapeCacheEntry> => {
+            try {
+                return { url, info: await PropertyScrapeService.getScrapeCache(url), error: null }
+            } catch (error) {
+                console.error('Error loading cache info:', error)
+                return { url, info: null, error: error instanceof Error ? error.message : 'Failed to load cache info' }
+            }
+        }))
+
+        if (requestId === loadRequestRef.current) setEntries(loaded)
+    }, [urlsKey])
+
+    /**
+     * Reload once the streams are done - the backend caches what they scraped
+     *
+     * Only runs when isComplete changes: right after a restart the old
+     * (complete) stream state is still around for a render
+     */
+    useEffect(() => {
+        if (!isComplete) return
+        loadEntries()
+
+        // Keep a partial-clear error up - its own timer clears it
+        if (refreshState.phase === 'streaming') {
+            setRefreshState(prev => ({ ...INITIAL_REFRESH_STATE, error: prev.error }))
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isComplete])
+
+    // ========================================================================
+    // REFRESH IN PLACE
+    // ========================================================================
+
+    /**
+     * Clear the cache for every URL, then restart the streams
+     *
+     * STEPS:
+     * 1. Keep the current properties as the cached copy
+     * 2. DELETE each URL's cache (HTTP errors are thrown as ApiError)
+     * 3. Restart the streams - they scrape afresh
+     * 4. The diff fills in as properties arrive (see below)
+     *
+     * Each DELETE settles on its own: if some fail, the ones that went
+     * through are still re-scraped (the rest come from the cache again,
+     * so they show as unchanged) and the failed URLs are reported.
+     * Only when none went through is there nothing to restart.
+     */
+    const refresh = useCallback(async () => {
+        if (urls.length === 0 || refreshState.phase !== 'idle') return
+
+        // Properties without a URL can't be matched up with the fresh scrape
+        const cachedCopy = new Map(properties
+            .filter(property => property.property_url)
+            .map(property => [property.property_url, property]))
+        setRefreshState({ phase: 'deleting', error: null })
+
+        const results = await Promise.allSettled(urls.map(url => PropertyScrapeService.deleteScrapeCache(url)))
+        const errors = results.flatMap(result => result.status === 'rejected' ? [result.reason] : [])
+        const failed = urls.filter((_, index) => results[index].status === 'rejected')
+
+        let errorMessage: string | null = null
+        if (errors.length > 0) {
+            errors.forEach(error => console.error('Error clearing cache:', error))
+
+            const reason = errors[0] instanceof Error ? errors[0].message : 'Failed to clear cache'
+            errorMessage = failed.length === urls.length
+                ? reason
+                : `Could not clear the cache for ${failed.map(url => SOURCE_LABELS[detectSourceFromUrl(url)]).join(', ')} (${reason}) - ${failed.length === 1 ? 'its' : 'their'} cached copy is shown`
+
+            // Auto-clear error message after duration
+            setTimeout(() => {
+                setRefreshState(prev => ({ ...prev, error: null }))
+            }, ERROR_MESSAGE_DURATION)
+        }
+
+        if (failed.length === urls.length) {
+            setRefreshState({ phase: 'idle', error: errorMessage })
+            return
+        }
+
+        setBaseline(cachedCopy)
+        setRefreshState({ phase: 'streaming', error: errorMessage })
+        restartStreams()
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [urlsKey, properties, refreshState.phase, restartStreams])
+
+    const dismissDiff = useCallback(() => setBaseline(null), [])
+
+    // A different set of URLs has nothing to compare against
+    useEffect(() => {
+        setBaseline(null)
+        loadEntries()
+    }, [loadEntries])
+
+    // ========================================================================
+    // DIFF AGAINST THE CACHED COPY
+    // ========================================================================
+
+    /**
+     * New and re-priced properties as they stream in; removals once every
+     * stream finished - and only if none failed, since a failed stream's
+     * properties are missing for another reason
+     */
+    const diff = useMemo<CacheRefreshDiff | null>(() => {
+        if (!baseline) return null
+
+        const changes: Record<string, PropertyChange> = {}
+        const freshUrls = new Set<string>()
+
+        for (const property of properties) {
+            if (!property.property_url) continue
+            freshUrls.add(property.property_url)
+            const cached = baseline.get(property.property_url)
+            if (!cached) {
+                changes[property.property_url] = { kind: 'new' }
+            } else if (hasPriceChanged(cached, property)) {
+                changes[property.property_url] = { kind: 'price_changed', previousPrice: cached.price }
+            }
+        }
+
+        const isFinal = refreshState.phase === 'idle' && isComplete
+        const removalsChecked = isFinal && !streams.some(stream => stream.error)
+        const removed = removalsChecked
+            ? [...baseline.values()].filter(property => !freshUrls.has(property.property_url))
+            : []
+
+        return { changes, removed, isFinal, removalsChecked }
+    }, [baseline, properties, streams, isComplete, refreshState.phase])
+
+    const changeOf = useCallback(
+        (property: PropertyType) => diff?.changes[property.property_url],
+        [diff]
+    )
+
+    // ========================================================================
+    // RETURN PUBLIC API
+    // ========================================================================
+
+    return {
+        entries,
+        refreshState,
+        diff,
+        changeOf,
+        refresh,
+        dismissDiff,
+    }
+}
+
+/**
+ * LEARNING: Why Extract This Into a Hook?
+ *
+ * BEFORE (in component):
+ * - 40+ lines of async logic mixed with UI
+ * - Hard to test without rendering component
+ * - Can't reuse in other components
+ * - State management scattered
+ *
+ * AFTER (with hook):
+ * - Clean separation: logic vs UI
+ * - Can test hook independently
+ * - Reusable across components
+ * - Single responsibility: just the scrape cache
+ *
+ * Component becomes:
+ * ```
+ * const { entries, refresh } = useScrapeCache(urls, streamData)
+ * return <button onClick={refresh}>Refresh</button>
+ * ```
+ *
+ * Much cleaner! ✨
+ */
@@ -2,8 +2,9 @@
  * Listing Details Page - Client Component
  * =========================================
  *
- * This page displays scraped property listings from a URL.
- * Uses batch API to fetch all properties at once.
+ * This page displays scraped property listings from one or more URLs
+ * (repeat the `url` param to compare sites). Each URL is streamed
+ * separately and everything is merged into one grid with one set of filters.
  *
  * Why Client Component?
  * - Needs to handle async data fetching (useEffect, useState)
@@ -20,27 +21,29 @@
 
 'use client'
 
-import { Suspense } from 'react'
+import { Suspense, useMemo } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { useRouter } from 'next/navigation'
 import { ArrowLeft } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
+import { parseSearchIntent } from '@/lib/services/query-optimizer.service'
 
 // Hooks
-import { usePropertyStream } from './hooks/usePropertyStream'
+import { usePropertyStreams } from './hooks/usePropertyStreams'
 import { usePropertyFilters } from './hooks/usePropertyFilters'
-import { useCacheReset } from './hooks/useCacheReset'
+import { useScrapeCache } from './hooks/useScrapeCache'
+import { useListingExport } from './hooks/useListingExport'
+import { useRelevanceFeedback } from './hooks/useRelevanceFeedback'
+import { usePriceAnalytics } from './hooks/usePriceAnalytics'
 
 // Components
 import { ListingHeader } from './components/ListingHeader'
 import { PropertyFilters } from './components/PropertyFilters'
 import { PropertyGrid } from './components/PropertyGrid'
+import { PriceAnalyticsPanel } from './components/PriceAnalyticsPanel'
 import { NoUrlState, LoadingState, ErrorState } from './components/EmptyStates'
 
-// Types
-import { PROPERTY_SOURCES } from './constants/listing.constants'
-
 /**
  * Main Listing Content Component
  * Wrapped in Suspense boundary to handle useSearchParams
@@ -53,29 +56,38 @@ function ListingContent() {
     const router = useRouter()
     const searchParams = useSearchParams()
 
-    // Get URL from query params
-    const url = searchParams.get('url') || ''
+    // Get URLs from query params (?url=...&url=... merges several listing pages)
+    const urlsParam = searchParams.getAll('url').filter(Boolean).join('\n')
     const origQuery = searchParams.get('orig_query') || undefined
-    const decodedUrl = url ? decodeURIComponent(url) : ''
+    const decodedUrls = useMemo(
+        () => urlsParam ? urlsParam.split('\n').map(url => decodeURIComponent(url)) : [],
+        [urlsParam]
+    )
+    const hasUrls = decodedUrls.length > 0
+    // Structured intent from the search page (pre-populates filters, relevance context)
+    const intentParam = searchParams.get('intent')
+    const intent = useMemo(() => parseSearchIntent(intentParam), [intentParam])
 
     // ========================================================================
     // FETCH DATA
     // ========================================================================
 
     /**
-     * usePropertyStream: Streams properties from backend via SSE
+     * usePropertyStreams: Streams properties from backend via SSE, one stream per URL
      * 
      * Returns:
-     * - properties: Array of properties (accumulates as they stream in)
-     * - isLoading: Is stream in progress?
-     * - error: Error if stream failed
-     * - isComplete: Has stream completed?
-     * - source: 'magicbricks' or 'squareyards'
-     * - (other metadata fields)
+     * - properties: Merged properties, deduped by URL (accumulates as they stream in)
+     * - streams: Per-URL progress (count, errors, reconnect status)
+     * - sourceOf: Which site a property came from
+     * - restart: Re-open every stream in place (cache refresh)
+     * - isLoading: Is any stream in progress?
+     * - error: Error if every stream failed
+     * - isComplete: Have all streams completed?
      */
-    const { properties, isLoading, error, isComplete, source } = usePropertyStream(
-        decodedUrl,
-        origQuery
+    const { properties, streams, sourceOf, restart, isLoading, error, isComplete } = usePropertyStreams(
+        decodedUrls,
+        origQuery,
+        intent
     )
 
     // ========================================================================
@@ -90,6 +102,9 @@ function ListingContent() {
      * - costBounds: Slider bounds for cost
      * - areaBounds: Slider bounds for area
      * - groupedProperties: Filtered and grouped properties
+     * - sortedProperties: Filtered and sorted, ungrouped (when grouping is off)
+     * - attributeFacets: Furnishing, facing, ... values with counts, from the properties so far
+     * - clusterOf: Likely duplicates a card stands for (only one card per cluster is listed)
      * - updateSearchQuery, updateCostRange, etc.: Update callbacks
      */
     const {
@@ -97,34 +112,96 @@ function ListingContent() {
         costBounds,
         areaBounds,
         groupedProperties,
+        sortedProperties,
         updateSearchQuery,
         updateCostRange,
         updateAreaRange,
         updateRelevanceThreshold,
-    } = usePropertyFilters(properties)
+        updateSortMode,
+        updateGrouping,
+        updateAttribute,
+        clearAttributes,
+        updateCombineDuplicates,
+        attributeFacets,
+        clusterOf,
+        hiddenDuplicateCount,
+    } = usePropertyFilters(properties, intent)
 
     // ========================================================================
     // CACHE MANAGEMENT
     // ========================================================================
 
     /**
-     * useCacheReset: Manages cache deletion
+     * useScrapeCache: Cache info per URL and in-place refresh
      * 
      * Returns:
-     * - cacheState: { isDeleting, success, error }
-     * - resetCache: Function to trigger reset
+     * - entries: { url, info: { scraped_at, count, api_calls_made }, error } per URL
+     * - refreshState: { phase, error }
+     * - diff / changeOf: New, re-priced and removed properties vs the cached copy
+     * - refresh: Clear the cache and re-stream without a reload
+     */
+    const {
+        entries: cacheEntries,
+        refreshState,
+        diff: refreshDiff,
+        changeOf,
+        refresh,
+        dismissDiff,
+    } = useScrapeCache(decodedUrls, { properties, streams, isComplete, restartStreams: restart })
+
+    // ========================================================================
+    // EXPORT
+    // ========================================================================
+
+    /**
+     * useListingExport: Exports the grid's current view (CSV, XLSX, PDF)
+     *
+     * Gets the same filtered/sorted/grouped data as PropertyGrid, so an
+     * export always matches what's on screen
+     */
+    const { exportCount, exportError, exportListing } = useListingExport({
+        groupedProperties,
+        sortedProperties,
+        isGrouped: filters.groupResults,
+        relevanceThreshold: filters.relevanceThreshold,
+        sourceOf,
+        origQuery,
+    })
+
+    // ========================================================================
+    // RELEVANCE FEEDBACK
+    // ========================================================================
+
+    /**
+     * useRelevanceFeedback: Thumbs up/down (+ optional note) on relevance scores
+     *
+     * Sent with origQuery - the search the scores were given for.
+     * Queued locally while offline (queuedCount shows in the header)
+     */
+    const { feedbackOf, submitFeedback, queuedCount } = useRelevanceFeedback(origQuery, sourceOf)
+
+    // ========================================================================
+    // PRICE ANALYTICS
+    // ========================================================================
+
+    /**
+     * usePriceAnalytics: Price / price-per-sqft spread once the scrape finishes
+     *
+     * Returns:
+     * - analytics: Histograms, quartiles per BHK, flagged counts (null while streaming)
+     * - positionOf: A listing's price per sqft vs the median of comparable listings
      */
-    const { cacheState, resetCache } = useCacheReset(decodedUrl)
+    const { analytics: priceAnalytics, positionOf } = usePriceAnalytics(properties, costBounds, isComplete)
 
     // ========================================================================
-    // DETERMINE PROPERTY SOURCE
+    // DETERMINE PROPERTY SOURCES
     // ========================================================================
 
     /**
-     * Check if properties are from MagicBricks
-     * Used to determine which card component to render
+     * Label cards with their source when the session spans several URLs
+     * (the card component itself is picked per property via sourceOf)
      */
-    const isMagicBricks = source === PROPERTY_SOURCES.MAGIC_BRICKS
+    const showSourceBadges = streams.length > 1
 
     // ========================================================================
     // RENDER
@@ -149,35 +226,42 @@ function ListingContent() {
                 {/* ============================================================ */}
                 {/* STATE: No URL provided */}
                 {/* ============================================================ */}
-                {!url && <NoUrlState />}
+                {!hasUrls && <NoUrlState />}
 
                 {/* ============================================================ */}
                 {/* STATE: Loading */}
                 {/* ============================================================ */}
-                {url && isLoading && properties.length === 0 && (
+                {hasUrls && isLoading && properties.length === 0 && (
                     <LoadingState message="Getting property listings..." />
                 )}
 
                 {/* ============================================================ */}
-                {/* STATE: Error */}
+                {/* STATE: Error (every stream failed with nothing received - otherwise the header shows it) */}
                 {/* ============================================================ */}
-                {error && <ErrorState error={error} />}
+                {error && properties.length === 0 && <ErrorState error={error} />}
 
                 {/* ============================================================ */}
                 {/* STATE: Display properties */}
                 {/* ============================================================ */}
-                {url && !error && (properties.length > 0 || isComplete) && (
+                {hasUrls && (properties.length > 0 || (isComplete && !error)) && (
                     <div className="space-y-6">
                         {/* Sticky Header Section */}
                         <div className="sticky top-0 z-50 bg-gradient-to-br from-gray-50 to-gray-100 pb-6 -mx-4 px-4 pt-2 -mt-2">
                             {/* Header with title and reset button */}
                             <ListingHeader
-                                url={url}
+                                streams={streams}
                                 origQuery={origQuery}
                                 propertyCount={properties.length}
                                 isLoading={isLoading}
-                                cacheState={cacheState}
-                                onResetCache={resetCache}
+                                cacheEntries={cacheEntries}
+                                refreshState={refreshState}
+                                refreshDiff={refreshDiff}
+                                onRefresh={refresh}
+                                onDismissRefreshDiff={dismissDiff}
+                                exportCount={exportCount}
+                                exportError={exportError}
+                                onExport={exportListing}
+                                queuedFeedbackCount={queuedCount}
                             />
 
                             {/* Filter controls - only show if we have properties */}
@@ -191,14 +275,34 @@ function ListingContent() {
                                     onCostChange={updateCostRange}
                                     onAreaChange={updateAreaRange}
                                     onRelevanceChange={updateRelevanceThreshold}
+                                    onSortChange={updateSortMode}
+                                    onGroupingChange={updateGrouping}
+                                    onCombineDuplicatesChange={updateCombineDuplicates}
+                                    hiddenDuplicateCount={hiddenDuplicateCount}
+                                    attributeFacets={attributeFacets}
+                                    onAttributeChange={updateAttribute}
+                                    onClearAttributes={clearAttributes}
                                 />
                             )}
                         </div>
 
+                        {/* Price analytics - once every stream has finished */}
+                        {priceAnalytics && (
+                            <PriceAnalyticsPanel analytics={priceAnalytics} onCostRangeSelect={updateCostRange} />
+                        )}
+
                         {/* Property grid or empty state */}
                         <PropertyGrid
                             groupedProperties={groupedProperties}
-                            isMagicBricks={isMagicBricks}
+                            sortedProperties={sortedProperties}
+                            isGrouped={filters.groupResults}
+                            sourceOf={sourceOf}
+                            showSourceBadges={showSourceBadges}
+                            changeOf={changeOf}
+                            positionOf={positionOf}
+                            clusterOf={clusterOf}
+                            feedbackOf={feedbackOf}
+                            onFeedback={submitFeedback}
                             relevanceThreshold={filters.relevanceThreshold}
                             isComplete={isComplete}
                             isLoading={isLoading}
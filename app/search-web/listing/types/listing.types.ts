@@ -6,7 +6,17 @@
  * This improves type safety and makes the code self-documenting.
  */
 
-import { SquareYardsProperty, MagicBricksProperty } from '@/lib/services/property-scrape.service'
+import {
+    SquareYardsProperty,
+    MagicBricksProperty,
+    NinetyNineAcresProperty,
+    HousingProperty,
+    NoBrokerProperty,
+    CommonFloorProperty,
+    PropertySource,
+    ScrapeCacheInfo,
+} from '@/lib/services/property-scrape.service'
+import { RelevanceVote } from '@/lib/services/relevance-feedback.service'
 
 // ============================================================================
 // PROPERTY TYPES
@@ -20,18 +30,43 @@ import { SquareYardsProperty, MagicBricksProperty } from '@/lib/services/propert
  * - TypeScript will ensure you handle both cases
  * - Use when data can be one of multiple shapes
  */
-export type PropertyType = SquareYardsProperty | MagicBricksProperty
+export type PropertyType =
+    | SquareYardsProperty
+    | MagicBricksProperty
+    | NinetyNineAcresProperty
+    | HousingProperty
+    | NoBrokerProperty
+    | CommonFloorProperty
 
 /**
- * Helper to check if a property is MagicBricks type
- * 
+ * Property shape each source's stream returns
+ */
+export interface PropertyBySource {
+    squareyards: SquareYardsProperty
+    magicbricks: MagicBricksProperty
+    '99acres': NinetyNineAcresProperty
+    housing: HousingProperty
+    nobroker: NoBrokerProperty
+    commonfloor: CommonFloorProperty
+}
+
+/**
+ * Helper to check a property's type by the source it came from
+ *
  * CONCEPT: Type Guards
  * - Functions that help TypeScript narrow types
  * - After calling this, TypeScript knows the specific type
+ *
+ * The stream a property arrived on (sourceOf) decides its shape. Its fields
+ * can't: the portals share most of them, and optional ones may be missing
+ * or null.
  */
-export function isMagicBricksProperty(property: PropertyType): property is MagicBricksProperty {
-    // MagicBricks has carpet_area, SquareYards doesn't
-    return 'carpet_area' in property
+export function isPropertyFrom<S extends keyof PropertyBySource>(
+    property: PropertyType,
+    propertySource: PropertySource,
+    source: S
+): property is PropertyBySource[S] {
+    return propertySource === source
 }
 
 // ============================================================================
@@ -61,6 +96,43 @@ export interface RangeBounds {
     max: number
 }
 
+/**
+ * Order of properties in the grid
+ *
+ * - relevance:           highest relevance score first
+ * - price_asc:           cheapest first
+ * - price_per_sqft_asc:  lowest rate first (quoted rate, else price / area)
+ * - carpet_area_desc:    largest carpet area first (listed area when the site has no carpet area)
+ * - newest:              most recently posted first
+ */
+export type PropertySortMode = 'relevance' | 'price_asc' | 'price_per_sqft_asc' | 'carpet_area_desc' | 'newest'
+
+/**
+ * Structured attributes the listing can be filtered on
+ *
+ * MagicBricks returns all of them except flooring; SquareYards has facing,
+ * parking, furnishing and flooring. The other portals' furnishing and
+ * facing are filterable too.
+ */
+export type PropertyAttribute =
+    | 'furnishing'
+    | 'facing'
+    | 'floor'
+    | 'ownership'
+    | 'transaction'
+    | 'parking'
+    | 'bathroom'
+    | 'balcony'
+    | 'overlooking'
+    | 'flooring'
+
+/**
+ * Selected values per attribute
+ * A property must have one of the selected values of every attribute
+ * that has a selection (OR within an attribute, AND across attributes)
+ */
+export type AttributeFilters = Partial<Record<PropertyAttribute, string[]>>
+
 /**
  * Filter state for property filtering
  * 
@@ -79,6 +151,18 @@ export interface PropertyFilters {
 
     /** Minimum relevance score for "Most Relevant" grouping */
     relevanceThreshold: number
+
+    /** Order within each group (or of the whole list when ungrouped) */
+    sortMode: PropertySortMode
+
+    /** Group by relevance, then posting date - off shows one flat list */
+    groupResults: boolean
+
+    /** Selected attribute values (furnishing, facing, ...) */
+    attributes: AttributeFilters
+
+    /** Show likely duplicates (same flat, other agents) as one card */
+    combineDuplicates: boolean
 }
 
 /**
@@ -94,6 +178,136 @@ export const DEFAULT_FILTERS: PropertyFilters = {
     costRange: [0, 10],
     areaRange: [0, 10000],
     relevanceThreshold: 5,
+    sortMode: 'relevance',
+    groupResults: true,
+    attributes: {},
+    combineDuplicates: true,
+}
+
+/**
+ * One value of an attribute facet
+ */
+export interface AttributeFacetOption {
+    /** Value as shown (normalized, e.g. "West Facing" -> "West") */
+    value: string
+
+    /** Properties with this value, given the other filters */
+    count: number
+
+    /** Is this value selected? */
+    selected: boolean
+}
+
+/**
+ * Filter options for one attribute, built from the properties streamed so far
+ */
+export interface AttributeFacet {
+    attribute: PropertyAttribute
+    label: string
+
+    /** Most common first; selected values are kept even when none match */
+    options: AttributeFacetOption[]
+}
+
+// ============================================================================
+// DUPLICATE CLUSTER TYPES
+// ============================================================================
+
+/**
+ * Postings that are likely the same flat (same society, area, floor and a
+ * similar price and title) - usually one flat listed by several agents
+ */
+export interface PropertyCluster {
+    /** The posting shown as the card - first in the current sort order */
+    primary: PropertyType
+
+    /** Every posting in the cluster, primary first */
+    listings: PropertyType[]
+
+    /** Distinct agents who posted it (unnamed agents aren't counted) */
+    agents: string[]
+
+    /** Lowest and highest asking price in rupees (null when no price parses) */
+    priceRange: { min: number; max: number } | null
+}
+
+// ============================================================================
+// PRICE ANALYTICS TYPES
+// ============================================================================
+
+/**
+ * One histogram bar - values from `from` (inclusive) to `to`
+ */
+export interface HistogramBin {
+    from: number
+    to: number
+    count: number
+}
+
+/**
+ * 25th percentile, median and 75th percentile
+ */
+export interface PriceQuartiles {
+    p25: number
+    median: number
+    p75: number
+}
+
+/**
+ * Price and price per sqft quartiles for one configuration
+ */
+export interface BhkPriceStats {
+    /** "2 BHK", or "Other" when the listing doesn't say */
+    bhk: string
+    count: number
+
+    /** Total price in rupees */
+    price: PriceQuartiles | null
+
+    /** Rupees per sqft */
+    pricePerSqft: PriceQuartiles | null
+}
+
+/**
+ * Where a listing's price per sqft sits against comparable listings
+ */
+export interface PricePosition {
+    pricePerSqft: number
+
+    /** Median price per sqft of the listings it's compared with */
+    median: number
+
+    /** (price per sqft - median) / median, e.g. 0.25 = 25% above */
+    deviation: number
+
+    /** Set when the deviation passes PRICE_OUTLIER_THRESHOLD */
+    flag: 'above' | 'below' | null
+
+    /** Compared with the same BHK, or every listing when too few share it */
+    peers: 'bhk' | 'all'
+}
+
+/**
+ * Price analytics for a finished scrape (sale listings only - rents
+ * aren't comparable with sale prices)
+ */
+export interface PriceAnalytics {
+    /** Sale listings with a price */
+    count: number
+
+    /** Total price in rupees */
+    priceHistogram: HistogramBin[]
+
+    /** Rupees per sqft */
+    pricePerSqftHistogram: HistogramBin[]
+
+    overall: Omit<BhkPriceStats, 'bhk'>
+
+    /** Smallest configuration first, "Other" last */
+    byBhk: BhkPriceStats[]
+
+    /** Listings flagged well above / below their median */
+    flagged: { above: number; below: number }
 }
 
 // ============================================================================
@@ -101,33 +315,114 @@ export const DEFAULT_FILTERS: PropertyFilters = {
 // ============================================================================
 
 /**
- * Cache reset state
+ * Cache info for one scraped URL, as shown in the cache panel
+ */
+export interface ScrapeCacheEntry {
+    url: string
+
+    /** What the backend has cached (null until loaded, or if loading failed) */
+    info: ScrapeCacheInfo | null
+
+    /** Error message if loading the info failed */
+    error: string | null
+}
+
+/**
+ * In-place cache refresh state
  * 
  * CONCEPT: State Machine Pattern
  * - Represents the different states of an async operation
  * - Makes it clear what state you're in
- * - Prevents impossible states (can't be loading AND error at same time)
+ * - Prevents impossible states (can't be deleting AND streaming at same time)
+ *
+ * - idle:      nothing in progress
+ * - deleting:  clearing the cached scrapes
+ * - streaming: streams restarted, re-scraping every URL
  */
-export interface CacheResetState {
-    /** Is cache deletion in progress? */
-    isDeleting: boolean
-
-    /** Did cache deletion succeed? */
-    success: boolean
+export interface CacheRefreshState {
+    phase: 'idle' | 'deleting' | 'streaming'
 
-    /** Error message if deletion failed */
+    /** Error message if clearing the cache failed (for some or all URLs) */
     error: string | null
 }
 
 /**
- * Initial cache reset state
+ * Initial cache refresh state
  */
-export const INITIAL_CACHE_STATE: CacheResetState = {
-    isDeleting: false,
-    success: false,
+export const INITIAL_REFRESH_STATE: CacheRefreshState = {
+    phase: 'idle',
     error: null,
 }
 
+/**
+ * How a property differs from the cached copy after a refresh
+ * - new:           not in the cached copy
+ * - price_changed: same property_url, different price
+ */
+export interface PropertyChange {
+    kind: 'new' | 'price_changed'
+
+    /** Cached price (price_changed only) */
+    previousPrice?: string
+}
+
+/**
+ * Fresh scrape vs the cached copy shown before the refresh
+ */
+export interface CacheRefreshDiff {
+    /** Changed properties by property_url - properties not in here are unchanged */
+    changes: Record<string, PropertyChange>
+
+    /** Cached properties the fresh scrape no longer has */
+    removed: PropertyType[]
+
+    /** Have all streams finished? Removals are only known then */
+    isFinal: boolean
+
+    /**
+     * Were removals checked? Not when a stream failed - its properties
+     * are missing for another reason, so removed stays empty
+     */
+    removalsChecked: boolean
+}
+
+// ============================================================================
+// RELEVANCE FEEDBACK TYPES
+// ============================================================================
+
+/**
+ * The user's feedback on one property's relevance score
+ *
+ * status:
+ * - sending: request in flight
+ * - sent:    the backend has it
+ * - queued:  offline - stored locally, sent when back online
+ * - error:   the backend rejected it (see error)
+ */
+export interface PropertyFeedback {
+    vote: RelevanceVote
+
+    /** "Wrong because..." note, empty when none was given */
+    note: string
+
+    status: 'sending' | 'sent' | 'queued' | 'error'
+
+    /** Error message (status error only) */
+    error?: string
+}
+
+/**
+ * Feedback controls a card renders - both optional, a card without them
+ * shows no feedback buttons
+ */
+export interface RelevanceFeedbackCardProps {
+    /** Feedback given on this property so far */
+    feedback?: PropertyFeedback
+
+    /** Callback when the user votes (note: "wrong because..." text) */
+    onFeedback?: (vote: RelevanceVote, note: string) => void
+}
+
 // ============================================================================
 // GROUPED PROPERTIES TYPES
 // ============================================================================
@@ -181,6 +476,65 @@ export const EMPTY_GROUPED_PROPERTIES: GroupedProperties = {
     },
 }
 
+// ============================================================================
+// STREAM TYPES
+// ============================================================================
+
+/**
+ * Connection state of the SSE property stream
+ */
+export interface StreamConnectionState {
+    status: 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+    /** Current reconnect attempt (0 while the first connection is up) */
+    attempt: number
+
+    /** Wait before the next reconnect attempt, in ms (only while reconnecting) */
+    retryDelayMs: number | null
+}
+
+/**
+ * Progress of one URL's stream in a multi-URL session
+ */
+export interface PropertyStreamState {
+    /** Listing URL being scraped */
+    url: string
+
+    /** Site the URL belongs to (decides the card and the source badge) */
+    source: PropertySource
+
+    /** Properties this stream added to the merged list */
+    count: number
+
+    /** Properties it sent that another stream already had */
+    duplicates: number
+
+    isLoading: boolean
+    isComplete: boolean
+
+    /** Stream error - the other streams carry on */
+    error: Error | null
+
+    connection: StreamConnectionState
+
+    apiCallsMade: number | null
+
+    /** Top-level relevance (MagicBricks) */
+    relevanceScore?: number
+    relevanceReason?: string
+}
+
+// ============================================================================
+// EXPORT TYPES
+// ============================================================================
+
+/**
+ * Export file formats
+ * - csv / xlsx: downloaded, one row per property
+ * - pdf: printable summary, saved through the browser's print dialog
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
 // ============================================================================
 // COMPONENT PROP TYPES
 // ============================================================================
@@ -194,23 +548,44 @@ export const EMPTY_GROUPED_PROPERTIES: GroupedProperties = {
  * - IDE will autocomplete and validate props
  */
 export interface ListingHeaderProps {
-    /** Current URL being scraped */
-    url: string
+    /** One entry per URL being scraped */
+    streams: PropertyStreamState[]
 
     /** Original search query (optional) */
     origQuery?: string
 
-    /** Number of properties found */
+    /** Number of properties found (all streams, after dedupe) */
     propertyCount: number
 
     /** Is data currently loading? */
     isLoading: boolean
 
-    /** Cache reset state */
-    cacheState: CacheResetState
+    /** Cache info per URL, in URL order */
+    cacheEntries: ScrapeCacheEntry[]
+
+    /** In-place refresh state */
+    refreshState: CacheRefreshState
+
+    /** Changes found by the last refresh (null when there's nothing to show) */
+    refreshDiff: CacheRefreshDiff | null
+
+    /** Callback when refresh is clicked - clears the cache and re-streams in place */
+    onRefresh: () => void
+
+    /** Callback when the refresh summary is dismissed */
+    onDismissRefreshDiff: () => void
 
-    /** Callback when reset cache button is clicked */
-    onResetCache: () => void
+    /** Properties an export would contain (the filtered set shown in the grid) */
+    exportCount: number
+
+    /** Export error, e.g. the print window was blocked */
+    exportError: string | null
+
+    /** Callback when an export format is picked */
+    onExport: (format: ExportFormat) => void
+
+    /** Relevance feedback given offline, waiting to be sent */
+    queuedFeedbackCount: number
 }
 
 /**
@@ -240,6 +615,27 @@ export interface PropertyFiltersProps {
 
     /** Callback when relevance threshold changes */
     onRelevanceChange: (threshold: number) => void
+
+    /** Callback when sort order changes */
+    onSortChange: (mode: PropertySortMode) => void
+
+    /** Callback when grouping is switched on or off */
+    onGroupingChange: (groupResults: boolean) => void
+
+    /** Callback when combining duplicates is switched on or off */
+    onCombineDuplicatesChange: (combineDuplicates: boolean) => void
+
+    /** Duplicate postings hidden behind cluster cards (0 when not combining) */
+    hiddenDuplicateCount: number
+
+    /** Attribute facets with counts (only attributes the current properties have) */
+    attributeFacets: AttributeFacet[]
+
+    /** Callback when the selected values of one attribute change */
+    onAttributeChange: (attribute: PropertyAttribute, values: string[]) => void
+
+    /** Callback to clear every attribute selection */
+    onClearAttributes: () => void
 }
 
 /**
@@ -249,8 +645,32 @@ export interface PropertyGridProps {
     /** Grouped properties to display */
     groupedProperties: GroupedProperties
 
-    /** Is this MagicBricks source? (determines which card to render) */
-    isMagicBricks: boolean
+    /** Filtered and sorted properties, for the ungrouped view */
+    sortedProperties: PropertyType[]
+
+    /** Show relevance/date groups (false: one flat list) */
+    isGrouped: boolean
+
+    /** Source of a property (determines which card to render) */
+    sourceOf: (property: PropertyType) => PropertySource
+
+    /** Show a source badge on each card (when the session spans several sites) */
+    showSourceBadges: boolean
+
+    /** Change since the cached copy, after an in-place refresh (highlights the card) */
+    changeOf: (property: PropertyType) => PropertyChange | undefined
+
+    /** Price per sqft against comparable listings (undefined until the scrape finishes) */
+    positionOf: (property: PropertyType) => PricePosition | undefined
+
+    /** Duplicate cluster a card stands for (undefined for single postings) */
+    clusterOf: (property: PropertyType) => PropertyCluster | undefined
+
+    /** Relevance feedback given on a property (undefined when none) */
+    feedbackOf: (property: PropertyType) => PropertyFeedback | undefined
+
+    /** Callback when the user votes on a property's relevance */
+    onFeedback: (property: PropertyType, vote: RelevanceVote, note: string) => void
 
     /** Current relevance threshold (for section headers) */
     relevanceThreshold: number
@@ -287,22 +707,116 @@ export interface UsePropertyFiltersReturn {
     /** Properties after filtering and grouping */
     groupedProperties: GroupedProperties
 
+    /** Properties after filtering and sorting, ungrouped */
+    sortedProperties: PropertyType[]
+
     /** Filter update functions */
     updateSearchQuery: (query: string) => void
     updateCostRange: (range: RangeFilter) => void
     updateAreaRange: (range: RangeFilter) => void
     updateRelevanceThreshold: (threshold: number) => void
+    updateSortMode: (mode: PropertySortMode) => void
+    updateGrouping: (groupResults: boolean) => void
+    updateAttribute: (attribute: PropertyAttribute, values: string[]) => void
+    clearAttributes: () => void
+    updateCombineDuplicates: (combineDuplicates: boolean) => void
+
+    /** Duplicate cluster a property stands for (only cluster primaries are in the lists) */
+    clusterOf: (property: PropertyType) => PropertyCluster | undefined
+
+    /** Postings hidden behind cluster cards */
+    hiddenDuplicateCount: number
+
+    /** Attribute facets with counts, rebuilt as properties stream in */
+    attributeFacets: AttributeFacet[]
 }
 
 /**
- * Return type for useCacheReset hook
+ * Return type for usePropertyStreams hook
  */
-export interface UseCacheResetReturn {
-    /** Current cache reset state */
-    cacheState: CacheResetState
+export interface UsePropertyStreamsReturn {
+    /** Properties from every stream, deduped by property_url (accumulates as they stream in) */
+    properties: PropertyType[]
+
+    /** Per-URL progress, in URL order */
+    streams: PropertyStreamState[]
+
+    /** Source of a property in the merged list */
+    sourceOf: (property: PropertyType) => PropertySource
+
+    /** Re-open every stream from scratch, without a page reload */
+    restart: () => void
+
+    /** Is any stream still in progress? */
+    isLoading: boolean
+
+    /** Have all streams finished (or failed)? */
+    isComplete: boolean
+
+    /** Set only when every stream failed */
+    error: Error | null
+}
+
+/**
+ * Return type for useScrapeCache hook
+ */
+export interface UseScrapeCacheReturn {
+    /** Cache info per URL, in URL order */
+    entries: ScrapeCacheEntry[]
+
+    /** In-place refresh state */
+    refreshState: CacheRefreshState
+
+    /** Changes found by the last refresh (null before any refresh, or once dismissed) */
+    diff: CacheRefreshDiff | null
+
+    /** Change for one property (undefined when unchanged or no refresh) */
+    changeOf: (property: PropertyType) => PropertyChange | undefined
+
+    /** Clear the cache for every URL and re-stream in place */
+    refresh: () => Promise<void>
+
+    /** Hide the refresh summary and card highlights */
+    dismissDiff: () => void
+}
+
+/**
+ * Return type for useRelevanceFeedback hook
+ */
+export interface UseRelevanceFeedbackReturn {
+    /** Feedback given on a property this session (undefined when none) */
+    feedbackOf: (property: PropertyType) => PropertyFeedback | undefined
+
+    /** Send feedback - queued locally when offline */
+    submitFeedback: (property: PropertyType, vote: RelevanceVote, note: string) => Promise<void>
+
+    /** Feedback waiting in the offline queue */
+    queuedCount: number
+}
+
+/**
+ * Return type for usePriceAnalytics hook
+ */
+export interface UsePriceAnalyticsReturn {
+    /** null until every stream finished, or with fewer than two priced sale listings */
+    analytics: PriceAnalytics | null
+
+    /** Position of one listing (undefined without analytics or a price per sqft) */
+    positionOf: (property: PropertyType) => PricePosition | undefined
+}
+
+/**
+ * Return type for useListingExport hook
+ */
+export interface UseListingExportReturn {
+    /** Properties the export will contain */
+    exportCount: number
+
+    /** Last export error (cleared on the next export) */
+    exportError: string | null
 
-    /** Function to trigger cache reset */
-    resetCache: () => Promise<void>
+    /** Export the current view in a format */
+    exportListing: (format: ExportFormat) => void
 }
 
 // ============================================================================
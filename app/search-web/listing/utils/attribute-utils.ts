@@ -0,0 +1,116 @@
+/**
+ * Attribute Filter Utilities
+ * ==========================
+ *
+ * Structured attribute values (furnishing, facing, floor, ...) read from
+ * the scraped properties, and the facets (value + count) the filters show.
+ *
+ * Sites write the same value differently ("West Facing" / "West",
+ * "Semi-furnished" / "Semi-Furnished"), so values are normalized for
+ * display and compared case-insensitively.
+ */
+
+import {
+    AttributeFacet,
+    AttributeFacetOption,
+    AttributeFilters,
+    PropertyAttribute,
+    PropertyType,
+} from '../types/listing.types'
+import { ATTRIBUTE_FILTERS, FLOOR_BANDS } from '../constants/listing.constants'
+
+/**
+ * Floor band for "5 out of 11", "Ground out of 4", "3 of 14"
+ * Values without a floor number (e.g. "Upper Basement") are kept as they are
+ */
+function floorBand(value: string): string {
+    if (/^ground\b/i.test(value)) return FLOOR_BANDS[0].label
+    const match = value.match(/^(\d+)/)
+    if (!match) return value
+    const floor = parseInt(match[1], 10)
+    return (FLOOR_BANDS.find(band => floor <= band.max) ?? FLOOR_BANDS[FLOOR_BANDS.length - 1]).label
+}
+
+/**
+ * Display form of one raw value for an attribute
+ * Separators used in the filter URL param (| and ;) become commas
+ */
+function normalizeValue(attribute: PropertyAttribute, raw: string): string {
+    let value = raw.replace(/[|;]/g, ',').replace(/\s+/g, ' ').trim()
+    if (attribute === 'facing') value = value.replace(/\s*facing$/i, '')
+    if (attribute === 'flooring') value = value.replace(/\s*flooring$/i, '')
+    if (attribute === 'floor') value = floorBand(value)
+    return value
+}
+
+/**
+ * Normalized values of an attribute on a property ([] when it doesn't have it)
+ * Overlooking lists several views ("Garden/Park, Main Road") - each is a value
+ */
+export function getAttributeValues(property: PropertyType, attribute: PropertyAttribute): string[] {
+    const raw = (property as unknown as Record<string, unknown>)[attribute]
+    if (typeof raw !== 'string' && typeof raw !== 'number') return []
+
+    const parts = attribute === 'overlooking' ? String(raw).split(',') : [String(raw)]
+    return parts
+        .map(part => normalizeValue(attribute, part))
+        .filter(Boolean)
+}
+
+/**
+ * Does a property have one of the selected values of every attribute
+ * with a selection? `except` leaves one attribute out (for its own counts)
+ */
+export function matchesAttributes(
+    property: PropertyType,
+    attributes: AttributeFilters,
+    except?: PropertyAttribute
+): boolean {
+    return (Object.keys(attributes) as PropertyAttribute[]).every(attribute => {
+        const selected = attributes[attribute]
+        if (attribute === except || !selected || selected.length === 0) return true
+
+        const wanted = new Set(selected.map(value => value.toLowerCase()))
+        return getAttributeValues(property, attribute).some(value => wanted.has(value.toLowerCase()))
+    })
+}
+
+/**
+ * Facets for the attributes the properties have, with counts
+ *
+ * Each attribute's counts apply every other attribute selection but not its
+ * own - so picking "East" still shows how many "West" properties there are.
+ * Pass the properties after the other filters (text, cost, area).
+ */
+export function buildAttributeFacets(properties: PropertyType[], attributes: AttributeFilters): AttributeFacet[] {
+    return ATTRIBUTE_FILTERS.flatMap(({ attribute, label }) => {
+        const selected = attributes[attribute] ?? []
+        const options = new Map<string, AttributeFacetOption>()
+
+        for (const property of properties) {
+            if (!matchesAttributes(property, attributes, attribute)) continue
+            // A property listing the same view twice counts once
+            for (const value of new Set(getAttributeValues(property, attribute))) {
+                const key = value.toLowerCase()
+                const option = options.get(key) ?? { value, count: 0, selected: false }
+                option.count++
+                options.set(key, option)
+            }
+        }
+
+        // Keep selections visible (with 0) so they can be unticked
+        for (const value of selected) {
+            const key = value.toLowerCase()
+            const option = options.get(key) ?? { value, count: 0, selected: false }
+            option.selected = true
+            options.set(key, option)
+        }
+
+        if (options.size === 0) return []
+
+        const sorted = [...options.values()].sort(
+            (a, b) => b.count - a.count || a.value.localeCompare(b.value, undefined, { numeric: true })
+        )
+        return [{ attribute, label, options: sorted }]
+    })
+}
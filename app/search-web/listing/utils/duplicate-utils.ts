@@ -0,0 +1,166 @@
+/**
+ * Duplicate Detection Utilities
+ * =============================
+ *
+ * The same flat is often posted several times - by different agents, with
+ * slightly different titles and prices. These helpers find such postings
+ * and cluster them, so the grid can show one card per flat.
+ *
+ * Two postings are likely the same flat when:
+ * - their areas match (within DUPLICATE_AREA_TOLERANCE)
+ * - their prices are close (within DUPLICATE_PRICE_TOLERANCE, when both are known)
+ * - they're on the same floor and have the same BHK (when both are known)
+ * - they're in the same society - or, without society names on both,
+ *   their titles are similar (DUPLICATE_TITLE_SIMILARITY)
+ *
+ * Clusters are transitive: if A matches B and B matches C, all three are one.
+ */
+
+import { MagicBricksProperty } from '@/lib/services/property-scrape.service'
+import { PropertyCluster, PropertyType } from '../types/listing.types'
+import { getPropertyArea, getPropertyPrice } from './property-utils'
+import {
+    DUPLICATE_AREA_TOLERANCE,
+    DUPLICATE_PRICE_TOLERANCE,
+    DUPLICATE_TITLE_SIMILARITY,
+} from '../constants/listing.constants'
+
+/**
+ * Words nearly every listing title has - they say nothing about which flat it is
+ */
+const GENERIC_TITLE_WORDS = new Set([
+    'a', 'an', 'and', 'the', 'in', 'at', 'for', 'of', 'on', 'near', 'with',
+    'sale', 'rent', 'resale', 'new', 'flat', 'flats', 'apartment', 'apartments',
+    'house', 'villa', 'property', 'independent', 'floor', 'builder', 'bangalore', 'bengaluru',
+])
+
+/**
+ * Fields of one posting the comparison needs, worked out once
+ */
+interface PostingKey {
+    area: number | null
+    price: number | null
+    floor: string | null
+    bhk: string | null
+    society: string | null
+    titleWords: Set<string>
+}
+
+function optionalField(property: PropertyType, field: string): string | null {
+    const value = (property as unknown as Record<string, unknown>)[field]
+    return typeof value === 'string' && value.trim() ? value : null
+}
+
+/**
+ * "Century Regalia" and "century-regalia" compare equal
+ */
+function normalizeName(value: string | null): string | null {
+    const normalized = value?.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+    return normalized || null
+}
+
+function toPostingKey(property: PropertyType): PostingKey {
+    const title = property.title || ''
+    const floor = optionalField(property, 'floor')
+
+    return {
+        area: getPropertyArea(property),
+        price: getPropertyPrice(property),
+        // "5 out of 11" -> "5", "Ground out of 4" -> "ground"
+        floor: floor ? floor.trim().split(/\s+/)[0].toLowerCase() : null,
+        bhk: title.match(/(\d+)\s*BHK/i)?.[1] ?? null,
+        society: normalizeName(optionalField(property, 'society_name') ?? optionalField(property, 'project_name')),
+        titleWords: new Set(
+            (normalizeName(title.replace(/\d+\s*BHK/gi, '')) ?? '')
+                .split(' ')
+                .filter(word => word && !GENERIC_TITLE_WORDS.has(word))
+        ),
+    }
+}
+
+/**
+ * Shared words / all words (Jaccard similarity), 0 when either title has none
+ */
+function titleSimilarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0
+    let shared = 0
+    a.forEach(word => {
+        if (b.has(word)) shared++
+    })
+    return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Difference as a fraction of the larger value
+ */
+function relativeDifference(a: number, b: number): number {
+    const larger = Math.max(a, b)
+    return larger === 0 ? 0 : Math.abs(a - b) / larger
+}
+
+/**
+ * Are two postings likely the same flat? (see the rules at the top)
+ */
+function isLikelyDuplicate(a: PostingKey, b: PostingKey): boolean {
+    if (a.area === null || b.area === null) return false
+    if (relativeDifference(a.area, b.area) > DUPLICATE_AREA_TOLERANCE) return false
+    if (a.price !== null && b.price !== null && relativeDifference(a.price, b.price) > DUPLICATE_PRICE_TOLERANCE) return false
+    if (a.floor && b.floor && a.floor !== b.floor) return false
+    if (a.bhk && b.bhk && a.bhk !== b.bhk) return false
+
+    if (a.society && b.society) return a.society === b.society
+    return titleSimilarity(a.titleWords, b.titleWords) >= DUPLICATE_TITLE_SIMILARITY
+}
+
+/**
+ * Cluster likely duplicates
+ *
+ * @param properties - Properties in display order; each cluster's primary
+ *                     is its first posting in this order
+ * @returns Clusters of two or more postings, in the order of their primaries
+ */
+export function clusterDuplicates(properties: PropertyType[]): PropertyCluster[] {
+    const keys = properties.map(toPostingKey)
+
+    // Union-find: parent[i] leads to the first posting of i's cluster
+    const parent = properties.map((_, index) => index)
+    const root = (index: number): number => {
+        while (parent[index] !== index) {
+            parent[index] = parent[parent[index]]
+            index = parent[index]
+        }
+        return index
+    }
+
+    for (let i = 0; i < properties.length; i++) {
+        for (let j = i + 1; j < properties.length; j++) {
+            if (root(i) === root(j) || !isLikelyDuplicate(keys[i], keys[j])) continue
+            // Keep the earlier posting as the root, so it becomes the primary
+            const [first, second] = [root(i), root(j)].sort((x, y) => x - y)
+            parent[second] = first
+        }
+    }
+
+    const members = new Map<number, PropertyType[]>()
+    properties.forEach((property, index) => {
+        const cluster = root(index)
+        members.set(cluster, [...(members.get(cluster) ?? []), property])
+    })
+
+    return [...members.values()]
+        .filter(listings => listings.length > 1)
+        .map(listings => {
+            const prices = listings.map(getPropertyPrice).filter((price): price is number => price !== null)
+            const agents = new Set(
+                listings
+                    .map(listing => (listing as MagicBricksProperty).agent_name?.trim())
+                    .filter((agent): agent is string => !!agent)
+            )
+            return {
+                primary: listings[0],
+                listings,
+                agents: [...agents],
+                priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null,
+            }
+        })
+}
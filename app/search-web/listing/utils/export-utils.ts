@@ -0,0 +1,136 @@
+/**
+ * Listing Export Functions
+ * ========================
+ *
+ * Turns what the grid is showing - the filtered properties, in the current
+ * sort order and grouping - into export tables for lib/export.
+ */
+
+import { ExportColumn, ExportTable, PrintReport, toExportTable } from '@/lib/export'
+import { PropertySource } from '@/lib/services/property-scrape.service'
+import {
+    DateGroupedProperties,
+    GroupedProperties,
+    PropertyType,
+} from '../types/listing.types'
+import { SOURCE_LABELS } from '../constants/listing.constants'
+import {
+    getCarpetArea,
+    getPricePerSqft,
+    getPropertyArea,
+    getPropertyPrice,
+    safeDecodeURIComponent,
+} from './property-utils'
+
+/**
+ * Date sub-groups in display order, with their tab labels
+ */
+const DATE_GROUPS: { key: keyof DateGroupedProperties; label: string }[] = [
+    { key: 'today', label: 'Today' },
+    { key: 'thisWeek', label: 'This Week' },
+    { key: 'thisMonth', label: 'This Month' },
+    { key: 'previousMonths', label: 'Previous Months' },
+]
+
+/**
+ * A run of properties under one grid heading
+ */
+export interface ExportSection {
+    heading: string
+    properties: PropertyType[]
+}
+
+/**
+ * The grid's sections, in grid order
+ * Grouped: matching then others, each split by posting date (empty groups skipped)
+ * Ungrouped: one section with the sorted list
+ */
+export function getExportSections(
+    groupedProperties: GroupedProperties,
+    sortedProperties: PropertyType[],
+    isGrouped: boolean,
+    relevanceThreshold: number
+): ExportSection[] {
+    if (!isGrouped) {
+        return [{ heading: 'All Properties', properties: sortedProperties }]
+    }
+
+    const relevanceGroups = [
+        { heading: `Matching (Score ≥ ${relevanceThreshold})`, groups: groupedProperties.mostRelevant },
+        { heading: `Others (Score < ${relevanceThreshold})`, groups: groupedProperties.others },
+    ]
+
+    return relevanceGroups.flatMap(({ heading, groups }) =>
+        DATE_GROUPS
+            .filter(({ key }) => groups[key].length > 0)
+            .map(({ key, label }) => ({ heading: `${heading} · ${label}`, properties: groups[key] }))
+    )
+}
+
+/**
+ * Export columns - normalized numbers next to what the site showed
+ */
+function getExportColumns(sourceOf: (property: PropertyType) => PropertySource): ExportColumn<PropertyType>[] {
+    return [
+        { header: 'Title', value: property => property.title || '' },
+        { header: 'Source', value: property => SOURCE_LABELS[sourceOf(property)] },
+        { header: 'Location', value: property => (property as { location?: string }).location ?? '' },
+        { header: 'Listed Price', value: property => property.price || '' },
+        { header: 'Price (₹)', value: getPropertyPrice },
+        { header: 'Area (sqft)', value: getPropertyArea },
+        { header: 'Carpet Area (sqft)', value: getCarpetArea },
+        { header: 'Price per sqft (₹)', value: getPricePerSqft },
+        { header: 'Relevance Score', value: property => property.relevance_score ?? null },
+        { header: 'Matches', value: property => (property.matches ?? []).join('; ') },
+        { header: 'Mismatches', value: property => (property.mismatches ?? []).join('; ') },
+        { header: 'Posted', value: property => (property as { posted_date?: string }).posted_date ?? '' },
+        { header: 'Property URL', value: property => property.property_url || '' },
+    ]
+}
+
+/**
+ * One table for CSV/XLSX, with a Group column so grouped exports keep their sections
+ */
+export function buildExportTable(
+    sections: ExportSection[],
+    sourceOf: (property: PropertyType) => PropertySource
+): ExportTable {
+    const columns: ExportColumn<{ heading: string; property: PropertyType }>[] = [
+        { header: 'Group', value: row => row.heading },
+        ...getExportColumns(sourceOf).map(column => ({
+            header: column.header,
+            value: (row: { property: PropertyType }) => column.value(row.property),
+        })),
+    ]
+    const rows = sections.flatMap(section =>
+        section.properties.map(property => ({ heading: section.heading, property }))
+    )
+    return toExportTable(rows, columns)
+}
+
+/**
+ * Printable summary for the PDF export - one table per section
+ * Long text columns (matches, mismatches) are left to CSV/XLSX to keep pages readable
+ */
+export function buildExportReport(
+    sections: ExportSection[],
+    sourceOf: (property: PropertyType) => PropertySource,
+    origQuery?: string
+): PrintReport {
+    const total = sections.reduce((count, section) => count + section.properties.length, 0)
+    const columns = getExportColumns(sourceOf).filter(
+        column => column.header !== 'Matches' && column.header !== 'Mismatches'
+    )
+
+    return {
+        title: 'Property Listings',
+        summary: [
+            ...(origQuery ? [`Query: "${safeDecodeURIComponent(origQuery)}"`] : []),
+            `${total} ${total === 1 ? 'property' : 'properties'} · exported ${new Date().toLocaleString('en-IN')}`,
+        ],
+        sections: sections.map(section => ({
+            heading: section.heading,
+            table: toExportTable(section.properties, columns),
+        })),
+    }
+}
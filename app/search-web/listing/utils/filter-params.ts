@@ -0,0 +1,167 @@
+/**
+ * Filter URL Params
+ * =================
+ *
+ * Listing filters as query params, so a filtered view can be bookmarked,
+ * refreshed or shared. Lives next to the page's own params (url, orig_query,
+ * intent), e.g.
+ *
+ *   ?url=...&q=sea+view&cost=1.5-3&area=900-1400&min_score=7&sort=price_asc&group=0
+ *       &attr=furnishing:Unfurnished|Semi-Furnished;facing:East&dupes=0
+ *
+ * CONCEPT: Mapped Types
+ * - FILTER_PARAMS is typed { [K in keyof PropertyFilters]: ... }
+ * - Adding a field to PropertyFilters is a type error until it gets a param here
+ * - So new sorts and filters can't silently drop out of shared links
+ */
+
+import {
+    AttributeFilters,
+    PropertyAttribute,
+    PropertyFilters,
+    PropertySortMode,
+    RangeFilter,
+} from '../types/listing.types'
+import {
+    ATTRIBUTE_FILTERS,
+    SORT_OPTIONS,
+    MIN_RELEVANCE_SCORE,
+    MAX_RELEVANCE_SCORE,
+} from '../constants/listing.constants'
+
+/**
+ * How one filter is written to and read from the URL
+ */
+interface FilterParam<T> {
+    /** Query param name */
+    key: string
+
+    /** Value from the param, or null when it's malformed (the filter keeps its default) */
+    parse: (value: string) => T | null
+
+    /** Param value - an empty string removes the param */
+    format: (value: T) => string
+}
+
+/**
+ * "1.5-3" <-> [1.5, 3]
+ */
+const rangeParam = (key: string): FilterParam<RangeFilter> => ({
+    key,
+    parse: value => {
+        const match = value.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/)
+        if (!match) return null
+        const min = parseFloat(match[1])
+        const max = parseFloat(match[2])
+        return min <= max ? [min, max] : null
+    },
+    format: ([min, max]) => `${min}-${max}`,
+})
+
+/**
+ * "1" <-> true, "0" <-> false
+ */
+const booleanParam = (key: string): FilterParam<boolean> => ({
+    key,
+    parse: value => value === '0' ? false : value === '1' ? true : null,
+    format: value => value ? '1' : '0',
+})
+
+/**
+ * "furnishing:Unfurnished|Semi-Furnished;facing:East" <-> { furnishing: [...], facing: [...] }
+ * (attribute values never contain | or ; - see attribute-utils)
+ */
+const attributesParam: FilterParam<AttributeFilters> = {
+    key: 'attr',
+    parse: value => {
+        const attributes: AttributeFilters = {}
+        for (const entry of value.split(';')) {
+            const separator = entry.indexOf(':')
+            const attribute = entry.slice(0, separator) as PropertyAttribute
+            const values = entry.slice(separator + 1).split('|').filter(Boolean)
+            if (separator > 0 && values.length > 0 && ATTRIBUTE_FILTERS.some(filter => filter.attribute === attribute)) {
+                attributes[attribute] = values
+            }
+        }
+        return Object.keys(attributes).length > 0 ? attributes : null
+    },
+    format: value => Object.entries(value)
+        .flatMap(([attribute, values]) => values && values.length > 0 ? [`${attribute}:${values.join('|')}`] : [])
+        .join(';'),
+}
+
+export const FILTER_PARAMS: { [K in keyof PropertyFilters]: FilterParam<PropertyFilters[K]> } = {
+    searchQuery: {
+        key: 'q',
+        parse: value => value,
+        format: value => value.trim() ? value : '',
+    },
+    costRange: rangeParam('cost'),
+    areaRange: rangeParam('area'),
+    relevanceThreshold: {
+        key: 'min_score',
+        parse: value => {
+            const score = Number(value)
+            return value !== '' && Number.isFinite(score)
+                ? Math.max(MIN_RELEVANCE_SCORE, Math.min(MAX_RELEVANCE_SCORE, score))
+                : null
+        },
+        format: value => String(value),
+    },
+    sortMode: {
+        key: 'sort',
+        parse: value => SORT_OPTIONS.some(option => option.value === value) ? value as PropertySortMode : null,
+        format: value => value,
+    },
+    groupResults: booleanParam('group'),
+    attributes: attributesParam,
+    combineDuplicates: booleanParam('dupes'),
+}
+
+const FILTER_KEYS = Object.keys(FILTER_PARAMS) as (keyof PropertyFilters)[]
+
+/**
+ * Filters present (and valid) in the URL - missing ones are left out
+ */
+export function readFiltersFromParams(params: Pick<URLSearchParams, 'get'>): Partial<PropertyFilters> {
+    const filters: Partial<PropertyFilters> = {}
+
+    for (const field of FILTER_KEYS) {
+        const raw = params.get(FILTER_PARAMS[field].key)
+        if (raw === null) continue
+        const value = (FILTER_PARAMS[field] as FilterParam<unknown>).parse(raw)
+        if (value !== null) {
+            (filters as Record<string, unknown>)[field] = value
+        }
+    }
+
+    return filters
+}
+
+/**
+ * Query string with the given filters written in
+ *
+ * Only `fields` are written (the ones the user set or the URL already had),
+ * so auto-initialized slider ranges don't clutter the link. Other params
+ * are kept as they are.
+ */
+export function writeFiltersToParams(
+    search: string,
+    filters: PropertyFilters,
+    fields: Iterable<keyof PropertyFilters>
+): string {
+    const params = new URLSearchParams(search)
+    const written = new Set(fields)
+
+    for (const field of FILTER_KEYS) {
+        const { key, format } = FILTER_PARAMS[field] as FilterParam<unknown>
+        const value = written.has(field) ? format(filters[field]) : ''
+        if (value) {
+            params.set(key, value)
+        } else {
+            params.delete(key)
+        }
+    }
+
+    return params.toString()
+}
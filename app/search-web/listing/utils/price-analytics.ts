@@ -0,0 +1,193 @@
+/**
+ * Price Analytics Utilities
+ * =========================
+ *
+ * How a scrape's prices are spread - histograms of total price and price
+ * per sqft, quartiles per BHK - and where each listing sits against the
+ * median of comparable listings.
+ *
+ * Listings are compared on price per sqft (a bigger flat costing more says
+ * nothing), within the same BHK when at least MIN_BHK_PEERS listings share
+ * it. Rents are left out - a monthly rent can't be compared with a sale price.
+ */
+
+import { parsePrice } from '@/lib/parsing'
+import {
+    BhkPriceStats,
+    HistogramBin,
+    PriceAnalytics,
+    PricePosition,
+    PriceQuartiles,
+    PropertyType,
+    RangeBounds,
+} from '../types/listing.types'
+import { getPricePerSqft, getPropertyPrice } from './property-utils'
+import {
+    HISTOGRAM_BIN_COUNT,
+    MIN_BHK_PEERS,
+    PRICE_OUTLIER_THRESHOLD,
+    RUPEES_PER_CRORE,
+} from '../constants/listing.constants'
+
+const OTHER_BHK = 'Other'
+
+/**
+ * Prices of one listing, worked out once
+ */
+interface PricedListing {
+    property: PropertyType
+    bhk: string
+    price: number | null
+    pricePerSqft: number | null
+}
+
+/**
+ * Value at fraction q (0-1) of sorted values, interpolating between neighbours
+ */
+function quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q
+    const below = Math.floor(position)
+    const above = Math.ceil(position)
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below)
+}
+
+function quartiles(values: number[]): PriceQuartiles | null {
+    if (values.length === 0) return null
+    const sorted = [...values].sort((a, b) => a - b)
+    return { p25: quantile(sorted, 0.25), median: quantile(sorted, 0.5), p75: quantile(sorted, 0.75) }
+}
+
+/**
+ * "3 BHK" from the bedrooms field ("5 BHK + 5 Bath") or the title
+ */
+function getBhk(property: PropertyType): string {
+    const bedrooms = (property as { bedrooms?: string }).bedrooms
+    const match = `${bedrooms ?? ''} ${property.title ?? ''}`.match(/(\d+)\s*BHK/i)
+    return match ? `${match[1]} BHK` : OTHER_BHK
+}
+
+/**
+ * Equal-width bins from min to max (one bin when they're the same)
+ */
+function histogram(values: number[], min: number, max: number): HistogramBin[] {
+    if (values.length === 0) return []
+    const binCount = max > min ? HISTOGRAM_BIN_COUNT : 1
+    const width = max > min ? (max - min) / binCount : 1
+
+    const bins = Array.from({ length: binCount }, (_, index) => ({
+        from: min + index * width,
+        to: min + (index + 1) * width,
+        count: 0,
+    }))
+    for (const value of values) {
+        // Values past the bounds go in the end bins; max belongs to the last bin
+        const index = Math.min(binCount - 1, Math.max(0, Math.floor((value - min) / width)))
+        bins[index].count++
+    }
+    return bins
+}
+
+function numbers(listings: PricedListing[], field: 'price' | 'pricePerSqft'): number[] {
+    return listings.map(listing => listing[field]).filter((value): value is number => value !== null)
+}
+
+function priceStats(listings: PricedListing[]): Omit<BhkPriceStats, 'bhk'> {
+    return {
+        count: listings.length,
+        price: quartiles(numbers(listings, 'price')),
+        pricePerSqft: quartiles(numbers(listings, 'pricePerSqft')),
+    }
+}
+
+/**
+ * Smallest configuration first, "Other" last
+ */
+function compareBhk(a: string, b: string): number {
+    if (a === OTHER_BHK || b === OTHER_BHK) return Number(a === OTHER_BHK) - Number(b === OTHER_BHK)
+    return parseInt(a, 10) - parseInt(b, 10)
+}
+
+/**
+ * Price analytics for a scrape
+ *
+ * @param properties - Properties to analyse (rents and unpriced listings are skipped)
+ * @param costBounds - Cost slider bounds in crores; the price histogram spans
+ *                     them, trimmed to the prices actually there
+ * @returns Analytics plus the position of each listing with a price per sqft
+ *          (by property_url), or null with fewer than two priced sale listings
+ */
+export function buildPriceAnalytics(
+    properties: PropertyType[],
+    costBounds: RangeBounds
+): { analytics: PriceAnalytics; positions: Map<string, PricePosition> } | null {
+    const listings: PricedListing[] = properties
+        .filter(property => parsePrice(property.price)?.transaction !== 'rent')
+        .map(property => ({
+            property,
+            bhk: getBhk(property),
+            price: getPropertyPrice(property),
+            pricePerSqft: getPricePerSqft(property),
+        }))
+        .filter(listing => listing.price !== null || listing.pricePerSqft !== null)
+
+    const prices = numbers(listings, 'price')
+    const ratesPerSqft = numbers(listings, 'pricePerSqft')
+    if (prices.length < 2 && ratesPerSqft.length < 2) return null
+
+    // Group by BHK
+    const byBhk = new Map<string, PricedListing[]>()
+    for (const listing of listings) {
+        byBhk.set(listing.bhk, [...(byBhk.get(listing.bhk) ?? []), listing])
+    }
+    const bhkStats = [...byBhk.entries()]
+        .sort(([a], [b]) => compareBhk(a, b))
+        .map(([bhk, group]) => ({ bhk, ...priceStats(group) }))
+    const overall = priceStats(listings)
+
+    // Position of each listing: against its BHK's median, or everyone's
+    const positions = new Map<string, PricePosition>()
+    const flagged = { above: 0, below: 0 }
+    for (const listing of listings) {
+        if (listing.pricePerSqft === null) continue
+
+        const peers = bhkStats.find(stats => stats.bhk === listing.bhk)
+        const useBhk = listing.bhk !== OTHER_BHK && !!peers?.pricePerSqft &&
+            numbers(byBhk.get(listing.bhk) ?? [], 'pricePerSqft').length >= MIN_BHK_PEERS
+        const median = (useBhk ? peers?.pricePerSqft : overall.pricePerSqft)?.median
+        if (!median) continue
+
+        const deviation = (listing.pricePerSqft - median) / median
+        const flag = deviation >= PRICE_OUTLIER_THRESHOLD ? 'above'
+            : deviation <= -PRICE_OUTLIER_THRESHOLD ? 'below'
+            : null
+        if (flag) flagged[flag]++
+
+        positions.set(listing.property.property_url, {
+            pricePerSqft: listing.pricePerSqft,
+            median,
+            deviation,
+            flag,
+            peers: useBhk ? 'bhk' : 'all',
+        })
+    }
+
+    // Price bins span the cost slider, without the empty stretch past the
+    // most expensive listing (the slider's max is at least DEFAULT_MAX_COST_CRORES)
+    const priceMin = costBounds.min * RUPEES_PER_CRORE
+    const priceMax = Math.min(
+        costBounds.max * RUPEES_PER_CRORE,
+        Math.ceil(Math.max(...prices, 0) / RUPEES_PER_CRORE) * RUPEES_PER_CRORE
+    )
+
+    return {
+        analytics: {
+            count: listings.length,
+            priceHistogram: histogram(prices, priceMin, Math.max(priceMin, priceMax)),
+            pricePerSqftHistogram: histogram(ratesPerSqft, Math.min(...ratesPerSqft), Math.max(...ratesPerSqft)),
+            overall,
+            byBhk: bhkStats,
+            flagged,
+        },
+        positions,
+    }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { PropertyType } from '../types/listing.types'
+import { getMatchesAndMismatches, shownMatchesAndMismatches } from './property-utils'
+
+const base = { title: '3 BHK Flat', description: '', property_url: 'https://www.magicbricks.com/p/1' }
+
+describe('getMatchesAndMismatches', () => {
+    it('uses the arrays when the backend sends them', () => {
+        const property = { ...base, matches: ['3 BHK'], mismatches: ['Over budget'] } as PropertyType
+        expect(getMatchesAndMismatches(property)).toEqual({ matches: ['3 BHK'], mismatches: ['Over budget'] })
+    })
+
+    it('parses an older relevance_reason', () => {
+        const property = { ...base, relevance_reason: 'Matches: 3 BHK in Whitefield. Mismatches: over budget' } as PropertyType
+        expect(getMatchesAndMismatches(property)).toEqual({ matches: ['3 BHK in Whitefield.'], mismatches: ['over budget'] })
+    })
+})
+
+describe('shownMatchesAndMismatches', () => {
+    const property = { ...base, relevance_reason: 'Mismatches: no parking' } as PropertyType
+
+    it('parses the reason for the cards that do', () => {
+        expect(shownMatchesAndMismatches(property, 'magicbricks').mismatches).toEqual(['no parking'])
+    })
+
+    it('leaves it out for portal cards, which show it as text', () => {
+        expect(shownMatchesAndMismatches(property, 'housing')).toEqual({ matches: [], mismatches: [] })
+    })
+})
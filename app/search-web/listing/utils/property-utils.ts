@@ -5,33 +5,171 @@
  * Helper functions for extracting and processing property data
  */
 
+import { priceValue, parsePrice, parseArea } from '@/lib/parsing'
+import { MagicBricksProperty, PropertySource } from '@/lib/services/property-scrape.service'
+import { PropertyType, PropertySortMode, PropertyComparator } from '../types/listing.types'
+import { DAYS_PER_MONTH, RUPEES_PER_CRORE, RUPEES_PER_LAKH } from '../constants/listing.constants'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Total price in rupees (lower bound for ranges), or null when unknown
+ * e.g. "₹5.34 Cr" -> 53400000, "Price on request" -> null
+ */
+export function getPropertyPrice(property: PropertyType): number | null {
+    return priceValue(property.price)
+}
+
+/**
+ * Area in sqft, or null when unknown
+ * MagicBricks quotes carpet/super area separately - use whichever is present
+ */
+export function getPropertyArea(property: PropertyType): number | null {
+    const magicBricks = property as MagicBricksProperty
+    const parsed = parseArea(property.area) ||
+        parseArea(magicBricks.carpet_area, 'carpet') ||
+        parseArea(magicBricks.super_area, 'super')
+    return parsed?.sqft ?? null
+}
+
+/**
+ * Carpet area in sqft - the listed area when the site doesn't quote carpet area
+ * (only MagicBricks separates them), or null when unknown
+ */
+export function getCarpetArea(property: PropertyType): number | null {
+    const magicBricks = property as MagicBricksProperty
+    return parseArea(magicBricks.carpet_area, 'carpet')?.sqft ?? getPropertyArea(property)
+}
+
 /**
- * Extract numeric price from string (e.g., "₹5.34 Cr" -> 53400000)
- * Handles formats like:
- * - "₹5.34 Cr" or "5.34 Crore" -> converts to rupees
- * - "₹50 L" or "50 Lakh" -> converts to rupees
- * - "₹50000" -> returns as is
+ * Price per sqft in rupees, or null when unknown
+ * Uses the rate the site quotes (MagicBricks and the other portals have
+ * price_per_sqft), otherwise computes price / area
  */
-export function extractPrice(priceStr: string): number {
-    const str = priceStr.toLowerCase().replace(/[₹,\s]/g, '')
-    if (str.includes('cr') || str.includes('crore')) {
-        const num = parseFloat(str.replace(/[^0-9.]/g, '')) || 0
-        return num * 10000000
-    } else if (str.includes('l') || str.includes('lakh')) {
-        const num = parseFloat(str.replace(/[^0-9.]/g, '')) || 0
-        return num * 100000
-    } else {
-        return parseFloat(str.replace(/[^0-9.]/g, '')) || 0
+export function getPricePerSqft(property: PropertyType): number | null {
+    const quoted = parsePrice((property as { price_per_sqft?: string }).price_per_sqft)
+    if (quoted) return quoted.amount
+
+    const price = getPropertyPrice(property)
+    const area = getPropertyArea(property)
+    return price !== null && area ? Math.round(price / area) : null
+}
+
+/**
+ * How many days ago the property was posted, or null when unknown
+ * e.g. "Posted: Yesterday" -> 1, "3 weeks ago" -> 21, "2 hours ago" -> 0
+ */
+export function getPostedDaysAgo(property: PropertyType): number | null {
+    const posted = (property as { posted_date?: string }).posted_date
+    const text = posted?.replace(/^Posted:\s*/i, '').trim().toLowerCase()
+    if (!text) return null
+
+    if (text.includes('hour') || text.includes('minute') || text.includes('today') || text.includes('just now')) return 0
+    if (text.includes('yesterday')) return 1
+
+    const relative = text.match(/(\d+)\s+(day|week|month|year)s?\s+ago/)
+    if (relative) {
+        const days = { day: 1, week: 7, month: DAYS_PER_MONTH, year: 365 }[relative[2] as 'day' | 'week' | 'month' | 'year']
+        return parseInt(relative[1]) * days
     }
+
+    const timestamp = extractDate(text)
+    return timestamp ? Math.max(0, Math.floor((Date.now() - timestamp) / MS_PER_DAY)) : null
 }
 
 /**
- * Extract numeric area from string (e.g., "2375 sqft" -> 2375)
- * Handles formats with commas and units
+ * Comparator for a sort mode
+ * Unknown values always go last; ties fall back to relevance
  */
-export function extractArea(areaStr: string): number {
-    const match = areaStr.match(/([\d,]+)/)
-    return match ? parseFloat(match[1].replace(/,/g, '')) || 0 : 0
+export function getPropertyComparator(mode: PropertySortMode): PropertyComparator {
+    const byRelevance: PropertyComparator = (a, b) => (b.relevance_score ?? -1) - (a.relevance_score ?? -1)
+
+    const by = (value: (property: PropertyType) => number | null, direction: 1 | -1): PropertyComparator =>
+        (a, b) => {
+            const valueA = value(a)
+            const valueB = value(b)
+            if (valueA === null || valueB === null) {
+                if (valueA !== valueB) return valueA === null ? 1 : -1
+                return byRelevance(a, b)
+            }
+            return (valueA - valueB) * direction || byRelevance(a, b)
+        }
+
+    switch (mode) {
+        case 'price_asc':
+            return by(getPropertyPrice, 1)
+        case 'price_per_sqft_asc':
+            return by(getPricePerSqft, 1)
+        case 'carpet_area_desc':
+            return by(getCarpetArea, -1)
+        case 'newest':
+            return by(getPostedDaysAgo, 1)
+        default:
+            return byRelevance
+    }
+}
+
+/**
+ * Rupee amount the way listings quote it
+ * e.g. 13400000 -> "₹1.34 Cr", 8500000 -> "₹85 L", 45000 -> "₹45,000"
+ */
+export function formatRupees(amount: number): string {
+    if (amount >= RUPEES_PER_CRORE) return `₹${Number((amount / RUPEES_PER_CRORE).toFixed(2))} Cr`
+    if (amount >= RUPEES_PER_LAKH) return `₹${Number((amount / RUPEES_PER_LAKH).toFixed(2))} L`
+    return `₹${Math.round(amount).toLocaleString('en-IN')}`
+}
+
+/**
+ * Parse relevance reason into matches and mismatches (for backward compatibility)
+ * e.g. "Matches: 3 BHK, Whitefield. Mismatches: over budget"
+ */
+export function parseRelevanceReason(reason: string): { matches: string; mismatches: string } {
+    const matchesPattern = /Matches?:\s*([^.]*(?:\.[^M]*?)*?)(?=Mismatch|$)/i
+    const mismatchesPattern = /Mismatches?:\s*([^.]*(?:\.[^M]*?)*?)$/i
+
+    const matchesMatch = reason.match(matchesPattern)
+    const mismatchesMatch = reason.match(mismatchesPattern)
+
+    return {
+        matches: matchesMatch ? matchesMatch[1].trim() : '',
+        mismatches: mismatchesMatch ? mismatchesMatch[1].trim() : reason
+    }
+}
+
+/**
+ * Get matches and mismatches from property (uses arrays if available, fallback to parsing)
+ */
+export function getMatchesAndMismatches(property: PropertyType): { matches: string[]; mismatches: string[] } {
+    // If new format with arrays, use them directly
+    if (property.matches || property.mismatches) {
+        return {
+            matches: property.matches || [],
+            mismatches: property.mismatches || []
+        }
+    }
+
+    // Fallback to parsing relevance_reason (old format)
+    if (property.relevance_reason) {
+        const parsed = parseRelevanceReason(property.relevance_reason)
+        return {
+            matches: parsed.matches ? [parsed.matches] : [],
+            mismatches: parsed.mismatches ? [parsed.mismatches] : []
+        }
+    }
+
+    return { matches: [], mismatches: [] }
+}
+
+/**
+ * Matches and mismatches as the property's card lists them
+ * SquareYards and MagicBricks cards parse older relevance_reason text;
+ * the other portals' cards list the arrays and show the reason as is
+ */
+export function shownMatchesAndMismatches(property: PropertyType, source: PropertySource): { matches: string[]; mismatches: string[] } {
+    if (source === 'squareyards' || source === 'magicbricks') {
+        return getMatchesAndMismatches(property)
+    }
+    return { matches: property.matches ?? [], mismatches: property.mismatches ?? [] }
 }
 
 /**
@@ -13,7 +13,6 @@
 
 import { Suspense } from 'react'
 import SearchFilters from './components/SearchFilters'
-import SearchResultsSerp from './components/SearchResultsSerp'
 import SearchResults from './components/SearchResults'
 import ResultsSkeleton from './components/ResultsSkeleton'
 import Link from 'next/link'
@@ -38,7 +37,7 @@ interface SearchPageProps {
   searchParams: Promise<{
     query?: string        // e.g., "3BHK independent house"
     sources?: string       // e.g., "magicbrick" | "housing" | "99acres"
-    provider?: string     // e.g., "gemini" | "tavily" | "openai"
+    provider?: string     // e.g., "tavily" or a comma-separated list "tavily,google_serpapi"
   }>
 }
 
@@ -55,15 +54,8 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
   const sources = params.sources || ''
   const provider = params.provider || ''
 
-  // Debug: Log which component will be rendered
-  console.log('🔀 Search Page - Provider selected:', provider)
-
-  let componentToRender = 'SearchResultsBackend (Python Backend - default)'
-  if (provider === 'google_serpapi') {
-    componentToRender = 'SearchResultsSerp (SerpAPI)'
-  }
-
-  console.log('🔀 Will render:', componentToRender)
+  // Providers are resolved by the search provider registry (lib/search)
+  console.log('🔀 Search Page - Providers selected:', provider)
 
   // Use first background image (static, no switching)
   const backgroundImage = BACKGROUND_IMAGES[0]
@@ -104,24 +96,15 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
             Key prop forces Suspense to show fallback on param changes.
             Without key, Suspense might not re-trigger fallback UI.
 
-            Conditionally render based on provider:
-            - google_serpapi: Use SearchResultsSerp (SerpAPI)
-            - gemini/tavily/openai (default): Use SearchResultsBackend (Python Backend)
+            SearchResults fans out to every provider in the `provider` param
+            and shows the merged results.
           */}
           <Suspense key={`${query}-${sources}-${provider}`} fallback={<ResultsSkeleton />}>
-            {provider === 'google_serpapi' ? (
-              <SearchResultsSerp
-                query={query}
-                sources={sources}
-                provider={provider}
-              />
-            ) : (
-              <SearchResults
-                query={query}
-                sources={sources}
-                provider={provider}
-              />
-            )}
+            <SearchResults
+              query={query}
+              sources={sources}
+              provider={provider}
+            />
           </Suspense>
         </div>
       </div>
@@ -14,6 +14,7 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import SearchLanding from './SearchLanding'
 import SearchResults from './SearchResults'
 import { searchWhatsAppListingsByMessage, WhatsAppListing, RBProperty } from '@/lib/api/whatsapp-listings'
+import { QueryOptimizerService } from '@/lib/services/query-optimizer.service'
 
 // Page sizes
 const PAGE_SIZE = 20
@@ -33,6 +34,8 @@ export default function SearchContainer() {
     const router = useRouter()
     const searchParams = useSearchParams()
     const isUpdatingURL = useRef(false)
+    // Latest intent request - responses for older searches are ignored
+    const intentRequestRef = useRef(0)
 
     // Read initial values from URL
     const initialQuery = searchParams.get('query') || ''
@@ -131,16 +134,51 @@ export default function SearchContainer() {
         }
     }, [])
 
+    // Pre-populate empty client-side filters from the query's structured intent
+    // (location is left alone - substring matching on it would hide results)
+    const applySearchIntent = useCallback(async (searchQuery: string, propertyType: string, messageType: string) => {
+        const requestId = ++intentRequestRef.current
+        if (!searchQuery.trim()) return
+
+        const { intent } = await QueryOptimizerService.optimizeWithIntent(searchQuery)
+        if (!intent || requestId !== intentRequestRef.current) return
+
+        const updates: Partial<Filters> = {}
+        if (!filters.bedroomCount && intent.bedrooms) {
+            updates.bedroomCount = String(Math.min(intent.bedrooms, 6))
+        }
+        if (!filters.minPrice && !filters.maxPrice && intent.budget_inr) {
+            if (intent.budget_inr.min !== null) updates.minPrice = String(Math.round(intent.budget_inr.min))
+            if (intent.budget_inr.max !== null) updates.maxPrice = String(Math.round(intent.budget_inr.max))
+        }
+        if (Object.keys(updates).length === 0) return
+
+        console.log('🎯 Applying search intent to filters:', updates)
+        setFilters(prev => ({ ...prev, ...updates }))
+        setCurrentPage(1)
+        // This callback's searchParams predate the search - resend the search's own params too
+        updateURLParams({
+            query: searchQuery,
+            property_type: propertyType,
+            message_type: messageType,
+            ...(updates.bedroomCount && { bedrooms: updates.bedroomCount }),
+            ...(updates.minPrice && { min_price: updates.minPrice }),
+            ...(updates.maxPrice && { max_price: updates.maxPrice }),
+        })
+    }, [filters.bedroomCount, filters.minPrice, filters.maxPrice, updateURLParams])
+
     // Handle search from landing page
     const handleSearch = useCallback((searchQuery: string) => {
         setQuery(searchQuery)
         setShowResults(true)
         updateURLParams({ query: searchQuery })
         fetchResults(searchQuery, filters.propertyType, filters.messageType)
-    }, [filters.propertyType, filters.messageType, fetchResults, updateURLParams])
+        applySearchIntent(searchQuery, filters.propertyType, filters.messageType)
+    }, [filters.propertyType, filters.messageType, fetchResults, updateURLParams, applySearchIntent])
 
     // Handle browse all
     const handleBrowseAll = useCallback(() => {
+        intentRequestRef.current++
         setQuery('')
         setFilters({
             location: '',
@@ -184,7 +222,8 @@ export default function SearchContainer() {
         })
 
         fetchResults(searchQuery, newPropertyType, newMessageType)
-    }, [fetchResults, updateURLParams])
+        applySearchIntent(searchQuery, newPropertyType, newMessageType)
+    }, [fetchResults, updateURLParams, applySearchIntent])
 
     // Handle back to landing
     const handleBackToLanding = useCallback(() => {
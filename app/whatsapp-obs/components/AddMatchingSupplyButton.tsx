@@ -11,8 +11,7 @@ import { useState, useRef, useEffect } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { Link2, Loader2, CheckCircle2, XCircle, CirclePlusIcon } from 'lucide-react'
 import { CREAListing } from '@/lib/services/crea-listings.service'
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { HttpClient } from '@/lib/services/http-client'
 
 interface AddMatchingSupplyButtonProps {
     listing: CREAListing
@@ -54,22 +53,11 @@ export default function AddMatchingSupplyButton({ listing }: AddMatchingSupplyBu
         setErrorMessage('')
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/matching-supply`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    lead_id: parseInt(leadId),
-                    whatsapp_listing_id: listing.id
-                }),
+            await HttpClient.post('/api/matching-supply', {
+                lead_id: parseInt(leadId),
+                whatsapp_listing_id: listing.id
             })
 
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-                throw new Error(errorData.detail || errorData.message || `HTTP error! status: ${response.status}`)
-            }
-
             setStatus('success')
 
             // Clear any existing timeout before setting a new one
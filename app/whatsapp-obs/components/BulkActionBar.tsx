@@ -0,0 +1,144 @@
+/**
+ * BulkActionBar - Client Component
+ * ================================
+ *
+ * Shown above CREAListingsTable while listings are selected: how many are
+ * selected (with "select all matching" once the whole page is), and the
+ * bulk actions. Retry and delete change listings on the backend, so they
+ * ask for confirmation (with the count) first.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CirclePlusIcon, Download, Link as LinkIcon, Loader2, RefreshCw, Trash2, X } from 'lucide-react'
+import { BULK_ACTION_LABELS, BulkActionId, MAX_BULK_LISTINGS } from '../utils/bulk-actions'
+
+interface BulkActionBarProps {
+    selectedCount: number
+    /** Listings matching the search across all pages (null when the backend doesn't say) */
+    totalCount: number | null
+    allOnPageSelected: boolean
+    allMatching: boolean
+    /** Listings beyond this page exist and can be selected */
+    canSelectAllMatching: boolean
+    onSelectAllMatching: () => void
+    onClear: () => void
+    onAction: (action: BulkActionId) => void
+    /** Matching supply needs ?lead_id= in the URL */
+    hasLead: boolean
+    isRunning: boolean
+}
+
+// Actions that only run after a second click on "<label> N?"
+type ConfirmedAction = 'retry' | 'delete'
+
+const ACTION_ICONS: Record<BulkActionId, typeof RefreshCw> = {
+    retry: RefreshCw,
+    matching_supply: CirclePlusIcon,
+    copy_links: LinkIcon,
+    export: Download,
+    delete: Trash2,
+}
+
+export default function BulkActionBar({
+    selectedCount,
+    totalCount,
+    allOnPageSelected,
+    allMatching,
+    canSelectAllMatching,
+    onSelectAllMatching,
+    onClear,
+    onAction,
+    hasLead,
+    isRunning,
+}: BulkActionBarProps) {
+    const [confirming, setConfirming] = useState<ConfirmedAction | null>(null)
+
+    const matchingCount = totalCount !== null ? Math.min(totalCount, MAX_BULK_LISTINGS) : null
+    const isCapped = totalCount !== null && totalCount > MAX_BULK_LISTINGS
+    const selectionLabel = allMatching
+        ? matchingCount !== null
+            ? `${isCapped ? 'First ' : 'All '}${matchingCount.toLocaleString('en-IN')} matching listings selected`
+            : 'All matching listings selected'
+        : `${selectedCount} selected`
+
+    const actions: BulkActionId[] = [...(hasLead ? ['matching_supply' as const] : []), 'copy_links', 'export']
+    const actionCount = allMatching && matchingCount !== null ? matchingCount : selectedCount
+
+    const confirmButton = (action: ConfirmedAction, className: string) => {
+        const Icon = ACTION_ICONS[action]
+        if (confirming !== action) {
+            return (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={className}
+                    disabled={isRunning}
+                    onClick={() => setConfirming(action)}
+                >
+                    <Icon className="h-3.5 w-3.5" />
+                    {BULK_ACTION_LABELS[action]}
+                </Button>
+            )
+        }
+        return (
+            <>
+                <Button
+                    variant={action === 'delete' ? 'destructive' : 'default'}
+                    size="sm"
+                    className="h-7 px-2 text-xs gap-1.5"
+                    disabled={isRunning}
+                    title={action === 'retry' ? 'Only fields a listing is missing are saved' : undefined}
+                    onClick={() => {
+                        setConfirming(null)
+                        onAction(action)
+                    }}
+                >
+                    <Icon className="h-3.5 w-3.5" />
+                    {action === 'delete' ? 'Delete' : 'Re-extract'} {actionCount}?
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setConfirming(null)}>
+                    Cancel
+                </Button>
+            </>
+        )
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-200 bg-blue-50/60">
+            <span className="text-xs font-medium text-slate-800">{selectionLabel}</span>
+            {allOnPageSelected && !allMatching && canSelectAllMatching && (
+                <button onClick={onSelectAllMatching} className="text-xs text-blue-600 hover:underline">
+                    Select all {matchingCount !== null ? `${isCapped ? 'first ' : ''}${matchingCount.toLocaleString('en-IN')} ` : ''}matching
+                </button>
+            )}
+            <button onClick={onClear} className="text-xs text-slate-500 hover:text-slate-800 inline-flex items-center gap-0.5">
+                <X className="h-3 w-3" /> Clear
+            </button>
+
+            <div className="ml-auto flex flex-wrap items-center gap-1.5">
+                {isRunning && <Loader2 className="h-3.5 w-3.5 animate-spin text-slate-500" />}
+                {confirmButton('retry', 'h-7 px-2 text-xs gap-1.5 bg-white')}
+                {actions.map(action => {
+                    const Icon = ACTION_ICONS[action]
+                    return (
+                        <Button
+                            key={action}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-2 text-xs gap-1.5 bg-white"
+                            disabled={isRunning}
+                            onClick={() => onAction(action)}
+                        >
+                            <Icon className="h-3.5 w-3.5" />
+                            {BULK_ACTION_LABELS[action]}
+                        </Button>
+                    )
+                })}
+                {confirmButton('delete', 'h-7 px-2 text-xs gap-1.5 bg-white text-red-600 hover:text-red-700 border-red-200')}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,63 @@
+/**
+ * BulkActionResults - Client Component
+ * ====================================
+ *
+ * Per-listing outcome of the last bulk action: a summary line and one row
+ * per listing with its status and message. Stays until dismissed.
+ */
+
+'use client'
+
+import { CheckCircle2, Loader2, X, XCircle } from 'lucide-react'
+import { BULK_ACTION_LABELS, BulkRun, describeListing } from '../utils/bulk-actions'
+
+interface BulkActionResultsProps {
+    run: BulkRun | null
+    runError: string | null
+    onDismiss: () => void
+}
+
+export default function BulkActionResults({ run, runError, onDismiss }: BulkActionResultsProps) {
+    if (!run && !runError) return null
+
+    const succeeded = run?.items.filter(item => item.status === 'success').length ?? 0
+    const failed = run?.items.filter(item => item.status === 'error').length ?? 0
+    const pending = run?.items.filter(item => item.status === 'pending').length ?? 0
+
+    return (
+        <div className="border-b border-gray-200 bg-white px-3 py-2 text-xs">
+            <div className="flex items-center gap-3">
+                {run ? (
+                    <p className="font-medium text-slate-800">
+                        {BULK_ACTION_LABELS[run.action]}:{' '}
+                        <span className="text-green-700">{succeeded} succeeded</span>
+                        {failed > 0 && <span className="text-red-600">, {failed} failed</span>}
+                        {pending > 0 && <span className="text-slate-500">, {pending} in progress</span>}
+                    </p>
+                ) : (
+                    <p className="font-medium text-red-600">{runError}</p>
+                )}
+                <button onClick={onDismiss} className="ml-auto text-slate-400 hover:text-slate-700" aria-label="Dismiss results">
+                    <X className="h-3.5 w-3.5" />
+                </button>
+            </div>
+            {run && (
+                <ul className="mt-1.5 max-h-40 overflow-y-auto divide-y divide-slate-100">
+                    {run.items.map(({ listing, status, message }) => (
+                        <li key={listing.id} className="flex items-center gap-2 py-1">
+                            {status === 'pending' && <Loader2 className="h-3 w-3 animate-spin text-slate-400 flex-shrink-0" />}
+                            {status === 'success' && <CheckCircle2 className="h-3 w-3 text-green-600 flex-shrink-0" />}
+                            {status === 'error' && <XCircle className="h-3 w-3 text-red-600 flex-shrink-0" />}
+                            <span className="truncate text-slate-700">{describeListing(listing)}</span>
+                            {message && (
+                                <span className={`ml-auto flex-shrink-0 ${status === 'error' ? 'text-red-600' : 'text-slate-500'}`}>
+                                    {message}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
@@ -2,7 +2,11 @@
  * CREAListingsTable - Client Component
  * =====================================
  *
- * Data table component for displaying CREA listings with pagination.
+ * Data table component for displaying CREA listings with pagination,
+ * sortable column headers and the columns each user picked (ColumnChooser).
+ * Price, size, configuration and location can be corrected inline
+ * (EditableField) when the parent passes onListingChange.
+ * Row checkboxes select listings for the bulk actions (BulkActionBar).
  * Uses shadcn table component.
  */
 
@@ -42,6 +46,19 @@ import RetryListingButton from './RetryListingButton'
 import CopyLinkButton from './CopyLinkButton'
 import AddMatchingSupplyButton from './AddMatchingSupplyButton'
 import AgentContactDisplay from './AgentContactDisplay'
+import ColumnChooser from './ColumnChooser'
+import EditableField from './EditableField'
+import UndoToast from './UndoToast'
+import BulkActionBar from './BulkActionBar'
+import BulkActionResults from './BulkActionResults'
+import { Checkbox } from '@/components/ui/checkbox'
+import { useColumnPreferences } from '../hooks/useColumnPreferences'
+import { useListingEdits } from '../hooks/useListingEdits'
+import { useListingSelection } from '../hooks/useListingSelection'
+import { useBulkListingActions } from '../hooks/useBulkListingActions'
+import { BulkActionId } from '../utils/bulk-actions'
+import { ListingColumnId, ListingSort, nextSort } from '../utils/listing-columns'
+import { EditableListingField } from '../utils/listing-edits'
 
 interface CREAListingsTableProps {
     listings: CREAListing[]
@@ -54,6 +71,15 @@ interface CREAListingsTableProps {
     exactMatch?: boolean
     onExactMatchToggle?: (exactMatch: boolean) => void
     onResetFilters?: () => void
+    // Sorting - done by the parent (on the backend, or within the page when it can't)
+    sort?: ListingSort | null
+    onSortChange?: (sort: ListingSort | null) => void
+    isSortedOnPage?: boolean
+    // Inline edits - the parent patches its copy of the listing
+    onListingChange?: (listingId: string, patch: Partial<CREAListing>) => void
+    // Bulk actions - every listing matching the search, and a reload after retry/delete
+    onFetchAllMatching?: () => Promise<CREAListing[]>
+    onListingsChanged?: () => void
     // Simplified pagination props
     onPrevious?: () => void
     onNext?: () => void
@@ -64,7 +90,7 @@ interface CREAListingsTableProps {
     totalCount?: number
 }
 
-const ITEMS_PER_PAGE = 50
+const noopPatch = () => {}
 
 export default function CREAListingsTable({
     listings,
@@ -77,6 +103,12 @@ export default function CREAListingsTable({
     exactMatch,
     onExactMatchToggle,
     onResetFilters,
+    sort,
+    onSortChange,
+    isSortedOnPage = false,
+    onListingChange,
+    onFetchAllMatching,
+    onListingsChanged,
     // Pagination props
     onPrevious,
     onNext,
@@ -89,6 +121,19 @@ export default function CREAListingsTable({
     const searchParams = useSearchParams()
     const isDebugMode = searchParams.get('debug') === 'true'
     const [expandedRow, setExpandedRow] = useState<string | null>(null)
+    const { visibleColumns, columnOptions, toggleColumn, moveColumn, resetColumns } = useColumnPreferences()
+    const { saveField, isSaving, toast, dismissToast } = useListingEdits(onListingChange ?? noopPatch)
+    const selection = useListingSelection(listings)
+    const leadId = searchParams.get('lead_id')
+    const bulk = useBulkListingActions({ leadId, onListingsChanged })
+
+    const handleBulkAction = (action: BulkActionId) => {
+        bulk.runAction(action, async () => (
+            selection.allMatching && onFetchAllMatching
+                ? onFetchAllMatching()
+                : listings.filter(listing => selection.isSelected(listing.id))
+        ))
+    }
 
     // Use all listings as-is (already paginated by parent)
     const paginatedListings = listings
@@ -162,13 +207,186 @@ export default function CREAListingsTable({
         setExpandedRow(expandedRow === id ? null : id)
     }
 
+    // Text for the optional detail columns
+    const renderDetail = (value: string | null) => (
+        value ? <span className="text-sm text-slate-700">{value}</span> : <span className="text-xs text-slate-400">N/A</span>
+    )
+
+    // Wrap a field's display in an inline editor (read-only without onListingChange)
+    const renderEditable = (listing: CREAListing, field: EditableListingField, display: React.ReactNode) => {
+        if (!onListingChange) return display
+        return (
+            <EditableField
+                field={field}
+                value={listing[field]}
+                onSave={value => saveField(listing.id, field, value, listing[field])}
+                isSaving={isSaving(listing.id, field)}
+            >
+                {display}
+            </EditableField>
+        )
+    }
+
+    /**
+     * Desktop table cell for one column
+     */
+    const renderCell = (listing: CREAListing, columnId: ListingColumnId) => {
+        switch (columnId) {
+            case 'date':
+                return (
+                    <TableCell className="align-top py-3">
+                        <p className="text-sm text-slate-900 font-medium">
+                            {formatDate(listing.message_date)}
+                        </p>
+                    </TableCell>
+                )
+            case 'agent':
+                return (
+                    <TableCell className="align-top py-2">
+                        <div className="space-y-0.5">
+                            <div className="text-sm text-slate-900 font-medium">
+                                {listing.agent_name || listing.sender_name || 'N/A'}
+                            </div>
+                            <AgentContactDisplay listing={listing} />
+                            {/* Company shows here unless it has its own column */}
+                            {listing.company_name && !visibleColumns.some(column => column.id === 'company_name') && (
+                                <div className="text-xs text-slate-500">
+                                    {listing.company_name}
+                                </div>
+                            )}
+                        </div>
+                    </TableCell>
+                )
+            case 'asset_type':
+                return (
+                    <TableCell className="align-top py-3">
+                        <div className={`text-xs font-medium px-2 py-1 rounded-md border w-fit flex items-center ${getAssetTypeColor(listing.property_type)}`}>
+                            {formatAssetType(listing.property_type || 'Property')}
+                        </div>
+                    </TableCell>
+                )
+            case 'size':
+                return (
+                    <TableCell className="align-top py-3">
+                        {renderEditable(listing, 'size_sqft', (listing.size_sqft || 0) > 0 ? (
+                            <div className="text-xs font-medium px-2 py-1 rounded-md border bg-slate-50 text-slate-600 border-slate-200 w-fit flex items-center">
+                                {listing.size_sqft?.toLocaleString('en-IN')} sq.ft
+                            </div>
+                        ) : (
+                            <span className="text-xs text-slate-400">N/A</span>
+                        ))}
+                    </TableCell>
+                )
+            case 'configuration':
+                return (
+                    <TableCell className="align-top py-2">
+                        {renderEditable(listing, 'configuration', listing.configuration ? (
+                            <Badge
+                                variant="secondary"
+                                className="text-xs border bg-slate-50 hover:bg-slate-100 text-slate-600 border-slate-200"
+                            >
+                                {listing.configuration}
+                            </Badge>
+                        ) : (
+                            <span className="text-xs text-slate-400">N/A</span>
+                        ))}
+                    </TableCell>
+                )
+            case 'location':
+                return (
+                    <TableCell className="align-top py-2">
+                        {renderEditable(listing, 'location', (
+                            <div className="text-sm text-slate-900 font-medium">
+                                {listing.location || 'No location'}
+                            </div>
+                        ))}
+                    </TableCell>
+                )
+            case 'price':
+                return (
+                    <TableCell className="align-top py-1.5">
+                        {renderEditable(listing, 'price', (
+                            <div className="text-sm text-slate-900 font-medium">
+                                {formatPrice(listing.price)}
+                            </div>
+                        ))}
+                        {listing.price_text && (
+                            <div className="text-xs text-slate-500 mt-0.5">
+                                {listing.price_text}
+                            </div>
+                        )}
+                    </TableCell>
+                )
+            case 'transaction_type':
+                return (
+                    <TableCell className="align-top py-3">
+                        <p className={`w-fit text-xs font-medium rounded-md px-2 py-1 ${getMessageTypeVariant(listing.transaction_type)}`}>
+                            {formatMessageType(listing.transaction_type)}
+                        </p>
+                    </TableCell>
+                )
+            case 'company_name':
+                return <TableCell className="align-top py-3">{renderDetail(listing.company_name)}</TableCell>
+            case 'floor':
+                return <TableCell className="align-top py-3">{renderDetail(listing.floor)}</TableCell>
+            case 'facing':
+                return <TableCell className="align-top py-3">{renderDetail(listing.facing)}</TableCell>
+            case 'furnishing':
+                return <TableCell className="align-top py-3">{renderDetail(listing.furnishing)}</TableCell>
+            case 'parking':
+                return <TableCell className="align-top py-3">{renderDetail(listing.parking)}</TableCell>
+            case 'amenities':
+                return (
+                    <TableCell className="align-top py-3">
+                        {listing.amenities ? (
+                            <p className="text-xs text-slate-700 line-clamp-3" title={listing.amenities}>{listing.amenities}</p>
+                        ) : (
+                            <span className="text-xs text-slate-400">N/A</span>
+                        )}
+                    </TableCell>
+                )
+        }
+    }
+
     return (
         <div className="h-full flex flex-col">
             {/* Desktop Table View */}
             <div className="hidden md:flex rounded-lg border border-gray-200 bg-white overflow-hidden shadow-sm flex-1 flex-col min-h-0">
+                {/* Toolbar: sort note and column chooser */}
+                <div className="flex items-center justify-between gap-3 px-3 py-1.5 border-b border-gray-200 bg-slate-50">
+                    <p className="text-xs text-slate-500">
+                        {isSortedOnPage && 'Sorted within this page only - the backend couldn\'t sort these results'}
+                    </p>
+                    <ColumnChooser
+                        columnOptions={columnOptions}
+                        toggleColumn={toggleColumn}
+                        moveColumn={moveColumn}
+                        resetColumns={resetColumns}
+                    />
+                </div>
+                {selection.selectedIds.size > 0 && (
+                    <BulkActionBar
+                        selectedCount={selection.selectedIds.size}
+                        totalCount={totalCount > 0 ? totalCount : null}
+                        allOnPageSelected={selection.allOnPageSelected}
+                        allMatching={selection.allMatching}
+                        canSelectAllMatching={!!onFetchAllMatching && (!!hasNext || !!hasPrevious)}
+                        onSelectAllMatching={selection.selectAllMatching}
+                        onClear={selection.clearSelection}
+                        onAction={handleBulkAction}
+                        hasLead={!!leadId}
+                        isRunning={bulk.run?.isRunning ?? false}
+                    />
+                )}
+                <BulkActionResults run={bulk.run} runError={bulk.runError} onDismiss={bulk.dismissRun} />
                 <div className="flex-1 relative overflow-auto min-h-0">
                     <Table>
                         <TableHeaderWithFilters
+                            columns={visibleColumns}
+                            selectAll={selection.allOnPageSelected ? true : selection.someOnPageSelected ? 'indeterminate' : false}
+                            onSelectAll={listings.length > 0 ? selection.togglePage : undefined}
+                            sort={sort}
+                            onSort={onSortChange && (key => onSortChange(nextSort(sort ?? null, key)))}
                             onLocationFilter={onLocationFilter}
                             locationFilter={locationFilter}
                             onAgentFilter={onAgentFilter}
@@ -188,7 +406,7 @@ export default function CREAListingsTable({
                         <TableBody>
                             {paginatedListings.length === 0 ? (
                                 <TableRow>
-                                    <TableCell colSpan={8} className="h-32 text-center py-8">
+                                    <TableCell colSpan={visibleColumns.length + 2} className="h-32 text-center py-8">
                                         <div className="flex flex-col items-center justify-center">
                                             <div className="text-slate-300 mb-3">
                                                 <Home className="w-12 h-12" />
@@ -205,67 +423,18 @@ export default function CREAListingsTable({
                             ) : (
                                 paginatedListings.map((listing) => (
                                     <React.Fragment key={listing.id}>
-                                        <TableRow className="group hover:bg-slate-50 transition-colors border-b border-gray-100">
-                                            <TableCell className="align-top py-3">
-                                                <p className="text-sm text-slate-900 font-medium">
-                                                    {formatDate(listing.message_date)}
-                                                </p>
-                                            </TableCell>
-                                            <TableCell className="align-top py-2">
-                                                <div className="space-y-0.5">
-                                                    <div className="text-sm text-slate-900 font-medium">
-                                                        {listing.agent_name || listing.sender_name || 'N/A'}
-                                                    </div>
-                                                    <AgentContactDisplay listing={listing} />
-                                                    {listing.company_name && (
-                                                        <div className="text-xs text-slate-500">
-                                                            {listing.company_name}
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </TableCell>
-                                            <TableCell className="align-top py-3">
-                                                <div className={`text-xs font-medium px-2 py-1 rounded-md border w-fit flex items-center ${getAssetTypeColor(listing.property_type)}`}>
-                                                    {formatAssetType(listing.property_type || 'Property')}
-                                                </div>
-                                                {(listing.size_sqft || 0) > 0 && (
-                                                    <div className="text-xs font-medium px-2 py-1 rounded-md border bg-slate-50 text-slate-600 border-slate-200 w-fit mt-1.5 flex items-center">
-                                                        {listing.size_sqft?.toLocaleString('en-IN')} sq.ft
-                                                    </div>
-                                                )}
-                                            </TableCell>
-                                            <TableCell className="align-top py-2">
-                                                {listing.configuration ? (
-                                                    <Badge
-                                                        variant="secondary"
-                                                        className="text-xs border bg-slate-50 hover:bg-slate-100 text-slate-600 border-slate-200"
-                                                    >
-                                                        {listing.configuration}
-                                                    </Badge>
-                                                ) : (
-                                                    <span className="text-xs text-slate-400">N/A</span>
-                                                )}
-                                            </TableCell>
-                                            <TableCell className="align-top py-2">
-                                                <div className="text-sm text-slate-900 font-medium">
-                                                    {listing.location || 'No location'}
-                                                </div>
-                                            </TableCell>
-                                            <TableCell className="align-top py-1.5">
-                                                <div className="text-sm text-slate-900 font-medium">
-                                                    {formatPrice(listing.price)}
-                                                </div>
-                                                {listing.price_text && (
-                                                    <div className="text-xs text-slate-500 mt-0.5">
-                                                        {listing.price_text}
-                                                    </div>
-                                                )}
-                                            </TableCell>
-                                            <TableCell className="align-top py-3">
-                                                <p className={`w-fit text-xs font-medium rounded-md px-2 py-1 ${getMessageTypeVariant(listing.transaction_type)}`}>
-                                                    {formatMessageType(listing.transaction_type)}
-                                                </p>
+                                        <TableRow className={`group hover:bg-slate-50 transition-colors border-b border-gray-100 ${selection.isSelected(listing.id) ? 'bg-blue-50/40' : ''}`}>
+                                            <TableCell className="align-top py-3 w-[36px]">
+                                                <Checkbox
+                                                    checked={selection.isSelected(listing.id)}
+                                                    onCheckedChange={() => selection.toggleListing(listing.id)}
+                                                    aria-label="Select listing"
+                                                    className="mt-0.5"
+                                                />
                                             </TableCell>
+                                            {visibleColumns.map(column => (
+                                                <React.Fragment key={column.id}>{renderCell(listing, column.id)}</React.Fragment>
+                                            ))}
                                             <TableCell className="align-top py-3">
                                                 {listing.raw_message && (
                                                     <Button
@@ -285,7 +454,7 @@ export default function CREAListingsTable({
                                         </TableRow>
                                         {expandedRow === listing.id && listing.raw_message && (
                                             <TableRow>
-                                                <TableCell colSpan={8} className="bg-slate-50/50 py-4 px-6 shadow-inner">
+                                                <TableCell colSpan={visibleColumns.length + 2} className="bg-slate-50/50 py-4 px-6 shadow-inner">
                                                     <div className="space-y-3">
                                                         <div className="flex justify-start mb-2 gap-2">
                                                             <AddMatchingSupplyButton listing={listing} />
@@ -474,6 +643,8 @@ export default function CREAListingsTable({
                     sticky={true}
                 />
             )}
+
+            <UndoToast toast={toast} onDismiss={dismissToast} />
         </div>
     )
 }
@@ -0,0 +1,82 @@
+/**
+ * ColumnChooser - Client Component
+ * ================================
+ *
+ * Popover listing every table column: tick to show, arrows to reorder,
+ * and a reset back to the default columns.
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react'
+import { UseColumnPreferencesReturn } from '../hooks/useColumnPreferences'
+
+type ColumnChooserProps = Pick<
+    UseColumnPreferencesReturn,
+    'columnOptions' | 'toggleColumn' | 'moveColumn' | 'resetColumns'
+>
+
+export default function ColumnChooser({
+    columnOptions,
+    toggleColumn,
+    moveColumn,
+    resetColumns,
+}: ColumnChooserProps) {
+    const visibleCount = columnOptions.filter(option => option.visible).length
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="h-7 px-2 text-xs gap-1.5">
+                    <Columns3 className="h-3.5 w-3.5" />
+                    Columns
+                    <span className="text-slate-500">{visibleCount}/{columnOptions.length}</span>
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-2" align="end">
+                <ul className="max-h-80 overflow-y-auto">
+                    {columnOptions.map(({ column, visible }, index) => (
+                        <li key={column.id} className="flex items-center gap-2 px-1 py-1 rounded hover:bg-slate-50">
+                            <label className="flex items-center gap-2 flex-1 text-sm cursor-pointer">
+                                <Checkbox
+                                    checked={visible}
+                                    disabled={visible && visibleCount === 1}
+                                    onCheckedChange={() => toggleColumn(column.id)}
+                                />
+                                <span className={visible ? 'text-slate-900' : 'text-slate-500'}>{column.label}</span>
+                            </label>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                disabled={index === 0}
+                                onClick={() => moveColumn(column.id, -1)}
+                                aria-label={`Move ${column.label} left`}
+                            >
+                                <ArrowUp className="h-3 w-3" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                disabled={index === columnOptions.length - 1}
+                                onClick={() => moveColumn(column.id, 1)}
+                                aria-label={`Move ${column.label} right`}
+                            >
+                                <ArrowDown className="h-3 w-3" />
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="border-t border-slate-100 mt-2 pt-2 flex justify-end">
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={resetColumns}>
+                        Reset to default
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    )
+}
@@ -0,0 +1,124 @@
+/**
+ * EditableField - Client Component
+ * ================================
+ *
+ * Shows a listing field with a pencil button that turns it into an input.
+ * Enter (or the tick) saves when the input is valid for the field - see
+ * parseFieldInput; Escape (or the cross) cancels.
+ */
+
+'use client'
+
+import { useState, ReactNode, KeyboardEvent } from 'react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Check, Loader2, Pencil, X } from 'lucide-react'
+import {
+    EDITABLE_FIELD_LABELS,
+    EditableFieldValue,
+    EditableListingField,
+    formatFieldInput,
+    parseFieldInput,
+} from '../utils/listing-edits'
+
+interface EditableFieldProps {
+    field: EditableListingField
+    value: EditableFieldValue | null | undefined
+    onSave: (value: EditableFieldValue) => void
+    isSaving?: boolean
+    /** The value as the page shows it */
+    children: ReactNode
+    className?: string
+}
+
+export default function EditableField({
+    field,
+    value,
+    onSave,
+    isSaving = false,
+    children,
+    className = '',
+}: EditableFieldProps) {
+    const [draft, setDraft] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const label = EDITABLE_FIELD_LABELS[field]
+
+    const startEditing = () => {
+        setDraft(formatFieldInput(field, value))
+        setError(null)
+    }
+
+    const cancel = () => {
+        setDraft(null)
+        setError(null)
+    }
+
+    const save = () => {
+        if (draft === null) return
+        const result = parseFieldInput(field, draft)
+        if (!result.ok) {
+            setError(result.error)
+            return
+        }
+
+        setDraft(null)
+        setError(null)
+        if (result.value !== value) onSave(result.value)
+    }
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Enter') {
+            event.preventDefault()
+            save()
+        } else if (event.key === 'Escape') {
+            event.preventDefault()
+            cancel()
+        }
+    }
+
+    if (draft === null) {
+        return (
+            <div className={`group/edit flex items-start gap-1 ${className}`}>
+                <div className="min-w-0">{children}</div>
+                {isSaving ? (
+                    <Loader2 className="h-3 w-3 mt-1 animate-spin text-slate-400 flex-shrink-0" aria-label={`Saving ${label}`} />
+                ) : (
+                    <button
+                        onClick={startEditing}
+                        className="mt-0.5 p-0.5 rounded text-slate-400 hover:text-slate-700 opacity-0 group-hover/edit:opacity-100 focus-visible:opacity-100 flex-shrink-0"
+                        aria-label={`Edit ${label}`}
+                        title={`Edit ${label.toLowerCase()}`}
+                    >
+                        <Pencil className="h-3 w-3" />
+                    </button>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <div className={`space-y-1 ${className}`}>
+            <div className="flex items-center gap-1">
+                <Input
+                    value={draft}
+                    onChange={(event) => {
+                        setDraft(event.target.value)
+                        setError(null)
+                    }}
+                    onKeyDown={handleKeyDown}
+                    className={`h-7 px-2 text-sm min-w-[6rem] ${error ? 'border-red-400 focus-visible:ring-red-400' : ''}`}
+                    aria-label={label}
+                    aria-invalid={!!error}
+                    autoFocus
+                />
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 flex-shrink-0" onClick={save} aria-label={`Save ${label}`}>
+                    <Check className="h-3.5 w-3.5 text-green-600" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 flex-shrink-0" onClick={cancel} aria-label="Cancel">
+                    <X className="h-3.5 w-3.5 text-slate-500" />
+                </Button>
+            </div>
+            {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+    )
+}
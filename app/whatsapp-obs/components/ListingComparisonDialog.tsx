@@ -17,11 +17,9 @@ import {
 } from '@/components/ui/dialog'
 import { Loader2 } from 'lucide-react'
 import { CREAListing } from '@/lib/services/crea-listings.service'
+import { HttpClient } from '@/lib/services/http-client'
 import ListingComparisonTable from './ListingComparisonTable'
 
-// Use relative URL to go through Next.js proxy (configured in next.config.js)
-const API_BASE_URL = ''
-
 interface ComparisonData {
     processed: any
     raw: any
@@ -50,13 +48,7 @@ export default function ListingComparisonDialog({ listing, children }: ListingCo
         setError(null)
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/whatsapp-listings/${listing.id}/source`)
-
-            if (!response.ok) {
-                throw new Error(`Failed to fetch comparison data: ${response.statusText}`)
-            }
-
-            const result = await response.json()
+            const result = await HttpClient.get<any>(`/api/whatsapp-listings/${listing.id}/source`)
 
             if (result.success && result.data) {
                 setComparisonData(result.data)
@@ -7,13 +7,16 @@
 
 'use client'
 
-import { useState, useEffect, useTransition, useCallback, useRef } from 'react'
+import { useState, useEffect, useTransition, useCallback, useRef, useMemo } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { Card } from '@/components/ui/card'
-import { searchCREAListings, fetchCREAListings, searchCREAListingsCombined } from '@/lib/api/crea-listings'
+import { searchCREAListings, fetchCREAListings, searchCREAListingsCombined, CREAListingsPage } from '@/lib/api/crea-listings'
 import CREAListingsTable from './CREAListingsTable'
 import { CREAListing } from '@/lib/services/crea-listings.service'
+import { ListingSort, formatSortParam, parseSortParam, sortListings } from '../utils/listing-columns'
+import { MAX_BULK_LISTINGS } from '../utils/bulk-actions'
 import Link from 'next/link'
-import { ArrowLeft, Loader2 } from 'lucide-react'
+import { ArrowLeft, Loader2, RefreshCw } from 'lucide-react'
 
 // High-end residential property background images
 const BACKGROUND_IMAGES = [
@@ -29,8 +32,25 @@ const BACKGROUND_IMAGES = [
     'https://images.unsplash.com/photo-1564013799919-ab600027ffc6?q=80&w=2070',
 ]
 
+// Listings per page - fetched from the backend one page at a time
+const LISTINGS_PER_PAGE = 50
+
+/**
+ * Page number from the ?page= param (1 when missing or invalid)
+ */
+function readPage(value: string | null): number {
+    const page = parseInt(value || '', 10)
+    return Number.isFinite(page) && page > 1 ? page : 1
+}
+
 export default function ListingsContent() {
+    const router = useRouter()
+    const pathname = usePathname()
+    const searchParams = useSearchParams()
+
     const [listings, setListings] = useState<CREAListing[]>([])
+    const [totalCount, setTotalCount] = useState<number | null>(null)
+    const [isSortedOnPage, setIsSortedOnPage] = useState(false)
     const [isLoading, setIsLoading] = useState(true)
     const [searchQuery, setSearchQuery] = useState('')
     const [locationFilter, setLocationFilter] = useState('')
@@ -39,65 +59,119 @@ export default function ListingsContent() {
     const [transactionTypeFilter, setTransactionTypeFilter] = useState('')
     const [exactMatch, setExactMatch] = useState(false)
     const [isPending, startTransition] = useTransition()
-    const hasInitialized = useRef(false)
+    // Bumped to reload the current page in place (after bulk retry/delete)
+    const [reloadCount, setReloadCount] = useState(0)
 
-    // Initial load
-    useEffect(() => {
-        const loadListings = async () => {
-            setIsLoading(true)
-            try {
-                const data = await fetchCREAListings(100, 0)
-                setListings(data)
-            } catch (error) {
-                console.error('Error loading listings:', error)
-                setListings([])
-            } finally {
-                setIsLoading(false)
-                hasInitialized.current = true
+    // Page and sort live in the URL (?page=3&sort=price:desc), so they survive reloads and can be shared
+    const page = readPage(searchParams.get('page'))
+    const offset = (page - 1) * LISTINGS_PER_PAGE
+    const sortParam = searchParams.get('sort')
+    const sort = useMemo(() => parseSortParam(sortParam), [sortParam])
+
+    // Filters the last load used (null before the first load) - a change means back to page 1
+    const lastFiltersKey = useRef<string | null>(null)
+    // Only the latest request may update the table (an older page can arrive late)
+    const latestRequest = useRef(0)
+    const lastReloadCount = useRef(0)
+
+    const replaceParams = useCallback((update: (params: URLSearchParams) => void) => {
+        const params = new URLSearchParams(searchParams.toString())
+        update(params)
+        const query = params.toString()
+        router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    }, [router, pathname, searchParams])
+
+    const goToPage = useCallback((nextPage: number) => {
+        replaceParams(params => {
+            if (nextPage > 1) {
+                params.set('page', String(nextPage))
+            } else {
+                params.delete('page')
+            }
+        })
+    }, [replaceParams])
+
+    // A new sort starts from page 1
+    const handleSortChange = useCallback((nextSort: ListingSort | null) => {
+        replaceParams(params => {
+            params.delete('page')
+            if (nextSort) {
+                params.set('sort', formatSortParam(nextSort))
+            } else {
+                params.delete('sort')
+            }
+        })
+    }, [replaceParams])
+
+    /**
+     * Fetch one page for the active search mode:
+     * combined filters > message search > all listings
+     * Every mode asks the backend for the current sort
+     */
+    const fetchPage = useCallback(async (pageOffset: number): Promise<CREAListingsPage> => {
+        const hasFilters = agentFilter.trim().length > 0 ||
+            propertyFilter.trim().length > 0 ||
+            locationFilter.trim().length > 0 ||
+            transactionTypeFilter.trim().length > 0
+
+        if (hasFilters) {
+            return searchCREAListingsCombined({
+                agent_name: agentFilter.trim() || undefined,
+                property_query: exactMatch ? undefined : (propertyFilter.trim() || undefined),
+                property_type: exactMatch ? (propertyFilter.trim() || undefined) : undefined,
+                location: locationFilter.trim() || undefined,
+                transaction_type: transactionTypeFilter.trim() || undefined,
+                limit: LISTINGS_PER_PAGE,
+                offset: pageOffset,
+                ...sort,
+                exactMatch: exactMatch
+            })
+        }
+        if (searchQuery.trim().length > 0) {
+            return searchCREAListings(searchQuery, LISTINGS_PER_PAGE, pageOffset, sort ?? {})
+        }
+        return fetchCREAListings(LISTINGS_PER_PAGE, pageOffset, sort ?? {})
+    }, [agentFilter, propertyFilter, locationFilter, transactionTypeFilter, searchQuery, exactMatch, sort])
+
+    /**
+     * Every listing matching the current search, page by page
+     * (up to MAX_BULK_LISTINGS) - for bulk actions on "all matching"
+     *
+     * Throws when a page fails or the count doesn't add up to the total
+     * (listings added/removed while loading), so the action never runs on
+     * part of the selection.
+     */
+    const fetchAllMatching = useCallback(async (): Promise<CREAListing[]> => {
+        const all: CREAListing[] = []
+        let total: number | null = null
+        while (all.length < MAX_BULK_LISTINGS) {
+            const result = await fetchPage(all.length)
+            if (result.error) {
+                throw new Error(`Couldn't load all matching listings (stopped after ${all.length}): ${result.error}`)
             }
+            all.push(...result.listings)
+            total = result.total
+
+            const isLastPage = result.listings.length < LISTINGS_PER_PAGE ||
+                (result.total !== null && all.length >= result.total)
+            if (isLastPage) break
         }
-        loadListings()
+
+        const listings = all.slice(0, MAX_BULK_LISTINGS)
+        if (total !== null && listings.length !== Math.min(total, MAX_BULK_LISTINGS)) {
+            throw new Error(`Loaded ${listings.length} of ${total} matching listings - the results changed while loading, try again`)
+        }
+        return listings
+    }, [fetchPage])
+
+    const handleListingsChanged = useCallback(() => {
+        setReloadCount(count => count + 1)
     }, [])
 
-    // Handle search - use useCallback to prevent unnecessary re-renders
-    const handleSearch = useCallback(async (query: string) => {
+    // Handle search - the effect below loads the results
+    const handleSearch = useCallback((query: string) => {
         setSearchQuery(query)
-        startTransition(async () => {
-            setIsLoading(true)
-            try {
-                if (query.trim().length > 0) {
-                    const results = await searchCREAListings(query, 100)
-                    setListings(results)
-                } else {
-                    // If query is empty, check if any filters are active
-                    const hasFilters = agentFilter.trim().length > 0 ||
-                        propertyFilter.trim().length > 0 ||
-                        locationFilter.trim().length > 0
-
-                    if (hasFilters) {
-                        const results = await searchCREAListingsCombined({
-                            agent_name: agentFilter.trim() || undefined,
-                            property_query: exactMatch ? undefined : (propertyFilter.trim() || undefined),
-                            property_type: exactMatch ? (propertyFilter.trim() || undefined) : undefined,
-                            location: locationFilter.trim() || undefined,
-                            limit: 100,
-                            exactMatch: exactMatch
-                        })
-                        setListings(results)
-                    } else {
-                        // Reload all listings
-                        const data = await fetchCREAListings(100, 0)
-                        setListings(data)
-                    }
-                }
-            } catch (error) {
-                console.error('Error searching listings:', error)
-                setListings([])
-            } finally {
-                setIsLoading(false)
-            }
-        })
-    }, [agentFilter, propertyFilter, locationFilter])
+    }, [])
 
     // Handle filters - just update state
     const handleLocationFilter = useCallback((location: string) => {
@@ -128,55 +202,74 @@ export default function ListingsContent() {
         setExactMatch(false)
     }, [])
 
-    // Effect to handle all filter changes with debounce - uses combined API
+    /**
+     * Load the current page
+     * - First load, page and sort changes load right away
+     * - Filter/search changes go back to page 1 and load with a debounce
+     * - Reloads (reloadCount) keep the table on screen while they load
+     */
+    const filtersKey = JSON.stringify([agentFilter, propertyFilter, locationFilter, transactionTypeFilter, searchQuery, exactMatch])
     useEffect(() => {
-        // Skip on initial mount - let the initial load effect handle it
-        if (!hasInitialized.current) {
+        const filtersChanged = lastFiltersKey.current !== null && lastFiltersKey.current !== filtersKey
+        lastFiltersKey.current = filtersKey
+        const isReload = lastReloadCount.current !== reloadCount
+        lastReloadCount.current = reloadCount
+
+        // The URL change re-runs this effect for page 1
+        if (filtersChanged && page !== 1) {
+            goToPage(1)
             return
         }
 
         const timer = setTimeout(() => {
+            const requestId = ++latestRequest.current
             startTransition(async () => {
-                setIsLoading(true)
+                if (!isReload) setIsLoading(true)
                 try {
-                    // Check if any filter or search query is active
-                    const hasFilters = agentFilter.trim().length > 0 ||
-                        propertyFilter.trim().length > 0 ||
-                        locationFilter.trim().length > 0 ||
-                        transactionTypeFilter.trim().length > 0
-
-                    if (hasFilters) {
-                        // Use combined search API with all active filters
-                        const results = await searchCREAListingsCombined({
-                            agent_name: agentFilter.trim() || undefined,
-                            property_query: exactMatch ? undefined : (propertyFilter.trim() || undefined),
-                            property_type: exactMatch ? (propertyFilter.trim() || undefined) : undefined,
-                            location: locationFilter.trim() || undefined,
-                            transaction_type: transactionTypeFilter.trim() || undefined,
-                            limit: 100,
-                            exactMatch: exactMatch
-                        })
-                        setListings(results)
-                    } else if (searchQuery.trim().length > 0) {
-                        // If no filters but search query exists, use search query
-                        const results = await searchCREAListings(searchQuery, 100)
-                        setListings(results)
-                    } else {
-                        // All cleared, reload all
-                        const data = await fetchCREAListings(100, 0)
-                        setListings(data)
-                    }
+                    const result = await fetchPage(offset)
+                    if (requestId !== latestRequest.current) return
+
+                    // A backend that can't sort returns its usual order - sort the page here instead
+                    const sortedByBackend = !sort || (
+                        result.sort?.sort_by === sort.sort_by && result.sort.sort_order === sort.sort_order
+                    )
+                    setListings(sortedByBackend ? result.listings : sortListings(result.listings, sort))
+                    setIsSortedOnPage(!sortedByBackend)
+                    setTotalCount(result.total)
                 } catch (error) {
-                    console.error('Error filtering listings:', error)
+                    console.error('Error loading listings:', error)
                     setListings([])
+                    setTotalCount(null)
+                    setIsSortedOnPage(false)
                 } finally {
-                    setIsLoading(false)
+                    if (requestId === latestRequest.current) setIsLoading(false)
                 }
             })
-        }, 500)
+        }, filtersChanged ? 500 : 0)
 
         return () => clearTimeout(timer)
-    }, [agentFilter, propertyFilter, locationFilter, transactionTypeFilter, searchQuery, exactMatch])
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [filtersKey, page, sortParam, reloadCount])
+
+    // Without a total from the backend, a full page means there may be more
+    const hasNext = totalCount !== null
+        ? offset + listings.length < totalCount
+        : listings.length === LISTINGS_PER_PAGE
+
+    const handlePreviousPage = useCallback(() => {
+        goToPage(page - 1)
+        window.scrollTo({ top: 0, behavior: 'smooth' })
+    }, [goToPage, page])
+
+    const handleNextPage = useCallback(() => {
+        goToPage(page + 1)
+        window.scrollTo({ top: 0, behavior: 'smooth' })
+    }, [goToPage, page])
+
+    // Inline edits from the table patch the loaded page in place
+    const handleListingChange = useCallback((listingId: string, patch: Partial<CREAListing>) => {
+        setListings(current => current.map(listing => listing.id === listingId ? { ...listing, ...patch } : listing))
+    }, [])
 
     const backgroundImage = BACKGROUND_IMAGES[0]
 
@@ -203,8 +296,9 @@ export default function ListingsContent() {
                         Browse property listings from Property Portal
                     </p>
                 </div>
-                <div className="mb-8">
+                <div className="mb-8 flex items-center justify-between gap-4">
                     <Link href="/search" className="text-white hover:text-[#E6D3AF] hover:underline inline-flex items-center gap-2"><ArrowLeft className="w-4 h-4" /> Back to Search</Link>
+                    <Link href="/whatsapp-obs/reextract" className="text-white hover:text-[#E6D3AF] hover:underline inline-flex items-center gap-2"><RefreshCw className="w-4 h-4" /> Re-extraction Queue</Link>
                 </div>
                 {/* Search Input */}
                 <Card className="bg-white/95 backdrop-blur-xl shadow-lg border border-white/20 p-4 mb-6">
@@ -252,6 +346,19 @@ export default function ListingsContent() {
                         exactMatch={exactMatch}
                         onExactMatchToggle={handleExactMatchToggle}
                         onResetFilters={handleResetFilters}
+                        sort={sort}
+                        onSortChange={handleSortChange}
+                        isSortedOnPage={isSortedOnPage}
+                        onListingChange={handleListingChange}
+                        onFetchAllMatching={fetchAllMatching}
+                        onListingsChanged={handleListingsChanged}
+                        onPrevious={handlePreviousPage}
+                        onNext={handleNextPage}
+                        hasPrevious={page > 1}
+                        hasNext={hasNext}
+                        startIndex={offset}
+                        endIndex={offset + listings.length}
+                        totalCount={totalCount ?? 0}
                     />
                 )}
             </div>
@@ -17,7 +17,7 @@ interface PaginationProps {
     hasNext: boolean
     startIndex: number
     endIndex: number
-    totalCount: number
+    totalCount: number // 0 when unknown
     itemName?: string // e.g., "listings", "items", "results" (default: "items")
     sticky?: boolean // Whether to use sticky positioning (default: true)
 }
@@ -42,9 +42,15 @@ export default function Pagination({
             <div className="flex items-center justify-between">
                 {/* Item count display */}
                 <div className="text-xs text-gray-600">
-                    Showing {startIndex + 1} to {endIndex} {itemName}
-                    {totalCount > 0 && endIndex <= totalCount && endIndex < totalCount && (
-                        <> of {totalCount}</>
+                    {endIndex > startIndex ? (
+                        <>
+                            Showing {startIndex + 1} to {endIndex} {itemName}
+                            {totalCount > 0 && endIndex <= totalCount && (
+                                <> of {totalCount}</>
+                            )}
+                        </>
+                    ) : (
+                        <>No {itemName} on this page</>
                     )}
                 </div>
 
@@ -0,0 +1,154 @@
+/**
+ * ReextractionPicker - Client Component
+ * =====================================
+ *
+ * Picks listings for the re-extraction queue by filter: listings missing
+ * any of the ticked fields, optionally narrowed by location and agent.
+ * "Find" scans the listings and shows how many match; "Add to queue"
+ * hands them to the queue.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Loader2, Plus, Search } from 'lucide-react'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+import {
+    MAX_QUEUE_LISTINGS,
+    MISSING_FIELD_LABELS,
+    MissingField,
+    ReextractionCriteria,
+    findListingsForReextraction,
+} from '../utils/reextraction'
+
+interface ReextractionPickerProps {
+    /** Returns how many listings were new to the queue */
+    onEnqueue: (listings: CREAListing[]) => number
+}
+
+interface ScanResult {
+    listings: CREAListing[]
+    scanned: number
+    isCapped: boolean
+}
+
+const MISSING_FIELDS = Object.keys(MISSING_FIELD_LABELS) as MissingField[]
+
+export default function ReextractionPicker({ onEnqueue }: ReextractionPickerProps) {
+    const [criteria, setCriteria] = useState<ReextractionCriteria>({ missing: ['price'], location: '', agent: '' })
+    const [isScanning, setIsScanning] = useState(false)
+    const [scanned, setScanned] = useState(0)
+    const [result, setResult] = useState<ScanResult | null>(null)
+    const [scanError, setScanError] = useState<string | null>(null)
+    const [addedMessage, setAddedMessage] = useState<string | null>(null)
+
+    const updateCriteria = (update: Partial<ReextractionCriteria>) => {
+        setCriteria(current => ({ ...current, ...update }))
+        setResult(null)
+        setScanError(null)
+        setAddedMessage(null)
+    }
+
+    const toggleMissing = (field: MissingField) => {
+        updateCriteria({
+            missing: criteria.missing.includes(field)
+                ? criteria.missing.filter(item => item !== field)
+                : [...criteria.missing, field],
+        })
+    }
+
+    const handleFind = async () => {
+        setIsScanning(true)
+        setScanned(0)
+        setResult(null)
+        setScanError(null)
+        setAddedMessage(null)
+        try {
+            setResult(await findListingsForReextraction(criteria, setScanned))
+        } catch (error) {
+            // No partial result - a half-done scan would look like every match
+            console.error('Error finding listings for re-extraction:', error)
+            setScanError(error instanceof Error ? error.message : 'Failed to search listings')
+        } finally {
+            setIsScanning(false)
+        }
+    }
+
+    const handleEnqueue = () => {
+        if (!result) return
+        const added = onEnqueue(result.listings)
+        const skipped = result.listings.length - added
+        setAddedMessage(`Added ${added} to the queue${skipped > 0 ? ` (${skipped} already queued)` : ''}`)
+        setResult(null)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Missing any of</p>
+                <div className="flex flex-wrap gap-4">
+                    {MISSING_FIELDS.map(field => (
+                        <label key={field} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                                checked={criteria.missing.includes(field)}
+                                onCheckedChange={() => toggleMissing(field)}
+                            />
+                            {MISSING_FIELD_LABELS[field]}
+                        </label>
+                    ))}
+                </div>
+                {criteria.missing.length === 0 && (
+                    <p className="text-xs text-amber-600 mt-1">No gap filter - every listing matching the filters below is picked</p>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <Input
+                    placeholder="Location (optional)"
+                    value={criteria.location}
+                    onChange={event => updateCriteria({ location: event.target.value })}
+                    className="h-9 text-sm"
+                />
+                <Input
+                    placeholder="Agent name (optional)"
+                    value={criteria.agent}
+                    onChange={event => updateCriteria({ agent: event.target.value })}
+                    className="h-9 text-sm"
+                />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <Button size="sm" onClick={handleFind} disabled={isScanning} className="gap-1.5">
+                    {isScanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                    Find listings
+                </Button>
+                {isScanning && (
+                    <span className="text-xs text-slate-500">Looked at {scanned.toLocaleString('en-IN')} listings...</span>
+                )}
+                {result && (
+                    <>
+                        <span className="text-sm text-slate-700">
+                            {result.listings.length === 0
+                                ? `No listings match (looked at ${result.scanned.toLocaleString('en-IN')})`
+                                : `${result.listings.length} listing${result.listings.length === 1 ? '' : 's'} match`}
+                            {result.isCapped && result.listings.length > 0 && (
+                                <span className="text-slate-500"> - the first {result.listings.length}; narrow the filters for the rest (max {MAX_QUEUE_LISTINGS})</span>
+                            )}
+                        </span>
+                        {result.listings.length > 0 && (
+                            <Button size="sm" variant="outline" onClick={handleEnqueue} className="gap-1.5">
+                                <Plus className="h-4 w-4" />
+                                Add to queue
+                            </Button>
+                        )}
+                    </>
+                )}
+                {scanError && <span className="text-sm text-red-600">{scanError} - try again</span>}
+                {addedMessage && <span className="text-sm text-green-700">{addedMessage}</span>}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,129 @@
+/**
+ * ReextractionQueueContent - Client Component
+ * ===========================================
+ *
+ * Re-extraction queue page: pick listings by filter, let the queue fetch
+ * LLM re-extraction previews in the background, then review every diff in
+ * one table (ReextractionReviewTable).
+ *
+ * The queue lives in this page (useReextractionQueue) - leaving the page
+ * stops it.
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Loader2, Pause, Play, RotateCcw, ShieldCheck } from 'lucide-react'
+import ReextractionPicker from './ReextractionPicker'
+import ReextractionReviewTable from './ReextractionReviewTable'
+import { useReextractionQueue } from '../hooks/useReextractionQueue'
+
+export default function ReextractionQueueContent() {
+    const queue = useReextractionQueue()
+    const { counts } = queue
+
+    const total = queue.items.length
+    const done = counts.ready + counts.failed
+    const isWorking = counts.queued + counts.running > 0
+
+    return (
+        <div className="min-h-screen bg-slate-50 py-8">
+            <div className="max-w-7xl mx-auto px-4 space-y-6">
+                {/* Page Header */}
+                <div className="space-y-2">
+                    <Link href="/whatsapp-obs" className="text-sm text-slate-600 hover:text-slate-900 hover:underline inline-flex items-center gap-2">
+                        <ArrowLeft className="w-4 h-4" /> Back to Listings
+                    </Link>
+                    <h1 className="text-3xl font-bold text-slate-900">Re-extraction Queue</h1>
+                    <p className="text-sm text-slate-600">
+                        Re-run LLM extraction on many listings and review the changes before they're saved.
+                    </p>
+                </div>
+
+                {/* 1. Pick listings */}
+                <Card className="p-5 space-y-4">
+                    <h2 className="text-sm font-semibold text-slate-900">Pick listings</h2>
+                    <ReextractionPicker onEnqueue={queue.enqueue} />
+                </Card>
+
+                {/* 2. Queue progress */}
+                {total > 0 && (
+                    <Card className="p-5 space-y-3">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <h2 className="text-sm font-semibold text-slate-900">Queue</h2>
+                            <span className="text-sm text-slate-600">
+                                {done} of {total} re-extracted
+                                {counts.running > 0 && ` · ${counts.running} running`}
+                                {counts.queued > 0 && ` · ${counts.queued} waiting`}
+                                {counts.failed > 0 && <span className="text-red-600"> · {counts.failed} failed</span>}
+                            </span>
+                            {isWorking && !queue.isPaused && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+
+                            <div className="ml-auto flex flex-wrap gap-2">
+                                {isWorking && (
+                                    <Button variant="outline" size="sm" className="gap-1.5" onClick={() => queue.setPaused(!queue.isPaused)}>
+                                        {queue.isPaused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+                                        {queue.isPaused ? 'Resume' : 'Pause'}
+                                    </Button>
+                                )}
+                                {counts.failed > 0 && (
+                                    <Button variant="outline" size="sm" className="gap-1.5" onClick={queue.retryFailed}>
+                                        <RotateCcw className="h-3.5 w-3.5" />
+                                        Retry failed
+                                    </Button>
+                                )}
+                                <Button variant="ghost" size="sm" onClick={queue.clearFinished}>
+                                    Clear finished
+                                </Button>
+                            </div>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                            <div
+                                className="h-full bg-slate-700 transition-all"
+                                style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }}
+                            />
+                        </div>
+                        {queue.isPaused && (
+                            <p className="text-xs text-amber-600">Paused - running previews finish, no new ones start</p>
+                        )}
+                    </Card>
+                )}
+
+                {/* 3. Review */}
+                {total > 0 && (
+                    <Card className="p-5 space-y-4">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <h2 className="text-sm font-semibold text-slate-900">Review changes</h2>
+                            <span className="text-sm text-slate-600">
+                                {counts.undecided} field{counts.undecided === 1 ? '' : 's'} waiting for a decision
+                            </span>
+                            <Button
+                                size="sm"
+                                className="ml-auto gap-1.5"
+                                disabled={counts.lowRisk === 0 || queue.isApplyingLowRisk}
+                                onClick={queue.applyLowRisk}
+                                title="Apply every change that fills an empty field - existing values are never overwritten"
+                            >
+                                {queue.isApplyingLowRisk
+                                    ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                    : <ShieldCheck className="h-3.5 w-3.5" />}
+                                Apply all low-risk fields ({counts.lowRisk})
+                            </Button>
+                        </div>
+                        <div className="rounded-lg border border-slate-200 bg-white overflow-x-auto">
+                            <ReextractionReviewTable
+                                items={queue.items}
+                                onDecision={queue.setDecision}
+                                onDecideAll={queue.decideAll}
+                                onApply={queue.applyItem}
+                                onRemove={queue.removeItem}
+                            />
+                        </div>
+                    </Card>
+                )}
+            </div>
+        </div>
+    )
+}
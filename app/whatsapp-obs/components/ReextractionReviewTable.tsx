@@ -0,0 +1,209 @@
+/**
+ * ReextractionReviewTable - Client Component
+ * ==========================================
+ *
+ * Every changed field of every finished preview in one table: current
+ * value, re-extracted value, risk, and accept/reject. Each listing's
+ * accepted fields are applied with its "Apply" button.
+ */
+
+'use client'
+
+import Link from 'next/link'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Check, CheckCircle2, ExternalLink, Loader2, X, XCircle } from 'lucide-react'
+import { describeListing } from '../utils/bulk-actions'
+import {
+    FIELD_RISK_LABELS,
+    FieldChange,
+    FieldDecision,
+    FieldRisk,
+    QueueItem,
+    acceptedUnappliedFields,
+    formatChangeValue,
+    formatFieldName,
+} from '../utils/reextraction'
+
+interface ReextractionReviewTableProps {
+    items: QueueItem[]
+    onDecision: (listingId: string, field: string, decision: FieldDecision | null) => void
+    onDecideAll: (listingId: string, decision: FieldDecision) => void
+    onApply: (listingId: string) => void
+    onRemove: (listingId: string) => void
+}
+
+const RISK_STYLES: Record<FieldRisk, string> = {
+    fill: 'bg-green-50 text-green-700 border-green-200',
+    change: 'bg-amber-50 text-amber-700 border-amber-200',
+    clear: 'bg-red-50 text-red-700 border-red-200',
+}
+
+export default function ReextractionReviewTable({
+    items,
+    onDecision,
+    onDecideAll,
+    onApply,
+    onRemove,
+}: ReextractionReviewTableProps) {
+    const reviewable = items.filter(item => item.status === 'ready' || item.status === 'failed')
+
+    if (reviewable.length === 0) {
+        return (
+            <p className="text-sm text-slate-500 py-8 text-center">
+                Previews show up here as the queue finishes them
+            </p>
+        )
+    }
+
+    const renderDecision = (item: QueueItem, change: FieldChange) => {
+        if (item.applied.includes(change.field)) {
+            return (
+                <span className="inline-flex items-center gap-1 text-xs text-green-700 font-medium">
+                    <CheckCircle2 className="h-3.5 w-3.5" /> Applied
+                </span>
+            )
+        }
+
+        const decision = item.decisions[change.field]
+        const toggle = (next: FieldDecision) => onDecision(item.listing.id, change.field, decision === next ? null : next)
+        return (
+            <div className="flex items-center gap-1">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={`h-7 w-7 p-0 ${decision === 'accept' ? 'bg-green-600 text-white border-green-600 hover:bg-green-700 hover:text-white' : ''}`}
+                    onClick={() => toggle('accept')}
+                    aria-label={`Accept ${formatFieldName(change.field)}`}
+                    aria-pressed={decision === 'accept'}
+                    disabled={item.isApplying}
+                >
+                    <Check className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={`h-7 w-7 p-0 ${decision === 'reject' ? 'bg-red-600 text-white border-red-600 hover:bg-red-700 hover:text-white' : ''}`}
+                    onClick={() => toggle('reject')}
+                    aria-label={`Reject ${formatFieldName(change.field)}`}
+                    aria-pressed={decision === 'reject'}
+                    disabled={item.isApplying}
+                >
+                    <X className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+        )
+    }
+
+    /**
+     * First cell of a listing's rows: what it is, and its actions
+     */
+    const renderListingCell = (item: QueueItem, rowSpan: number) => {
+        const toApply = acceptedUnappliedFields(item).length
+        return (
+            <TableCell rowSpan={rowSpan} className="align-top py-3 w-[260px] border-r border-slate-100">
+                <div className="space-y-2">
+                    <div className="flex items-start gap-1.5">
+                        <p className="text-sm font-medium text-slate-900 leading-snug">{describeListing(item.listing)}</p>
+                        <Link
+                            href={`/listing/${item.listing.id}`}
+                            target="_blank"
+                            className="text-slate-400 hover:text-slate-700 mt-0.5"
+                            aria-label="Open listing"
+                        >
+                            <ExternalLink className="h-3.5 w-3.5" />
+                        </Link>
+                    </div>
+                    {item.status === 'ready' && item.changes.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            <Button
+                                size="sm"
+                                className="h-7 px-2 text-xs gap-1"
+                                disabled={toApply === 0 || item.isApplying}
+                                onClick={() => onApply(item.listing.id)}
+                            >
+                                {item.isApplying && <Loader2 className="h-3 w-3 animate-spin" />}
+                                Apply{toApply > 0 ? ` ${toApply}` : ''}
+                            </Button>
+                            <button onClick={() => onDecideAll(item.listing.id, 'accept')} className="text-xs text-slate-500 hover:text-slate-800 hover:underline">
+                                Accept all
+                            </button>
+                            <button onClick={() => onDecideAll(item.listing.id, 'reject')} className="text-xs text-slate-500 hover:text-slate-800 hover:underline">
+                                Reject all
+                            </button>
+                        </div>
+                    )}
+                    {item.applyError && <p className="text-xs text-red-600">{item.applyError}</p>}
+                </div>
+            </TableCell>
+        )
+    }
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead className="w-[260px]">Listing</TableHead>
+                    <TableHead className="w-[140px]">Field</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Re-extracted</TableHead>
+                    <TableHead className="w-[130px]">Risk</TableHead>
+                    <TableHead className="w-[110px]">Decision</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {reviewable.map(item => {
+                    if (item.status === 'failed') {
+                        return (
+                            <TableRow key={item.listing.id}>
+                                {renderListingCell(item, 1)}
+                                <TableCell colSpan={4} className="align-top py-3">
+                                    <span className="inline-flex items-center gap-1.5 text-sm text-red-600">
+                                        <XCircle className="h-4 w-4" /> {item.error || 'Re-extraction failed'}
+                                    </span>
+                                </TableCell>
+                                <TableCell className="align-top py-3">
+                                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onRemove(item.listing.id)}>
+                                        Remove
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        )
+                    }
+
+                    if (item.changes.length === 0) {
+                        return (
+                            <TableRow key={item.listing.id}>
+                                {renderListingCell(item, 1)}
+                                <TableCell colSpan={5} className="align-top py-3 text-sm text-slate-500">
+                                    Re-extraction found nothing different
+                                </TableCell>
+                            </TableRow>
+                        )
+                    }
+
+                    return item.changes.map((change, index) => (
+                        <TableRow
+                            key={`${item.listing.id}:${change.field}`}
+                            className={item.decisions[change.field] === 'reject' ? 'opacity-60' : ''}
+                        >
+                            {index === 0 && renderListingCell(item, item.changes.length)}
+                            <TableCell className="py-2 text-sm font-medium text-slate-700">{formatFieldName(change.field)}</TableCell>
+                            <TableCell className="py-2 text-sm text-slate-500 line-through decoration-slate-300">
+                                {formatChangeValue(change.old)}
+                            </TableCell>
+                            <TableCell className="py-2 text-sm text-slate-900">{formatChangeValue(change.new)}</TableCell>
+                            <TableCell className="py-2">
+                                <Badge variant="outline" className={`text-xs ${RISK_STYLES[change.risk]}`}>
+                                    {FIELD_RISK_LABELS[change.risk]}
+                                </Badge>
+                            </TableCell>
+                            <TableCell className="py-2">{renderDecision(item, change)}</TableCell>
+                        </TableRow>
+                    ))
+                })}
+            </TableBody>
+        </Table>
+    )
+}
@@ -20,10 +20,7 @@ import {
 import { Button } from '@/components/ui/button'
 import { Loader2, RefreshCw, CheckCircle2, ArrowRight } from 'lucide-react'
 import { CREAListing } from '@/lib/services/crea-listings.service'
-
-
-// Use relative URL to go through Next.js proxy (configured in next.config.js)
-const API_BASE_URL = ''
+import { HttpClient } from '@/lib/services/http-client'
 
 interface RetryListingDialogProps {
     listing: CREAListing
@@ -70,19 +67,12 @@ export default function RetryListingDialog({ listing, children }: RetryListingDi
         setSuccess(false)
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/whatsapp-raw/retry-listing/${listing.id}`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-            })
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-                throw new Error(errorData.detail || errorData.message || `HTTP error! status: ${response.status}`)
-            }
-
-            const result: RetryPreviewResponse = await response.json()
+            // LLM re-extraction can be slow - allow longer than the default timeout
+            const result = await HttpClient.post<RetryPreviewResponse>(
+                `/api/whatsapp-raw/retry-listing/${listing.id}`,
+                undefined,
+                { timeoutMs: 120000 }
+            )
 
             if (result.success) {
                 setPreviewData(result)
@@ -117,20 +107,10 @@ export default function RetryListingDialog({ listing, children }: RetryListingDi
 
         try {
             // Apply the update using PATCH endpoint
-            const response = await fetch(`${API_BASE_URL}/api/whatsapp-raw/listings/${listing.id}`, {
-                method: 'PATCH',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify(previewData.new_result),
-            })
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-                throw new Error(errorData.detail || errorData.message || `HTTP error! status: ${response.status}`)
-            }
-
-            const result: UpdateListingResponse = await response.json()
+            const result = await HttpClient.patch<UpdateListingResponse>(
+                `/api/whatsapp-raw/listings/${listing.id}`,
+                previewData.new_result
+            )
 
             if (result.success && result.status === 'updated') {
                 setSuccess(true)
@@ -3,6 +3,8 @@
  * ===================================
  *
  * Simple table header component (filters moved to SearchInput).
+ * Renders the user's columns; sortable ones sort on click. The first
+ * column's checkbox selects every row on the page.
  */
 
 import {
@@ -10,6 +12,10 @@ import {
     TableHead,
     TableRow,
 } from '@/components/ui/table'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
+import { ListingColumn, ListingSort } from '../utils/listing-columns'
+import { CREASortKey } from '@/lib/services/crea-listings.service'
 
 interface TableHeaderWithFiltersProps {
     onLocationFilter?: (location: string) => void
@@ -22,20 +28,61 @@ interface TableHeaderWithFiltersProps {
     onExactMatchToggle?: (exactMatch: boolean) => void
     onResetFilters?: () => void
     hasActiveFilters?: boolean
+    columns: ListingColumn[]
+    sort?: ListingSort | null
+    onSort?: (key: CREASortKey) => void
+    selectAll?: boolean | 'indeterminate'
+    onSelectAll?: () => void
 }
 
-export default function TableHeaderWithFilters(props: TableHeaderWithFiltersProps) {
+export default function TableHeaderWithFilters({
+    columns,
+    sort,
+    onSort,
+    selectAll = false,
+    onSelectAll,
+}: TableHeaderWithFiltersProps) {
     return (
         <TableHeader className="sticky top-0 bg-gray-500 z-10 shadow-md">
             {/* Header Row */}
             <TableRow className="hover:bg-gray-500">
-                <TableHead className="w-[80px] text-white font-medium py-4">Date</TableHead>
-                <TableHead className="w-[220px] text-white font-medium py-4">Agent</TableHead>
-                <TableHead className="w-[130px] text-white font-medium py-4">Asset Type</TableHead>
-                <TableHead className="w-[90px] text-white font-medium py-4">Bedrooms</TableHead>
-                <TableHead className="w-[250px] text-white font-medium py-4">Location</TableHead>
-                <TableHead className="w-[120px] text-white font-medium py-4">Price</TableHead>
-                <TableHead className="w-[120px] text-white font-medium py-4">Type</TableHead>
+                <TableHead className="w-[36px] py-4">
+                    <Checkbox
+                        checked={selectAll}
+                        onCheckedChange={() => onSelectAll?.()}
+                        disabled={!onSelectAll}
+                        aria-label="Select all listings on this page"
+                        className="border-white data-[state=checked]:bg-white data-[state=checked]:text-gray-700 data-[state=indeterminate]:bg-white data-[state=indeterminate]:text-gray-700"
+                    />
+                </TableHead>
+                {columns.map(column => {
+                    const sortKey = column.sortKey
+                    if (!sortKey || !onSort) {
+                        return (
+                            <TableHead key={column.id} className={`${column.width} text-white font-medium py-4`}>
+                                {column.label}
+                            </TableHead>
+                        )
+                    }
+
+                    const order = sort?.sort_by === sortKey ? sort.sort_order : null
+                    const SortIcon = order === 'asc' ? ArrowUp : order === 'desc' ? ArrowDown : ArrowUpDown
+                    return (
+                        <TableHead
+                            key={column.id}
+                            className={`${column.width} text-white font-medium py-4`}
+                            aria-sort={order === 'asc' ? 'ascending' : order === 'desc' ? 'descending' : 'none'}
+                        >
+                            <button
+                                onClick={() => onSort(sortKey)}
+                                className="inline-flex items-center gap-1 hover:text-gray-100"
+                            >
+                                {column.label}
+                                <SortIcon className={`h-3.5 w-3.5 ${order ? '' : 'opacity-50'}`} />
+                            </button>
+                        </TableHead>
+                    )
+                })}
                 <TableHead className="w-[40px] text-white font-medium py-4"></TableHead>
             </TableRow>
         </TableHeader>
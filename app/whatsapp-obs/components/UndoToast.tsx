@@ -0,0 +1,48 @@
+/**
+ * UndoToast - Client Component
+ * ============================
+ *
+ * Short-lived message at the bottom of the screen after a listing edit,
+ * with "Undo" while the change can still be undone (see useListingEdits).
+ */
+
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { AlertCircle, CheckCircle2, X } from 'lucide-react'
+import { ListingEditToast } from '../hooks/useListingEdits'
+
+interface UndoToastProps {
+    toast: ListingEditToast | null
+    onDismiss: () => void
+}
+
+export default function UndoToast({ toast, onDismiss }: UndoToastProps) {
+    if (!toast) return null
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 rounded-lg bg-slate-900 text-white shadow-xl px-4 py-2.5 text-sm max-w-[90vw]"
+        >
+            {toast.status === 'error'
+                ? <AlertCircle className="h-4 w-4 text-red-400 flex-shrink-0" />
+                : <CheckCircle2 className="h-4 w-4 text-green-400 flex-shrink-0" />}
+            <span className="truncate">{toast.message}</span>
+            {toast.undo && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={toast.undo}
+                    className="h-7 px-2 text-[#E6D3AF] hover:text-white hover:bg-white/10 font-semibold"
+                >
+                    Undo
+                </Button>
+            )}
+            <button onClick={onDismiss} className="text-slate-400 hover:text-white" aria-label="Dismiss">
+                <X className="h-4 w-4" />
+            </button>
+        </div>
+    )
+}
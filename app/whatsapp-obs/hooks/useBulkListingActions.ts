@@ -0,0 +1,184 @@
+/**
+ * useBulkListingActions Hook
+ * ==========================
+ *
+ * Runs one bulk action on the selected listings and keeps each listing's
+ * result, so the table can show what worked and what didn't.
+ *
+ * - retry: re-extract with the LLM and save only the fields that fill a gap
+ *   (see fieldRisk) - changed or cleared values are left for the
+ *   re-extraction queue, where each one gets a decision
+ * - matching_supply: link each listing to the lead in ?lead_id=
+ * - delete: delete each listing
+ * - copy_links / export: one clipboard write / one CSV for all of them
+ *
+ * Retry and delete change listings on the backend, so `onListingsChanged`
+ * runs afterwards for the caller to reload.
+ */
+
+import { useState, useCallback } from 'react'
+import { downloadBlob, exportFileName, toCsvBlob } from '@/lib/export'
+import { CREAListing, CREAListingsService } from '@/lib/services/crea-listings.service'
+import { HttpClient } from '@/lib/services/http-client'
+import {
+    BULK_CONCURRENCY,
+    BulkActionId,
+    BulkItemResult,
+    BulkRun,
+    buildListingsExportTable,
+    listingUrl,
+    runWithConcurrency,
+} from '../utils/bulk-actions'
+import { applyReextractionFields, changedFields, previewReextraction } from '../utils/reextraction'
+
+interface UseBulkListingActionsOptions {
+    /** Lead the matching-supply action links to (?lead_id=) */
+    leadId: string | null
+    /** Called after retry or delete changed at least one listing */
+    onListingsChanged?: () => void
+}
+
+export interface UseBulkListingActionsReturn {
+    /** The latest run - stays until dismissed */
+    run: BulkRun | null
+    /** Error that stopped a run before it started (e.g. loading all matching listings failed) */
+    runError: string | null
+    /**
+     * Run an action on the listings `getListings` resolves to
+     * (a function, because "all matching" needs a fetch first)
+     */
+    runAction: (action: BulkActionId, getListings: () => Promise<CREAListing[]>) => Promise<void>
+    dismissRun: () => void
+}
+
+/**
+ * Re-extract one listing and save the fields it fills
+ */
+async function retryListing(listing: CREAListing): Promise<string> {
+    const changes = changedFields(await previewReextraction(listing.id))
+    const fills = changes.filter(change => change.risk === 'fill')
+    if (fills.length > 0) {
+        await applyReextractionFields(listing.id, fills)
+    }
+
+    const skipped = changes.length - fills.length
+    const filled = fills.length === 0 ? 'No gaps filled' : `${fills.length} field${fills.length === 1 ? '' : 's'} filled`
+    return skipped === 0 ? filled : `${filled}, ${skipped} change${skipped === 1 ? '' : 's'} left for review`
+}
+
+/**
+ * Custom hook for bulk actions on listings
+ *
+ * @param options - Lead id and the reload callback
+ * @returns The current run and the function that starts one
+ */
+export function useBulkListingActions({
+    leadId,
+    onListingsChanged,
+}: UseBulkListingActionsOptions): UseBulkListingActionsReturn {
+    const [run, setRun] = useState<BulkRun | null>(null)
+    const [runError, setRunError] = useState<string | null>(null)
+
+    const settleItem = useCallback((index: number, result: Pick<BulkItemResult, 'status' | 'message'>) => {
+        setRun(current => current && {
+            ...current,
+            items: current.items.map((item, i) => i === index ? { ...item, ...result } : item),
+        })
+    }, [])
+
+    // One operation for every listing - they all succeed or fail together
+    const settleAll = useCallback((result: Pick<BulkItemResult, 'status' | 'message'>) => {
+        setRun(current => current && {
+            ...current,
+            items: current.items.map(item => ({ ...item, ...result })),
+        })
+    }, [])
+
+    /**
+     * STEPS:
+     * 1. Resolve the listings (may fetch every matching page)
+     * 2. Start a run with every listing pending
+     * 3. Do the action, settling each listing as it finishes
+     * 4. Reload when retry/delete changed anything
+     */
+    const runAction = useCallback(async (action: BulkActionId, getListings: () => Promise<CREAListing[]>) => {
+        setRunError(null)
+        setRun(null)
+
+        let listings: CREAListing[]
+        try {
+            listings = await getListings()
+        } catch (error) {
+            console.error('Error loading listings for bulk action:', error)
+            setRunError(error instanceof Error ? error.message : 'Failed to load the selected listings')
+            return
+        }
+        if (listings.length === 0) return
+
+        setRun({
+            action,
+            items: listings.map(listing => ({ listing, status: 'pending' })),
+            isRunning: true,
+        })
+
+        let succeeded = 0
+        const perItem = (task: (listing: CREAListing) => Promise<string | undefined>) =>
+            runWithConcurrency(listings, BULK_CONCURRENCY, task, (index, result) => {
+                if (result.ok) succeeded++
+                settleItem(index, { status: result.ok ? 'success' : 'error', message: result.message })
+            })
+
+        switch (action) {
+            case 'retry':
+                await perItem(retryListing)
+                break
+            case 'matching_supply':
+                await perItem(async listing => {
+                    if (!leadId) throw new Error('Lead ID not found in URL')
+                    await HttpClient.post('/api/matching-supply', {
+                        lead_id: parseInt(leadId),
+                        whatsapp_listing_id: listing.id,
+                    })
+                    return 'Added'
+                })
+                break
+            case 'delete':
+                await perItem(async listing => {
+                    await CREAListingsService.deleteListing(listing.id)
+                    return 'Deleted'
+                })
+                break
+            case 'copy_links':
+                try {
+                    await navigator.clipboard.writeText(listings.map(listingUrl).join('\n'))
+                    settleAll({ status: 'success', message: 'Link copied' })
+                } catch (error) {
+                    console.error('Failed to copy links:', error)
+                    settleAll({ status: 'error', message: 'Couldn\'t write to the clipboard' })
+                }
+                break
+            case 'export':
+                downloadBlob(toCsvBlob(buildListingsExportTable(listings)), exportFileName('crea-listings', 'csv'))
+                settleAll({ status: 'success', message: 'Exported' })
+                break
+        }
+
+        setRun(current => current && { ...current, isRunning: false })
+
+        if ((action === 'retry' || action === 'delete') && succeeded > 0) {
+            onListingsChanged?.()
+        }
+    }, [leadId, onListingsChanged, settleItem, settleAll])
+
+    const dismissRun = useCallback(() => {
+        setRun(null)
+        setRunError(null)
+    }, [])
+
+    return {
+        run,
+        runError,
+        runAction,
+        dismissRun,
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * useColumnPreferences Hook
+ * =========================
+ *
+ * Which CREAListingsTable columns are shown, and in what order. Saved in
+ * localStorage, so each user (browser) keeps their own columns.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+    COLUMN_PREFERENCES_STORAGE_KEY,
+    ColumnPreferences,
+    DEFAULT_COLUMN_PREFERENCES,
+    LISTING_COLUMNS,
+    ListingColumn,
+    ListingColumnId,
+    normalizeColumnPreferences,
+} from '../utils/listing-columns'
+
+export interface UseColumnPreferencesReturn {
+    /** Shown columns, in order */
+    visibleColumns: ListingColumn[]
+
+    /** Every column in order, with whether it's shown (for the column chooser) */
+    columnOptions: { column: ListingColumn; visible: boolean }[]
+
+    toggleColumn: (id: ListingColumnId) => void
+
+    /** Move a column one place left (-1) or right (1) */
+    moveColumn: (id: ListingColumnId, offset: -1 | 1) => void
+
+    resetColumns: () => void
+}
+
+/**
+ * Custom hook for the listing table's column preferences
+ *
+ * @returns Columns to show, chooser options and update functions
+ */
+export function useColumnPreferences(): UseColumnPreferencesReturn {
+    const [preferences, setPreferences] = useState<ColumnPreferences>(DEFAULT_COLUMN_PREFERENCES)
+
+    /**
+     * Load saved preferences after mounting - reading localStorage during
+     * the first render would differ from the server-rendered HTML
+     */
+    useEffect(() => {
+        try {
+            const stored = window.localStorage.getItem(COLUMN_PREFERENCES_STORAGE_KEY)
+            if (stored) setPreferences(normalizeColumnPreferences(JSON.parse(stored)))
+        } catch (error) {
+            console.error('Error reading column preferences:', error)
+        }
+    }, [])
+
+    const savePreferences = useCallback((update: (current: ColumnPreferences) => ColumnPreferences) => {
+        setPreferences(current => {
+            const next = update(current)
+            try {
+                window.localStorage.setItem(COLUMN_PREFERENCES_STORAGE_KEY, JSON.stringify(next))
+            } catch (error) {
+                console.error('Error saving column preferences:', error)
+            }
+            return next
+        })
+    }, [])
+
+    const toggleColumn = useCallback((id: ListingColumnId) => {
+        savePreferences(current => {
+            if (current.hidden.includes(id)) {
+                return { ...current, hidden: current.hidden.filter(hiddenId => hiddenId !== id) }
+            }
+            // Keep at least one column
+            if (current.order.length - current.hidden.length <= 1) return current
+            return { ...current, hidden: [...current.hidden, id] }
+        })
+    }, [savePreferences])
+
+    const moveColumn = useCallback((id: ListingColumnId, offset: -1 | 1) => {
+        savePreferences(current => {
+            const index = current.order.indexOf(id)
+            const target = index + offset
+            if (index === -1 || target < 0 || target >= current.order.length) return current
+
+            const order = [...current.order]
+            order[index] = order[target]
+            order[target] = id
+            return { ...current, order }
+        })
+    }, [savePreferences])
+
+    const resetColumns = useCallback(() => {
+        savePreferences(() => DEFAULT_COLUMN_PREFERENCES)
+    }, [savePreferences])
+
+    const columnOptions = useMemo(
+        () => preferences.order.flatMap(id => {
+            const column = LISTING_COLUMNS.find(candidate => candidate.id === id)
+            return column ? [{ column, visible: !preferences.hidden.includes(id) }] : []
+        }),
+        [preferences]
+    )
+
+    const visibleColumns = useMemo(
+        () => columnOptions.filter(option => option.visible).map(option => option.column),
+        [columnOptions]
+    )
+
+    return {
+        visibleColumns,
+        columnOptions,
+        toggleColumn,
+        moveColumn,
+        resetColumns,
+    }
+}
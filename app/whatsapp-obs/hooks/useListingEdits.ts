@@ -0,0 +1,151 @@
+/**
+ * useListingEdits Hook
+ * ====================
+ *
+ * Saves hand corrections to extracted listing fields
+ * (PATCH /api/crea/listings/{id}).
+ *
+ * Saves are optimistic: the new value shows right away and goes back to
+ * the old one when the save fails. After a save, a toast offers "Undo"
+ * for UNDO_TIMEOUT_MS - undoing saves the old value the same way.
+ *
+ * The caller owns the listing data; the hook changes it through
+ * `applyPatch` (the table patches its rows, the detail page its listing).
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { CREAListing, CREAListingsService } from '@/lib/services/crea-listings.service'
+import { EDITABLE_FIELD_LABELS, EditableFieldValue, EditableListingField, describeFieldValue } from '../utils/listing-edits'
+
+const UNDO_TIMEOUT_MS = 6000
+
+/**
+ * What the toast shows after a save (or a failed one)
+ */
+export interface ListingEditToast {
+    message: string
+    status: 'saved' | 'error'
+    /** Set while the change can still be undone */
+    undo?: () => void
+}
+
+export interface UseListingEditsReturn {
+    /** Save a field (the value is already validated - see parseFieldInput) */
+    saveField: (listingId: string, field: EditableListingField, value: EditableFieldValue, previous: EditableFieldValue) => Promise<boolean>
+
+    /** Is a save of this field in flight? */
+    isSaving: (listingId: string, field: EditableListingField) => boolean
+
+    toast: ListingEditToast | null
+    dismissToast: () => void
+}
+
+const editKey = (listingId: string, field: EditableListingField) => `${listingId}:${field}`
+
+/**
+ * Custom hook for inline listing edits with undo
+ *
+ * @param applyPatch - Change the caller's copy of a listing
+ * @returns Save function, saving state and the undo toast
+ */
+export function useListingEdits(
+    applyPatch: (listingId: string, patch: Partial<CREAListing>) => void
+): UseListingEditsReturn {
+    const [savingKeys, setSavingKeys] = useState<Set<string>>(new Set())
+    const [toast, setToast] = useState<ListingEditToast | null>(null)
+
+    // Latest save per field - an older save that fails mustn't roll back a newer value
+    const latestSaveRef = useRef(new Map<string, number>())
+    const saveCounterRef = useRef(0)
+    const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+    const dismissToast = useCallback(() => {
+        if (toastTimerRef.current) clearTimeout(toastTimerRef.current)
+        toastTimerRef.current = null
+        setToast(null)
+    }, [])
+
+    const showToast = useCallback((next: ListingEditToast) => {
+        if (toastTimerRef.current) clearTimeout(toastTimerRef.current)
+        setToast(next)
+        toastTimerRef.current = setTimeout(() => setToast(null), UNDO_TIMEOUT_MS)
+    }, [])
+
+    useEffect(() => () => {
+        if (toastTimerRef.current) clearTimeout(toastTimerRef.current)
+    }, [])
+
+    const setSaving = useCallback((key: string, saving: boolean) => {
+        setSavingKeys(current => {
+            const next = new Set(current)
+            if (saving) next.add(key)
+            else next.delete(key)
+            return next
+        })
+    }, [])
+
+    /**
+     * STEPS:
+     * 1. Show the new value right away
+     * 2. PATCH the field
+     * 3. Success: toast with undo (undo saves `previous` the same way)
+     *    Failure: put `previous` back and say why
+     */
+    const saveField = useCallback(async (
+        listingId: string,
+        field: EditableListingField,
+        value: EditableFieldValue,
+        previous: EditableFieldValue,
+        isUndo: boolean = false
+    ): Promise<boolean> => {
+        const key = editKey(listingId, field)
+        const saveId = ++saveCounterRef.current
+        latestSaveRef.current.set(key, saveId)
+        const label = EDITABLE_FIELD_LABELS[field]
+
+        applyPatch(listingId, { [field]: value })
+        setSaving(key, true)
+
+        try {
+            await CREAListingsService.updateListing(listingId, { [field]: value })
+
+            if (isUndo) {
+                showToast({ status: 'saved', message: `${label} change undone` })
+            } else {
+                showToast({
+                    status: 'saved',
+                    message: `${label} changed to ${describeFieldValue(field, value)}`,
+                    undo: () => {
+                        dismissToast()
+                        saveField(listingId, field, previous, value, true)
+                    },
+                })
+            }
+            return true
+        } catch (error) {
+            console.error(`Error saving listing ${field}:`, error)
+            if (latestSaveRef.current.get(key) === saveId) {
+                applyPatch(listingId, { [field]: previous })
+            }
+            showToast({
+                status: 'error',
+                message: `Couldn't save ${label.toLowerCase()}: ${error instanceof Error ? error.message : 'unknown error'}`,
+            })
+            return false
+        } finally {
+            if (latestSaveRef.current.get(key) === saveId) setSaving(key, false)
+        }
+    }, [applyPatch, setSaving, showToast, dismissToast])
+
+    const isSaving = useCallback(
+        (listingId: string, field: EditableListingField) => savingKeys.has(editKey(listingId, field)),
+        [savingKeys]
+    )
+
+    return {
+        saveField,
+        isSaving,
+        toast,
+        dismissToast,
+    }
+}
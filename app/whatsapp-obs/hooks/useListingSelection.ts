@@ -0,0 +1,101 @@
+/**
+ * useListingSelection Hook
+ * ========================
+ *
+ * Row selection for CREAListingsTable: single rows, every row on the page,
+ * or every listing matching the current search (across pages).
+ *
+ * The selection only covers the listings the table shows: when the rows
+ * change (another page, new filters, a delete) rows that are gone drop out
+ * and "all matching" is cleared.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+
+export interface UseListingSelectionReturn {
+    selectedIds: Set<string>
+    isSelected: (listingId: string) => boolean
+    toggleListing: (listingId: string) => void
+
+    /** Every row on the page is selected */
+    allOnPageSelected: boolean
+    /** Some, but not all, rows on the page are selected */
+    someOnPageSelected: boolean
+    /** Select every row on the page, or clear them when all are selected */
+    togglePage: () => void
+
+    /** The selection means every listing matching the search, not just this page */
+    allMatching: boolean
+    selectAllMatching: () => void
+
+    clearSelection: () => void
+}
+
+/**
+ * Custom hook for selecting listings
+ *
+ * @param listings - Rows the table shows
+ * @returns Selection state and the functions that change it
+ */
+export function useListingSelection(listings: CREAListing[]): UseListingSelectionReturn {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+    const [allMatching, setAllMatching] = useState(false)
+
+    // Keep only rows that are still shown (an inline edit keeps the same rows)
+    const shownKey = listings.map(listing => listing.id).join(',')
+    useEffect(() => {
+        const shown = new Set(shownKey.split(','))
+        setSelectedIds(current => {
+            const kept = new Set([...current].filter(id => shown.has(id)))
+            return kept.size === current.size ? current : kept
+        })
+        setAllMatching(false)
+    }, [shownKey])
+
+    const isSelected = useCallback((listingId: string) => selectedIds.has(listingId), [selectedIds])
+
+    const toggleListing = useCallback((listingId: string) => {
+        setAllMatching(false)
+        setSelectedIds(current => {
+            const next = new Set(current)
+            if (next.has(listingId)) next.delete(listingId)
+            else next.add(listingId)
+            return next
+        })
+    }, [])
+
+    const selectedOnPage = useMemo(
+        () => listings.filter(listing => selectedIds.has(listing.id)).length,
+        [listings, selectedIds]
+    )
+    const allOnPageSelected = listings.length > 0 && selectedOnPage === listings.length
+    const someOnPageSelected = selectedOnPage > 0 && !allOnPageSelected
+
+    const togglePage = useCallback(() => {
+        setAllMatching(false)
+        setSelectedIds(allOnPageSelected ? new Set() : new Set(listings.map(listing => listing.id)))
+    }, [allOnPageSelected, listings])
+
+    const selectAllMatching = useCallback(() => {
+        setSelectedIds(new Set(listings.map(listing => listing.id)))
+        setAllMatching(true)
+    }, [listings])
+
+    const clearSelection = useCallback(() => {
+        setSelectedIds(new Set())
+        setAllMatching(false)
+    }, [])
+
+    return {
+        selectedIds,
+        isSelected,
+        toggleListing,
+        allOnPageSelected,
+        someOnPageSelected,
+        togglePage,
+        allMatching,
+        selectAllMatching,
+        clearSelection,
+    }
+}
@@ -0,0 +1,267 @@
+/**
+ * useReextractionQueue Hook
+ * =========================
+ *
+ * Queue of listings to re-extract with the LLM. Previews are fetched in the
+ * background, QUEUE_CONCURRENCY at a time, while the page stays open; the
+ * user then accepts or rejects each changed field and applies the accepted
+ * ones (PATCH /api/whatsapp-raw/listings/{id} with just those fields).
+ *
+ * Nothing is applied without a decision, except through applyLowRisk,
+ * which applies every field that only fills a gap (see fieldRisk).
+ */
+
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+import { runWithConcurrency } from '../utils/bulk-actions'
+import {
+    FieldChange,
+    FieldDecision,
+    QueueItem,
+    acceptedUnappliedFields,
+    applyReextractionFields,
+    changedFields,
+    lowRiskUnappliedFields,
+    previewReextraction,
+} from '../utils/reextraction'
+
+// Previews fetched at the same time - each is a slow LLM call
+const QUEUE_CONCURRENCY = 2
+const APPLY_CONCURRENCY = 3
+
+export interface ReextractionQueueCounts {
+    queued: number
+    running: number
+    ready: number
+    failed: number
+    /** Changed fields still waiting for a decision */
+    undecided: number
+    /** Low-risk fields applyLowRisk would save */
+    lowRisk: number
+}
+
+export interface UseReextractionQueueReturn {
+    items: QueueItem[]
+    counts: ReextractionQueueCounts
+    isPaused: boolean
+    setPaused: (paused: boolean) => void
+
+    /** Add listings (ones already queued are skipped); returns how many were added */
+    enqueue: (listings: CREAListing[]) => number
+    retryFailed: () => void
+    removeItem: (listingId: string) => void
+    /** Drop items with nothing left to review */
+    clearFinished: () => void
+
+    /** Accept or reject one field (null clears the decision) */
+    setDecision: (listingId: string, field: string, decision: FieldDecision | null) => void
+    /** Same decision for every unapplied field of a listing */
+    decideAll: (listingId: string, decision: FieldDecision) => void
+
+    /** Save a listing's accepted fields */
+    applyItem: (listingId: string) => Promise<void>
+    /** Accept and save every low-risk field in the queue */
+    applyLowRisk: () => Promise<void>
+    isApplyingLowRisk: boolean
+}
+
+function newItem(listing: CREAListing): QueueItem {
+    return { listing, status: 'queued', changes: [], decisions: {}, applied: [], isApplying: false }
+}
+
+/**
+ * Has the user got nothing left to do for this item?
+ */
+function isFinished(item: QueueItem): boolean {
+    return item.status === 'ready' && item.changes.every(change =>
+        item.applied.includes(change.field) || item.decisions[change.field] === 'reject'
+    )
+}
+
+/**
+ * Custom hook for the re-extraction queue
+ *
+ * @returns Queue items, counts and the functions that change them
+ */
+export function useReextractionQueue(): UseReextractionQueueReturn {
+    const [items, setItems] = useState<QueueItem[]>([])
+    const [isPaused, setPaused] = useState(false)
+    const [isApplyingLowRisk, setIsApplyingLowRisk] = useState(false)
+
+    // Previews in flight - decides how many more may start
+    const inFlightRef = useRef(new Set<string>())
+    // Latest items for async callbacks
+    const itemsRef = useRef(items)
+    itemsRef.current = items
+
+    const updateItem = useCallback((listingId: string, update: (item: QueueItem) => QueueItem) => {
+        setItems(current => current.map(item => item.listing.id === listingId ? update(item) : item))
+    }, [])
+
+    /**
+     * Scheduler: start queued previews while there are free slots
+     */
+    useEffect(() => {
+        if (isPaused) return
+
+        const slots = QUEUE_CONCURRENCY - inFlightRef.current.size
+        if (slots <= 0) return
+
+        const next = items
+            .filter(item => item.status === 'queued' && !inFlightRef.current.has(item.listing.id))
+            .slice(0, slots)
+
+        next.forEach(({ listing }) => {
+            inFlightRef.current.add(listing.id)
+            updateItem(listing.id, item => ({ ...item, status: 'running', error: undefined }))
+
+            previewReextraction(listing.id)
+                .then(preview => {
+                    inFlightRef.current.delete(listing.id)
+                    updateItem(listing.id, item => ({ ...item, status: 'ready', changes: changedFields(preview) }))
+                })
+                .catch(error => {
+                    console.error(`Error re-extracting listing ${listing.id}:`, error)
+                    inFlightRef.current.delete(listing.id)
+                    updateItem(listing.id, item => ({
+                        ...item,
+                        status: 'failed',
+                        error: error instanceof Error ? error.message : 'Failed to generate preview',
+                    }))
+                })
+        })
+    }, [items, isPaused, updateItem])
+
+    const enqueue = useCallback((listings: CREAListing[]) => {
+        const queued = new Set(itemsRef.current.map(item => item.listing.id))
+        const added = listings.filter(listing => !queued.has(listing.id))
+        if (added.length > 0) {
+            setItems(current => [...current, ...added.map(newItem)])
+        }
+        return added.length
+    }, [])
+
+    const retryFailed = useCallback(() => {
+        setItems(current => current.map(item => item.status === 'failed' ? newItem(item.listing) : item))
+    }, [])
+
+    const removeItem = useCallback((listingId: string) => {
+        setItems(current => current.filter(item => item.listing.id !== listingId || item.status === 'running'))
+    }, [])
+
+    const clearFinished = useCallback(() => {
+        setItems(current => current.filter(item => !isFinished(item)))
+    }, [])
+
+    const setDecision = useCallback((listingId: string, field: string, decision: FieldDecision | null) => {
+        updateItem(listingId, item => {
+            const decisions = { ...item.decisions }
+            if (decision) decisions[field] = decision
+            else delete decisions[field]
+            return { ...item, decisions }
+        })
+    }, [updateItem])
+
+    const decideAll = useCallback((listingId: string, decision: FieldDecision) => {
+        updateItem(listingId, item => ({
+            ...item,
+            decisions: {
+                ...item.decisions,
+                ...Object.fromEntries(
+                    item.changes
+                        .filter(change => !item.applied.includes(change.field))
+                        .map(change => [change.field, decision])
+                ),
+            },
+        }))
+    }, [updateItem])
+
+    /**
+     * PATCH the given fields of a listing and mark them applied
+     */
+    const saveFields = useCallback(async (listingId: string, fields: FieldChange[]) => {
+        if (fields.length === 0) return
+
+        updateItem(listingId, item => ({ ...item, isApplying: true, applyError: undefined }))
+        try {
+            await applyReextractionFields(listingId, fields)
+
+            const saved = fields.map(change => change.field)
+            updateItem(listingId, item => ({
+                ...item,
+                isApplying: false,
+                applied: [...item.applied, ...saved],
+                decisions: { ...item.decisions, ...Object.fromEntries(saved.map(field => [field, 'accept' as const])) },
+            }))
+        } catch (error) {
+            console.error(`Error applying re-extraction for ${listingId}:`, error)
+            updateItem(listingId, item => ({
+                ...item,
+                isApplying: false,
+                applyError: error instanceof Error ? error.message : 'Failed to apply',
+            }))
+            throw error
+        }
+    }, [updateItem])
+
+    const applyItem = useCallback(async (listingId: string) => {
+        const item = itemsRef.current.find(candidate => candidate.listing.id === listingId)
+        if (!item || item.isApplying) return
+        await saveFields(listingId, acceptedUnappliedFields(item)).catch(() => undefined)
+    }, [saveFields])
+
+    const applyLowRisk = useCallback(async () => {
+        const targets = itemsRef.current
+            .filter(item => item.status === 'ready' && !item.isApplying)
+            .map(item => ({ listingId: item.listing.id, fields: lowRiskUnappliedFields(item) }))
+            .filter(target => target.fields.length > 0)
+        if (targets.length === 0) return
+
+        setIsApplyingLowRisk(true)
+        try {
+            // Failures are recorded on each item (applyError)
+            await runWithConcurrency(
+                targets,
+                APPLY_CONCURRENCY,
+                async target => {
+                    await saveFields(target.listingId, target.fields)
+                    return undefined
+                },
+                () => undefined
+            )
+        } finally {
+            setIsApplyingLowRisk(false)
+        }
+    }, [saveFields])
+
+    const counts = useMemo<ReextractionQueueCounts>(() => {
+        const count = (status: QueueItem['status']) => items.filter(item => item.status === status).length
+        const ready = items.filter(item => item.status === 'ready')
+        return {
+            queued: count('queued'),
+            running: count('running'),
+            ready: ready.length,
+            failed: count('failed'),
+            undecided: ready.reduce((total, item) => total + item.changes.filter(change =>
+                !item.applied.includes(change.field) && !item.decisions[change.field]
+            ).length, 0),
+            lowRisk: ready.reduce((total, item) => total + lowRiskUnappliedFields(item).length, 0),
+        }
+    }, [items])
+
+    return {
+        items,
+        counts,
+        isPaused,
+        setPaused,
+        enqueue,
+        retryFailed,
+        removeItem,
+        clearFinished,
+        setDecision,
+        decideAll,
+        applyItem,
+        applyLowRisk,
+        isApplyingLowRisk,
+    }
+}
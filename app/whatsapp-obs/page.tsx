@@ -5,9 +5,18 @@
  * Client component that handles search with debounce.
  */
 
+import { Suspense } from 'react'
 import ListingsContent from './components/ListingsContent'
 
+/**
+ * ListingsContent reads the page number from the URL (useSearchParams),
+ * which needs a Suspense boundary in production builds
+ */
 export default function WhatsAppSearchPage() {
-    return <ListingsContent />
+    return (
+        <Suspense fallback={null}>
+            <ListingsContent />
+        </Suspense>
+    )
 }
 
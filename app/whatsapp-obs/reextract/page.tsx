@@ -0,0 +1,12 @@
+/**
+ * Re-extraction Queue Page
+ * ========================
+ *
+ * Bulk LLM re-extraction of WhatsApp listings with a review step.
+ */
+
+import ReextractionQueueContent from '../components/ReextractionQueueContent'
+
+export default function ReextractionQueuePage() {
+    return <ReextractionQueueContent />
+}
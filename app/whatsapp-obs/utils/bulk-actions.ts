@@ -0,0 +1,117 @@
+/**
+ * Bulk Listing Actions
+ * ====================
+ *
+ * The actions CREAListingsTable can run on many selected listings at once,
+ * and the per-listing results they report. Each listing succeeds or fails
+ * on its own - one failure doesn't stop the rest.
+ */
+
+import { ExportColumn, ExportTable, toExportTable } from '@/lib/export'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+
+export type BulkActionId = 'retry' | 'matching_supply' | 'copy_links' | 'export' | 'delete'
+
+export const BULK_ACTION_LABELS: Record<BulkActionId, string> = {
+    retry: 'Retry extraction',
+    matching_supply: 'Add to matching supply',
+    copy_links: 'Copy links',
+    export: 'Export CSV',
+    delete: 'Delete',
+}
+
+// Most listings one bulk action runs on (select-all-matching stops here)
+export const MAX_BULK_LISTINGS = 500
+
+// Listings processed at the same time - retries are slow LLM calls
+export const BULK_CONCURRENCY = 3
+
+export type BulkItemStatus = 'pending' | 'success' | 'error'
+
+export interface BulkItemResult {
+    listing: CREAListing
+    status: BulkItemStatus
+    /** What happened - shown next to the listing */
+    message?: string
+}
+
+export interface BulkRun {
+    action: BulkActionId
+    items: BulkItemResult[]
+    isRunning: boolean
+}
+
+/**
+ * Short name for a listing in the results list
+ */
+export function describeListing(listing: CREAListing): string {
+    const parts = [
+        listing.configuration,
+        listing.property_type?.replace(/_/g, ' '),
+        listing.location,
+    ].filter(Boolean)
+    const agent = listing.agent_name || listing.sender_name
+    return `${parts.join(' · ') || listing.id}${agent ? ` (${agent})` : ''}`
+}
+
+/**
+ * Link to the listing detail page
+ */
+export function listingUrl(listing: CREAListing): string {
+    const baseUrl = typeof window !== 'undefined' ? window.location.origin : ''
+    return `${baseUrl}/listing/${listing.id}`
+}
+
+/**
+ * Run `task` on every item, `concurrency` at a time, reporting each
+ * result as it settles
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    concurrency: number,
+    task: (item: T) => Promise<string | undefined>,
+    onSettled: (index: number, result: { ok: true; message?: string } | { ok: false; message: string }) => void
+): Promise<void> {
+    let next = 0
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++
+            try {
+                onSettled(index, { ok: true, message: await task(items[index]) })
+            } catch (error) {
+                onSettled(index, { ok: false, message: error instanceof Error ? error.message : 'Failed' })
+            }
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+}
+
+const EXPORT_COLUMNS: ExportColumn<CREAListing>[] = [
+    { header: 'ID', value: listing => listing.id },
+    { header: 'Date', value: listing => listing.message_date?.slice(0, 10) || null },
+    { header: 'Agent', value: listing => listing.agent_name || listing.sender_name || null },
+    { header: 'Contact', value: listing => listing.agent_contact || null },
+    { header: 'Company', value: listing => listing.company_name },
+    { header: 'Type', value: listing => listing.property_type || null },
+    { header: 'Transaction', value: listing => listing.transaction_type || null },
+    { header: 'Configuration', value: listing => listing.configuration },
+    { header: 'Size (sqft)', value: listing => listing.size_sqft || null },
+    { header: 'Location', value: listing => listing.location || null },
+    { header: 'Price (₹)', value: listing => listing.price || null },
+    { header: 'Price text', value: listing => listing.price_text || null },
+    { header: 'Floor', value: listing => listing.floor },
+    { header: 'Facing', value: listing => listing.facing },
+    { header: 'Furnishing', value: listing => listing.furnishing },
+    { header: 'Parking', value: listing => listing.parking },
+    { header: 'Amenities', value: listing => listing.amenities },
+    { header: 'Link', value: listing => listingUrl(listing) },
+]
+
+/**
+ * Selected listings as an export table (one row per listing)
+ */
+export function buildListingsExportTable(listings: CREAListing[]): ExportTable {
+    return toExportTable(listings, EXPORT_COLUMNS)
+}
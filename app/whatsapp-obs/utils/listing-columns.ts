@@ -0,0 +1,181 @@
+/**
+ * Listing Table Columns
+ * =====================
+ *
+ * Columns CREAListingsTable can show, the user's column preferences
+ * (which are shown, in what order) and sorting.
+ *
+ * Sorting runs on the backend, which pages through the sorted listings.
+ * A backend that can't sort returns its usual order - the table then sorts
+ * the page it got (sortListings), which only orders that page.
+ */
+
+import {
+    CREAListing,
+    CREASortKey,
+    CREASortOrder,
+    CREASortParams,
+} from '@/lib/services/crea-listings.service'
+
+export type ListingColumnId =
+    | 'date'
+    | 'agent'
+    | 'company_name'
+    | 'asset_type'
+    | 'size'
+    | 'configuration'
+    | 'location'
+    | 'price'
+    | 'transaction_type'
+    | 'floor'
+    | 'facing'
+    | 'furnishing'
+    | 'parking'
+    | 'amenities'
+
+export interface ListingColumn {
+    id: ListingColumnId
+    label: string
+    /** Tailwind width class for the header */
+    width: string
+    /** Field the column sorts by (not sortable without one) */
+    sortKey?: CREASortKey
+    /** Shown until the user changes their columns */
+    defaultVisible: boolean
+}
+
+/**
+ * Every column, in the default order
+ */
+export const LISTING_COLUMNS: ListingColumn[] = [
+    { id: 'date', label: 'Date', width: 'w-[80px]', sortKey: 'message_date', defaultVisible: true },
+    { id: 'agent', label: 'Agent', width: 'w-[220px]', sortKey: 'agent_name', defaultVisible: true },
+    { id: 'company_name', label: 'Company', width: 'w-[160px]', defaultVisible: false },
+    { id: 'asset_type', label: 'Asset Type', width: 'w-[130px]', defaultVisible: true },
+    { id: 'size', label: 'Size', width: 'w-[100px]', sortKey: 'size_sqft', defaultVisible: true },
+    { id: 'configuration', label: 'Bedrooms', width: 'w-[90px]', defaultVisible: true },
+    { id: 'location', label: 'Location', width: 'w-[250px]', sortKey: 'location', defaultVisible: true },
+    { id: 'price', label: 'Price', width: 'w-[120px]', sortKey: 'price', defaultVisible: true },
+    { id: 'transaction_type', label: 'Type', width: 'w-[120px]', defaultVisible: true },
+    { id: 'floor', label: 'Floor', width: 'w-[90px]', defaultVisible: false },
+    { id: 'facing', label: 'Facing', width: 'w-[90px]', defaultVisible: false },
+    { id: 'furnishing', label: 'Furnishing', width: 'w-[120px]', defaultVisible: false },
+    { id: 'parking', label: 'Parking', width: 'w-[100px]', defaultVisible: false },
+    { id: 'amenities', label: 'Amenities', width: 'w-[200px]', defaultVisible: false },
+]
+
+// ============================================================================
+// COLUMN PREFERENCES
+// ============================================================================
+
+/**
+ * Which columns the user shows, and in what order (saved in localStorage)
+ */
+export interface ColumnPreferences {
+    /** Every column id, in display order */
+    order: ListingColumnId[]
+    hidden: ListingColumnId[]
+}
+
+export const COLUMN_PREFERENCES_STORAGE_KEY = 'crea-listings-columns'
+
+export const DEFAULT_COLUMN_PREFERENCES: ColumnPreferences = {
+    order: LISTING_COLUMNS.map(column => column.id),
+    hidden: LISTING_COLUMNS.filter(column => !column.defaultVisible).map(column => column.id),
+}
+
+function isColumnId(value: unknown): value is ListingColumnId {
+    return LISTING_COLUMNS.some(column => column.id === value)
+}
+
+/**
+ * Preferences from storage, repaired: unknown ids are dropped, and columns
+ * added since they were saved go in their default place with their default
+ * visibility
+ */
+export function normalizeColumnPreferences(stored: unknown): ColumnPreferences {
+    const { order, hidden } = (stored ?? {}) as Partial<Record<keyof ColumnPreferences, unknown>>
+    if (!Array.isArray(order)) return DEFAULT_COLUMN_PREFERENCES
+
+    const storedOrder = [...new Set(order.filter(isColumnId))]
+    const added = DEFAULT_COLUMN_PREFERENCES.order.filter(id => !storedOrder.includes(id))
+    const fullOrder = [...storedOrder]
+    for (const id of added) {
+        // After the column that precedes it by default (first when there's none)
+        const defaultIndex = DEFAULT_COLUMN_PREFERENCES.order.indexOf(id)
+        const previous = DEFAULT_COLUMN_PREFERENCES.order.slice(0, defaultIndex).reverse().find(other => fullOrder.includes(other))
+        fullOrder.splice(previous ? fullOrder.indexOf(previous) + 1 : 0, 0, id)
+    }
+
+    return {
+        order: fullOrder,
+        hidden: [
+            ...(Array.isArray(hidden) ? hidden.filter(isColumnId) : []),
+            ...added.filter(id => DEFAULT_COLUMN_PREFERENCES.hidden.includes(id)),
+        ],
+    }
+}
+
+// ============================================================================
+// SORTING
+// ============================================================================
+
+export type ListingSort = Required<CREASortParams>
+
+/**
+ * Order of the first click on a header - newest first for dates
+ */
+const FIRST_SORT_ORDER: Partial<Record<CREASortKey, CREASortOrder>> = {
+    message_date: 'desc',
+}
+
+const SORT_KEYS = LISTING_COLUMNS.flatMap(column => column.sortKey ? [column.sortKey] : [])
+
+/**
+ * Sort from the ?sort= param ("price:desc"), null when missing or invalid
+ */
+export function parseSortParam(value: string | null): ListingSort | null {
+    const [key, order] = (value || '').split(':')
+    const sortBy = SORT_KEYS.find(sortKey => sortKey === key)
+    if (!sortBy) return null
+    return { sort_by: sortBy, sort_order: order === 'desc' ? 'desc' : 'asc' }
+}
+
+export function formatSortParam(sort: ListingSort): string {
+    return `${sort.sort_by}:${sort.sort_order}`
+}
+
+/**
+ * Sort after clicking a header: a new column starts in its first order,
+ * a second click reverses it and a third goes back to the default order
+ */
+export function nextSort(current: ListingSort | null, key: CREASortKey): ListingSort | null {
+    const first = FIRST_SORT_ORDER[key] ?? 'asc'
+    if (current?.sort_by !== key) return { sort_by: key, sort_order: first }
+    if (current.sort_order === first) return { sort_by: key, sort_order: first === 'asc' ? 'desc' : 'asc' }
+    return null
+}
+
+/**
+ * Sort listings in the browser (when the backend didn't); missing values go last
+ */
+export function sortListings(listings: CREAListing[], sort: ListingSort): CREAListing[] {
+    const direction = sort.sort_order === 'desc' ? -1 : 1
+    const valueOf = (listing: CREAListing): number | string | null => {
+        const value = listing[sort.sort_by]
+        if (sort.sort_by === 'message_date') {
+            const timestamp = new Date(value as string).getTime()
+            return isNaN(timestamp) ? null : timestamp
+        }
+        return value || null
+    }
+
+    return [...listings].sort((a, b) => {
+        const valueA = valueOf(a)
+        const valueB = valueOf(b)
+        if (valueA === null || valueB === null) return Number(valueA === null) - Number(valueB === null)
+        return (typeof valueA === 'number' && typeof valueB === 'number'
+            ? valueA - valueB
+            : String(valueA).localeCompare(String(valueB))) * direction
+    })
+}
@@ -0,0 +1,101 @@
+/**
+ * Listing Field Edits
+ * ===================
+ *
+ * Fields of an extracted listing users can correct by hand, and how the
+ * text they type becomes a value for PATCH /api/crea/listings/{id}:
+ * - price: rupees ("1.25 Cr", "85 L", "85,00,000")
+ * - size_sqft: square feet ("1200", "1,450 sqft", "150 sq yd")
+ * - configuration: nBHK ("3 BHK", "3bhk", "2.5 BHK", "3")
+ * - location: any non-empty text
+ */
+
+import { parseArea, parsePrice } from '@/lib/parsing'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+
+export type EditableListingField = 'price' | 'size_sqft' | 'configuration' | 'location'
+
+export type EditableFieldValue = CREAListing[EditableListingField]
+
+export const EDITABLE_FIELD_LABELS: Record<EditableListingField, string> = {
+    price: 'Price',
+    size_sqft: 'Size',
+    configuration: 'Bedrooms',
+    location: 'Location',
+}
+
+const MAX_LOCATION_LENGTH = 120
+const MAX_BEDROOMS = 20
+
+export type FieldInputResult =
+    | { ok: true; value: EditableFieldValue }
+    | { ok: false; error: string }
+
+/**
+ * Does the parser's match cover the whole input? (so "2 Cr approx" or
+ * "call 98450 12345" aren't read as a price)
+ */
+function matchesWholeInput(matched: string, input: string): boolean {
+    return matched.trim().toLowerCase() === input.trim().toLowerCase()
+}
+
+/**
+ * Value for a field from what the user typed, or why it isn't valid
+ */
+export function parseFieldInput(field: EditableListingField, input: string): FieldInputResult {
+    const text = input.trim()
+
+    switch (field) {
+        case 'price': {
+            const parsed = parsePrice(text)
+            if (!parsed || !matchesWholeInput(parsed.text, text)) {
+                return { ok: false, error: 'Enter a price in rupees, e.g. 1.25 Cr, 85 L or 8500000' }
+            }
+            if (parsed.isRange) return { ok: false, error: 'Enter one price, not a range' }
+            if (parsed.perSqft) return { ok: false, error: 'Enter the total price, not a rate per sqft' }
+            return { ok: true, value: Math.round(parsed.amount) }
+        }
+        case 'size_sqft': {
+            const parsed = parseArea(text)
+            if (!parsed || !matchesWholeInput(parsed.text, text)) {
+                return { ok: false, error: 'Enter a size in sqft, e.g. 1200 or 1,450 sqft' }
+            }
+            if (parsed.isRange) return { ok: false, error: 'Enter one size, not a range' }
+            return { ok: true, value: parsed.sqft }
+        }
+        case 'configuration': {
+            const match = text.match(/^(\d+(?:\.5)?)\s*(?:-?\s*bhk)?$/i)
+            const bedrooms = match ? parseFloat(match[1]) : NaN
+            if (!(bedrooms > 0 && bedrooms <= MAX_BEDROOMS)) {
+                return { ok: false, error: 'Enter the configuration as nBHK, e.g. 3 BHK' }
+            }
+            return { ok: true, value: `${bedrooms} BHK` }
+        }
+        case 'location': {
+            if (!text) return { ok: false, error: 'Location can\'t be empty' }
+            if (text.length > MAX_LOCATION_LENGTH) {
+                return { ok: false, error: `Keep the location under ${MAX_LOCATION_LENGTH} characters` }
+            }
+            return { ok: true, value: text.replace(/\s+/g, ' ') }
+        }
+    }
+}
+
+/**
+ * Text the edit box starts with
+ */
+export function formatFieldInput(field: EditableListingField, value: EditableFieldValue | null | undefined): string {
+    if (value === null || value === undefined) return ''
+    if (typeof value === 'number') return value > 0 ? String(value) : ''
+    return field === 'configuration' ? value.trim() : value
+}
+
+/**
+ * Value as the undo message shows it
+ */
+export function describeFieldValue(field: EditableListingField, value: EditableFieldValue | null | undefined): string {
+    if (value === null || value === undefined || value === '' || value === 0) return 'empty'
+    if (field === 'price' && typeof value === 'number') return `₹${value.toLocaleString('en-IN')}`
+    if (field === 'size_sqft' && typeof value === 'number') return `${value.toLocaleString('en-IN')} sq.ft`
+    return String(value)
+}
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchCREAListings } from '@/lib/api/crea-listings'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+import { changedFields, findListingsForReextraction, lowRiskUnappliedFields } from './reextraction'
+
+vi.mock('@/lib/api/crea-listings', () => ({
+    fetchCREAListings: vi.fn(),
+    searchCREAListingsCombined: vi.fn(),
+}))
+
+const fetchMock = vi.mocked(fetchCREAListings)
+
+function listings(count: number, price: number | null): CREAListing[] {
+    return Array.from({ length: count }, (_, i) => ({ id: `l${i}`, price }) as unknown as CREAListing)
+}
+
+describe('findListingsForReextraction', () => {
+    const criteria = { missing: ['price' as const], location: '', agent: '' }
+
+    beforeEach(() => {
+        fetchMock.mockReset()
+    })
+
+    it('collects matches until the last page', async () => {
+        fetchMock
+            .mockResolvedValueOnce({ listings: listings(100, null), total: 150, sort: null, error: null })
+            .mockResolvedValueOnce({ listings: listings(50, 1000), total: 150, sort: null, error: null })
+
+        const result = await findListingsForReextraction(criteria)
+        expect(result).toMatchObject({ scanned: 150, isCapped: false })
+        expect(result.listings).toHaveLength(100)
+    })
+
+    it('throws when a page fails instead of treating it as the last page', async () => {
+        fetchMock
+            .mockResolvedValueOnce({ listings: listings(100, null), total: 300, sort: null, error: null })
+            .mockResolvedValueOnce({ listings: [], total: 0, sort: null, error: 'Request timed out' })
+
+        await expect(findListingsForReextraction(criteria)).rejects.toThrow(/after 100 listings: Request timed out/)
+    })
+})
+
+describe('changedFields', () => {
+    it('rates each change and skips bookkeeping fields and empty-to-empty changes', () => {
+        const changes = changedFields({
+            success: true,
+            listing_id: 'l1',
+            status: 'preview',
+            old_result: {},
+            new_result: {},
+            message: '',
+            changes: {
+                price: { old: null, new: 8500000, changed: true },
+                location: { old: 'HSR', new: 'HSR Layout', changed: true },
+                furnishing_status: { old: 'Furnished', new: null, changed: true },
+                bedrooms: { old: 3, new: 3, changed: false },
+                created_at: { old: null, new: '2025-01-01', changed: true },
+                price_text: { old: null, new: '', changed: true },
+                size_sqft: { old: null, new: 0, changed: true },
+            },
+        })
+        expect(changes.map(change => [change.field, change.risk])).toEqual([
+            ['price', 'fill'],
+            ['location', 'change'],
+            ['furnishing_status', 'clear'],
+        ])
+    })
+})
+
+describe('lowRiskUnappliedFields', () => {
+    it('only offers fields that fill a gap with a value', () => {
+        const changes = changedFields({
+            success: true,
+            listing_id: 'l1',
+            status: 'preview',
+            old_result: {},
+            new_result: {},
+            message: '',
+            changes: {
+                price: { old: null, new: 8500000, changed: true },
+                configuration: { old: null, new: '', changed: true },
+                location: { old: 'HSR', new: 'HSR Layout', changed: true },
+            },
+        })
+        const item = { listing: {} as CREAListing, status: 'ready' as const, changes, decisions: {}, applied: [], isApplying: false }
+        expect(lowRiskUnappliedFields(item).map(change => change.field)).toEqual(['price'])
+    })
+})
@@ -0,0 +1,258 @@
+/**
+ * Re-extraction Queue
+ * ===================
+ *
+ * Types and helpers for the re-extraction queue page: which listings to
+ * pick (e.g. every listing with no price), the diff a re-extraction preview
+ * produces, and how risky each changed field is to apply.
+ *
+ * Risk of applying a field:
+ * - fill:   the listing had no value - nothing the extraction got right is lost
+ * - change: replaces a value the listing already has
+ * - clear:  removes a value the listing already has
+ * Only "fill" fields are applied in bulk; the rest need a decision.
+ */
+
+import { fetchCREAListings, searchCREAListingsCombined } from '@/lib/api/crea-listings'
+import { CREAListing } from '@/lib/services/crea-listings.service'
+import { HttpClient } from '@/lib/services/http-client'
+
+// ============================================================================
+// Picking listings
+// ============================================================================
+
+export type MissingField = 'price' | 'location' | 'size_sqft' | 'configuration'
+
+export const MISSING_FIELD_LABELS: Record<MissingField, string> = {
+    price: 'Price',
+    location: 'Location',
+    size_sqft: 'Size',
+    configuration: 'Configuration',
+}
+
+export interface ReextractionCriteria {
+    /** Listings missing any of these (none = no gap filter) */
+    missing: MissingField[]
+    location: string
+    agent: string
+}
+
+// Most listings one search looks through, and most it adds to the queue
+export const MAX_SCAN_LISTINGS = 2000
+export const MAX_QUEUE_LISTINGS = 200
+const SCAN_PAGE_SIZE = 100
+
+export function isMissing(listing: CREAListing, field: MissingField): boolean {
+    switch (field) {
+        case 'price': return !listing.price
+        case 'location': return !listing.location?.trim()
+        case 'size_sqft': return !listing.size_sqft
+        case 'configuration': return !listing.configuration?.trim()
+    }
+}
+
+/**
+ * Listings matching the criteria, page by page
+ *
+ * The backend filters by location/agent; gaps are checked here, so the scan
+ * stops at MAX_SCAN_LISTINGS or once MAX_QUEUE_LISTINGS match. A page that
+ * fails to load throws - the listings found before it aren't a full result.
+ *
+ * @param onProgress - Listings looked at so far
+ */
+export async function findListingsForReextraction(
+    criteria: ReextractionCriteria,
+    onProgress?: (scanned: number) => void
+): Promise<{ listings: CREAListing[]; scanned: number; isCapped: boolean }> {
+    const location = criteria.location.trim()
+    const agent = criteria.agent.trim()
+    const matches = (listing: CREAListing) =>
+        criteria.missing.length === 0 || criteria.missing.some(field => isMissing(listing, field))
+
+    const found: CREAListing[] = []
+    let scanned = 0
+
+    while (scanned < MAX_SCAN_LISTINGS && found.length < MAX_QUEUE_LISTINGS) {
+        const page = location || agent
+            ? await searchCREAListingsCombined({
+                location: location || undefined,
+                agent_name: agent || undefined,
+                limit: SCAN_PAGE_SIZE,
+                offset: scanned,
+            })
+            : await fetchCREAListings(SCAN_PAGE_SIZE, scanned)
+        if (page.error) {
+            throw new Error(`Search failed after ${scanned.toLocaleString('en-IN')} listings: ${page.error}`)
+        }
+
+        scanned += page.listings.length
+        found.push(...page.listings.filter(matches))
+        onProgress?.(scanned)
+
+        const isLastPage = page.listings.length < SCAN_PAGE_SIZE || (page.total !== null && scanned >= page.total)
+        if (isLastPage) {
+            return { listings: found.slice(0, MAX_QUEUE_LISTINGS), scanned, isCapped: found.length > MAX_QUEUE_LISTINGS }
+        }
+    }
+
+    return { listings: found.slice(0, MAX_QUEUE_LISTINGS), scanned, isCapped: true }
+}
+
+// ============================================================================
+// Previews and field changes
+// ============================================================================
+
+/**
+ * POST /api/whatsapp-raw/retry-listing/{id} - the same preview RetryListingDialog shows
+ */
+export interface ReextractionPreview {
+    success: boolean
+    listing_id: string
+    status: string
+    old_result: Record<string, any>
+    new_result: Record<string, any>
+    changes: {
+        [key: string]: {
+            old: any
+            new: any
+            changed: boolean
+        }
+    }
+    message: string
+}
+
+// LLM re-extraction can be slow - allow longer than the default timeout
+const PREVIEW_TIMEOUT_MS = 120000
+
+interface ApplyResponse {
+    success: boolean
+    status: string
+    message: string
+}
+
+/**
+ * Re-extract a listing with the LLM - a preview, nothing is saved
+ *
+ * @throws When the backend couldn't re-extract it
+ */
+export async function previewReextraction(listingId: string): Promise<ReextractionPreview> {
+    const preview = await HttpClient.post<ReextractionPreview>(
+        `/api/whatsapp-raw/retry-listing/${listingId}`,
+        undefined,
+        { timeoutMs: PREVIEW_TIMEOUT_MS }
+    )
+    if (!preview.success) throw new Error(preview.message || 'Failed to generate preview')
+    return preview
+}
+
+/**
+ * Save the new values of the given fields
+ * (PATCH /api/whatsapp-raw/listings/{id} with just those fields)
+ */
+export async function applyReextractionFields(listingId: string, fields: FieldChange[]): Promise<void> {
+    const result = await HttpClient.patch<ApplyResponse>(
+        `/api/whatsapp-raw/listings/${listingId}`,
+        Object.fromEntries(fields.map(change => [change.field, change.new]))
+    )
+    if (!result.success || result.status !== 'updated') {
+        throw new Error(result.message || 'Failed to update listing')
+    }
+}
+
+export type FieldRisk = 'fill' | 'change' | 'clear'
+
+export const FIELD_RISK_LABELS: Record<FieldRisk, string> = {
+    fill: 'Fills a gap',
+    change: 'Changes value',
+    clear: 'Clears value',
+}
+
+export type FieldDecision = 'accept' | 'reject'
+
+export interface FieldChange {
+    field: string
+    old: any
+    new: any
+    risk: FieldRisk
+}
+
+export type QueueItemStatus = 'queued' | 'running' | 'ready' | 'failed'
+
+export interface QueueItem {
+    listing: CREAListing
+    status: QueueItemStatus
+    /** Changed fields from the preview (set once ready) */
+    changes: FieldChange[]
+    /** Why the preview failed */
+    error?: string
+    decisions: Record<string, FieldDecision>
+    /** Fields already saved */
+    applied: string[]
+    isApplying: boolean
+    applyError?: string
+}
+
+// Bookkeeping fields a re-extraction may differ in but nobody reviews
+const IGNORED_FIELDS = new Set(['id', 'source_message_id', 'created_at', 'llm_json', 'raw_message'])
+
+export function isEmptyValue(value: unknown): boolean {
+    return value === null || value === undefined || value === '' || value === 0 ||
+        (Array.isArray(value) && value.length === 0)
+}
+
+export function fieldRisk(oldValue: unknown, newValue: unknown): FieldRisk {
+    if (isEmptyValue(oldValue)) return 'fill'
+    return isEmptyValue(newValue) ? 'clear' : 'change'
+}
+
+/**
+ * Reviewable field changes in a preview
+ * Empty to empty (null -> '', null -> 0) changes nothing and isn't listed
+ */
+export function changedFields(preview: ReextractionPreview): FieldChange[] {
+    return Object.entries(preview.changes || {})
+        .filter(([field, change]) => change.changed && !IGNORED_FIELDS.has(field))
+        .filter(([, change]) => !(isEmptyValue(change.old) && isEmptyValue(change.new)))
+        .map(([field, change]) => ({
+            field,
+            old: change.old,
+            new: change.new,
+            risk: fieldRisk(change.old, change.new),
+        }))
+}
+
+/**
+ * Fields the user accepted that aren't saved yet
+ */
+export function acceptedUnappliedFields(item: QueueItem): FieldChange[] {
+    return item.changes.filter(change =>
+        item.decisions[change.field] === 'accept' && !item.applied.includes(change.field)
+    )
+}
+
+/**
+ * Low-risk fields not rejected or saved yet
+ */
+export function lowRiskUnappliedFields(item: QueueItem): FieldChange[] {
+    return item.changes.filter(change =>
+        change.risk === 'fill' &&
+        item.decisions[change.field] !== 'reject' &&
+        !item.applied.includes(change.field)
+    )
+}
+
+/**
+ * Field name as a column label, e.g. "area_sqft" -> "Area sqft"
+ */
+export function formatFieldName(field: string): string {
+    const words = field.replace(/_/g, ' ')
+    return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function formatChangeValue(value: any): string {
+    if (value === null || value === undefined || value === '') return '—'
+    if (typeof value === 'boolean') return value ? 'true' : 'false'
+    if (Array.isArray(value)) return value.length ? value.join(', ') : '—'
+    if (typeof value === 'number') return value.toLocaleString('en-IN')
+    return String(value)
+}
@@ -6,124 +6,182 @@
  * This function is separated from the component for better organization.
  */
 
-import { CREAListingsService, CREAListing } from '@/lib/services/crea-listings.service'
+import {
+    CREAListingsService,
+    CREAListing,
+    CREAListingsResponse,
+    CREASortParams,
+} from '@/lib/services/crea-listings.service'
+
+/**
+ * One page of listings
+ * total is the number of matching listings across all pages, or null when
+ * the backend doesn't report it; sort is the sort the backend applied (null
+ * when it didn't sort)
+ *
+ * A failed request still resolves to an empty page, with error set - a
+ * caller reading page after page must check it, or a failure looks like
+ * the last page.
+ */
+export interface CREAListingsPage {
+    listings: CREAListing[]
+    total: number | null
+    sort: Required<CREASortParams> | null
+    error: string | null
+}
+
+const EMPTY_PAGE: CREAListingsPage = { listings: [], total: 0, sort: null, error: null }
+
+function failedPage(error: any): CREAListingsPage {
+    return { ...EMPTY_PAGE, error: error?.message || 'Failed to load listings' }
+}
+
+function toPage(response: CREAListingsResponse): CREAListingsPage {
+    const { sort_by, sort_order = 'asc' } = response
+    return {
+        listings: response.data,
+        total: response.total ?? null,
+        sort: sort_by ? { sort_by, sort_order } : null,
+        error: null,
+    }
+}
 
 /**
  * Fetch CREA listings
  */
-export async function fetchCREAListings(limit: number = 100, offset: number = 0): Promise<CREAListing[]> {
-    console.log('🚀 fetchCREAListings called with:', { limit, offset })
+export async function fetchCREAListings(limit: number = 100, offset: number = 0, sort: CREASortParams = {}): Promise<CREAListingsPage> {
+    console.log('🚀 fetchCREAListings called with:', { limit, offset, ...sort })
 
     try {
 
-        const response = await CREAListingsService.getListings({ limit, offset })
+        const response = await CREAListingsService.getListings({ limit, offset, ...sort })
 
         console.log('✅ CREA listings fetch completed, results count:', response.data.length)
 
-        return response.data
+        return toPage(response)
     } catch (error: any) {
         console.error('❌ Error fetching CREA listings:', error.message)
-        // Return empty array on error - component will show "No listings found"
-        return []
+        // Return an empty page on error - component will show "No listings found"
+        return failedPage(error)
     }
 }
 
 /**
  * Search CREA listings by raw message
  */
-export async function searchCREAListings(query: string, limit: number = 100): Promise<CREAListing[]> {
-    console.log('🚀 searchCREAListings called with:', { query, limit })
+export async function searchCREAListings(
+    query: string,
+    limit: number = 100,
+    offset: number = 0,
+    sort: CREASortParams = {}
+): Promise<CREAListingsPage> {
+    console.log('🚀 searchCREAListings called with:', { query, limit, offset, ...sort })
 
     if (!query || query.trim().length === 0) {
-        return []
+        return EMPTY_PAGE
     }
 
     try {
-        const response = await CREAListingsService.searchMessages({ query: query.trim(), limit })
+        const response = await CREAListingsService.searchMessages({ query: query.trim(), limit, offset, ...sort })
 
         console.log('✅ CREA search completed, results count:', response.data.length)
 
-        return response.data
+        return toPage(response)
     } catch (error: any) {
         console.error('❌ Error searching CREA listings:', error.message)
-        // Return empty array on error - component will show "No listings found"
-        return []
+        // Return an empty page on error - component will show "No listings found"
+        return failedPage(error)
     }
 }
 
 /**
  * Search CREA listings by location
  */
-export async function searchCREAListingsByLocation(location: string, limit: number = 100): Promise<CREAListing[]> {
-    console.log('🚀 searchCREAListingsByLocation called with:', { location, limit })
+export async function searchCREAListingsByLocation(
+    location: string,
+    limit: number = 100,
+    offset: number = 0,
+    sort: CREASortParams = {}
+): Promise<CREAListingsPage> {
+    console.log('🚀 searchCREAListingsByLocation called with:', { location, limit, offset, ...sort })
 
     if (!location || location.trim().length === 0) {
-        return []
+        return EMPTY_PAGE
     }
 
     try {
-        const response = await CREAListingsService.searchByLocation({ location: location.trim(), limit })
+        const response = await CREAListingsService.searchByLocation({ location: location.trim(), limit, offset, ...sort })
 
         console.log('✅ CREA location search completed, results count:', response.data.length)
 
-        return response.data
+        return toPage(response)
     } catch (error: any) {
         console.error('❌ Error searching CREA listings by location:', error.message)
-        // Return empty array on error - component will show "No listings found"
-        return []
+        // Return an empty page on error - component will show "No listings found"
+        return failedPage(error)
     }
 }
 
 /**
  * Search CREA listings by agent name
  */
-export async function searchCREAListingsByAgent(agentName: string, limit: number = 100): Promise<CREAListing[]> {
-    console.log('🚀 searchCREAListingsByAgent called with:', { agentName, limit })
+export async function searchCREAListingsByAgent(
+    agentName: string,
+    limit: number = 100,
+    offset: number = 0,
+    sort: CREASortParams = {}
+): Promise<CREAListingsPage> {
+    console.log('🚀 searchCREAListingsByAgent called with:', { agentName, limit, offset, ...sort })
 
     if (!agentName || agentName.trim().length === 0) {
-        return []
+        return EMPTY_PAGE
     }
 
     try {
-        const response = await CREAListingsService.searchByAgent({ agent_name: agentName.trim(), limit })
+        const response = await CREAListingsService.searchByAgent({ agent_name: agentName.trim(), limit, offset, ...sort })
 
         console.log('✅ CREA agent search completed, results count:', response.data.length)
 
-        return response.data
+        return toPage(response)
     } catch (error: any) {
         console.error('❌ Error searching CREA listings by agent:', error.message)
-        // Return empty array on error - component will show "No listings found"
-        return []
+        // Return an empty page on error - component will show "No listings found"
+        return failedPage(error)
     }
 }
 
 /**
  * Search CREA listings by property query
  */
-export async function searchCREAListingsByProperty(propertyQuery: string, limit: number = 100): Promise<CREAListing[]> {
-    console.log('🚀 searchCREAListingsByProperty called with:', { propertyQuery, limit })
+export async function searchCREAListingsByProperty(
+    propertyQuery: string,
+    limit: number = 100,
+    offset: number = 0,
+    sort: CREASortParams = {}
+): Promise<CREAListingsPage> {
+    console.log('🚀 searchCREAListingsByProperty called with:', { propertyQuery, limit, offset, ...sort })
 
     if (!propertyQuery || propertyQuery.trim().length === 0) {
-        return []
+        return EMPTY_PAGE
     }
 
     try {
-        const response = await CREAListingsService.searchByProperty({ property_query: propertyQuery.trim(), limit })
+        const response = await CREAListingsService.searchByProperty({ property_query: propertyQuery.trim(), limit, offset, ...sort })
 
         console.log('✅ CREA property search completed, results count:', response.data.length)
 
-        return response.data
+        return toPage(response)
     } catch (error: any) {
         console.error('❌ Error searching CREA listings by property:', error.message)
-        // Return empty array on error - component will show "No listings found"
-        return []
+        // Return an empty page on error - component will show "No listings found"
+        return failedPage(error)
     }
 }
 
 /**
  * Combined search CREA listings with agent, property, and location filters
  */
-export async function searchCREAListingsCombined(filters: {
+export async function searchCREAListingsCombined(filters: CREASortParams & {
     agent_name?: string
     property_query?: string
     property_type?: string
@@ -133,8 +191,9 @@ export async function searchCREAListingsCombined(filters: {
     min_price?: number
     max_price?: number
     limit?: number
+    offset?: number
     exactMatch?: boolean
-}): Promise<CREAListing[]> {
+}): Promise<CREAListingsPage> {
     console.log('🚀 searchCREAListingsCombined called with:', filters)
 
     try {
@@ -142,9 +201,9 @@ export async function searchCREAListingsCombined(filters: {
 
         console.log('✅ CREA combined search completed, results count:', response.data.length)
 
-        return response.data
+        return toPage(response)
     } catch (error: any) {
         console.error('❌ Error in combined CREA listings search:', error.message)
-        return []
+        return failedPage(error)
     }
 }
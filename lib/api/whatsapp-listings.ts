@@ -7,8 +7,8 @@
  * Requests go through Next.js proxy to avoid CORS issues.
  */
 
-// Use relative URL to go through Next.js proxy (configured in next.config.js)
-const API_BASE_URL = ''
+import { HttpClient, ServiceCallOptions } from '@/lib/services/http-client'
+import { validateResponse, LISTING_RESPONSE_SCHEMA } from '@/lib/validation'
 
 export interface WhatsAppListing {
     id: string
@@ -193,38 +193,26 @@ export async function searchWhatsAppListingsByMessage(
     limit: number = 100,
     offset: number = 0,
     property_type?: string,
-    message_type?: string
+    message_type?: string,
+    options: ServiceCallOptions = {}
 ): Promise<ListingResponse> {
     console.log('🚀 searchWhatsAppListingsByMessage called with:', { query, limit, offset, property_type, message_type })
 
     try {
-        const queryParams = new URLSearchParams({
-            query: query.trim(),
-            limit: limit.toString(),
-            offset: offset.toString(),
-        })
-
-        // Add optional filters if provided
-        if (property_type && property_type.trim()) {
-            queryParams.append('property_type', property_type.trim())
-        }
-        if (message_type && message_type.trim()) {
-            queryParams.append('message_type', message_type.trim())
-        }
-
-        const response = await fetch(`${API_BASE_URL}/api/whatsapp-listings/search/message?${queryParams.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
+        // Goes through the Next.js proxy in the browser (see HttpClient.baseUrlFor)
+        const endpoint = '/api/whatsapp-listings/search/message'
+        const data = await HttpClient.get<unknown>(endpoint, {
+            ...options,
+            query: {
+                query: query.trim(),
+                limit,
+                offset,
+                // Add optional filters if provided
+                property_type: property_type?.trim() || undefined,
+                message_type: message_type?.trim() || undefined,
             },
         })
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || errorData.message || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json() as ListingResponse
+        const result = validateResponse<ListingResponse>(LISTING_RESPONSE_SCHEMA, data, endpoint)
         console.log('✅ Listing search completed, results count:', result.total_count || 0)
         console.log('  - WhatsApp listings:', result.counts?.whatsapp || 0)
         console.log('  - RB Properties:', result.counts?.properties || 0)
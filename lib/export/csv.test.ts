@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv } from './csv'
+
+const BOM = '﻿'
+
+describe('toCsv', () => {
+    it('quotes cells with commas, quotes and line breaks', () => {
+        const csv = toCsv({ headers: ['Title', 'Notes'], rows: [['Villa, Whitefield', 'Says "new"\nCall']] })
+        expect(csv).toBe(`${BOM}Title,Notes\r\n"Villa, Whitefield","Says ""new""\nCall"\r\n`)
+    })
+
+    it.each([
+        ['=HYPERLINK("http://x","y")', `"'=HYPERLINK(""http://x"",""y"")"`],
+        ['+91 98450 12345', "'+91 98450 12345"],
+        ['-2+3', "'-2+3"],
+        ['@SUM(A1)', "'@SUM(A1)"],
+        ['\tcmd', "'\tcmd"],
+        ['\rcmd', `"'\rcmd"`],
+    ])('escapes formula text %j', (text, cell) => {
+        expect(toCsv({ headers: ['A'], rows: [[text]] })).toBe(`${BOM}A\r\n${cell}\r\n`)
+    })
+
+    it('leaves numbers and empty cells alone', () => {
+        expect(toCsv({ headers: ['A', 'B'], rows: [[-5000, null]] })).toBe(`${BOM}A,B\r\n-5000,\r\n`)
+    })
+})
@@ -0,0 +1,34 @@
+/**
+ * CSV Export
+ * ==========
+ *
+ * RFC 4180 CSV. Starts with a UTF-8 BOM so Excel shows "₹" correctly.
+ */
+
+import { ExportCell, ExportTable } from './table'
+
+const BOM = '﻿'
+
+/**
+ * Text a spreadsheet would run as a formula (=, +, -, @, tab, CR), with a
+ * leading ' so it shows as plain text. Scraped listing text ends up in
+ * these cells, so "=HYPERLINK(...)" must not become a live formula.
+ */
+function escapeFormula(text: string): string {
+    return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+}
+
+function csvCell(value: ExportCell): string {
+    if (value === null) return ''
+    const text = typeof value === 'string' ? escapeFormula(value) : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(table: ExportTable): string {
+    const lines = [table.headers, ...table.rows].map(row => row.map(csvCell).join(','))
+    return BOM + lines.join('\r\n') + '\r\n'
+}
+
+export function toCsvBlob(table: ExportTable): Blob {
+    return new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' })
+}
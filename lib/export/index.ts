@@ -0,0 +1,8 @@
+/**
+ * Export - client-side CSV, XLSX and printable reports from plain tables
+ */
+
+export * from './table'
+export * from './csv'
+export * from './xlsx'
+export * from './print'
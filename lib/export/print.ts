@@ -0,0 +1,88 @@
+/**
+ * Printable Reports
+ * =================
+ *
+ * Opens a print-styled HTML report in a new window and starts the browser's
+ * print dialog, where "Save as PDF" produces the PDF. The browser renders
+ * the fonts, so "₹" and non-Latin text come out right without embedding
+ * fonts ourselves.
+ */
+
+import { ExportCell, ExportTable } from './table'
+
+export interface PrintSection {
+    heading: string
+    table: ExportTable
+}
+
+export interface PrintReport {
+    title: string
+    /** Lines under the title (query, sources, filters applied...) */
+    summary?: string[]
+    sections: PrintSection[]
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+function cellHtml(value: ExportCell): string {
+    if (value === null || value === '') return '<td class="empty">-</td>'
+    if (typeof value === 'number') return `<td class="num">${value.toLocaleString('en-IN')}</td>`
+    // Links stay clickable in the PDF
+    if (/^https?:\/\//.test(value)) return `<td class="url"><a href="${escapeHtml(value)}">${escapeHtml(value)}</a></td>`
+    return `<td>${escapeHtml(value)}</td>`
+}
+
+function sectionHtml(section: PrintSection): string {
+    const head = section.table.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')
+    const rows = section.table.rows.map(row => `<tr>${row.map(cellHtml).join('')}</tr>`).join('')
+    return `<h2>${escapeHtml(section.heading)} <span>(${section.table.rows.length})</span></h2>` +
+        `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`
+}
+
+const REPORT_CSS = `
+    @page { size: A4 landscape; margin: 12mm; }
+    body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; font-size: 9pt; color: #111827; }
+    h1 { font-size: 16pt; margin: 0 0 4px; }
+    h2 { font-size: 11pt; margin: 18px 0 6px; }
+    h2 span { color: #6b7280; font-weight: normal; }
+    .summary { color: #4b5563; margin: 0 0 2px; }
+    table { width: 100%; border-collapse: collapse; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
+    th, td { border: 1px solid #e5e7eb; padding: 3px 5px; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    td.num { text-align: right; white-space: nowrap; }
+    td.empty { color: #9ca3af; }
+    td.url { word-break: break-all; max-width: 180px; }
+    a { color: #4f46e5; }
+`
+
+/**
+ * Open the report and print it
+ *
+ * @returns false when the window couldn't be opened (popup blocked)
+ */
+export function printReport(report: PrintReport): boolean {
+    const win = window.open('', '_blank')
+    if (!win) return false
+
+    const summary = (report.summary ?? []).map(line => `<p class="summary">${escapeHtml(line)}</p>`).join('')
+    win.document.write(
+        '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+        `<title>${escapeHtml(report.title)}</title><style>${REPORT_CSS}</style></head><body>` +
+        `<h1>${escapeHtml(report.title)}</h1>${summary}` +
+        report.sections.map(sectionHtml).join('') +
+        '</body></html>'
+    )
+    win.document.close()
+    win.focus()
+    // Let the new document lay out before opening the dialog
+    win.setTimeout(() => win.print(), 100)
+    return true
+}
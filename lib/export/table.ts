@@ -0,0 +1,57 @@
+/**
+ * Export Tables
+ * =============
+ *
+ * The format-neutral shape every exporter writes: a header row plus rows of
+ * plain cells. Callers describe their columns once and get CSV, XLSX and
+ * printable output from the same table.
+ */
+
+/**
+ * One cell - numbers stay numbers so spreadsheets can sort and sum them
+ */
+export type ExportCell = string | number | null
+
+export interface ExportColumn<T> {
+    header: string
+    value: (row: T) => ExportCell
+}
+
+export interface ExportTable {
+    headers: string[]
+    rows: ExportCell[][]
+}
+
+/**
+ * Build a table from records and column definitions
+ */
+export function toExportTable<T>(records: T[], columns: ExportColumn<T>[]): ExportTable {
+    return {
+        headers: columns.map(column => column.header),
+        rows: records.map(record => columns.map(column => column.value(record))),
+    }
+}
+
+/**
+ * File name with today's date, e.g. "listing-2025-11-20.csv"
+ */
+export function exportFileName(base: string, extension: string): string {
+    const date = new Date().toISOString().slice(0, 10)
+    const slug = base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export'
+    return `${slug}-${date}.${extension}`
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = fileName
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    // Revoke after the click has been handled
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+}
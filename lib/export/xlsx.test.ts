@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { toXlsxBlob } from './xlsx'
+
+// The zip is stored uncompressed, so the sheet XML can be read straight out of it
+async function xlsxText(blob: Blob): Promise<string> {
+    return new TextDecoder().decode(await blob.arrayBuffer())
+}
+
+describe('toXlsxBlob', () => {
+    it('writes text cells as they are - inline strings are never formulas', async () => {
+        const text = await xlsxText(toXlsxBlob({ headers: ['Notes'], rows: [['- Spacious flat'], ['=HYPERLINK("x")']] }))
+        expect(text).toContain('<t xml:space="preserve">- Spacious flat</t>')
+        expect(text).toContain('<t xml:space="preserve">=HYPERLINK(&quot;x&quot;)</t>')
+        expect(text).not.toContain("'- Spacious")
+    })
+
+    it('writes numbers as numbers', async () => {
+        const text = await xlsxText(toXlsxBlob({ headers: ['Price'], rows: [[-5000]] }))
+        expect(text).toContain('<c r="A2"><v>-5000</v></c>')
+    })
+})
@@ -0,0 +1,182 @@
+/**
+ * XLSX Export
+ * ===========
+ *
+ * Writes a single-sheet .xlsx without a spreadsheet library: the workbook
+ * parts are small SpreadsheetML files, packed into an uncompressed
+ * ("stored") zip. Strings are written inline, numbers as numbers, and the
+ * header row is bold and frozen.
+ */
+
+import { ExportCell, ExportTable } from './table'
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+/** Excel's limit on sheet name length */
+const MAX_SHEET_NAME = 31
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Control characters aren't allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+/**
+ * Column letters for a 0-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+    let name = ''
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+    }
+    return name
+}
+
+function cellXml(value: ExportCell, ref: string, style: number): string {
+    const styleAttr = style ? ` s="${style}"` : ''
+    if (value === null || value === '') return ''
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`
+    }
+    // Inline strings are never evaluated as formulas - text is written as is
+    return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+}
+
+function sheetXml(table: ExportTable): string {
+    const rows = [table.headers, ...table.rows].map((row, rowIndex) => {
+        const cells = row.map((value, columnIndex) =>
+            cellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0 ? 1 : 0)
+        ).join('')
+        return `<row r="${rowIndex + 1}">${cells}</row>`
+    }).join('')
+
+    return XML_HEADER +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${rows}</sheetData>` +
+        '</worksheet>'
+}
+
+function workbookParts(table: ExportTable, sheetName: string): Record<string, string> {
+    const name = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, MAX_SHEET_NAME) || 'Sheet1')
+
+    return {
+        '[Content_Types].xml': XML_HEADER +
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+            '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+            '</Types>',
+        '_rels/.rels': XML_HEADER +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+            '</Relationships>',
+        'xl/workbook.xml': XML_HEADER +
+            '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+            `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+            '</workbook>',
+        'xl/_rels/workbook.xml.rels': XML_HEADER +
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+            '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+            '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+            '</Relationships>',
+        // Style 0: default, style 1: bold (header row)
+        'xl/styles.xml': XML_HEADER +
+            '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+            '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+            '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+            '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+            '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+            '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+            '</styleSheet>',
+        'xl/worksheets/sheet1.xml': sheetXml(table),
+    }
+}
+
+// ============================================================================
+// Stored zip
+// ============================================================================
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256)
+        for (let n = 0; n < 256; n++) {
+            let c = n
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+            crcTable[n] = c >>> 0
+        }
+    }
+    let crc = 0xFFFFFFFF
+    for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8)
+    return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+/**
+ * Zip archive with every file stored uncompressed
+ */
+function zipStored(files: Record<string, string>): Uint8Array {
+    const encoder = new TextEncoder()
+    const chunks: Uint8Array[] = []
+    const central: Uint8Array[] = []
+    let offset = 0
+
+    for (const [path, content] of Object.entries(files)) {
+        const name = encoder.encode(path)
+        const data = encoder.encode(content)
+        const crc = crc32(data)
+
+        const local = new DataView(new ArrayBuffer(30))
+        local.setUint32(0, 0x04034B50, true) // local file header
+        local.setUint16(4, 20, true) // version needed
+        local.setUint16(8, 0, true) // method: stored
+        local.setUint32(14, crc, true)
+        local.setUint32(18, data.length, true)
+        local.setUint32(22, data.length, true)
+        local.setUint16(26, name.length, true)
+        chunks.push(new Uint8Array(local.buffer), name, data)
+
+        const entry = new DataView(new ArrayBuffer(46))
+        entry.setUint32(0, 0x02014B50, true) // central directory header
+        entry.setUint16(4, 20, true) // version made by
+        entry.setUint16(6, 20, true) // version needed
+        entry.setUint32(16, crc, true)
+        entry.setUint32(20, data.length, true)
+        entry.setUint32(24, data.length, true)
+        entry.setUint16(28, name.length, true)
+        entry.setUint32(42, offset, true)
+        central.push(new Uint8Array(entry.buffer), name)
+
+        offset += 30 + name.length + data.length
+    }
+
+    const centralSize = central.reduce((size, chunk) => size + chunk.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, 0x06054B50, true) // end of central directory
+    end.setUint16(8, central.length / 2, true)
+    end.setUint16(10, central.length / 2, true)
+    end.setUint32(12, centralSize, true)
+    end.setUint32(16, offset, true)
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)]
+    const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+    let position = 0
+    for (const part of parts) {
+        zip.set(part, position)
+        position += part.length
+    }
+    return zip
+}
+
+export function toXlsxBlob(table: ExportTable, sheetName: string = 'Sheet1'): Blob {
+    return new Blob([zipStored(workbookParts(table, sheetName)) as BlobPart], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    })
+}
@@ -0,0 +1,602 @@
+/**
+ * Listing Adapters
+ * ================
+ *
+ * Convert every source record type into the canonical Listing model (and
+ * back to CREAListing for the legacy table/card components).
+ *
+ * Adapters never invent values: a field the source doesn't have is null,
+ * and the original record is always kept in provenance.raw.
+ */
+
+import type { CREAListing } from '@/lib/services/crea-listings.service'
+import type { WhatsAppListing, RBProperty } from '@/lib/api/whatsapp-listings'
+import type {
+    SquareYardsProperty,
+    MagicBricksProperty,
+    PortalPropertyBase,
+    NinetyNineAcresProperty,
+    HousingProperty,
+    NoBrokerProperty,
+    CommonFloorProperty,
+    ScrapedProperty,
+} from '@/lib/services/property-scrape.service'
+import type { SerpProperty } from '@/lib/services/serp-property-search.service'
+import type { TavilyProperty } from '@/lib/services/tavily-property-search.service'
+import { parsePrice, parseArea } from '@/lib/parsing'
+import type {
+    Listing,
+    ListingAgent,
+    ListingProvenance,
+    ListingRelevance,
+    ListingSource,
+    TransactionType,
+} from './listing.types'
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const EMPTY_AGENT: ListingAgent = {
+    name: null,
+    contact: null,
+    company: null,
+    email: null,
+    rating: null,
+    profileUrl: null,
+}
+
+/**
+ * Empty strings and whitespace become null
+ */
+function text(value: string | null | undefined): string | null {
+    if (value === null || value === undefined) return null
+    const trimmed = value.trim()
+    return trimmed ? trimmed : null
+}
+
+/**
+ * Zero and negative values from sources that use 0 for "unknown" become null
+ */
+function positive(value: number | null | undefined): number | null {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * First number in a string ("5 BHK + 5 Bath" → 5, "2,375 sqft" → 2375)
+ */
+function firstNumber(value: string | null | undefined): number | null {
+    const match = value?.replace(/,/g, '').match(/\d+(?:\.\d+)?/)
+    return match ? positive(parseFloat(match[0])) : null
+}
+
+/**
+ * Map source wording ("Sale", "supply_rent", "for Lease") to a transaction type
+ */
+function transactionFrom(...values: Array<string | null | undefined>): TransactionType | null {
+    for (const value of values) {
+        if (!value) continue
+        if (/rent|lease/i.test(value)) return 'rent'
+        if (/sale|sell|buy/i.test(value)) return 'sale'
+    }
+    return null
+}
+
+/**
+ * Price, range and (when the text says) transaction type from a price string
+ * Per-sqft rates aren't a listing price - they stay in priceText only
+ */
+function applyPriceText(listing: Listing, value: string | null | undefined): void {
+    const parsed = parsePrice(value)
+    listing.priceText = text(value)
+    if (!parsed || parsed.perSqft) return
+
+    listing.price = parsed.amount
+    listing.priceMax = parsed.max
+    listing.transactionType = parsed.transaction
+}
+
+function hostnameOf(url: string | null | undefined): string | null {
+    if (!url) return null
+    try {
+        return new URL(url).hostname.replace(/^www\./, '')
+    } catch {
+        return null
+    }
+}
+
+function relevanceOf(property: {
+    relevance_score?: number
+    relevance_reason?: string
+    matches?: string[]
+    mismatches?: string[]
+}): ListingRelevance | null {
+    if (
+        property.relevance_score === undefined &&
+        property.relevance_reason === undefined &&
+        !property.matches?.length &&
+        !property.mismatches?.length
+    ) {
+        return null
+    }
+
+    return {
+        score: property.relevance_score ?? null,
+        reason: text(property.relevance_reason),
+        matches: property.matches ?? [],
+        mismatches: property.mismatches ?? [],
+    }
+}
+
+/**
+ * Split a comma-separated amenities string into a list
+ */
+function listFrom(value: string | null | undefined): string[] {
+    if (!value) return []
+    return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+/**
+ * Drop undefined/empty values from an extras object
+ */
+function extrasFrom(values: Record<string, string | number | boolean | null | undefined>): Listing['extras'] {
+    const extras: Listing['extras'] = {}
+    for (const [key, value] of Object.entries(values)) {
+        if (value === undefined || value === null || value === '') continue
+        extras[key] = value
+    }
+    return extras
+}
+
+function provenance(source: ListingSource, sourceId: string, origin: string | null, raw: unknown): ListingProvenance {
+    return { source, sourceId, origin, raw }
+}
+
+/**
+ * Fields every adapter starts from - everything unknown
+ */
+function baseListing(source: ListingSource, sourceId: string, origin: string | null, raw: unknown): Listing {
+    return {
+        id: `${source}:${sourceId}`,
+        source,
+        provenance: provenance(source, sourceId, origin, raw),
+        title: '',
+        description: null,
+        url: null,
+        listingType: null,
+        transactionType: null,
+        propertyType: null,
+        configuration: null,
+        bedrooms: null,
+        bathrooms: null,
+        areaSqft: null,
+        areaText: null,
+        carpetAreaSqft: null,
+        price: null,
+        priceMax: null,
+        priceText: null,
+        location: null,
+        projectName: null,
+        facing: null,
+        floor: null,
+        furnishing: null,
+        parking: null,
+        status: null,
+        amenities: [],
+        images: [],
+        agent: { ...EMPTY_AGENT },
+        postedAt: null,
+        createdAt: null,
+        rawMessage: null,
+        relevance: null,
+        extras: {},
+    }
+}
+
+/**
+ * Title for sources without one, e.g. "3 BHK Apartment in Indiranagar"
+ */
+function fallbackTitle(listing: Listing): string {
+    const parts = [
+        listing.configuration || (listing.bedrooms ? `${listing.bedrooms} BHK` : null),
+        listing.propertyType,
+    ].filter(Boolean)
+    const head = parts.length > 0 ? parts.join(' ') : 'Property'
+    return listing.location ? `${head} in ${listing.location}` : head
+}
+
+// ============================================================================
+// Source → Listing
+// ============================================================================
+
+export function fromCREAListing(record: CREAListing): Listing {
+    const listing = baseListing('crea', record.id, 'crea', record)
+
+    listing.listingType = text(record.listing_type)
+    listing.transactionType = transactionFrom(record.transaction_type, record.listing_type)
+    listing.propertyType = text(record.property_type)
+    listing.configuration = text(record.configuration)
+    listing.bedrooms = firstNumber(record.configuration)
+    listing.areaSqft = positive(record.size_sqft)
+    listing.price = positive(record.price)
+    listing.priceText = text(record.price_text)
+    listing.location = text(record.location)
+    listing.projectName = text(record.project_name)
+    listing.facing = text(record.facing)
+    listing.floor = text(record.floor)
+    listing.furnishing = text(record.furnishing)
+    listing.parking = text(record.parking)
+    listing.status = text(record.status)
+    listing.amenities = listFrom(record.amenities)
+    listing.agent = {
+        ...EMPTY_AGENT,
+        name: text(record.agent_name),
+        contact: text(record.agent_contact),
+        company: text(record.company_name),
+    }
+    listing.postedAt = text(record.message_date)
+    listing.createdAt = text(record.created_at)
+    listing.rawMessage = text(record.raw_message)
+    listing.extras = extrasFrom({ senderName: record.sender_name })
+    listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromWhatsAppListing(record: WhatsAppListing): Listing {
+    const listing = baseListing('whatsapp', record.id, 'whatsapp', record)
+
+    listing.listingType = text(record.message_type)
+    listing.transactionType = transactionFrom(record.message_type)
+    listing.propertyType = text(record.property_type)
+    listing.bedrooms = positive(record.bedrooms)
+    listing.configuration = listing.bedrooms ? `${listing.bedrooms} BHK` : null
+    listing.areaSqft = positive(record.area_sqft)
+    listing.price = positive(record.price)
+    listing.priceText = text(record.price_text)
+    listing.location = text(record.location)
+    listing.projectName = text(record.project_name)
+    listing.facing = text(record.facing_direction)
+    listing.furnishing = text(record.furnishing_status)
+    listing.parking = text(record.parking_text) || (record.parking_count ? `${record.parking_count} parking` : null)
+    listing.amenities = record.special_features ?? []
+    listing.agent = {
+        ...EMPTY_AGENT,
+        name: text(record.agent_name),
+        contact: text(record.agent_contact),
+        company: text(record.company_name),
+    }
+    listing.postedAt = text(record.message_date)
+    listing.createdAt = text(record.created_at)
+    listing.rawMessage = text(record.raw_message)
+    listing.extras = extrasFrom({
+        sourceMessageId: record.source_message_id,
+        senderName: record.sender_name,
+        parkingCount: record.parking_count,
+    })
+    listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromRBProperty(record: RBProperty): Listing {
+    const listing = baseListing('rb', record.id, text(record.source), record)
+
+    listing.title = text(record.title) || ''
+    listing.description = text(record.description)
+    listing.url = text(record.static_html_url)
+    listing.listingType = text(record.message_type)
+    // RB's property_type holds the transaction ("Sale"/"Rent"), not the building type
+    listing.transactionType = transactionFrom(record.property_type, record.message_type)
+    listing.bedrooms = positive(record.bedrooms)
+    listing.configuration = listing.bedrooms ? `${listing.bedrooms} BHK` : null
+    listing.bathrooms = positive(record.bathrooms)
+    listing.areaSqft = positive(record.sqft)
+    listing.price = positive(record.price)
+    listing.priceText = text(record.price_text)
+    listing.location = text(record.location)
+    listing.projectName = text(record.project_name)
+    listing.facing = text(record.facing_direction)
+    listing.furnishing = text(record.furnishing_status)
+    listing.parking = record.parking_count ? `${record.parking_count} parking` : null
+    listing.status = text(record.status)
+    listing.amenities = record.special_features ?? []
+    listing.images = record.images ?? []
+    listing.agent = {
+        ...EMPTY_AGENT,
+        name: text(record.agent_name),
+        contact: text(record.agent_contact),
+        company: text(record.company_name),
+        email: text(record.agent_email),
+        profileUrl: text(record.agent_vanity_url),
+    }
+    listing.createdAt = text(record.created_at)
+    listing.postedAt = listing.createdAt
+    listing.rawMessage = text(record.raw_message)
+    listing.extras = extrasFrom({
+        agentAvatar: record.agent_avatar,
+        ownerName: record.owner_name,
+        ownerNumber: record.owner_number,
+        parkingCount: record.parking_count,
+        updatedAt: record.updated_at,
+        staticFlyerUrl: record.static_flyer_url,
+        verifiedBy: record.verified_by,
+        viewCount: record.view_count,
+        currency: record.currency,
+        sourceKey: record.source_key,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromSquareYardsProperty(record: SquareYardsProperty): Listing {
+    const url = text(record.property_url)
+    const listing = baseListing('squareyards', url || record.title, hostnameOf(url) || 'squareyards.com', record)
+
+    listing.title = text(record.title) || ''
+    listing.description = text(record.description)
+    listing.url = url
+    // bedrooms/bathrooms both hold the combined "5 BHK + 5 Bath" text
+    listing.configuration = text(record.bedrooms?.split('+')[0])
+    listing.bedrooms = firstNumber(record.bedrooms)
+    listing.bathrooms = firstNumber(record.bathrooms?.match(/(\d+)\s*Bath/i)?.[1])
+    listing.areaText = text(record.area)
+    listing.areaSqft = parseArea(record.area)?.sqft ?? null
+    applyPriceText(listing, record.price)
+    listing.transactionType = transactionFrom(record.title) ?? listing.transactionType
+    listing.location = text(record.location)
+    listing.facing = text(record.facing)
+    listing.furnishing = text(record.furnishing)
+    listing.parking = text(record.parking)
+    listing.images = record.image_url ? [record.image_url] : []
+    listing.agent = {
+        ...EMPTY_AGENT,
+        name: text(record.agent_name),
+        rating: firstNumber(record.agent_rating),
+        profileUrl: text(record.agent_url),
+    }
+    listing.relevance = relevanceOf(record)
+    listing.extras = extrasFrom({
+        flooring: record.flooring,
+        stairs: record.stairs,
+        roadView: record.road_view,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromMagicBricksProperty(record: MagicBricksProperty): Listing {
+    const url = text(record.property_url)
+    const listing = baseListing('magicbricks', url || record.title, hostnameOf(url) || 'magicbricks.com', record)
+
+    listing.title = text(record.title) || ''
+    listing.description = [record.description, record.description2].map(text).filter(Boolean).join('\n\n') || null
+    listing.url = url
+    listing.configuration = text(record.title.match(/\d+\s*BHK/i)?.[0])
+    listing.bedrooms = firstNumber(listing.configuration)
+    listing.bathrooms = firstNumber(record.bathroom)
+    listing.areaText = text(record.super_area) || text(record.area)
+    listing.areaSqft = parseArea(listing.areaText)?.sqft ?? null
+    listing.carpetAreaSqft = parseArea(record.carpet_area, 'carpet')?.sqft ?? null
+    applyPriceText(listing, record.price)
+    listing.transactionType = transactionFrom(record.title) ?? listing.transactionType
+    listing.location = text(record.title.match(/\bin\s+(.+)$/i)?.[1])
+    listing.projectName = text(record.society_name)
+    listing.facing = text(record.facing)
+    listing.floor = text(record.floor)
+    listing.furnishing = text(record.furnishing)
+    listing.parking = text(record.parking)
+    listing.status = text(record.status)
+    listing.agent = { ...EMPTY_AGENT, name: text(record.agent_name) }
+    listing.postedAt = text(record.posted_date?.replace(/^Posted:\s*/i, ''))
+    listing.relevance = relevanceOf(record)
+    listing.extras = extrasFrom({
+        photoCount: record.photo_count,
+        buyersServed: record.buyers_served,
+        societyUrl: record.society_url,
+        transaction: record.transaction,
+        overlooking: record.overlooking,
+        ownership: record.ownership,
+        balcony: record.balcony,
+        pricePerSqft: record.price_per_sqft,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+/**
+ * Fields 99acres, Housing, NoBroker and CommonFloor share (PortalPropertyBase)
+ */
+function fromPortalProperty(
+    source: '99acres' | 'housing' | 'nobroker' | 'commonfloor',
+    defaultOrigin: string,
+    record: PortalPropertyBase
+): Listing {
+    const url = text(record.property_url)
+    const listing = baseListing(source, url || record.title, hostnameOf(url) || defaultOrigin, record)
+
+    listing.title = text(record.title) || ''
+    listing.description = text(record.description)
+    listing.url = url
+    listing.configuration = text(record.bedrooms?.match(/\d+\s*BHK/i)?.[0] ?? record.title.match(/\d+\s*BHK/i)?.[0])
+    listing.bedrooms = firstNumber(listing.configuration)
+    listing.bathrooms = firstNumber(record.bathrooms)
+    listing.areaText = text(record.area)
+    listing.areaSqft = parseArea(record.area)?.sqft ?? null
+    applyPriceText(listing, record.price)
+    listing.transactionType = transactionFrom(record.title) ?? listing.transactionType
+    listing.location = text(record.location)
+    listing.facing = text(record.facing)
+    listing.furnishing = text(record.furnishing)
+    listing.images = record.image_url ? [record.image_url] : []
+    listing.postedAt = text(record.posted_date)
+    listing.relevance = relevanceOf(record)
+
+    return listing
+}
+
+export function fromNinetyNineAcresProperty(record: NinetyNineAcresProperty): Listing {
+    const listing = fromPortalProperty('99acres', '99acres.com', record)
+
+    listing.status = text(record.possession)
+    listing.agent = { ...EMPTY_AGENT, name: text(record.dealer_name) }
+    listing.extras = extrasFrom({
+        areaType: record.area_type,
+        postedBy: record.posted_by,
+        reraId: record.rera_id,
+        pricePerSqft: record.price_per_sqft,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromHousingProperty(record: HousingProperty): Listing {
+    const listing = fromPortalProperty('housing', 'housing.com', record)
+
+    listing.projectName = text(record.project_name)
+    listing.status = text(record.possession)
+    listing.amenities = record.amenities ?? []
+    listing.agent = { ...EMPTY_AGENT, name: text(record.agent_name) }
+    listing.extras = extrasFrom({
+        builder: record.builder_name,
+        pricePerSqft: record.price_per_sqft,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromNoBrokerProperty(record: NoBrokerProperty): Listing {
+    const listing = fromPortalProperty('nobroker', 'nobroker.in', record)
+
+    listing.status = text(record.available_from)
+    // NoBroker listings are posted by owners
+    listing.agent = { ...EMPTY_AGENT, name: text(record.owner_name) }
+    listing.extras = extrasFrom({
+        deposit: record.deposit,
+        maintenance: record.maintenance,
+        preferredTenants: record.preferred_tenants,
+        propertyAge: record.property_age,
+        pricePerSqft: record.price_per_sqft,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromCommonFloorProperty(record: CommonFloorProperty): Listing {
+    const listing = fromPortalProperty('commonfloor', 'commonfloor.com', record)
+
+    listing.projectName = text(record.project_name)
+    listing.floor = text(record.floor)
+    listing.agent = { ...EMPTY_AGENT, name: text(record.agent_name) }
+    listing.extras = extrasFrom({
+        transaction: record.transaction,
+        propertyAge: record.property_age,
+        pricePerSqft: record.price_per_sqft,
+    })
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+/**
+ * SerpAPI and Tavily results share the ResultCard shape
+ */
+function fromResultCardProperty(source: 'serp' | 'tavily', record: SerpProperty | TavilyProperty): Listing {
+    const url = text(record.url)
+    const listing = baseListing(source, url || record.id, text(record.source) || hostnameOf(url), record)
+
+    listing.title = text(record.title) || ''
+    listing.description = text(record.description)
+    listing.url = url
+    listing.transactionType = record.propertyFor ?? null
+    listing.bedrooms = positive(record.bedrooms)
+    listing.configuration = listing.bedrooms ? `${listing.bedrooms} BHK` : null
+    listing.bathrooms = positive(record.bathrooms)
+    listing.areaSqft = positive(record.area)
+    listing.price = positive(record.price)
+    listing.priceMax = positive(record.priceMax)
+    listing.location = text(record.location)
+    listing.images = record.imageUrl ? [record.imageUrl] : []
+    if (!listing.title) listing.title = fallbackTitle(listing)
+
+    return listing
+}
+
+export function fromSerpProperty(record: SerpProperty): Listing {
+    return fromResultCardProperty('serp', record)
+}
+
+export function fromTavilyProperty(record: TavilyProperty): Listing {
+    return fromResultCardProperty('tavily', record)
+}
+
+/**
+ * Scraped property from the SSE stream, by the source it was scraped from
+ */
+export function fromScrapedProperty(
+    record: ScrapedProperty,
+    source: 'squareyards' | 'magicbricks' | '99acres' | 'housing' | 'nobroker' | 'commonfloor'
+): Listing {
+    switch (source) {
+        case 'magicbricks':
+            return fromMagicBricksProperty(record as MagicBricksProperty)
+        case '99acres':
+            return fromNinetyNineAcresProperty(record as NinetyNineAcresProperty)
+        case 'housing':
+            return fromHousingProperty(record as HousingProperty)
+        case 'nobroker':
+            return fromNoBrokerProperty(record as NoBrokerProperty)
+        case 'commonfloor':
+            return fromCommonFloorProperty(record as CommonFloorProperty)
+        default:
+            return fromSquareYardsProperty(record as SquareYardsProperty)
+    }
+}
+
+// ============================================================================
+// Listing → CREAListing
+// ============================================================================
+
+/**
+ * CREAListing for the legacy table/card components
+ * CREAListing has no nulls for its core fields, so unknowns become '' / 0
+ */
+export function toCREAListing(listing: Listing): CREAListing {
+    const senderName = listing.extras.senderName
+
+    return {
+        id: listing.provenance.sourceId,
+        created_at: listing.createdAt || '',
+        message_date: listing.postedAt || '',
+        agent_name: listing.agent.name || '',
+        agent_contact: listing.agent.contact,
+        company_name: listing.agent.company,
+        listing_type: listing.listingType,
+        transaction_type: listing.transactionType === 'rent'
+            ? 'Rent'
+            : listing.transactionType === 'sale'
+                ? 'Sale'
+                : listing.listingType || '',
+        property_type: listing.propertyType || '',
+        configuration: listing.configuration,
+        size_sqft: listing.areaSqft || 0,
+        price: listing.price || 0,
+        price_text: listing.priceText || '',
+        location: listing.location || '',
+        project_name: listing.projectName,
+        facing: listing.facing,
+        floor: listing.floor,
+        furnishing: listing.furnishing,
+        parking: listing.parking,
+        status: listing.status,
+        amenities: listing.amenities.length > 0 ? listing.amenities.join(', ') : null,
+        raw_message: listing.rawMessage || '',
+        sender_name: typeof senderName === 'string' ? senderName : null,
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * Canonical listing model - one Listing type with adapters from every source
+ */
+
+export * from './listing.types'
+export * from './adapters'
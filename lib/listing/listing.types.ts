@@ -0,0 +1,122 @@
+/**
+ * Canonical Listing Model
+ * =======================
+ *
+ * One shape for every property record the app handles - CREA and WhatsApp
+ * listings, RB properties, scraped portal properties (SquareYards, MagicBricks,
+ * 99acres, Housing, NoBroker, CommonFloor) and
+ * SerpAPI/Tavily search results. Adapters in ./adapters convert each source
+ * type into this model, so cards, filters, exports and comparisons only need
+ * to be written once.
+ *
+ * Conventions:
+ * - Numbers are parsed values (INR, sqft); the source's display text is kept
+ *   alongside (priceText, areaText) because parsing is not always possible
+ * - Anything unknown is null (or [] for lists) - never a guessed default
+ * - The untouched source record is kept in provenance.raw, so no adapter
+ *   loses information
+ */
+
+/**
+ * Where a listing came from
+ */
+export type ListingSource =
+    | 'crea'
+    | 'whatsapp'
+    | 'rb'
+    | 'squareyards'
+    | 'magicbricks'
+    | '99acres'
+    | 'housing'
+    | 'nobroker'
+    | 'commonfloor'
+    | 'serp'
+    | 'tavily'
+
+export type TransactionType = 'sale' | 'rent'
+
+export interface ListingProvenance {
+    source: ListingSource
+    /** Id in the source system - the record id, or the property URL for scraped/search sources */
+    sourceId: string
+    /** Site or system the record originally came from (e.g. "squareyards.com", "realbroker") */
+    origin: string | null
+    /** The source record exactly as received */
+    raw: unknown
+}
+
+export interface ListingAgent {
+    name: string | null
+    contact: string | null
+    company: string | null
+    email: string | null
+    /** Rating out of 5, when the source has one */
+    rating: number | null
+    profileUrl: string | null
+}
+
+export interface ListingRelevance {
+    /** Relevance score (0-10 typically) */
+    score: number | null
+    reason: string | null
+    matches: string[]
+    mismatches: string[]
+}
+
+export interface Listing {
+    /** Unique across sources: `${source}:${sourceId}` */
+    id: string
+    source: ListingSource
+    provenance: ListingProvenance
+
+    title: string
+    description: string | null
+    /** Public URL of the listing, if it has one */
+    url: string | null
+
+    /** Source classification (e.g. "supply", "supply_rent") */
+    listingType: string | null
+    transactionType: TransactionType | null
+    /** e.g. "Apartment", "Villa" */
+    propertyType: string | null
+    /** Configuration as given, e.g. "3 BHK" */
+    configuration: string | null
+    bedrooms: number | null
+    bathrooms: number | null
+
+    /** Primary area in sqft (super/built-up where the source distinguishes) */
+    areaSqft: number | null
+    areaText: string | null
+    carpetAreaSqft: number | null
+
+    /** Price in INR (monthly rent for rentals) - the lower bound for ranges */
+    price: number | null
+    /** Upper bound in INR when the source quotes a range */
+    priceMax: number | null
+    priceText: string | null
+
+    location: string | null
+    projectName: string | null
+    facing: string | null
+    floor: string | null
+    furnishing: string | null
+    parking: string | null
+    /** e.g. "Available", "Sold", "Ready to Move" */
+    status: string | null
+    amenities: string[]
+    images: string[]
+
+    agent: ListingAgent
+
+    /** When the listing was posted, as given by the source (ISO date or text like "Yesterday") */
+    postedAt: string | null
+    /** When we first stored it (ISO date) */
+    createdAt: string | null
+    /** Original broker message, for WhatsApp-derived sources */
+    rawMessage: string | null
+
+    relevance: ListingRelevance | null
+
+    /** Source-specific fields with no canonical home (e.g. MagicBricks "overlooking") */
+    extras: Record<string, string | number | boolean | null>
+}
@@ -0,0 +1,71 @@
+/**
+ * Mock Backend - Settings
+ * ========================
+ *
+ * Failure simulation knobs for the mock backend. Defaults come from env vars
+ * and can be changed at runtime (without restarting `next dev`) through
+ * GET/POST/DELETE /api/mock/__config:
+ *
+ *   curl -X POST localhost:3000/api/mock/__config \
+ *        -H 'Content-Type: application/json' -d '{"disconnectAfter": 3}'
+ */
+
+export interface MockBackendSettings {
+    /** Base delay before every response (MOCK_LATENCY_MS) */
+    latencyMs: number
+    /** Random extra delay, 0..jitterMs (MOCK_LATENCY_JITTER_MS) */
+    jitterMs: number
+    /** Probability 0-1 that a request fails (MOCK_ERROR_RATE) */
+    errorRate: number
+    /** Status returned for simulated failures (MOCK_ERROR_STATUS) */
+    errorStatus: number
+    /** Path prefixes that always fail, comma separated (MOCK_FAIL_PATHS) */
+    failPaths: string[]
+    /** Drop SSE streams after this many events, null to never (MOCK_DISCONNECT_AFTER) */
+    disconnectAfter: number | null
+    /** Delay between SSE events (MOCK_STREAM_INTERVAL_MS) */
+    streamIntervalMs: number
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+    const parsed = value === undefined || value === '' ? NaN : Number(value)
+    return Number.isFinite(parsed) ? parsed : fallback
+}
+
+function settingsFromEnv(): MockBackendSettings {
+    const disconnectAfter = readNumber(process.env.MOCK_DISCONNECT_AFTER, -1)
+    return {
+        latencyMs: readNumber(process.env.MOCK_LATENCY_MS, 300),
+        jitterMs: readNumber(process.env.MOCK_LATENCY_JITTER_MS, 200),
+        errorRate: readNumber(process.env.MOCK_ERROR_RATE, 0),
+        errorStatus: readNumber(process.env.MOCK_ERROR_STATUS, 500),
+        failPaths: (process.env.MOCK_FAIL_PATHS || '')
+            .split(',')
+            .map(path => path.trim())
+            .filter(Boolean),
+        disconnectAfter: disconnectAfter >= 0 ? disconnectAfter : null,
+        streamIntervalMs: readNumber(process.env.MOCK_STREAM_INTERVAL_MS, 400),
+    }
+}
+
+/**
+ * Whether the frontend should talk to the mock backend instead of FastAPI
+ */
+export const MOCK_BACKEND_ENABLED = process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true'
+
+// Runtime overrides live for the lifetime of the server process
+let overrides: Partial<MockBackendSettings> = {}
+
+export function getMockSettings(): MockBackendSettings {
+    return { ...settingsFromEnv(), ...overrides }
+}
+
+export function updateMockSettings(changes: Partial<MockBackendSettings>): MockBackendSettings {
+    overrides = { ...overrides, ...changes }
+    return getMockSettings()
+}
+
+export function resetMockSettings(): MockBackendSettings {
+    overrides = {}
+    return getMockSettings()
+}
@@ -0,0 +1,633 @@
+/**
+ * Mock Backend - Fixture Data
+ * ============================
+ *
+ * Deterministic, realistic-looking data for the mock backend.
+ * Typed against the same interfaces the services use, so a fixture that
+ * no longer matches the frontend's expectations fails the type-check.
+ */
+
+import type { CREAListing } from '@/lib/services/crea-listings.service'
+import type {
+    SquareYardsProperty,
+    MagicBricksProperty,
+    PortalPropertyBase,
+    NinetyNineAcresProperty,
+    HousingProperty,
+    NoBrokerProperty,
+    CommonFloorProperty,
+    ScrapedProperty,
+} from '@/lib/services/property-scrape.service'
+import type { PropertySearchResponse } from '@/lib/services/property-search.service'
+import type { ChatResponse, Area } from '@/lib/services/propalyst.service'
+import type { SerpProperty } from '@/lib/services/serp-property-search.service'
+import type { WhatsAppListing, RBProperty } from '@/lib/api/whatsapp-listings'
+import { priceValue } from '@/lib/parsing'
+
+const LOCATIONS = [
+    'Indiranagar',
+    'Koramangala',
+    'HSR Layout',
+    'Whitefield',
+    'Jayanagar',
+    'Sarjapur Road',
+    'Hebbal',
+    'JP Nagar',
+    'Electronic City',
+    'Yelahanka',
+]
+
+const PROJECTS = [
+    'Prestige Lakeside Habitat',
+    'Sobha Dream Acres',
+    'Brigade Utopia',
+    'Purva Palm Beach',
+    'Embassy Springs',
+    null,
+    'Godrej Woodsman Estate',
+    null,
+]
+
+const AGENTS = [
+    { name: 'Ravi Kumar', contact: '+91 98450 12345', company: 'Urban Nest Realty' },
+    { name: 'Priya Sharma', contact: '+91 99001 23456', company: 'Sharma Estates' },
+    { name: 'Mohammed Irfan', contact: '+91 97411 34567', company: null },
+    { name: 'Lakshmi Narayan', contact: '+91 98860 45678', company: 'LN Properties' },
+    { name: 'Arjun Reddy', contact: null, company: 'Reddy & Sons Realtors' },
+]
+
+const CONFIGURATIONS = ['1 BHK', '2 BHK', '3 BHK', '3.5 BHK', '4 BHK']
+const FURNISHING = ['Unfurnished', 'Semi-furnished', 'Fully furnished']
+const FACING = ['East', 'North', 'West', 'North-East', null]
+
+/**
+ * Pick from a list by index, wrapping around
+ */
+function pick<T>(items: readonly T[], index: number): T {
+    return items[index % items.length]
+}
+
+/**
+ * ISO date `daysAgo` days before a fixed reference date (stable across reloads)
+ */
+function isoDaysAgo(daysAgo: number): string {
+    const reference = Date.UTC(2025, 10, 20, 10, 30)
+    return new Date(reference - daysAgo * 24 * 60 * 60 * 1000).toISOString()
+}
+
+function formatRupees(amount: number): string {
+    if (amount >= 10000000) return `₹${(amount / 10000000).toFixed(2).replace(/\.?0+$/, '')} Cr`
+    if (amount >= 100000) return `₹${(amount / 100000).toFixed(2).replace(/\.?0+$/, '')} L`
+    return `₹${amount.toLocaleString('en-IN')}`
+}
+
+// ============================================================================
+// CREA / WhatsApp listings
+// ============================================================================
+
+function buildCREAListing(index: number): CREAListing {
+    const agent = pick(AGENTS, index)
+    const location = pick(LOCATIONS, index)
+    const configuration = pick(CONFIGURATIONS, index * 3)
+    const isRent = index % 3 === 0
+    const bedrooms = parseInt(configuration, 10)
+    const sizeSqft = 600 + bedrooms * 450 + (index % 5) * 35
+    const price = isRent
+        ? 18000 + bedrooms * 9000 + (index % 4) * 2500
+        : 4500000 + bedrooms * 3200000 + (index % 6) * 750000
+    const priceText = isRent ? `${formatRupees(price)}/month` : formatRupees(price)
+    const project = pick(PROJECTS, index)
+    const transactionType = isRent ? 'Rent' : 'Sale'
+
+    return {
+        id: `mock-crea-${String(index + 1).padStart(4, '0')}`,
+        created_at: isoDaysAgo(index),
+        message_date: isoDaysAgo(index + 1),
+        agent_name: agent.name,
+        agent_contact: agent.contact,
+        company_name: agent.company,
+        listing_type: 'supply',
+        transaction_type: transactionType,
+        property_type: index % 7 === 0 ? 'Villa' : 'Apartment',
+        configuration,
+        size_sqft: sizeSqft,
+        price,
+        price_text: priceText,
+        location,
+        project_name: project,
+        facing: pick(FACING, index),
+        floor: `${(index % 12) + 1} of 14`,
+        furnishing: pick(FURNISHING, index),
+        parking: index % 2 === 0 ? '1 Covered' : '2 Covered',
+        status: index % 9 === 0 ? 'Sold' : 'Available',
+        amenities: 'Gym, Pool, Clubhouse, 24x7 Security',
+        raw_message: [
+            `*${configuration} for ${transactionType}* in ${project ? `${project}, ` : ''}${location}`,
+            `${sizeSqft} sqft | ${pick(FURNISHING, index)} | ${pick(FACING, index) || 'Any'} facing`,
+            `Price: ${priceText}`,
+            `Contact ${agent.name}${agent.contact ? ` ${agent.contact}` : ''}`,
+        ].join('\n'),
+        sender_name: agent.name,
+    }
+}
+
+/**
+ * A listing as a weak extraction left it: some fields the message states
+ * came out empty (the re-extraction routes fill them back in)
+ */
+function withExtractionGaps(listing: CREAListing, index: number): CREAListing {
+    if (index % 10 === 4) return { ...listing, price: 0, price_text: '' }
+    if (index % 10 === 7) return { ...listing, location: '' }
+    if (index % 12 === 9) return { ...listing, configuration: null }
+    return listing
+}
+
+export const CREA_LISTINGS: CREAListing[] = Array.from({ length: 60 }, (_, index) => withExtractionGaps(buildCREAListing(index), index))
+
+/**
+ * What re-extracting a listing's message finds - every field the message
+ * states (null for ids that aren't fixtures)
+ */
+export function reextractCREAListing(listingId: string): CREAListing | null {
+    const match = listingId.match(/^mock-crea-(\d+)$/)
+    const index = match ? parseInt(match[1], 10) - 1 : -1
+    return index >= 0 ? buildCREAListing(index) : null
+}
+
+/**
+ * WhatsApp listing view of a CREA listing (same underlying message)
+ */
+export function toWhatsAppListing(listing: CREAListing): WhatsAppListing {
+    return {
+        id: listing.id,
+        source_message_id: `mock-raw-${listing.id}`,
+        message_date: listing.message_date,
+        agent_contact: listing.agent_contact,
+        agent_name: listing.agent_name,
+        company_name: listing.company_name,
+        raw_message: listing.raw_message,
+        message_type: listing.transaction_type === 'Rent' ? 'supply_rent' : 'supply_sale',
+        property_type: listing.property_type,
+        area_sqft: listing.size_sqft,
+        bedrooms: listing.configuration ? parseInt(listing.configuration, 10) : null,
+        price: listing.price,
+        price_text: listing.price_text,
+        location: listing.location,
+        project_name: listing.project_name,
+        furnishing_status: listing.furnishing,
+        parking_count: listing.parking ? parseInt(listing.parking, 10) : null,
+        parking_text: listing.parking,
+        facing_direction: listing.facing,
+        special_features: ['Gym', 'Pool', 'Clubhouse'],
+        llm_json: null,
+        created_at: listing.created_at,
+        sender_name: listing.sender_name,
+    }
+}
+
+export const RB_PROPERTIES: RBProperty[] = Array.from({ length: 8 }, (_, index) => buildCREAListing(index)).map((listing, index) => ({
+    id: `mock-rb-${index + 1}`,
+    source: 'realbroker',
+    title: `${listing.configuration} ${listing.property_type} in ${listing.location}`,
+    description: `Well-maintained ${listing.configuration} ${listing.property_type.toLowerCase()} with ${listing.amenities?.toLowerCase()}.`,
+    property_type: listing.transaction_type,
+    bedrooms: listing.configuration ? parseInt(listing.configuration, 10) : null,
+    bathrooms: listing.configuration ? parseInt(listing.configuration, 10) : null,
+    sqft: listing.size_sqft,
+    price: listing.price,
+    price_text: listing.price_text,
+    location: listing.location,
+    project_name: listing.project_name,
+    furnishing_status: listing.furnishing,
+    facing_direction: listing.facing,
+    parking_count: 1,
+    special_features: ['Power Backup', 'Lift'],
+    images: [`https://placehold.co/600x400?text=${encodeURIComponent(listing.location)}`],
+    agent_name: listing.agent_name,
+    agent_contact: listing.agent_contact,
+    agent_email: `${listing.agent_name.split(' ')[0].toLowerCase()}@example.com`,
+    company_name: listing.company_name,
+    agent_avatar: null,
+    agent_vanity_url: null,
+    owner_name: null,
+    owner_number: null,
+    status: listing.status,
+    created_at: listing.created_at,
+    updated_at: listing.created_at,
+    message_type: null,
+    raw_message: null,
+    static_flyer_url: null,
+    static_html_url: null,
+    verified_by: 'mock-verifier',
+    view_count: 40 + index * 7,
+    currency: 'INR',
+    source_key: `rb-${index + 1}`,
+}))
+
+/**
+ * /api/whatsapp-listings/:id/source - processed vs raw message comparison
+ */
+export function buildListingSource(listing: CREAListing) {
+    return {
+        processed: {
+            ...toWhatsAppListing(listing),
+            bedroom_count: listing.configuration ? parseInt(listing.configuration, 10) : null,
+            images: [],
+        },
+        raw: {
+            id: `mock-raw-${listing.id}`,
+            message_text: listing.raw_message,
+            sender_name: listing.sender_name,
+            message_date: listing.message_date,
+        },
+        comparison: {
+            dates_match: true,
+            exact_text_match: true,
+            has_raw_message: true,
+        },
+    }
+}
+
+export const LISTING_STATS = {
+    total_raw_messages_all_time: 4820,
+    extracted_listings_count: CREA_LISTINGS.length,
+    unprocessed_count: 312,
+    progress_percentage: 93.5,
+    recent_raw_messages_4_months: 1675,
+    message_type_breakdown: {
+        supply_sale: 38,
+        supply_rent: 20,
+        demand_buy: 1,
+        demand_rent: 1,
+    },
+}
+
+export const RAW_STATS = {
+    total_messages_all_time: 4820,
+    recent_messages_4_months: 1675,
+    old_messages_over_4_months: 3145,
+    processed: 4508,
+    unprocessed: 312,
+    deleted: 41,
+    media: 388,
+    ready_for_llm: 274,
+    unique_senders: 186,
+    date_range: {
+        earliest: '2024-06-02T08:14:00.000Z',
+        latest: isoDaysAgo(0),
+    },
+}
+
+// ============================================================================
+// Scraped properties (SSE)
+// ============================================================================
+
+export const SQUARE_YARDS_PROPERTIES: SquareYardsProperty[] = Array.from({ length: 12 }, (_, index) => {
+    const location = pick(LOCATIONS, index + 2)
+    const bedrooms = (index % 4) + 2
+    const price = 6500000 + bedrooms * 2800000 + (index % 5) * 900000
+    return {
+        title: `${bedrooms} BHK Apartment for Sale in ${location}`,
+        location: `${location}, Bangalore`,
+        price: formatRupees(price),
+        price_crore: formatRupees(price),
+        bedrooms: `${bedrooms} BHK + ${bedrooms} Bath`,
+        bathrooms: `${bedrooms} BHK + ${bedrooms} Bath`,
+        area: `${900 + bedrooms * 380}Sq.Ft.`,
+        facing: pick(['East Facing', 'North Facing', 'West Facing'], index),
+        parking: index % 2 === 0 ? '1 Covered' : '1 Covered + 1 Open',
+        flooring: 'Vitrified Flooring',
+        furnishing: pick(FURNISHING, index),
+        description: `Spacious ${bedrooms} BHK in a gated community close to ${location} main road.`,
+        image_url: `https://placehold.co/600x400?text=SquareYards+${index + 1}`,
+        agent_name: pick(AGENTS, index).name,
+        agent_rating: (4 + (index % 10) / 10).toFixed(1),
+        property_url: `https://www.squareyards.com/sale/mock-property-${index + 1}`,
+        relevance_score: 9 - (index % 6),
+        relevance_reason: index % 6 < 3 ? 'Matches location and configuration' : 'Matches configuration, different locality',
+        matches: ['configuration', 'budget'],
+        mismatches: index % 6 < 3 ? [] : ['location'],
+    }
+})
+
+const MAGIC_BRICKS_LISTINGS: MagicBricksProperty[] = Array.from({ length: 12 }, (_, index) => {
+    const location = pick(LOCATIONS, index + 5)
+    const bedrooms = (index % 3) + 2
+    const area = 1000 + bedrooms * 420
+    const pricePerSqft = 9500 + (index % 5) * 1800
+    return {
+        photo_count: `${8 + index}+ Photos`,
+        posted_date: index % 2 === 0 ? 'Posted: Yesterday' : `Posted: ${index + 2} days ago`,
+        agent_name: pick(AGENTS, index + 1).company || pick(AGENTS, index + 1).name,
+        buyers_served: `${1200 + index * 310}+ Buyers Served`,
+        title: `${bedrooms} BHK Flat for Sale in ${location}, Bangalore`,
+        society_name: pick(PROJECTS, index) || undefined,
+        area: `${area} sqft`,
+        carpet_area: `${Math.round(area * 0.8)} sqft`,
+        super_area: `${area} sqft`,
+        status: index % 4 === 0 ? "Poss. by Apr '27" : 'Ready to Move',
+        floor: `${(index % 10) + 1} out of 14`,
+        transaction: index % 3 === 0 ? 'New Property' : 'Resale',
+        furnishing: pick(FURNISHING, index),
+        facing: pick(['East', 'North', 'West'], index),
+        overlooking: 'Garden/Park, Main Road',
+        ownership: 'Freehold',
+        parking: `${(index % 2) + 1} Covered`,
+        bathroom: String(bedrooms),
+        balcony: String((index % 2) + 1),
+        description: `${bedrooms} BHK with ample natural light, walking distance to ${location} metro.`,
+        price: formatRupees(area * pricePerSqft),
+        price_per_sqft: `₹${pricePerSqft.toLocaleString('en-IN')} per sqft`,
+        property_url: `https://www.magicbricks.com/mock-property-${index + 1}`,
+    }
+})
+
+/**
+ * The same flat posted again by another agent - reworded title, price a little off
+ */
+function repost(property: MagicBricksProperty, agentIndex: number, priceFactor: number, title: string, posting: number): MagicBricksProperty {
+    const agent = pick(AGENTS, agentIndex)
+    const amount = priceValue(property.price)
+    return {
+        ...property,
+        title,
+        agent_name: agent.company || agent.name,
+        posted_date: `Posted: ${posting + 3} days ago`,
+        price: amount !== null ? formatRupees(Math.round(amount * priceFactor)) : property.price,
+        property_url: `${property.property_url}-repost-${posting}`,
+    }
+}
+
+// Reposts of the first and fifth listings, so scrapes have duplicates to cluster
+export const MAGIC_BRICKS_PROPERTIES: MagicBricksProperty[] = [
+    ...MAGIC_BRICKS_LISTINGS,
+    repost(MAGIC_BRICKS_LISTINGS[0], 3, 1.04, MAGIC_BRICKS_LISTINGS[0].title.replace('Flat', 'Apartment'), 1),
+    repost(MAGIC_BRICKS_LISTINGS[0], 4, 0.97, `Spacious ${MAGIC_BRICKS_LISTINGS[0].title}`, 2),
+    repost(MAGIC_BRICKS_LISTINGS[4], 2, 1.06, MAGIC_BRICKS_LISTINGS[4].title.replace(', Bangalore', ''), 3),
+]
+
+/**
+ * Core fields for the 99acres/Housing/NoBroker/CommonFloor fixtures
+ * Rentals (NoBroker) quote a monthly rent instead of a sale price
+ */
+function buildPortalProperty(index: number, site: string, urlPrefix: string, rent = false): PortalPropertyBase {
+    const location = pick(LOCATIONS, index + site.length)
+    const bedrooms = (index % 3) + 1
+    const area = 650 + bedrooms * 400 + (index % 4) * 50
+    const price = rent ? 18000 + bedrooms * 9000 + (index % 4) * 1500 : area * (8500 + (index % 5) * 1200)
+    const kind = rent ? 'Rent' : 'Sale'
+    return {
+        title: `${bedrooms} BHK Apartment for ${kind} in ${location}`,
+        location: `${location}, Bangalore`,
+        price: rent ? `₹${price.toLocaleString('en-IN')}/month` : formatRupees(price),
+        price_per_sqft: rent ? undefined : `₹${Math.round(price / area).toLocaleString('en-IN')}/sqft`,
+        area: `${area} sqft`,
+        bedrooms: `${bedrooms} BHK`,
+        bathrooms: String(Math.max(1, bedrooms)),
+        furnishing: pick(FURNISHING, index + 1),
+        facing: pick(FACING, index) ?? undefined,
+        posted_date: index % 3 === 0 ? 'Today' : `${index + 1} days ago`,
+        description: `${bedrooms} BHK on ${site} - ${location}, close to schools and the main road.`,
+        property_url: `${urlPrefix}/mock-property-${index + 1}`,
+        relevance_score: 8 - (index % 5),
+        relevance_reason: index % 5 < 2 ? 'Matches location and budget' : 'Matches budget, different configuration',
+        matches: ['budget'],
+        mismatches: index % 5 < 2 ? [] : ['configuration'],
+    }
+}
+
+export const NINETY_NINE_ACRES_PROPERTIES: NinetyNineAcresProperty[] = Array.from({ length: 8 }, (_, index) => ({
+    ...buildPortalProperty(index, '99acres', 'https://www.99acres.com'),
+    area_type: index % 2 === 0 ? 'Super built-up Area' : 'Carpet Area',
+    possession: index % 4 === 0 ? 'Under Construction' : 'Ready to Move',
+    posted_by: index % 3 === 0 ? 'Owner' : 'Dealer',
+    dealer_name: index % 3 === 0 ? undefined : pick(AGENTS, index).company ?? pick(AGENTS, index).name,
+    rera_id: index % 2 === 0 ? `PRM/KA/RERA/1251/446/PR/17101${index}/000287` : undefined,
+}))
+
+export const HOUSING_PROPERTIES: HousingProperty[] = Array.from({ length: 8 }, (_, index) => ({
+    ...buildPortalProperty(index, 'Housing', 'https://housing.com/in/buy/resale/page'),
+    project_name: pick(PROJECTS, index + 2) ?? undefined,
+    builder_name: index % 2 === 0 ? 'Prestige Group' : undefined,
+    possession: index % 3 === 0 ? 'Possession by Dec 2026' : 'Ready to move',
+    agent_name: pick(AGENTS, index + 2).name,
+    amenities: ['Gym', 'Swimming Pool', 'Power Backup'].slice(0, (index % 3) + 1),
+}))
+
+export const NO_BROKER_PROPERTIES: NoBrokerProperty[] = Array.from({ length: 8 }, (_, index) => ({
+    ...buildPortalProperty(index, 'NoBroker', 'https://www.nobroker.in/property/rent', true),
+    deposit: `₹${(index % 3) + 1} Lacs`,
+    maintenance: index % 2 === 0 ? '₹3,500/month' : 'Included',
+    available_from: index % 3 === 0 ? 'Immediately' : 'From next month',
+    preferred_tenants: pick(['Family', 'Bachelors', 'Anyone'], index),
+    property_age: pick(['Under 1 Year', '1-3 Years', '5-10 Years'], index),
+    owner_name: pick(AGENTS, index + 3).name,
+}))
+
+export const COMMON_FLOOR_PROPERTIES: CommonFloorProperty[] = Array.from({ length: 8 }, (_, index) => ({
+    ...buildPortalProperty(index, 'CommonFloor', 'https://www.commonfloor.com/listing'),
+    project_name: pick(PROJECTS, index + 4) ?? undefined,
+    floor: `${(index % 8) + 1} of 12`,
+    transaction: index % 2 === 0 ? 'Resale' : 'New Property',
+    property_age: pick(['1-3 Years', '3-5 Years', '5-10 Years'], index),
+    agent_name: pick(AGENTS, index + 4).name,
+}))
+
+/**
+ * The listing page as a later scrape would find it: each round drops one
+ * property, adds a new one and cuts one price by 5%. Round 0 is the
+ * original page. Gives cache refreshes real differences to show.
+ */
+export function rescrapeProperties<T extends ScrapedProperty>(properties: T[], round: number): T[] {
+    if (round === 0 || properties.length < 3) return properties
+
+    const removed = (round * 3) % properties.length
+    const repriced = (removed + 1) % properties.length
+
+    const lowerPrice = (price: string | undefined): string | undefined => {
+        const amount = priceValue(price)
+        if (amount === null || !price) return price
+        const lowered = Math.round(amount * 0.95)
+        return price.includes('/month') ? `₹${lowered.toLocaleString('en-IN')}/month` : formatRupees(lowered)
+    }
+
+    const source = properties[removed]
+    const added: T = {
+        ...source,
+        title: `${source.title} (new listing)`,
+        property_url: `${source.property_url}-r${round}`,
+    }
+
+    return [
+        added,
+        ...properties
+            .filter((_, index) => index !== removed)
+            .map(property => property === properties[repriced]
+                ? { ...property, price: lowerPrice(property.price) }
+                : property),
+    ]
+}
+
+// ============================================================================
+// Property search (Gemini grounding)
+// ============================================================================
+
+export function buildPropertySearchResponse(query: string, provider: string): PropertySearchResponse {
+    const results = SQUARE_YARDS_PROPERTIES.slice(0, 6).map(property => ({
+        title: property.title,
+        url: property.property_url,
+        snippet: property.description,
+        price: property.price,
+        location: property.location,
+        property_type: 'Apartment',
+        source: 'squareyards.com',
+    }))
+
+    return {
+        results,
+        extracted_params: {
+            property_type: 'Apartment',
+            category: 'buy',
+            location: 'Indiranagar',
+            budget_min: null,
+            budget_max: 30000000,
+            keywords: query.split(/\s+/).filter(Boolean).slice(0, 5),
+            city: 'Bangalore',
+        },
+        sources: results.map(result => ({ title: result.title, url: result.url, snippet: null })),
+        total_results: results.length,
+        provider,
+    }
+}
+
+// ============================================================================
+// Propalyst chat
+// ============================================================================
+
+/**
+ * Scripted questions, asked in order - mirrors the backend flow
+ */
+export const PROPALYST_STEPS: Array<Pick<ChatResponse, 'message' | 'component'>> = [
+    {
+        message: "Hi! I'm Propalyst. I'll help you find the right neighbourhood in Bangalore.|||First, where do you work?",
+        component: {
+            type: 'TextInput',
+            props: { field: 'work_location', placeholder: 'e.g. Manyata Tech Park', label: 'Work location' },
+        },
+    },
+    {
+        message: 'Got it. Do you have kids who will be going to school?',
+        component: { type: 'ButtonGroup', props: { field: 'has_kids', options: ['Yes', 'No'] } },
+    },
+    {
+        message: 'How long a commute are you comfortable with?',
+        component: {
+            type: 'ButtonGroup',
+            props: { field: 'commute', options: ['Under 20 min', '20-40 min', '40-60 min', 'Flexible'] },
+        },
+    },
+    {
+        message: 'Are you looking for an apartment or an independent house?',
+        component: {
+            type: 'ButtonGroup',
+            props: { field: 'property_type', options: ['Apartment', 'Villa', 'Independent House'] },
+        },
+    },
+    {
+        message: "What's your monthly budget?",
+        component: {
+            type: 'Slider',
+            props: {
+                field: 'budget',
+                min: 20000,
+                max: 200000,
+                step: 5000,
+                defaultValue: 60000,
+                label: 'Monthly budget',
+                format: 'currency',
+            },
+        },
+    },
+]
+
+export const PROPALYST_SUMMARY =
+    'You work near Manyata Tech Park, have school-going kids and prefer a commute under 40 minutes. ' +
+    'You are looking for a 3 BHK apartment with a monthly budget of around ₹60,000.'
+
+export const PROPALYST_AREAS: Area[] = [
+    {
+        areaName: 'Hebbal',
+        image: 'https://images.unsplash.com/photo-1570168007204-dfb528c6958f?w=800',
+        childFriendlyScore: 8.5,
+        schoolsNearby: 14,
+        averageCommute: '15 min',
+        budgetRange: '₹45K - ₹75K',
+        highlights: ['Close to Manyata Tech Park', 'Hebbal Lake', 'Good international schools'],
+    },
+    {
+        areaName: 'Yelahanka',
+        image: 'https://images.unsplash.com/photo-1582407947304-fd86f028f716?w=800',
+        childFriendlyScore: 8.1,
+        schoolsNearby: 18,
+        averageCommute: '25 min',
+        budgetRange: '₹35K - ₹60K',
+        highlights: ['Quieter, greener suburbs', 'Larger apartments for the budget'],
+    },
+    {
+        areaName: 'Thanisandra',
+        image: 'https://images.unsplash.com/photo-1564013799919-ab600027ffc6?w=800',
+        childFriendlyScore: 7.6,
+        schoolsNearby: 9,
+        averageCommute: '12 min',
+        budgetRange: '₹40K - ₹65K',
+        highlights: ['Walkable to Manyata', 'Many new gated communities'],
+    },
+]
+
+// ============================================================================
+// Third-party search providers (app/api/search/*)
+// ============================================================================
+
+export function buildSerpProperties(query: string): SerpProperty[] {
+    return SQUARE_YARDS_PROPERTIES.slice(0, 8).map((property, index) => {
+        const bedrooms = parseInt(property.bedrooms, 10) || 2
+        return {
+            id: property.property_url,
+            title: property.title,
+            location: property.location.split(',')[0],
+            price: 6500000 + bedrooms * 2800000 + (index % 5) * 900000,
+            bedrooms,
+            bathrooms: bedrooms >= 3 ? 2 : 1,
+            area: parseInt(property.area, 10) || bedrooms * 500,
+            imageUrl: `https://images.unsplash.com/photo-1600585154340-be6161a56a0c?w=400&sig=${index}`,
+            description: `${property.description} (mock result for "${query}")`,
+            propertyFor: 'sale',
+            url: property.property_url,
+            source: 'squareyards',
+        }
+    })
+}
+
+export function buildTavilyResults(query: string) {
+    const squareYards = SQUARE_YARDS_PROPERTIES.slice(0, 5).map((property, index) => ({
+        title: property.title,
+        url: property.property_url,
+        content: `${property.description} ${property.price} · ${property.area}`,
+        score: 0.92 - index * 0.05,
+    }))
+    const magicBricks = MAGIC_BRICKS_PROPERTIES.slice(0, 5).map((property, index) => ({
+        title: property.title,
+        url: property.property_url,
+        content: `${property.description} ${property.price ?? ''} · ${property.area ?? ''}`,
+        score: 0.88 - index * 0.05,
+    }))
+    const portals = [NINETY_NINE_ACRES_PROPERTIES, HOUSING_PROPERTIES, NO_BROKER_PROPERTIES, COMMON_FLOOR_PROPERTIES]
+        .flatMap(properties => properties.slice(0, 2))
+        .map((property, index) => ({
+            title: property.title,
+            url: property.property_url,
+            content: `${property.description} ${property.price ?? ''} · ${property.area ?? ''}`,
+            score: 0.8 - index * 0.03,
+        }))
+    return [...squareYards, ...magicBricks, ...portals].map(result => ({ ...result, content: `${result.content} (${query})` }))
+}
@@ -0,0 +1,6 @@
+/**
+ * Mock backend - local stand-in for the FastAPI backend
+ */
+
+export { handleMockRequest } from './router'
+export * from './config'
@@ -0,0 +1,102 @@
+/**
+ * Mock Backend - Response Helpers
+ * ================================
+ *
+ * JSON / error / SSE responses shaped like the FastAPI backend's,
+ * plus the latency and disconnect simulation applied to them.
+ */
+
+import { MockBackendSettings } from './config'
+
+export interface SSEEvent {
+    event: string
+    data: unknown
+    /** Sent as the SSE `id:` - clients resume after it (Last-Event-ID) */
+    id?: string
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (ms <= 0 || signal?.aborted) {
+            resolve()
+            return
+        }
+        const timer = setTimeout(resolve, ms)
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            resolve()
+        }, { once: true })
+    })
+}
+
+/**
+ * Latency for one request: base + random jitter
+ */
+export function simulatedLatency(settings: MockBackendSettings): number {
+    return settings.latencyMs + Math.round(Math.random() * settings.jitterMs)
+}
+
+export function json(data: unknown, status: number = 200): Response {
+    return Response.json(data, { status })
+}
+
+/**
+ * FastAPI-style error body: { "detail": "..." }
+ */
+export function errorResponse(status: number, detail: string): Response {
+    return Response.json({ detail }, { status })
+}
+
+/**
+ * Events after the one with `lastEventId` - all events when it's missing or unknown
+ *
+ * Resuming clients send the id back as `last_event_id` (our reconnects) or
+ * the Last-Event-ID header (the browser's own).
+ */
+export function resumeAfter(events: SSEEvent[], request: Request, query: URLSearchParams): SSEEvent[] {
+    const lastEventId = query.get('last_event_id') ?? request.headers.get('last-event-id')
+    if (!lastEventId) return events
+
+    const index = events.findIndex(event => event.id === lastEventId)
+    if (index === -1) return events
+
+    console.log(`⏩ Mock backend: resuming stream after event ${lastEventId}`)
+    return events.slice(index + 1)
+}
+
+/**
+ * Stream named SSE events one at a time.
+ * With `disconnectAfter` set, the connection is dropped (errored, not closed
+ * cleanly) after that many events - no 'complete' event is ever sent.
+ */
+export function sseResponse(events: SSEEvent[], settings: MockBackendSettings, signal?: AbortSignal): Response {
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            for (let index = 0; index < events.length; index++) {
+                if (signal?.aborted) return
+
+                if (settings.disconnectAfter !== null && index >= settings.disconnectAfter) {
+                    console.warn(`🔌 Mock backend: dropping stream after ${index} events`)
+                    controller.error(new Error('Simulated disconnect'))
+                    return
+                }
+
+                const { event, data, id } = events[index]
+                const idLine = id !== undefined ? `id: ${id}\n` : ''
+                controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+                await delay(settings.streamIntervalMs, signal)
+            }
+            controller.close()
+        },
+    })
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    })
+}
@@ -0,0 +1,766 @@
+/**
+ * Mock Backend - Router
+ * ======================
+ *
+ * Stand-in for the FastAPI backend, served by app/api/mock/[...path].
+ * Covers every endpoint the frontend calls, backed by the fixtures in
+ * ./fixtures. Writes (PATCH, upload, processing) update in-memory state
+ * only and reset when the dev server restarts.
+ */
+
+import type { CREAListing, CREASortKey } from '@/lib/services/crea-listings.service'
+import type { HttpMethod } from '@/lib/services/http-client'
+import {
+    detectSourceFromUrl,
+    PropertySource,
+    ScrapedProperty,
+    ScrapeCacheInfo,
+} from '@/lib/services/property-scrape.service'
+import type {
+    RelevanceFeedback,
+    RelevanceFeedbackSummary,
+    MismatchOverride,
+} from '@/lib/services/relevance-feedback.service'
+import {
+    MOCK_BACKEND_ENABLED,
+    MockBackendSettings,
+    getMockSettings,
+    updateMockSettings,
+    resetMockSettings,
+} from './config'
+import {
+    CREA_LISTINGS,
+    RB_PROPERTIES,
+    LISTING_STATS,
+    RAW_STATS,
+    SQUARE_YARDS_PROPERTIES,
+    MAGIC_BRICKS_PROPERTIES,
+    NINETY_NINE_ACRES_PROPERTIES,
+    HOUSING_PROPERTIES,
+    NO_BROKER_PROPERTIES,
+    COMMON_FLOOR_PROPERTIES,
+    PROPALYST_STEPS,
+    PROPALYST_SUMMARY,
+    PROPALYST_AREAS,
+    toWhatsAppListing,
+    reextractCREAListing,
+    buildListingSource,
+    buildPropertySearchResponse,
+    rescrapeProperties,
+} from './fixtures'
+import { SSEEvent, delay, simulatedLatency, json, errorResponse, sseResponse, resumeAfter } from './responses'
+
+/**
+ * Path used to inspect/change the simulation settings at runtime
+ */
+const CONFIG_PATH = '/__config'
+
+interface RouteContext {
+    request: Request
+    params: Record<string, string>
+    query: URLSearchParams
+    settings: MockBackendSettings
+}
+
+type RouteHandler = (context: RouteContext) => Response | Promise<Response>
+
+interface Route {
+    method: HttpMethod
+    /** Path pattern, `:name` segments are captured into params */
+    pattern: string
+    handler: RouteHandler
+}
+
+// ============================================================================
+// In-memory state
+// ============================================================================
+
+const listings: CREAListing[] = CREA_LISTINGS.map(listing => ({ ...listing }))
+
+// Propalyst session -> index of the next question
+const chatSessions = new Map<string, number>()
+
+// Listing URL -> its cached scrape (filled by the first stream, cleared by DELETE)
+const scrapeCache = new Map<string, Omit<ScrapeCacheInfo, 'url' | 'cached'>>()
+
+// Listing URL -> how many times its cache was cleared (each re-scrape finds changes)
+const rescrapeRounds = new Map<string, number>()
+
+// Feedback id -> relevance feedback (resending the same id replaces it)
+const relevanceFeedback = new Map<string, RelevanceFeedback>()
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function includesText(value: string | null | undefined, search: string): boolean {
+    return !!value && value.toLowerCase().includes(search.toLowerCase())
+}
+
+function readLimit(query: URLSearchParams, fallback: number = 100): number {
+    const limit = parseInt(query.get('limit') || '', 10)
+    return Number.isFinite(limit) && limit > 0 ? limit : fallback
+}
+
+function readOffset(query: URLSearchParams): number {
+    const offset = parseInt(query.get('offset') || '', 10)
+    return Number.isFinite(offset) && offset > 0 ? offset : 0
+}
+
+async function readJson(request: Request): Promise<Record<string, any>> {
+    try {
+        return await request.json()
+    } catch {
+        return {}
+    }
+}
+
+/**
+ * Vote totals, mismatch reasons by how often users overrode them, newest notes
+ */
+function summarizeFeedback(feedback: RelevanceFeedback[]): RelevanceFeedbackSummary {
+    const reasons = new Map<string, MismatchOverride>()
+    for (const item of feedback) {
+        for (const reason of item.mismatches) {
+            const entry = reasons.get(reason) ?? { reason, overrides: 0, confirmations: 0 }
+            if (item.vote === 'up') entry.overrides++
+            else entry.confirmations++
+            reasons.set(reason, entry)
+        }
+    }
+
+    return {
+        total: feedback.length,
+        up: feedback.filter(item => item.vote === 'up').length,
+        down: feedback.filter(item => item.vote === 'down').length,
+        mismatch_overrides: [...reasons.values()].sort(
+            (a, b) => b.overrides - a.overrides || a.confirmations - b.confirmations
+        ),
+        recent_notes: feedback
+            .filter(item => item.note)
+            .sort((a, b) => b.created_at.localeCompare(a.created_at))
+            .slice(0, 20)
+            .map(({ note, vote, orig_query, property_url, created_at }) => ({
+                note: note as string,
+                vote,
+                orig_query,
+                property_url,
+                created_at,
+            })),
+    }
+}
+
+const CREA_SORT_KEYS: CREASortKey[] = ['price', 'size_sqft', 'message_date', 'location', 'agent_name']
+
+/**
+ * Listings sorted by sort_by / sort_order from the query (as they are when
+ * sort_by is missing or unknown); missing values go last
+ */
+function sortListings(matches: CREAListing[], query: URLSearchParams): { sorted: CREAListing[]; sortBy: CREASortKey | null } {
+    const sortBy = CREA_SORT_KEYS.find(key => key === query.get('sort_by')) ?? null
+    if (!sortBy) return { sorted: matches, sortBy }
+
+    const direction = query.get('sort_order') === 'desc' ? -1 : 1
+    const sorted = [...matches].sort((a, b) => {
+        const valueA = a[sortBy]
+        const valueB = b[sortBy]
+        if (!valueA || !valueB) return Number(!valueA) - Number(!valueB)
+        return (typeof valueA === 'number' && typeof valueB === 'number'
+            ? valueA - valueB
+            : String(valueA).localeCompare(String(valueB))) * direction
+    })
+    return { sorted, sortBy }
+}
+
+/**
+ * One page (offset/limit from the query) of the matching listings -
+ * `count` is the page's length, `total` how many listings matched,
+ * `sort_by` / `sort_order` the sort applied
+ */
+function listingsPage(matches: CREAListing[], query: URLSearchParams, message: string): Response {
+    const { sorted, sortBy } = sortListings(matches, query)
+    const offset = readOffset(query)
+    const data = sorted.slice(offset, offset + readLimit(query))
+    return json({
+        success: true,
+        data,
+        count: data.length,
+        total: matches.length,
+        ...(sortBy && { sort_by: sortBy, sort_order: query.get('sort_order') === 'desc' ? 'desc' : 'asc' }),
+        message,
+    })
+}
+
+/**
+ * Apply the filters shared by the exact and fuzzy CREA search endpoints
+ */
+function filterListings(query: URLSearchParams, fuzzy: boolean): CREAListing[] {
+    const location = query.get('location')
+    const configuration = query.get('configuration')
+    const transactionType = query.get('transaction_type')
+    const agentName = query.get('agent_name')
+    const propertyType = query.get('property_type')
+    const propertyQuery = query.get('property_query')
+    const minPrice = query.has('min_price') ? Number(query.get('min_price')) : null
+    const maxPrice = query.has('max_price') ? Number(query.get('max_price')) : null
+
+    const matches = (value: string | null | undefined, search: string) =>
+        fuzzy ? includesText(value, search) : value?.toLowerCase() === search.toLowerCase()
+
+    return listings.filter(listing => {
+        if (location && !includesText(listing.location, location)) return false
+        if (configuration && !matches(listing.configuration, configuration)) return false
+        if (transactionType && !matches(listing.transaction_type, transactionType)) return false
+        if (agentName && !includesText(listing.agent_name, agentName)) return false
+        if (propertyType && !matches(listing.property_type, propertyType)) return false
+        if (propertyQuery && !includesText(listing.raw_message, propertyQuery)) return false
+        if (minPrice !== null && listing.price < minPrice) return false
+        if (maxPrice !== null && listing.price > maxPrice) return false
+        return true
+    })
+}
+
+/**
+ * Properties a stream for `url` sends - the cached scrape, or a fresh one
+ * (recorded in the cache) when nothing is cached
+ */
+function scrapeListing<T extends ScrapedProperty>(url: string, properties: T[]): T[] {
+    const scraped = rescrapeProperties(properties, rescrapeRounds.get(url) ?? 0)
+    if (!scrapeCache.has(url)) {
+        scrapeCache.set(url, {
+            scraped_at: new Date().toISOString(),
+            count: scraped.length,
+            api_calls_made: Math.ceil(scraped.length / 5),
+        })
+    }
+    return scraped
+}
+
+/**
+ * SSE scrape endpoint for one of the portals that share PortalPropertyBase
+ */
+function portalStreamRoute(pattern: string, source: PropertySource, label: string, properties: ScrapedProperty[]): Route {
+    return {
+        method: 'GET',
+        pattern,
+        handler: ({ request, query, settings }) => {
+            const url = query.get('url') || ''
+            if (detectSourceFromUrl(url) !== source) {
+                return sseResponse([{ event: 'error', data: { error: `Not a ${label} URL` } }], settings, request.signal)
+            }
+
+            const scraped = scrapeListing(url, properties)
+            const events: SSEEvent[] = scraped.map((property, index) => ({ event: 'property', data: property, id: String(index) }))
+            events.push({
+                event: 'complete',
+                data: { count: scraped.length, api_calls_made: Math.ceil(scraped.length / 5) },
+            })
+            return sseResponse(resumeAfter(events, request, query), settings, request.signal)
+        },
+    }
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+const routes: Route[] = [
+    // ---------------------------------------------------------------- CREA
+    {
+        method: 'GET',
+        pattern: '/api/crea/listings',
+        handler: ({ query }) => listingsPage(listings, query, 'Listings retrieved successfully'),
+    },
+    {
+        method: 'GET',
+        pattern: '/api/crea/listings/search/message',
+        handler: ({ query }) => {
+            const search = query.get('query') || ''
+            const data = listings.filter(listing => includesText(listing.raw_message, search))
+            return listingsPage(data, query, `Found ${data.length} listings`)
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/crea/listings/search/location',
+        handler: ({ query }) => {
+            const location = query.get('location') || ''
+            const data = listings.filter(listing => includesText(listing.location, location))
+            return listingsPage(data, query, `Found ${data.length} listings`)
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/crea/listings/search/agent',
+        handler: ({ query }) => {
+            const agentName = query.get('agent_name') || ''
+            const data = listings.filter(listing => includesText(listing.agent_name, agentName))
+            return listingsPage(data, query, `Found ${data.length} listings`)
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/crea/listings/search/property',
+        handler: ({ query }) => {
+            const propertyQuery = query.get('property_query') || ''
+            const data = listings.filter(listing => includesText(listing.raw_message, propertyQuery))
+            return listingsPage(data, query, `Found ${data.length} listings`)
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/crea/listings/search',
+        handler: ({ query }) => {
+            const data = filterListings(query, false)
+            return listingsPage(data, query, `Found ${data.length} listings (exact)`)
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/crea/search',
+        handler: ({ query }) => {
+            const data = filterListings(query, true)
+            return listingsPage(data, query, `Found ${data.length} listings (fuzzy)`)
+        },
+    },
+    {
+        method: 'PATCH',
+        pattern: '/api/crea/listings/:id',
+        handler: async ({ request, params }) => {
+            const listing = listings.find(item => item.id === params.id)
+            if (!listing) return errorResponse(404, `Listing ${params.id} not found`)
+
+            Object.assign(listing, await readJson(request), { id: listing.id })
+            return json({ success: true, status: 'updated', message: 'Listing updated successfully', data: listing })
+        },
+    },
+    {
+        method: 'DELETE',
+        pattern: '/api/crea/listings/:id',
+        handler: ({ params }) => {
+            const index = listings.findIndex(item => item.id === params.id)
+            if (index === -1) return errorResponse(404, `Listing ${params.id} not found`)
+
+            listings.splice(index, 1)
+            return json({ success: true, message: `Listing ${params.id} deleted` })
+        },
+    },
+    {
+        method: 'POST',
+        pattern: '/api/crea/get-whatsapp-message',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            const rawMessage: string = body.raw_message || ''
+            const agentName: string = body.agent_name || 'there'
+            const emoji = body.include_emojis === false ? '' : ' 👋'
+            return json({
+                success: true,
+                formatted_message: `Hi ${agentName}${emoji}\n\nI came across your listing:\n\n${rawMessage}\n\nIs it still available? I'd like to know more.`,
+                original_message: rawMessage,
+                message: 'Message formatted successfully',
+            })
+        },
+    },
+
+    // ----------------------------------------------------- WhatsApp listings
+    {
+        method: 'GET',
+        pattern: '/api/whatsapp-listings/search/message',
+        handler: ({ query }) => {
+            const search = query.get('query') || ''
+            const propertyType = query.get('property_type')
+            const messageType = query.get('message_type')
+            const offset = readOffset(query)
+
+            const whatsappListings = listings
+                .map(toWhatsAppListing)
+                .filter(listing => !search || includesText(listing.raw_message, search))
+                .filter(listing => !propertyType || includesText(listing.property_type, propertyType))
+                .filter(listing => !messageType || listing.message_type === messageType)
+            const rbProperties = RB_PROPERTIES.filter(property =>
+                !search || includesText(property.title, search) || includesText(property.location, search)
+            )
+            const page = whatsappListings.slice(offset, offset + readLimit(query))
+
+            return json({
+                whatsapp_listings: page,
+                rb_properties: rbProperties,
+                counts: { whatsapp: page.length, properties: rbProperties.length },
+                total_count: page.length + rbProperties.length,
+            })
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/whatsapp-listings/stats',
+        handler: () => json({ success: true, data: { ...LISTING_STATS, extracted_listings_count: listings.length } }),
+    },
+    {
+        method: 'GET',
+        pattern: '/api/whatsapp-listings/:id/source',
+        handler: ({ params }) => {
+            const listing = listings.find(item => item.id === params.id)
+            if (!listing) return errorResponse(404, `Listing ${params.id} not found`)
+            return json({ success: true, data: buildListingSource(listing) })
+        },
+    },
+
+    // --------------------------------------------------------- WhatsApp raw
+    {
+        method: 'POST',
+        pattern: '/api/whatsapp-raw/upload-file',
+        handler: async ({ request }) => {
+            const formData = await request.formData().catch(() => null)
+            const file = formData?.get('file')
+            if (!file || typeof file === 'string') {
+                return errorResponse(422, 'No file uploaded')
+            }
+
+            const text = await file.text()
+            const messagesParsed = text.split('\n').filter(line => /^\[?\d{1,2}\/\d{1,2}\/\d{2,4}/.test(line)).length
+            const messagesInserted = Math.round(messagesParsed * 0.8)
+            return json({
+                success: true,
+                messages_parsed: messagesParsed,
+                messages_inserted: messagesInserted,
+                messages_skipped: messagesParsed - messagesInserted,
+                ready_for_llm: Math.round(messagesInserted * 0.9),
+                message: `Parsed ${messagesParsed} messages from ${file.name}`,
+            })
+        },
+    },
+    {
+        method: 'POST',
+        pattern: '/api/whatsapp-raw/process-unprocessed-stream',
+        handler: ({ request, query, settings }) => {
+            const total = Math.min(readLimit(query, 20), 20)
+            const statuses = ['completed', 'completed', 'skipped', 'completed', 'failed'] as const
+            const events: SSEEvent[] = [{ event: 'start', data: { batch_size: total } }]
+
+            let extracted = 0
+            let failed = 0
+            for (let index = 0; index < total; index++) {
+                const status = statuses[index % statuses.length]
+                const listing = listings[index % listings.length]
+                if (status === 'completed') extracted++
+                if (status === 'failed') failed++
+                events.push({
+                    event: 'progress',
+                    data: {
+                        message_id: `mock-raw-${index + 1}`,
+                        status,
+                        message_type: status === 'skipped' ? 'garbage' : 'supply_sale',
+                        location: listing.location,
+                        split_index: null,
+                        is_relevant: status !== 'skipped',
+                        progress: `${index + 1}/${total}`,
+                        ...(status === 'failed' && { error: 'LLM API timeout' }),
+                    },
+                })
+            }
+
+            events.push({
+                event: 'complete',
+                data: {
+                    batch_size: total,
+                    messages_extracted: extracted,
+                    messages_skipped: total - extracted - failed,
+                    messages_failed: failed,
+                    message: `Batch complete! Extracted: ${extracted}, Skipped: ${total - extracted - failed}, Failed: ${failed}`,
+                },
+            })
+
+            return sseResponse(events, settings, request.signal)
+        },
+    },
+    {
+        method: 'POST',
+        pattern: '/api/whatsapp-raw/retry-listing/:id',
+        handler: ({ params }) => {
+            const listing = listings.find(item => item.id === params.id)
+            if (!listing) return errorResponse(404, `Listing ${params.id} not found`)
+
+            const oldResult = toWhatsAppListing(listing)
+            const extracted = reextractCREAListing(listing.id)
+            const newResult = {
+                ...oldResult,
+                ...(extracted && {
+                    price: extracted.price,
+                    price_text: extracted.price_text,
+                    location: extracted.location,
+                    bedrooms: extracted.configuration ? parseInt(extracted.configuration, 10) : null,
+                }),
+                area_sqft: (oldResult.area_sqft || 0) + 50,
+                furnishing_status: 'Semi-furnished',
+            }
+            const changes = Object.fromEntries(
+                Object.keys(newResult).map(key => {
+                    const oldValue = (oldResult as Record<string, any>)[key]
+                    const newValue = (newResult as Record<string, any>)[key]
+                    return [key, { old: oldValue, new: newValue, changed: JSON.stringify(oldValue) !== JSON.stringify(newValue) }]
+                })
+            )
+
+            return json({
+                success: true,
+                listing_id: listing.id,
+                status: 'preview',
+                old_result: oldResult,
+                new_result: newResult,
+                changes,
+                message: 'Re-extraction preview generated',
+            })
+        },
+    },
+    {
+        method: 'PATCH',
+        pattern: '/api/whatsapp-raw/listings/:id',
+        handler: async ({ request, params }) => {
+            const listing = listings.find(item => item.id === params.id)
+            if (!listing) return errorResponse(404, `Listing ${params.id} not found`)
+
+            const body = await readJson(request)
+            if (typeof body.area_sqft === 'number') listing.size_sqft = body.area_sqft
+            if (typeof body.furnishing_status === 'string') listing.furnishing = body.furnishing_status
+            if (typeof body.price === 'number') listing.price = body.price
+            if (typeof body.price_text === 'string') listing.price_text = body.price_text
+            if (typeof body.location === 'string') listing.location = body.location
+            if (typeof body.bedrooms === 'number') listing.configuration = `${body.bedrooms} BHK`
+
+            return json({
+                success: true,
+                listing_id: listing.id,
+                status: 'updated',
+                updated_record: toWhatsAppListing(listing),
+                message: 'Listing updated successfully',
+            })
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/whatsapp-raw/raw-stats',
+        handler: () => json(RAW_STATS),
+    },
+
+    // ------------------------------------------------------------ Propalyst
+    {
+        method: 'POST',
+        pattern: '/api/propalyst/chat',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            const sessionId: string = body.session_id || 'mock-session'
+
+            // A null user_input (re)starts the conversation
+            const step = body.user_input == null ? 0 : chatSessions.get(sessionId) ?? 0
+            chatSessions.set(sessionId, step + 1)
+
+            const completed = step >= PROPALYST_STEPS.length
+            const current = completed
+                ? { message: "Thanks! I've got everything I need - let me put together a summary.", component: null }
+                : PROPALYST_STEPS[step]
+
+            return json({
+                ...current,
+                messages: [],
+                session_id: sessionId,
+                current_step: step + 1,
+                completed,
+            })
+        },
+    },
+    {
+        method: 'POST',
+        pattern: '/api/propalyst/summary',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            return json({ summary: PROPALYST_SUMMARY, session_id: body.session_id || 'mock-session' })
+        },
+    },
+    {
+        method: 'POST',
+        pattern: '/api/propalyst/areas',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            return json({ areas: PROPALYST_AREAS, session_id: body.session_id || 'mock-session' })
+        },
+    },
+
+    // ---------------------------------------------------- Property search
+    {
+        method: 'POST',
+        pattern: '/api/property-search',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            return json(buildPropertySearchResponse(body.query || '', body.provider || 'gemini'))
+        },
+    },
+
+    // ---------------------------------------------- Property scraping (SSE)
+    {
+        method: 'GET',
+        pattern: '/api/get_listing_details',
+        handler: ({ request, query, settings }) => {
+            const scraped = scrapeListing(query.get('url') || '', SQUARE_YARDS_PROPERTIES)
+            const events: SSEEvent[] = scraped.map((property, index) => ({ event: 'property', data: property, id: String(index) }))
+            events.push({
+                event: 'complete',
+                data: { count: scraped.length, api_calls_made: Math.ceil(scraped.length / 5) },
+            })
+            return sseResponse(resumeAfter(events, request, query), settings, request.signal)
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/get_listing_details_magicbricks',
+        handler: ({ request, query, settings }) => {
+            const url = query.get('url') || ''
+            if (detectSourceFromUrl(url) !== 'magicbricks') {
+                return sseResponse([{ event: 'error', data: { error: 'Not a MagicBricks URL' } }], settings, request.signal)
+            }
+
+            const scraped = scrapeListing(url, MAGIC_BRICKS_PROPERTIES)
+            const events: SSEEvent[] = scraped.map((property, index) => ({ event: 'property', data: property, id: String(index) }))
+            events.push({
+                event: 'complete',
+                data: {
+                    count: scraped.length,
+                    api_calls_made: Math.ceil(scraped.length / 5),
+                    relevance_score: 7.5,
+                    relevance_reason: 'Most listings match the requested configuration and budget',
+                },
+            })
+            return sseResponse(resumeAfter(events, request, query), settings, request.signal)
+        },
+    },
+    portalStreamRoute('/api/get_listing_details_99acres', '99acres', '99acres', NINETY_NINE_ACRES_PROPERTIES),
+    portalStreamRoute('/api/get_listing_details_housing', 'housing', 'Housing', HOUSING_PROPERTIES),
+    portalStreamRoute('/api/get_listing_details_nobroker', 'nobroker', 'NoBroker', NO_BROKER_PROPERTIES),
+    portalStreamRoute('/api/get_listing_details_commonfloor', 'commonfloor', 'CommonFloor', COMMON_FLOOR_PROPERTIES),
+    {
+        method: 'GET',
+        pattern: '/api/scraped_properties/by_url',
+        handler: ({ query }) => {
+            const url = query.get('url')
+            if (!url) return errorResponse(422, 'url is required')
+            const cached = scrapeCache.get(url)
+            const info: ScrapeCacheInfo = cached
+                ? { url, cached: true, ...cached }
+                : { url, cached: false, scraped_at: null, count: 0, api_calls_made: null }
+            return json(info)
+        },
+    },
+    {
+        method: 'DELETE',
+        pattern: '/api/scraped_properties/by_url',
+        handler: ({ query }) => {
+            const url = query.get('url')
+            if (!url) return errorResponse(422, 'url is required')
+            const deleted = scrapeCache.delete(url)
+            if (deleted) rescrapeRounds.set(url, (rescrapeRounds.get(url) ?? 0) + 1)
+            return json({ success: true, deleted_count: deleted ? 1 : 0, message: `Cache cleared for ${url}` })
+        },
+    },
+
+    // -------------------------------------------------- Relevance feedback
+    {
+        method: 'POST',
+        pattern: '/api/relevance-feedback',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            if (!body.id || !body.property_url || (body.vote !== 'up' && body.vote !== 'down')) {
+                return errorResponse(422, 'id, property_url and vote (up/down) are required')
+            }
+            relevanceFeedback.set(body.id, {
+                ...(body as RelevanceFeedback),
+                matches: Array.isArray(body.matches) ? body.matches : [],
+                mismatches: Array.isArray(body.mismatches) ? body.mismatches : [],
+            })
+            return json({ success: true, id: body.id })
+        },
+    },
+    {
+        method: 'GET',
+        pattern: '/api/relevance-feedback/summary',
+        handler: () => json(summarizeFeedback([...relevanceFeedback.values()])),
+    },
+
+    // ---------------------------------------------------- Matching supply
+    {
+        method: 'POST',
+        pattern: '/api/matching-supply',
+        handler: async ({ request }) => {
+            const body = await readJson(request)
+            if (!body.lead_id || !body.whatsapp_listing_id) {
+                return errorResponse(422, 'lead_id and whatsapp_listing_id are required')
+            }
+            return json({ success: true, message: `Listing ${body.whatsapp_listing_id} added to lead ${body.lead_id}` })
+        },
+    },
+]
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+function matchRoute(method: string, path: string): { route: Route; params: Record<string, string> } | null {
+    const pathSegments = path.split('/').filter(Boolean)
+
+    for (const route of routes) {
+        if (route.method !== method) continue
+
+        const patternSegments = route.pattern.split('/').filter(Boolean)
+        if (patternSegments.length !== pathSegments.length) continue
+
+        const params: Record<string, string> = {}
+        const matched = patternSegments.every((segment, index) => {
+            if (segment.startsWith(':')) {
+                params[segment.slice(1)] = decodeURIComponent(pathSegments[index])
+                return true
+            }
+            return segment === pathSegments[index]
+        })
+        if (matched) return { route, params }
+    }
+
+    return null
+}
+
+async function handleConfigRequest(request: Request): Promise<Response> {
+    if (request.method === 'POST') {
+        return json(updateMockSettings(await readJson(request)))
+    }
+    if (request.method === 'DELETE') {
+        return json(resetMockSettings())
+    }
+    return json(getMockSettings())
+}
+
+/**
+ * Handle a request for `path` (the backend path, e.g. /api/crea/listings)
+ */
+export async function handleMockRequest(request: Request, path: string): Promise<Response> {
+    if (!MOCK_BACKEND_ENABLED) {
+        return errorResponse(404, 'Mock backend is disabled (set NEXT_PUBLIC_MOCK_BACKEND=true)')
+    }
+
+    if (path === CONFIG_PATH) {
+        return handleConfigRequest(request)
+    }
+
+    const settings = getMockSettings()
+    const query = new URL(request.url).searchParams
+    console.log(`🧪 Mock backend: ${request.method} ${path}`)
+
+    await delay(simulatedLatency(settings), request.signal)
+
+    if (settings.failPaths.some(prefix => path.startsWith(prefix)) || Math.random() < settings.errorRate) {
+        return errorResponse(settings.errorStatus, `Simulated error for ${request.method} ${path}`)
+    }
+
+    const match = matchRoute(request.method, path)
+    if (!match) {
+        return errorResponse(404, `Mock backend has no route for ${request.method} ${path}`)
+    }
+
+    return match.route.handler({ request, params: match.params, query, settings })
+}
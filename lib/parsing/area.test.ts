@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { areaValue, findArea, parseArea, ParsedArea } from './area'
+
+type Expected = Partial<Pick<ParsedArea, 'sqft' | 'maxSqft' | 'unit' | 'isRange' | 'kind' | 'confidence'>>
+
+describe('parseArea', () => {
+    it.each<[string, Expected]>([
+        ['2375 sqft', { sqft: 2375, unit: 'sqft', isRange: false, confidence: 'high' }],
+        ['1,200 Sq.Ft.', { sqft: 1200, unit: 'sqft' }],
+        ['1200Sq.Ft.', { sqft: 1200 }],
+        ['111 sq m', { sqft: 1195, unit: 'sqm', confidence: 'medium' }],
+        ['200 sq yd', { sqft: 1800, unit: 'sqyd' }],
+        ['150 gaj', { sqft: 1350, unit: 'sqyd' }],
+        ['2.5 acres', { sqft: 108900, unit: 'acre' }],
+        ['1 acre', { sqft: 43560, unit: 'acre' }],
+        // Ranges
+        ['1200-1500 sqft', { sqft: 1200, maxSqft: 1500, isRange: true }],
+        ['1,100 to 1,350 sq. ft.', { sqft: 1100, maxSqft: 1350, isRange: true }],
+        // Carpet vs super area
+        ['Carpet Area: 2000 sqft', { sqft: 2000, kind: 'carpet' }],
+        ['super built-up area 2375 sq ft', { sqft: 2375, kind: 'super' }],
+        ['Built-up 1800 sqft', { kind: 'built_up' }],
+        ['Plot 2400 sqft', { kind: 'plot' }],
+        // Bare number in an area field
+        ['1450', { sqft: 1450, unit: 'sqft', confidence: 'medium' }],
+    ])('%s', (input, expected) => {
+        expect(parseArea(input)).toMatchObject(expected)
+    })
+
+    it('uses the kind the field names', () => {
+        expect(parseArea('2000 sqft', 'carpet')).toMatchObject({ kind: 'carpet' })
+    })
+
+    it.each(['', 'Ask agent', '3 BHK'])('%j is unknown', input => {
+        expect(parseArea(input)).toBeNull()
+    })
+})
+
+describe('findArea', () => {
+    it('requires a unit in free text', () => {
+        expect(findArea('3 BHK on the 12th floor')).toBeNull()
+    })
+
+    it('prefers the requested kind when several areas are quoted', () => {
+        const text = 'Super area 2375 sqft, carpet area 1800 sqft'
+        expect(findArea(text)).toMatchObject({ sqft: 2375, kind: 'super' })
+        expect(findArea(text, 'carpet')).toMatchObject({ sqft: 1800, kind: 'carpet' })
+    })
+})
+
+describe('areaValue', () => {
+    it('returns sqft or null', () => {
+        expect(areaValue('200 sq yd')).toBe(1800)
+        expect(areaValue('On request')).toBeNull()
+    })
+})
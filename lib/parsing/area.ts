@@ -0,0 +1,157 @@
+/**
+ * Area Parsing
+ * ============
+ *
+ * Parses property areas into square feet:
+ * - "2375 sqft", "1,200 Sq.Ft.", "111 sq m", "200 sq yd", "2.5 acres"
+ * - Ranges: "1200-1500 sqft", "1,100 to 1,350 sq. ft."
+ * - Area kind: "Carpet Area: 2000 sqft", "super built-up area 2375 sq ft"
+ *
+ * Unparseable values return null - never an estimate.
+ */
+
+import type { ParseConfidence } from './price'
+
+export type AreaUnit = 'sqft' | 'sqm' | 'sqyd' | 'acre'
+
+/**
+ * Which area the number measures - listing sites quote different ones
+ * and they can differ by 25% or more for the same flat
+ */
+export type AreaKind = 'carpet' | 'built_up' | 'super' | 'plot'
+
+export interface ParsedArea {
+    /** Area in sqft - the lower bound for ranges */
+    sqft: number
+    /** Upper bound in sqft for ranges, otherwise null */
+    maxSqft: number | null
+    /** Unit the area was written in */
+    unit: AreaUnit
+    isRange: boolean
+    /** null when the text doesn't say which area it is */
+    kind: AreaKind | null
+    confidence: ParseConfidence
+    /** The matched text */
+    text: string
+}
+
+const SQFT_PER_UNIT: Record<AreaUnit, number> = {
+    sqft: 1,
+    sqm: 10.7639,
+    sqyd: 9,
+    acre: 43560,
+}
+
+const NUMBER = String.raw`\d{1,3}(?:,\d{2,3})+(?:\.\d+)?|\d+(?:\.\d+)?`
+const UNIT = String.raw`sq\.?\s*(?:ft|feet)\.?|sqft|square\s*(?:feet|foot|ft)|ft²|sq\.?\s*m(?:t|tr|eters?|etres?)?\.?|sqm|square\s*(?:meters?|metres?)|m²|sq\.?\s*(?:yd|yards?)\.?|sqyd|square\s*yards?|gaj|acres?`
+
+const AREA_PATTERN = new RegExp(
+    String.raw`(${NUMBER})\s*(?:(?:-|–|to)\s*(${NUMBER})\s*)?(${UNIT})(?![a-z])`,
+    'gi'
+)
+
+/** How far before the number to look for "carpet", "super built-up" etc. */
+const KIND_LOOKBEHIND = 30
+
+function toUnit(raw: string): AreaUnit {
+    const unit = raw.toLowerCase().replace(/\s+/g, '')
+    if (unit.includes('acre')) return 'acre'
+    if (unit.includes('yd') || unit.includes('yard') || unit === 'gaj') return 'sqyd'
+    if (/^(?:sq\.?m|squarem|m²)/.test(unit)) return 'sqm'
+    return 'sqft'
+}
+
+function kindOf(text: string): AreaKind | null {
+    if (/carpet/i.test(text)) return 'carpet'
+    if (/super/i.test(text)) return 'super'
+    if (/built[\s-]?up|builtup|saleable/i.test(text)) return 'built_up'
+    if (/plot|land|site/i.test(text)) return 'plot'
+    return null
+}
+
+function toNumber(raw: string): number {
+    return parseFloat(raw.replace(/,/g, ''))
+}
+
+function fromMatch(match: RegExpExecArray, source: string, kindHint: AreaKind | null): ParsedArea | null {
+    const [text, firstNumber, secondNumber, unitRaw] = match
+    const unit = toUnit(unitRaw)
+
+    const sqft = toNumber(firstNumber) * SQFT_PER_UNIT[unit]
+    if (!Number.isFinite(sqft) || sqft <= 0) return null
+
+    let maxSqft: number | null = null
+    if (secondNumber) {
+        maxSqft = toNumber(secondNumber) * SQFT_PER_UNIT[unit]
+        if (!Number.isFinite(maxSqft) || maxSqft < sqft) maxSqft = null
+    }
+
+    const before = source.slice(Math.max(0, match.index - KIND_LOOKBEHIND), match.index)
+
+    return {
+        sqft: Math.round(sqft),
+        maxSqft: maxSqft === null ? null : Math.round(maxSqft),
+        unit,
+        isRange: maxSqft !== null,
+        kind: kindHint ?? kindOf(before),
+        confidence: unit === 'sqft' ? 'high' : 'medium',
+        text: text.trim(),
+    }
+}
+
+/**
+ * Parse a dedicated area field ("2375 sqft", "1200Sq.Ft.")
+ * A bare number is read as sqft with medium confidence.
+ * Pass `kind` when the field itself says which area it is (e.g. carpet_area).
+ */
+export function parseArea(value: string | null | undefined, kind: AreaKind | null = null): ParsedArea | null {
+    if (!value) return null
+
+    const pattern = new RegExp(AREA_PATTERN.source, AREA_PATTERN.flags)
+    const match = pattern.exec(value)
+    if (match) return fromMatch(match, value, kind ?? kindOf(value))
+
+    const bare = value.match(new RegExp(`^\\s*(${NUMBER})\\s*$`))
+    if (!bare) return null
+
+    const sqft = toNumber(bare[1])
+    if (!Number.isFinite(sqft) || sqft <= 0) return null
+
+    return {
+        sqft: Math.round(sqft),
+        maxSqft: null,
+        unit: 'sqft',
+        isRange: false,
+        kind,
+        confidence: 'medium',
+        text: value.trim(),
+    }
+}
+
+/**
+ * Find the first area in free text - a unit is required
+ * Pass `kind` to prefer a specific area when the text quotes several.
+ */
+export function findArea(text: string | null | undefined, kind: AreaKind | null = null): ParsedArea | null {
+    if (!text) return null
+
+    const pattern = new RegExp(AREA_PATTERN.source, AREA_PATTERN.flags)
+    let first: ParsedArea | null = null
+
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+        const parsed = fromMatch(match, text, null)
+        if (!parsed) continue
+        if (!kind || parsed.kind === kind) return parsed
+        first ??= parsed
+    }
+
+    return first
+}
+
+/**
+ * Area field in sqft for sorting/filtering - null when unknown
+ */
+export function areaValue(value: string | null | undefined): number | null {
+    return parseArea(value)?.sqft ?? null
+}
@@ -0,0 +1,6 @@
+/**
+ * Parsing - Indian price and area formats into structured values
+ */
+
+export * from './price'
+export * from './area'
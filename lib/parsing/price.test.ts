@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { findPrice, parsePrice, priceValue, ParsedPrice } from './price'
+
+type Expected = Partial<Pick<ParsedPrice, 'amount' | 'max' | 'unit' | 'isRange' | 'transaction' | 'perSqft' | 'confidence'>>
+
+describe('parsePrice', () => {
+    it.each<[string, Expected]>([
+        // Lakh / crore / thousand
+        ['₹ 4.2 Cr', { amount: 42000000, unit: 'crore', isRange: false, transaction: 'sale', confidence: 'high' }],
+        ['5.34 Crore', { amount: 53400000, unit: 'crore' }],
+        ['₹50 L', { amount: 5000000, unit: 'lakh', confidence: 'high' }],
+        ['85L', { amount: 8500000, unit: 'lakh', confidence: 'high' }],
+        ['85 Lacs', { amount: 8500000, unit: 'lakh' }],
+        ['45k', { amount: 45000, unit: 'thousand' }],
+        ['1,20,000', { amount: 120000, unit: 'rupee', confidence: 'medium' }],
+        ['Rs. 75,00,000', { amount: 7500000, unit: 'rupee', confidence: 'high' }],
+        // Ranges
+        ['1.2-1.5 Cr', { amount: 12000000, max: 15000000, unit: 'crore', isRange: true }],
+        ['₹80 L - 1.1 Cr', { amount: 8000000, max: 11000000, isRange: true }],
+        ['40 to 45k', { amount: 40000, max: 45000, isRange: true }],
+        // Rent
+        ['45k/month', { amount: 45000, transaction: 'rent', perSqft: false }],
+        ['₹35,000 per month', { amount: 35000, transaction: 'rent' }],
+        ['Rent: 40000', { amount: 40000, transaction: 'rent' }],
+        // Per sqft
+        ['₹22526 per sqft', { amount: 22526, perSqft: true, transaction: null }],
+        ['@ 9,500/sq.ft', { amount: 9500, perSqft: true }],
+        ['12000 psf', { amount: 12000, perSqft: true }],
+        // Unit-qualified amounts beat bedroom counts and areas
+        ['3 BHK for 1.2 Cr', { amount: 12000000, unit: 'crore', confidence: 'high' }],
+        ['2BHK 1200 sqft 85 L', { amount: 8500000, unit: 'lakh' }],
+    ])('%s', (input, expected) => {
+        expect(parsePrice(input)).toMatchObject(expected)
+    })
+
+    it.each(['Price on request', 'Call for price', '', '3 BHK', '1200 sqft'])('%j is unknown', input => {
+        expect(parsePrice(input)).toBeNull()
+    })
+
+    it('treats null and undefined as unknown', () => {
+        expect(parsePrice(null)).toBeNull()
+        expect(parsePrice(undefined)).toBeNull()
+    })
+})
+
+describe('findPrice', () => {
+    it('ignores bare numbers in free text', () => {
+        expect(findPrice('3 BHK in Whitefield, 2024 built')).toBeNull()
+    })
+
+    it('finds a unit-qualified price in free text with low confidence', () => {
+        expect(findPrice('3 BHK flat, 1650 sqft, asking 1.45 Cr')).toMatchObject({ amount: 14500000, confidence: 'low' })
+    })
+
+    it('prefers a total price over a per-sqft rate', () => {
+        expect(findPrice('₹9,500/sqft, total ₹1.2 Cr')).toMatchObject({ amount: 12000000, perSqft: false })
+    })
+
+    it('falls back to a per-sqft rate when nothing else is there', () => {
+        expect(findPrice('Rate ₹9,500 per sqft')).toMatchObject({ amount: 9500, perSqft: true })
+    })
+})
+
+describe('priceValue', () => {
+    it('returns totals and leaves rates and unknowns out', () => {
+        expect(priceValue('1.2 Cr')).toBe(12000000)
+        expect(priceValue('₹22526 per sqft')).toBeNull()
+        expect(priceValue('Price on request')).toBeNull()
+    })
+})
@@ -0,0 +1,190 @@
+/**
+ * Indian Price Parsing
+ * ====================
+ *
+ * Parses the price formats listing sites and brokers use:
+ * - "₹ 4.2 Cr", "5.34 Crore", "₹50 L", "85L", "85 Lacs", "1,20,000"
+ * - Ranges: "1.2-1.5 Cr", "₹80 L - 1.1 Cr", "40 to 45k"
+ * - Rent: "45k/month", "₹35,000 per month", "Rent: 40000"
+ * - Per sqft: "₹22526 per sqft", "@ 9,500/sq.ft"
+ *
+ * Anything that isn't a price ("Price on request", "Call for price", "")
+ * parses to null - callers should show it as unknown, never as 0.
+ */
+
+export type PriceUnit = 'rupee' | 'thousand' | 'lakh' | 'crore'
+
+/**
+ * high   - explicit unit or currency marker in a dedicated price field
+ * medium - bare number in a price field, or currency + unit found in free text
+ * low    - found in free text with only a unit (e.g. "85L" in a search snippet)
+ */
+export type ParseConfidence = 'high' | 'medium' | 'low'
+
+export interface ParsedPrice {
+    /** Amount in rupees - the lower bound for ranges */
+    amount: number
+    /** Upper bound in rupees for ranges, otherwise null */
+    max: number | null
+    /** Unit the amount was written in */
+    unit: PriceUnit
+    isRange: boolean
+    /** Only set when the text says so (or the unit makes it certain) */
+    transaction: 'sale' | 'rent' | null
+    /** Rate per square foot rather than a total price */
+    perSqft: boolean
+    confidence: ParseConfidence
+    /** The matched text */
+    text: string
+}
+
+const UNIT_MULTIPLIERS: Record<PriceUnit, number> = {
+    rupee: 1,
+    thousand: 1000,
+    lakh: 100000,
+    crore: 10000000,
+}
+
+// Indian grouping ("1,20,000") or plain decimals
+const NUMBER = String.raw`\d{1,3}(?:,\d{2,3})+(?:\.\d+)?|\d+(?:\.\d+)?`
+// Longest alternatives first; a unit must not run into another word ("5 lifts")
+const UNIT = String.raw`crores?|cr|lakhs?|lacs?|lac|lkh|l|thousand|k`
+// "rs" only as a word of its own - not the end of "floors"
+const CURRENCY = String.raw`₹|(?<![a-z])(?:rs\.?|inr)`
+const AMOUNT = String.raw`(${NUMBER})\s*(?:(${UNIT})(?![a-z]))?`
+
+const PRICE_PATTERN = new RegExp(
+    String.raw`(${CURRENCY})?\s*${AMOUNT}(?:\s*(?:-|–|to)\s*(${CURRENCY})?\s*${AMOUNT})?`,
+    'gi'
+)
+
+const PER_SQFT_PATTERN = /^\s*(?:\/|per|a)\s*(?:sq\.?\s*(?:ft|feet)|sqft|square\s*(?:feet|foot))|^\s*psf\b/i
+const PER_MONTH_PATTERN = /^\s*(?:\/|per|a)\s*(?:month|mon|mo)\b|^\s*(?:p\.?\s?m\.?|monthly)(?![a-z])/i
+// A number that counts bedrooms or measures area ("3 BHK", "1200 sqft") is never a price
+const NOT_A_PRICE_SUFFIX = /^\s*(?:bhk|rk|beds?|bedrooms?|br|sq\.?\s*(?:ft|feet|m|yd)|sqft|sqm|sqyd|square|acres?|gaj)(?![a-z])/i
+const RENT_WORDS = /\b(?:rent(?:al)?|lease|per\s+month|monthly|deposit)\b/i
+const SALE_WORDS = /\b(?:for\s+sale|resale|sale|sell|buy)\b/i
+
+function toUnit(raw: string | undefined): PriceUnit | null {
+    if (!raw) return null
+    const unit = raw.toLowerCase()
+    if (unit.startsWith('cr')) return 'crore'
+    if (unit.startsWith('l')) return 'lakh'
+    if (unit === 'k' || unit === 'thousand') return 'thousand'
+    return null
+}
+
+function toNumber(raw: string): number {
+    return parseFloat(raw.replace(/,/g, ''))
+}
+
+/**
+ * Interpret one regex match; null when it isn't a usable price
+ */
+function fromMatch(match: RegExpExecArray, source: string, inFreeText: boolean): ParsedPrice | null {
+    const [text, currency, firstNumber, firstUnitRaw, secondCurrency, secondNumber, secondUnitRaw] = match
+    const hasCurrency = Boolean(currency || secondCurrency)
+
+    // "1.2-1.5 Cr": the first number takes the unit of the second
+    const secondUnit = toUnit(secondUnitRaw)
+    const firstUnit = toUnit(firstUnitRaw) ?? (secondNumber ? secondUnit : null)
+    const unit = firstUnit ?? 'rupee'
+
+    // In free text a bare number ("3 BHK", "2024") is not a price
+    if (inFreeText && !hasCurrency && !firstUnit) return null
+
+    const amount = toNumber(firstNumber) * UNIT_MULTIPLIERS[unit]
+    if (!Number.isFinite(amount) || amount <= 0) return null
+
+    let max: number | null = null
+    if (secondNumber) {
+        max = toNumber(secondNumber) * UNIT_MULTIPLIERS[secondUnit ?? unit]
+        if (!Number.isFinite(max) || max < amount) max = null
+    }
+
+    const after = source.slice(match.index + text.length)
+    const perSqft = PER_SQFT_PATTERN.test(after)
+    const perMonth = !perSqft && PER_MONTH_PATTERN.test(after)
+
+    // Text mentioning both rent and sale stays unknown unless the price itself says
+    const saysRent = RENT_WORDS.test(source)
+    const saysSale = SALE_WORDS.test(source)
+    let transaction: ParsedPrice['transaction'] = null
+    if (perMonth || (saysRent && !saysSale)) {
+        transaction = 'rent'
+    } else if ((saysSale && !saysRent) || (!perSqft && unit === 'crore')) {
+        transaction = 'sale'
+    }
+
+    const confidence: ParseConfidence = inFreeText
+        ? (hasCurrency || perMonth || perSqft ? 'medium' : 'low')
+        : (hasCurrency || firstUnit || perMonth || perSqft ? 'high' : 'medium')
+
+    return {
+        amount: Math.round(amount),
+        max: max === null ? null : Math.round(max),
+        unit,
+        isRange: max !== null,
+        transaction,
+        perSqft,
+        confidence,
+        text: text.trim(),
+    }
+}
+
+/**
+ * Parse a dedicated price field ("₹ 4.2 Cr", "45,000", "Price on request")
+ * An amount with a currency, unit or rate ("1.2 Cr", "/month") wins over a
+ * bare number anywhere in the field ("3 BHK for 1.2 Cr" is 1.2 Cr); a bare
+ * number is read as rupees only when nothing better is there.
+ * Returns null when there is no price.
+ */
+export function parsePrice(value: string | null | undefined): ParsedPrice | null {
+    if (!value) return null
+
+    const pattern = new RegExp(PRICE_PATTERN.source, PRICE_PATTERN.flags)
+    let bareFallback: ParsedPrice | null = null
+
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(value)) !== null) {
+        if (NOT_A_PRICE_SUFFIX.test(value.slice(match.index + match[0].length))) continue
+
+        const parsed = fromMatch(match, value, false)
+        if (!parsed) continue
+        // High confidence in a price field means a currency, unit or rate was written
+        if (parsed.confidence === 'high') return parsed
+        bareFallback ??= parsed
+    }
+
+    return bareFallback
+}
+
+/**
+ * Find the first total price in free text (titles, snippets, descriptions)
+ * Bare numbers are ignored - a currency marker or unit is required.
+ * Per-sqft rates are skipped unless nothing else is found.
+ */
+export function findPrice(text: string | null | undefined): ParsedPrice | null {
+    if (!text) return null
+
+    let perSqftFallback: ParsedPrice | null = null
+    const pattern = new RegExp(PRICE_PATTERN.source, PRICE_PATTERN.flags)
+
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+        const parsed = fromMatch(match, text, true)
+        if (!parsed) continue
+        if (!parsed.perSqft) return parsed
+        perSqftFallback ??= parsed
+    }
+
+    return perSqftFallback
+}
+
+/**
+ * Price field as a number for sorting/filtering - null when unknown
+ */
+export function priceValue(value: string | null | undefined): number | null {
+    const parsed = parsePrice(value)
+    return parsed && !parsed.perSqft ? parsed.amount : null
+}
@@ -80,3 +80,62 @@ Now optimize this query:
 
 Return ONLY the optimized query, nothing else.`
 
+
+/**
+ * JSON-mode prompt: the structured intent behind a query
+ * Shape must match SearchIntent (lib/services/query-optimizer.service.ts)
+ */
+export const SEARCH_INTENT_PROMPT = (userQuery: string) => `You are a real estate search assistant for property searches in India.
+
+Extract the structured search intent from this user query.
+
+**USER QUERY:** "${userQuery}"
+
+Return a JSON object with exactly these fields:
+
+{
+  "transaction": "sale" | "rent" | null,
+  "property_type": "apartment" | "villa" | "independent_house" | "plot" | "office" | "retail" | "warehouse" | "pg_hostel" | "farmhouse" | null,
+  "bedrooms": number | null,
+  "area_sqft": { "min": number | null, "max": number | null } | null,
+  "budget_inr": { "min": number | null, "max": number | null } | null,
+  "localities": string[],
+  "city": string | null,
+  "keywords": string[]
+}
+
+**RULES:**
+
+1. **Ranges** - apply the same widening as the query optimizer:
+   - Single area (e.g., "2000 sqft") → ±25%: { "min": 1500, "max": 2500 }
+   - Single price (e.g., "5 crore") → -40% lower bound: { "min": 30000000, "max": 50000000 }
+   - "under X" → { "min": null, "max": X }; "above X" → { "min": X, "max": null }
+   - Ranges already given are kept as-is
+
+2. **Budget** is always in rupees (1 lakh = 100000, 1 crore = 10000000).
+   For rentals it is the monthly rent. If the budget is given per sq ft and an area
+   is known, multiply to get the total budget.
+
+3. **Transaction:** "rent", "lease", "per month" → "rent"; "buy", "sale" → "sale".
+   Without those words use the budget: crores/lakhs → "sale", plain amounts under 5 lakh → "rent".
+   No words and no budget → null.
+
+4. **Localities:** neighbourhood names as written (e.g., "Indiranagar", "HSR Layout").
+   **City:** only if stated or implied by a well-known locality (e.g., "Indiranagar" → "Bangalore").
+
+5. **Keywords:** other requirements, e.g. "furnished", "gated community", "ground floor".
+
+6. Use null (or [] for lists) for anything the query doesn't say. Never invent values.
+
+**EXAMPLES:**
+
+Input: "4BHK 2000 square feet Indiranagar 5 crore"
+Output: {"transaction":"sale","property_type":"apartment","bedrooms":4,"area_sqft":{"min":1500,"max":2500},"budget_inr":{"min":30000000,"max":50000000},"localities":["Indiranagar"],"city":"Bangalore","keywords":[]}
+
+Input: "3BHK Whitefield under 40000"
+Output: {"transaction":"rent","property_type":"apartment","bedrooms":3,"area_sqft":null,"budget_inr":{"min":null,"max":40000},"localities":["Whitefield"],"city":"Bangalore","keywords":[]}
+
+Input: "furnished villa in Sarjapur"
+Output: {"transaction":null,"property_type":"villa","bedrooms":null,"area_sqft":null,"budget_inr":null,"localities":["Sarjapur"],"city":"Bangalore","keywords":["furnished"]}
+
+Return ONLY the JSON object.`
@@ -0,0 +1,29 @@
+/**
+ * Search providers - registry, built-in providers and multi-provider fan-out
+ */
+
+import { SearchProviderRegistry } from './registry'
+import {
+    tavilySearchProvider,
+    serpApiSearchProvider,
+    openAiSearchProvider,
+    geminiSearchProvider,
+} from './providers'
+
+export * from './search-provider.types'
+export * from './registry'
+export * from './providers'
+
+/**
+ * Provider used when the search params don't name one
+ */
+export const DEFAULT_SEARCH_PROVIDER = 'tavily'
+
+/**
+ * App-wide registry - register new providers here
+ */
+export const searchProviders = new SearchProviderRegistry()
+    .register(tavilySearchProvider)
+    .register(serpApiSearchProvider)
+    .register(openAiSearchProvider)
+    .register(geminiSearchProvider)
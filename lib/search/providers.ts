@@ -0,0 +1,163 @@
+/**
+ * Built-in Search Providers
+ * =========================
+ *
+ * - tavily:          Query optimizer → Tavily search (app/api/search/tavily)
+ * - google_serpapi:  Google results via SerpAPI (app/api/search/serp)
+ * - openai / gemini: Python backend (FastAPI + LangChain) /api/property-search
+ *
+ * All of them call our own routes or the backend through the service
+ * clients, so they work the same from server components and the browser.
+ */
+
+import {
+    PropertySearchService,
+    PropertyResult,
+    QueryOptimizerService,
+    SerpPropertySearchService,
+    TavilyPropertySearchService,
+    TavilySearchResult,
+    ServiceCallOptions,
+} from '@/lib/services'
+import { parsePrice, findPrice, findArea } from '@/lib/parsing'
+import type { ProviderSearchResult, SearchProvider, SearchProviderRequest } from './search-provider.types'
+
+/**
+ * Placeholder image for results without one
+ */
+function placeholderImage(index: number): string {
+    return `https://images.unsplash.com/photo-1600585154340-be6161a56a0c?w=400&sig=${index}`
+}
+
+/**
+ * Site name from a URL ("https://www.magicbricks.com/..." → "magicbricks")
+ */
+function siteOf(url: string | null | undefined): string | undefined {
+    if (!url) return undefined
+    try {
+        return new URL(url).hostname.replace(/^www\./, '').split('.')[0]
+    } catch {
+        return undefined
+    }
+}
+
+function bedroomsIn(text: string | null | undefined): number | null {
+    const match = text?.match(/(\d+)\s*BHK/i)
+    return match ? parseInt(match[1]) : null
+}
+
+// ============================================================================
+// Tavily
+// ============================================================================
+
+function fromTavilyResult(result: TavilySearchResult, index: number): ProviderSearchResult {
+    const price = findPrice(result.content) ?? findPrice(result.title)
+    const totalPrice = price && !price.perSqft ? price : null
+
+    return {
+        id: result.url || `tavily-${index}`,
+        title: result.title,
+        location: '',
+        price: totalPrice?.amount ?? null,
+        priceMax: totalPrice?.max ?? null,
+        bedrooms: bedroomsIn(result.title) ?? bedroomsIn(result.content),
+        bathrooms: null,
+        area: findArea(result.content)?.sqft ?? null,
+        imageUrl: placeholderImage(index),
+        description: result.content,
+        propertyFor: price?.transaction ?? undefined,
+        url: result.url,
+        source: siteOf(result.url),
+        score: result.score ?? null,
+        rawContent: result.rawContent,
+    }
+}
+
+export const tavilySearchProvider: SearchProvider = {
+    id: 'tavily',
+    label: 'Tavily',
+    async search(request: SearchProviderRequest, options: ServiceCallOptions = {}) {
+        // Optimize query using Gemini (falls back to the original query)
+        const { optimized_query, intent } = await QueryOptimizerService.optimizeWithIntent(request.query, options)
+        const results = await TavilyPropertySearchService.search(optimized_query, request.sources, options)
+
+        return {
+            results: results.map(fromTavilyResult),
+            effectiveQuery: optimized_query,
+            intent,
+        }
+    },
+}
+
+// ============================================================================
+// SerpAPI
+// ============================================================================
+
+export const serpApiSearchProvider: SearchProvider = {
+    id: 'google_serpapi',
+    label: 'Google (SerpAPI)',
+    async search(request: SearchProviderRequest, options: ServiceCallOptions = {}) {
+        const properties = await SerpPropertySearchService.search({
+            query: request.query,
+            sources: request.sources,
+            provider: 'serpapi',
+        }, options)
+
+        return {
+            results: properties.map(property => ({ ...property, score: null })),
+            effectiveQuery: null,
+        }
+    },
+}
+
+// ============================================================================
+// Python backend (openai, gemini)
+// ============================================================================
+
+function fromBackendResult(result: PropertyResult, index: number): ProviderSearchResult {
+    // Prefer the backend's price field, then anything quoted in the snippet
+    const parsedPrice = parsePrice(result.price) ?? findPrice(result.snippet)
+    const price = parsedPrice && !parsedPrice.perSqft ? parsedPrice : null
+
+    return {
+        id: result.url || `property-${index}-${Date.now()}`,
+        title: result.title,
+        location: result.location || 'Location not specified',
+        price: price?.amount ?? null,
+        priceMax: price?.max ?? null,
+        bedrooms: bedroomsIn(result.property_type),
+        bathrooms: null,
+        area: findArea(result.snippet)?.sqft ?? null,
+        imageUrl: placeholderImage(index),
+        description: result.snippet || 'No description available',
+        propertyFor: parsedPrice?.transaction ?? undefined,
+        url: result.url,
+        source: result.source,
+        score: null,
+    }
+}
+
+/**
+ * Provider backed by the Python backend with the given LLM
+ */
+export function createBackendSearchProvider(id: string, label: string): SearchProvider {
+    return {
+        id,
+        label,
+        async search(request: SearchProviderRequest, options: ServiceCallOptions = {}) {
+            const response = await PropertySearchService.search({
+                query: request.query,
+                sources: request.sources,
+                provider: id,
+            }, options)
+
+            return {
+                results: response.results.map(fromBackendResult),
+                effectiveQuery: null,
+            }
+        },
+    }
+}
+
+export const openAiSearchProvider = createBackendSearchProvider('openai', 'OpenAI (backend)')
+export const geminiSearchProvider = createBackendSearchProvider('gemini', 'Gemini (backend)')
@@ -0,0 +1,170 @@
+/**
+ * Search Provider Registry
+ * ========================
+ *
+ * Providers register once; a search names the providers to use
+ * ("tavily,google_serpapi") and fans out to all of them in parallel.
+ * Results are merged, deduped by URL and tagged with the providers that
+ * found them. A failing provider doesn't fail the search - its error is
+ * reported in the outcomes alongside the other providers' results.
+ */
+
+import type { ServiceCallOptions } from '@/lib/services/http-client'
+import type {
+    ProviderSearchResult,
+    SearchFanOutResult,
+    SearchProvider,
+    SearchProviderOutcome,
+    SearchProviderRequest,
+    SearchResult,
+} from './search-provider.types'
+
+/**
+ * Query params that don't identify a listing
+ */
+const TRACKING_PARAMS = /^(?:utm_\w+|gclid|fbclid|ref|source)$/i
+
+/**
+ * Dedupe key for a URL: lowercase host without www, no hash, no tracking
+ * params, no trailing slash. Unparseable URLs are compared as-is.
+ */
+export function normalizeResultUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim())
+        const host = parsed.hostname.toLowerCase().replace(/^www\./, '')
+        const params = [...parsed.searchParams.entries()]
+            .filter(([key]) => !TRACKING_PARAMS.test(key))
+            .sort(([a], [b]) => a.localeCompare(b))
+        const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : ''
+        const path = parsed.pathname.replace(/\/+$/, '')
+        return `${host}${path}${query}`
+    } catch {
+        return url.trim()
+    }
+}
+
+/**
+ * Merge per-provider result lists
+ *
+ * Results are interleaved by rank (each provider's #1, then each #2, ...)
+ * so no provider buries the others. When two providers return the same URL
+ * the first copy is kept, missing fields are filled from the later one and
+ * the higher score wins.
+ */
+export function mergeSearchResults(
+    batches: Array<{ provider: string; results: ProviderSearchResult[] }>
+): SearchResult[] {
+    const merged = new Map<string, SearchResult>()
+    const longest = Math.max(0, ...batches.map(batch => batch.results.length))
+
+    for (let rank = 0; rank < longest; rank++) {
+        for (const { provider, results } of batches) {
+            const result = results[rank]
+            if (!result) continue
+
+            const key = result.url ? normalizeResultUrl(result.url) : `${provider}:${result.id}`
+            const existing = merged.get(key)
+
+            if (!existing) {
+                merged.set(key, { ...result, providers: [provider] })
+                continue
+            }
+
+            if (!existing.providers.includes(provider)) existing.providers.push(provider)
+            existing.price ??= result.price
+            existing.priceMax ??= result.priceMax
+            existing.bedrooms ??= result.bedrooms
+            existing.bathrooms ??= result.bathrooms
+            existing.area ??= result.area
+            existing.propertyFor ??= result.propertyFor
+            existing.source ??= result.source
+            existing.rawContent ??= result.rawContent
+            if (!existing.location) existing.location = result.location
+            if (result.score !== null && (existing.score === null || result.score > existing.score)) {
+                existing.score = result.score
+            }
+        }
+    }
+
+    return [...merged.values()]
+}
+
+export class SearchProviderRegistry {
+    private providers = new Map<string, SearchProvider>()
+
+    /**
+     * Register a provider (replaces one with the same id)
+     */
+    register(provider: SearchProvider): this {
+        this.providers.set(provider.id, provider)
+        return this
+    }
+
+    get(id: string): SearchProvider | undefined {
+        return this.providers.get(id)
+    }
+
+    list(): SearchProvider[] {
+        return [...this.providers.values()]
+    }
+
+    /**
+     * Providers for a comma-separated id list - unknown ids are skipped
+     */
+    resolve(ids: string | string[]): SearchProvider[] {
+        const list = Array.isArray(ids) ? ids : ids.split(',')
+        const resolved: SearchProvider[] = []
+
+        for (const id of list.map(value => value.trim()).filter(Boolean)) {
+            const provider = this.providers.get(id)
+            if (!provider) {
+                console.warn(`⚠️ Unknown search provider "${id}" - skipping`)
+                continue
+            }
+            if (!resolved.includes(provider)) resolved.push(provider)
+        }
+
+        return resolved
+    }
+
+    /**
+     * Query every named provider in parallel and merge the results
+     */
+    async search(
+        request: SearchProviderRequest,
+        providerIds: string | string[],
+        options: ServiceCallOptions = {}
+    ): Promise<SearchFanOutResult> {
+        const providers = this.resolve(providerIds)
+        console.log('🔀 Searching providers:', providers.map(provider => provider.id))
+
+        const settled = await Promise.all(providers.map(async provider => {
+            const startedAt = Date.now()
+            try {
+                const response = await provider.search(request, options)
+                return { provider, response, error: null, durationMs: Date.now() - startedAt }
+            } catch (error: any) {
+                console.error(`❌ Search provider "${provider.id}" failed:`, error.message)
+                return { provider, response: null, error: error.message || 'Search failed', durationMs: Date.now() - startedAt }
+            }
+        }))
+
+        const outcomes: SearchProviderOutcome[] = settled.map(({ provider, response, error, durationMs }) => ({
+            provider: provider.id,
+            label: provider.label,
+            count: response?.results.length ?? 0,
+            effectiveQuery: response?.effectiveQuery ?? null,
+            intent: response?.intent ?? null,
+            error,
+            durationMs,
+        }))
+
+        const results = mergeSearchResults(settled.map(({ provider, response }) => ({
+            provider: provider.id,
+            results: response?.results ?? [],
+        })))
+
+        console.log(`✅ Fan-out complete: ${results.length} merged results from ${providers.length} providers`)
+        return { results, outcomes }
+    }
+}
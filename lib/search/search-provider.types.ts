@@ -0,0 +1,71 @@
+/**
+ * Search Provider Types
+ * =====================
+ *
+ * Every search backend (Tavily, SerpAPI, the Python backend's LLM providers,
+ * and whatever comes next) implements SearchProvider and returns results in
+ * one shape, so a query can fan out to several providers and the results can
+ * be merged.
+ */
+
+import type { ServiceCallOptions } from '@/lib/services/http-client'
+import type { SerpProperty } from '@/lib/services/serp-property-search.service'
+import type { SearchIntent } from '@/lib/services/query-optimizer.service'
+
+export interface SearchProviderRequest {
+    query: string
+    /** Comma-separated site list ("magicbricks,squareyards") - empty for all sites */
+    sources: string
+}
+
+/**
+ * A search result in ResultCard shape, plus the provider's relevance score
+ */
+export interface ProviderSearchResult extends SerpProperty {
+    /** Provider relevance score when it gives one (Tavily: 0-1) */
+    score: number | null
+    /** Full page content, when the provider returns it */
+    rawContent?: string
+}
+
+/**
+ * A merged result, tagged with every provider that found it
+ */
+export interface SearchResult extends ProviderSearchResult {
+    /** Provider ids, in the order the providers were queried */
+    providers: string[]
+}
+
+export interface SearchProviderResponse {
+    results: ProviderSearchResult[]
+    /** The query actually sent, when the provider rewrote it (e.g. Tavily's optimizer) */
+    effectiveQuery: string | null
+    /** Structured intent, when the provider worked one out */
+    intent?: SearchIntent | null
+}
+
+export interface SearchProvider {
+    /** Value used in the `provider` search param (e.g. "tavily", "google_serpapi") */
+    id: string
+    label: string
+    search(request: SearchProviderRequest, options?: ServiceCallOptions): Promise<SearchProviderResponse>
+}
+
+/**
+ * How one provider did in a fan-out
+ */
+export interface SearchProviderOutcome {
+    provider: string
+    label: string
+    count: number
+    effectiveQuery: string | null
+    intent: SearchIntent | null
+    /** Error message when the provider failed - the other providers' results are still returned */
+    error: string | null
+    durationMs: number
+}
+
+export interface SearchFanOutResult {
+    results: SearchResult[]
+    outcomes: SearchProviderOutcome[]
+}
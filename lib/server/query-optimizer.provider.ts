@@ -0,0 +1,115 @@
+/**
+ * Query Optimizer Provider - Gemini (Server Only)
+ * ===============================================
+ *
+ * Calls Gemini to turn absolute property queries into range queries
+ * (see QueryOptimizerService for the transformation rules). Used by
+ * app/api/search/optimize-query - the API key never leaves the server.
+ * Both methods return null on failure so the route can fall back to the
+ * local rules.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { unstable_cache } from 'next/cache'
+import { QUERY_OPTIMIZATION_PROMPT, SEARCH_INTENT_PROMPT } from '@/lib/prompts/query-optimizer.prompts'
+import type { SearchIntent } from '@/lib/services/query-optimizer.service'
+import { validateRecord, SEARCH_INTENT_SCHEMA } from '@/lib/validation'
+
+const API_KEY = process.env.GOOGLE_AI_API_KEY
+
+/**
+ * Internal function to call Gemini (no caching)
+ * JSON mode constrains the response to a JSON document
+ */
+async function _callGemini(prompt: string, json = false): Promise<string> {
+    const gemini = new GoogleGenerativeAI(API_KEY!)
+    const model = gemini.getGenerativeModel({
+        model: 'gemini-2.0-flash-exp',
+        ...(json && { generationConfig: { responseMimeType: 'application/json' } }),
+    })
+
+    const result = await model.generateContent(prompt)
+    return result.response.text().trim()
+}
+
+/**
+ * Cached Gemini call - the same query always optimizes the same way
+ */
+const cachedOptimize = unstable_cache(
+    async (userQuery: string) => {
+        return await _callGemini(QUERY_OPTIMIZATION_PROMPT(userQuery))
+    },
+    ['query-optimizer'], // Cache key prefix
+    {
+        tags: ['gemini', 'query-optimizer'],
+        revalidate: 3600, // Revalidate after 1 hour (3600 seconds)
+    }
+)
+
+/**
+ * Cached intent extraction (raw JSON text - parsed and validated by the caller)
+ */
+const cachedIntent = unstable_cache(
+    async (userQuery: string) => {
+        return await _callGemini(SEARCH_INTENT_PROMPT(userQuery), true)
+    },
+    ['query-intent'], // Cache key prefix
+    {
+        tags: ['gemini', 'query-optimizer'],
+        revalidate: 3600, // Revalidate after 1 hour (3600 seconds)
+    }
+)
+
+export class QueryOptimizerProvider {
+    private optimizerId: string
+
+    constructor() {
+        this.optimizerId = `optimizer-${Date.now()}-${Math.random().toString(36).substring(7)}`
+
+        if (!API_KEY) {
+            throw new Error('GOOGLE_AI_API_KEY not configured')
+        }
+
+        console.log(`[QueryOptimizer:${this.optimizerId}] 🚀 Initialized with Gemini`)
+    }
+
+    /**
+     * Optimize user query by converting absolute values to ranges
+     * Returns null when Gemini fails
+     */
+    async optimize(userQuery: string): Promise<string | null> {
+        console.log(`[QueryOptimizer:${this.optimizerId}] 🔍 Optimizing query:`, userQuery)
+
+        try {
+            console.log(`[QueryOptimizer:${this.optimizerId}] 🌐 Calling Gemini for optimization`)
+            const optimizedQuery = await cachedOptimize(userQuery)
+
+            console.log(`[QueryOptimizer:${this.optimizerId}] ✅ Optimized query:`, optimizedQuery)
+            return optimizedQuery
+
+        } catch (error: any) {
+            console.error(`[QueryOptimizer:${this.optimizerId}] ❌ Error:`, error.message)
+            return null
+        }
+    }
+
+    /**
+     * Extract the structured intent behind a query
+     * Returns null when Gemini fails or returns something unusable
+     */
+    async extractIntent(userQuery: string): Promise<SearchIntent | null> {
+        console.log(`[QueryOptimizer:${this.optimizerId}] 🧭 Extracting intent:`, userQuery)
+
+        try {
+            const raw = await cachedIntent(userQuery)
+            const intent = validateRecord<SearchIntent>(SEARCH_INTENT_SCHEMA, JSON.parse(raw), 'gemini:search-intent')
+
+            console.log(`[QueryOptimizer:${this.optimizerId}] ✅ Intent:`, intent)
+            return intent
+
+        } catch (error: any) {
+            console.error(`[QueryOptimizer:${this.optimizerId}] ❌ Intent extraction failed:`, error.message)
+            return null
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { RateLimiter, clientIpFromHeaders } from './rate-limit'
+
+describe('clientIpFromHeaders', () => {
+    it.each<[Record<string, string>, number, string]>([
+        // The trusted proxy appends the real peer after whatever the caller sent
+        [{ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }, 1, '203.0.113.7'],
+        [{ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.2' }, 2, '203.0.113.7'],
+        [{ 'x-forwarded-for': '203.0.113.7' }, 1, '203.0.113.7'],
+        // Fewer entries than hops - the leftmost is as far out as it goes
+        [{ 'x-forwarded-for': '203.0.113.7' }, 3, '203.0.113.7'],
+        // No trusted proxy - x-forwarded-for is ignored
+        [{ 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '203.0.113.7' }, 0, '203.0.113.7'],
+        [{ 'x-real-ip': '203.0.113.7' }, 1, '203.0.113.7'],
+        [{ 'x-forwarded-for': ' , ' }, 1, 'unknown'],
+        [{}, 1, 'unknown'],
+    ])('%j with %i hop(s) -> %s', (headers, hops, ip) => {
+        expect(clientIpFromHeaders(new Headers(headers), hops)).toBe(ip)
+    })
+})
+
+describe('RateLimiter', () => {
+    it('allows up to the limit per key', () => {
+        const limiter = new RateLimiter({ limit: 2, windowMs: 60000 })
+        expect(limiter.check('a').allowed).toBe(true)
+        expect(limiter.check('a').allowed).toBe(true)
+        expect(limiter.check('a')).toMatchObject({ allowed: false, remaining: 0 })
+        expect(limiter.check('b').allowed).toBe(true)
+    })
+})
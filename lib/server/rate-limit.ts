@@ -0,0 +1,98 @@
+/**
+ * Rate Limiter - Server Only
+ * ==========================
+ *
+ * Fixed-window, per-key (client IP) request limiter for the route handlers
+ * that call paid third-party APIs. State is in-memory, so limits apply per
+ * server instance - enough to stop a single client from burning API credits.
+ */
+
+export interface RateLimitOptions {
+    /** Requests allowed per window */
+    limit: number
+    /** Window length in ms */
+    windowMs: number
+}
+
+export interface RateLimitResult {
+    allowed: boolean
+    remaining: number
+    /** Seconds until the window resets */
+    retryAfterSeconds: number
+}
+
+interface RateLimitWindow {
+    count: number
+    resetAt: number
+}
+
+// Expired windows are swept once this many keys are tracked
+const MAX_TRACKED_KEYS = 5000
+
+export class RateLimiter {
+    private windows = new Map<string, RateLimitWindow>()
+
+    constructor(private readonly options: RateLimitOptions) { }
+
+    /**
+     * Count a request for `key` and report whether it is within the limit
+     */
+    check(key: string): RateLimitResult {
+        const now = Date.now()
+
+        if (this.windows.size > MAX_TRACKED_KEYS) {
+            this.windows.forEach((window, windowKey) => {
+                if (window.resetAt <= now) this.windows.delete(windowKey)
+            })
+        }
+
+        let window = this.windows.get(key)
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + this.options.windowMs }
+            this.windows.set(key, window)
+        }
+
+        window.count++
+        return {
+            allowed: window.count <= this.options.limit,
+            remaining: Math.max(0, this.options.limit - window.count),
+            retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+        }
+    }
+}
+
+/**
+ * Proxies in front of the app that append to x-forwarded-for (TRUSTED_PROXY_HOPS,
+ * default 1). Entries left of those are whatever the caller sent, so the
+ * client IP is the one the outermost trusted proxy added. 0 ignores the header.
+ */
+const TRUSTED_PROXY_HOPS = parseTrustedProxyHops(process.env.TRUSTED_PROXY_HOPS)
+
+function parseTrustedProxyHops(value: string | undefined): number {
+    const hops = Number.parseInt(value ?? '', 10)
+    return Number.isInteger(hops) && hops >= 0 ? hops : 1
+}
+
+/**
+ * Client IP from request headers - x-forwarded-for as written by the trusted
+ * proxies, then x-real-ip (which proxies overwrite rather than append to)
+ */
+export function clientIpFromHeaders(headers: Pick<Headers, 'get'>, trustedHops: number = TRUSTED_PROXY_HOPS): string {
+    const forwardedFor = headers.get('x-forwarded-for')
+    if (forwardedFor && trustedHops > 0) {
+        const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean)
+        if (hops.length > 0) {
+            return hops[Math.max(0, hops.length - trustedHops)]
+        }
+    }
+    return headers.get('x-real-ip')?.trim() || 'unknown'
+}
+
+/**
+ * Client IP for rate limiting.
+ * Server components calling these routes forward the visitor's IP in
+ * x-forwarded-for (see forwardedClientHeaders).
+ */
+export function getClientIp(request: Request): string {
+    return clientIpFromHeaders(request.headers)
+}
@@ -0,0 +1,51 @@
+/**
+ * Route Helpers - Server Only
+ * ===========================
+ *
+ * Shared plumbing for the app/api route handlers: FastAPI-style error
+ * bodies (so HttpClient surfaces `detail` the same way for every endpoint),
+ * rate limiting and JSON body parsing.
+ */
+
+import { headers } from 'next/headers'
+import { RateLimiter, clientIpFromHeaders, getClientIp } from './rate-limit'
+
+/**
+ * Error body in the backend's shape: { "detail": "..." }
+ */
+export function errorResponse(status: number, detail: string, init: ResponseInit = {}): Response {
+    return Response.json({ detail }, { ...init, status })
+}
+
+/**
+ * 429 response when the caller is over the limit, otherwise null
+ */
+export function checkRateLimit(limiter: RateLimiter, request: Request): Response | null {
+    const result = limiter.check(getClientIp(request))
+    if (result.allowed) return null
+
+    return errorResponse(429, `Too many requests - try again in ${result.retryAfterSeconds}s`, {
+        headers: { 'Retry-After': String(result.retryAfterSeconds) },
+    })
+}
+
+/**
+ * Parse a JSON request body, or null when it is missing/invalid
+ */
+export async function readJsonBody<T>(request: Request): Promise<T | null> {
+    try {
+        return (await request.json()) as T
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Headers that carry the visitor's IP when a server component calls our own
+ * route handlers - without them every visitor would share one rate limit bucket
+ */
+export async function forwardedClientHeaders(): Promise<Record<string, string>> {
+    // Only the resolved IP - the visitor's own x-forwarded-for entries aren't trusted
+    const clientIp = clientIpFromHeaders(await headers())
+    return clientIp !== 'unknown' ? { 'x-forwarded-for': clientIp } : {}
+}
@@ -0,0 +1,263 @@
+/**
+ * SerpAPI Search Provider - Server Only
+ * =====================================
+ *
+ * Calls SerpAPI (https://serpapi.com) with Google Search operators and parses
+ * the organic results into properties. Used by app/api/search/serp - the API
+ * key never leaves the server. Clients use SerpPropertySearchService.
+ */
+
+import { unstable_cache } from 'next/cache'
+import type { SerpPropertySearchRequest, SerpProperty } from '@/lib/services/serp-property-search.service'
+import { findPrice, findArea } from '@/lib/parsing'
+
+const SERP_API_KEY = process.env.SERP_API_KEY
+const SERP_API_BASE_URL = 'https://serpapi.com/search'
+
+/**
+ * SERP API Response Types
+ */
+interface SerpOrganicResult {
+    position: number
+    title: string
+    link: string
+    snippet: string
+    displayed_link?: string
+}
+
+interface SerpSearchResponse {
+    organic_results: SerpOrganicResult[]
+    search_metadata: {
+        status: string
+        total_results: number
+    }
+}
+
+/**
+ * Internal function to call SerpAPI (no caching)
+ */
+async function _callSerpAPI(query: string): Promise<SerpSearchResponse> {
+    const params = new URLSearchParams({
+        api_key: SERP_API_KEY!,
+        q: query,
+        num: '20', // Get up to 20 results
+        location: 'Bangalore, Karnataka, India',
+        hl: 'en',
+        gl: 'in'
+    })
+
+    const response = await fetch(`${SERP_API_BASE_URL}?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+            'Content-Type': 'application/json',
+        }
+    })
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+        throw new Error(errorData.error || `SERP API error! status: ${response.status}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Cached SerpAPI call with revalidation
+ */
+const cachedSerpSearch = unstable_cache(
+    async (query: string) => {
+        return await _callSerpAPI(query)
+    },
+    ['serp-search'], // Cache key prefix
+    {
+        tags: ['serp', 'property-search'],
+        revalidate: 3600, // Revalidate after 1 hour (3600 seconds)
+    }
+)
+
+/**
+ * SerpAPI search provider
+ */
+export class SerpSearchProvider {
+    private searchId: string
+
+    constructor() {
+        this.searchId = `serp-${Date.now()}-${Math.random().toString(36).substring(7)}`
+
+        if (!SERP_API_KEY) {
+            throw new Error('SERP_API_KEY not configured. Please add SERP_API_KEY to your .env.local file')
+        }
+
+        console.log(`[SerpSearchProvider:${this.searchId}] 🚀 Initialized with SerpAPI`)
+    }
+
+    /**
+     * Main search method using SerpAPI
+     */
+    async search(request: SerpPropertySearchRequest): Promise<SerpProperty[]> {
+        console.log(`[SerpSearchProvider:${this.searchId}] 🔍 Searching with:`, request)
+
+        try {
+            const searchQuery = this.buildOptimizedSearchQuery(request.query, request.sources)
+            const serpResults = await this.serpApiSearch(searchQuery)
+            const properties = this.parseSerpResults(serpResults)
+
+            console.log(`[SerpSearchProvider:${this.searchId}] ✅ Found ${properties.length} properties`)
+            return properties
+
+        } catch (error: any) {
+            console.error(`[SerpSearchProvider:${this.searchId}] ❌ Error:`, error.message)
+            throw error
+        }
+    }
+
+    /**
+     * Build optimized search query using Google Search operators
+     */
+    private buildOptimizedSearchQuery(query: string, sources: string): string {
+        const sourcesList = sources.split(',').map(s => s.trim())
+        const lowerQuery = query.toLowerCase()
+
+        // Detect if it's a sale or rental query
+        const isSale = lowerQuery.includes('buy') ||
+                       lowerQuery.includes('sale') ||
+                       lowerQuery.includes('purchase') ||
+                       lowerQuery.includes('crore') ||
+                       lowerQuery.includes('lakh')
+
+        // Extract property type
+        const bhkMatch = query.match(/(\d+)\s*BHK/i)
+        const propertyType = bhkMatch ? `"${bhkMatch[0]}"` : '"apartment" OR "flat" OR "house"'
+
+        // Extract location
+        const locationMatch = query.match(/(?:in|at|near)\s+([a-zA-Z\s]+?)(?:\s+bangalore|\s+under|\s+\d+|\s*$)/i)
+        const location = locationMatch ? `"${locationMatch[1].trim()}"` : ''
+
+        // Extract price range
+        let priceRange = ''
+        const croreRangeMatch = query.match(/(\d+(?:\.\d+)?)\s*(?:crores?|cr)\s*(?:to|-)\s*(\d+(?:\.\d+)?)\s*(?:crores?|cr)/i)
+        const lakhRangeMatch = query.match(/(\d+(?:\.\d+)?)\s*(?:lakhs?|l)\s*(?:to|-)\s*(\d+(?:\.\d+)?)\s*(?:lakhs?|l)/i)
+        const underCroreMatch = query.match(/under\s+(\d+(?:\.\d+)?)\s*(?:crores?|cr)/i)
+        const underLakhMatch = query.match(/under\s+(\d+(?:\.\d+)?)\s*(?:lakhs?|l)/i)
+        const underPlainMatch = query.match(/under\s+(\d+)/i)
+
+        if (croreRangeMatch) {
+            const min = parseFloat(croreRangeMatch[1]) * 10000000
+            const max = parseFloat(croreRangeMatch[2]) * 10000000
+            priceRange = `${min}..${max}`
+        } else if (lakhRangeMatch) {
+            const min = parseFloat(lakhRangeMatch[1]) * 100000
+            const max = parseFloat(lakhRangeMatch[2]) * 100000
+            priceRange = `${min}..${max}`
+        } else if (underCroreMatch) {
+            const max = parseFloat(underCroreMatch[1]) * 10000000
+            priceRange = `0..${max}`
+        } else if (underLakhMatch) {
+            const max = parseFloat(underLakhMatch[1]) * 100000
+            priceRange = `0..${max}`
+        } else if (underPlainMatch) {
+            priceRange = `0..${underPlainMatch[1]}`
+        }
+
+        // Build site restrictions (only if sources are specified)
+        let siteRestrictions = ''
+        if (sourcesList.length > 0 && sourcesList[0] !== '') {
+            siteRestrictions = sourcesList.map(source => {
+                const siteMap: Record<string, string> = {
+                    'magicbricks': 'site:magicbricks.com',
+                    'housing': 'site:housing.com',
+                    '99acres': 'site:99acres.com',
+                    'nobroker': 'site:nobroker.in',
+                    'commonfloor': 'site:commonfloor.com',
+                    'squareyards': 'site:squareyards.com'
+                }
+                return siteMap[source.toLowerCase()] || `site:${source}.com`
+            }).join(' OR ')
+        }
+
+        // Combine all operators
+        let optimizedQuery = ''
+        if (siteRestrictions) {
+            optimizedQuery = `(${siteRestrictions}) `
+        }
+        optimizedQuery += propertyType
+
+        // Add sale/rental intent
+        if (isSale) {
+            optimizedQuery += ` "for sale" OR "sale" OR intitle:"sale"`
+        } else {
+            optimizedQuery += ` "for rent" OR "rental" OR intitle:"rent"`
+        }
+
+        if (location) optimizedQuery += ` ${location}`
+        if (priceRange) optimizedQuery += ` ${priceRange}`
+        optimizedQuery += ` "Bangalore" OR "Bengaluru"`
+
+        console.log(`[SerpSearchProvider:${this.searchId}] 🔍 Optimized query:`, optimizedQuery)
+        console.log(`[SerpSearchProvider:${this.searchId}] 📊 Query type: ${isSale ? 'SALE' : 'RENTAL'}`)
+        return optimizedQuery
+    }
+
+    /**
+     * Call SerpAPI to get Google Search results (cached)
+     */
+    private async serpApiSearch(query: string): Promise<SerpSearchResponse> {
+        console.log(`[SerpSearchProvider:${this.searchId}] 🌐 Calling SerpAPI`)
+
+        const data = await cachedSerpSearch(query)
+        console.log(`[SerpSearchProvider:${this.searchId}] 📝 Received ${data.organic_results?.length || 0} results`)
+        return data
+    }
+
+    /**
+     * Parse SERP API results into Property format
+     */
+    private parseSerpResults(serpResponse: SerpSearchResponse): SerpProperty[] {
+        if (!serpResponse.organic_results || serpResponse.organic_results.length === 0) {
+            console.warn(`[SerpSearchProvider:${this.searchId}] ⚠️ No organic results found`)
+            return []
+        }
+
+        return serpResponse.organic_results.map((result, index) => {
+            const text = `${result.title} ${result.snippet}`
+
+            // Extract property details from title and snippet - unknown stays null
+            const bhkMatch = text.match(/(\d+)\s*BHK/i)
+            const bedrooms = bhkMatch ? parseInt(bhkMatch[1]) : null
+            const bathMatch = text.match(/(\d+)\s*bath(?:room)?s?\b/i)
+            const bathrooms = bathMatch ? parseInt(bathMatch[1]) : null
+
+            const price = findPrice(result.snippet) ?? findPrice(result.title)
+            const area = findArea(result.snippet) ?? findArea(result.title)
+
+            // Extract location from title or snippet
+            const locationMatch = result.title.match(/in\s+([A-Z][a-zA-Z\s]+?)(?:,|$|\||for)/i) ||
+                                  result.snippet.match(/in\s+([A-Z][a-zA-Z\s]+?)(?:,|$|\||for)/i)
+            const location = locationMatch ? locationMatch[1].trim() : 'Bangalore'
+
+            // Extract source from URL
+            const urlObj = new URL(result.link)
+            const hostname = urlObj.hostname.replace('www.', '')
+            const source = hostname.split('.')[0]
+
+            // Use placeholder image
+            const imageUrl = `https://images.unsplash.com/photo-1600585154340-be6161a56a0c?w=400&sig=${index}`
+
+            return {
+                id: result.link || `property-${index}-${Date.now()}`,
+                title: result.title,
+                location: location,
+                price: price && !price.perSqft ? price.amount : null,
+                priceMax: price && !price.perSqft ? price.max : null,
+                bedrooms,
+                bathrooms,
+                area: area?.sqft ?? null,
+                imageUrl,
+                description: result.snippet,
+                propertyFor: price?.transaction ?? undefined,
+                url: result.link,
+                source
+            }
+        })
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * Tavily Search Provider - Server Only
+ * ====================================
+ *
+ * Calls the Tavily Search API (https://docs.tavily.com/) with optimized
+ * queries. Used by app/api/search/tavily - the API key never leaves the
+ * server. Clients use TavilyPropertySearchService.
+ */
+
+import { tavily } from '@tavily/core'
+import { unstable_cache } from 'next/cache'
+import type { TavilySearchResult } from '@/lib/services/tavily-property-search.service'
+
+const TAVILY_API_KEY = process.env.TAVILY_API_KEY
+
+/**
+ * Tavily API Response Types
+ */
+interface TavilySearchResponse {
+    results: TavilySearchResult[]
+    query: string
+}
+
+/**
+ * Internal function to call Tavily API (no caching)
+ */
+async function _callTavilyAPI(query: string, searchOptions: any): Promise<TavilySearchResponse> {
+    if (!TAVILY_API_KEY) {
+        throw new Error('TAVILY_API_KEY not configured. Please add TAVILY_API_KEY to your .env.local file')
+    }
+
+    const tavilyClient = tavily({ apiKey: TAVILY_API_KEY })
+    return await tavilyClient.search(query, searchOptions)
+}
+
+/**
+ * Cached Tavily API call with revalidation
+ */
+const cachedTavilySearch = unstable_cache(
+    async (query: string, sources: string | undefined, searchOptions: any) => {
+        return await _callTavilyAPI(query, searchOptions)
+    },
+    ['tavily-search'], // Cache key prefix
+    {
+        tags: ['tavily', 'property-search'],
+        revalidate: 3600, // Revalidate after 1 hour (3600 seconds)
+    }
+)
+
+/**
+ * Tavily search provider
+ */
+export class TavilySearchProvider {
+    private searchId: string
+
+    constructor() {
+        this.searchId = `tavily-${Date.now()}-${Math.random().toString(36).substring(7)}`
+
+        if (!TAVILY_API_KEY) {
+            throw new Error('TAVILY_API_KEY not configured. Please add TAVILY_API_KEY to your .env.local file')
+        }
+
+        console.log(`[TavilySearchProvider:${this.searchId}] 🚀 Initialized with Tavily`)
+    }
+
+    /**
+     * Main search method using Tavily API
+     * Returns raw results for debugging
+     */
+    async search(optimizedQuery: string, sources?: string): Promise<TavilySearchResult[]> {
+        console.log(`[TavilySearchProvider:${this.searchId}] 🔍 Searching with optimized query:`, optimizedQuery)
+        console.log(`[TavilySearchProvider:${this.searchId}] 📋 Sources:`, sources || 'All sources')
+
+        try {
+            const tavilyResults = await this.tavilyApiSearch(optimizedQuery, sources)
+
+            console.log(`[TavilySearchProvider:${this.searchId}] ✅ Found ${tavilyResults.results?.length || 0} results`)
+            console.log(`[TavilySearchProvider:${this.searchId}] 📄 Raw response:`, JSON.stringify(tavilyResults, null, 2))
+
+            // Return raw results for debugging
+            return tavilyResults.results || []
+
+        } catch (error: any) {
+            console.error(`[TavilySearchProvider:${this.searchId}] ❌ Error:`, error.message)
+            throw error
+        }
+    }
+
+    /**
+     * Call Tavily API to get search results
+     */
+    private async tavilyApiSearch(query: string, sources?: string): Promise<TavilySearchResponse> {
+        console.log(`[TavilySearchProvider:${this.searchId}] 🌐 Calling Tavily API`)
+
+        // // Build domain list for filtering (if sources specified)
+        // let includeDomains: string[] | undefined
+        // if (sources) {
+        //     const sourcesList = sources.split(',').map(s => s.trim())
+        //     const domainMap: Record<string, string> = {
+        //         'magicbricks': 'magicbricks.com',
+        //         'housing': 'housing.com',
+        //         '99acres': '99acres.com',
+        //         'nobroker': 'nobroker.com',
+        //         'commonfloor': 'commonfloor.com',
+        //         'squareyards': 'squareyards.com'
+        //     }
+        //     includeDomains = sourcesList
+        //         .map(s => domainMap[s.toLowerCase()] || `${s}.com`)
+        //         .filter(Boolean)
+        // }
+
+        // Build search options object
+        // Note: Tavily JS SDK uses camelCase parameter names
+        const searchOptions: any = {
+            searchDepth: 'advanced',
+            maxResults: 20,
+            includeAnswer: true,
+            includeRawContent: 'markdown',
+            topic: 'general',
+            country: 'india',
+        }
+
+        // Add domain filtering if sources specified
+        // if (includeDomains && includeDomains.length > 0) {
+        //     searchOptions.includeDomains = includeDomains
+        //     console.log(`[TavilySearchProvider:${this.searchId}] 🎯 Filtering domains:`, includeDomains)
+        // } else {
+        console.log(`[TavilySearchProvider:${this.searchId}] 🌍 Searching all domains`)
+        // }
+
+        // Call cached Tavily API
+        const response = await cachedTavilySearch(query, sources, searchOptions)
+
+        console.log(`[TavilySearchProvider:${this.searchId}] 📝 Received ${response.results?.length || 0} results`)
+        return response
+    }
+
+
+}
@@ -6,24 +6,42 @@
  * It abstracts away fetch calls and provides a clean interface for components.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { HttpClient, QueryParams, ServiceCallOptions } from './http-client'
+import { validateResponse, CREA_LISTINGS_RESPONSE_SCHEMA } from '@/lib/validation'
+
+/**
+ * Fields the backend can sort listings by
+ */
+export type CREASortKey = 'price' | 'size_sqft' | 'message_date' | 'location' | 'agent_name'
+export type CREASortOrder = 'asc' | 'desc'
+
+/**
+ * Sort params every listings endpoint accepts - a backend that can't sort
+ * ignores them (see CREAListingsResponse.sort_by)
+ */
+export interface CREASortParams {
+    sort_by?: CREASortKey
+    sort_order?: CREASortOrder
+}
 
 /**
  * Request types
  */
-export interface CREAListingsRequest {
+export interface CREAListingsRequest extends CREASortParams {
     limit?: number
     offset?: number
 }
 
-export interface CREASearchRequest {
+export interface CREASearchRequest extends CREASortParams {
     query: string
     limit?: number
+    offset?: number
 }
 
-export interface CREALocationSearchRequest {
+export interface CREALocationSearchRequest extends CREASortParams {
     location: string
     limit?: number
+    offset?: number
 }
 
 /**
@@ -58,7 +76,10 @@ export interface CREAListing {
 export interface CREAListingsResponse {
     success: boolean
     data: CREAListing[]
-    count: number
+    count: number // Listings in this page
+    total?: number // Listings matching the request across all pages (when the backend reports it)
+    sort_by?: CREASortKey // Sort the backend applied - missing when it didn't sort
+    sort_order?: CREASortOrder
     message: string
 }
 
@@ -69,37 +90,42 @@ export interface UpdateListingResponse {
     data?: CREAListing
 }
 
+export interface DeleteListingResponse {
+    success: boolean
+    message: string
+}
+
 /**
  * CREA Listings Service
  */
 export class CREAListingsService {
+    /**
+     * GET a listings endpoint and validate the response shape
+     * Listings that can't be repaired are dropped (see lib/validation)
+     */
+    private static async fetchListings(
+        path: string,
+        query: QueryParams,
+        options: ServiceCallOptions
+    ): Promise<CREAListingsResponse> {
+        const data = await HttpClient.get<unknown>(path, { ...options, query })
+        return validateResponse<CREAListingsResponse>(CREA_LISTINGS_RESPONSE_SCHEMA, data, path)
+    }
+
     /**
      * Get all listings with pagination
+     * Every search below pages the same way: `limit` listings from `offset`
      */
-    static async getListings(request: CREAListingsRequest = {}): Promise<CREAListingsResponse> {
+    static async getListings(
+        request: CREAListingsRequest = {},
+        options: ServiceCallOptions = {}
+    ): Promise<CREAListingsResponse> {
         console.log('🔍 CREAListingsService.getListings called with:', request)
 
-        const { limit = 100, offset = 0 } = request
-
-        // Build query parameters
-        const params = new URLSearchParams({
-            limit: limit.toString(),
-            offset: offset.toString(),
-        })
+        const { limit = 100, offset = 0, sort_by, sort_order } = request
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/listings?${params.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        })
+        const result = await CREAListingsService.fetchListings('/api/crea/listings', { limit, offset, sort_by, sort_order }, options)
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ CREAListingsService.getListings completed, found', result.count, 'listings')
         return result
     }
@@ -107,30 +133,16 @@ export class CREAListingsService {
     /**
      * Search raw messages
      */
-    static async searchMessages(request: CREASearchRequest): Promise<CREAListingsResponse> {
+    static async searchMessages(
+        request: CREASearchRequest,
+        options: ServiceCallOptions = {}
+    ): Promise<CREAListingsResponse> {
         console.log('🔍 CREAListingsService.searchMessages called with:', request)
 
-        const { query, limit = 100 } = request
-
-        // Build query parameters
-        const params = new URLSearchParams({
-            query: query,
-            limit: limit.toString(),
-        })
+        const { query, limit = 100, offset = 0, sort_by, sort_order } = request
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/listings/search/message?${params.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        })
+        const result = await CREAListingsService.fetchListings('/api/crea/listings/search/message', { query, limit, offset, sort_by, sort_order }, options)
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ CREAListingsService.searchMessages completed, found', result.count, 'listings')
         return result
     }
@@ -138,30 +150,16 @@ export class CREAListingsService {
     /**
      * Search by location
      */
-    static async searchByLocation(request: CREALocationSearchRequest): Promise<CREAListingsResponse> {
+    static async searchByLocation(
+        request: CREALocationSearchRequest,
+        options: ServiceCallOptions = {}
+    ): Promise<CREAListingsResponse> {
         console.log('🔍 CREAListingsService.searchByLocation called with:', request)
 
-        const { location, limit = 100 } = request
-
-        // Build query parameters
-        const params = new URLSearchParams({
-            location: location,
-            limit: limit.toString(),
-        })
+        const { location, limit = 100, offset = 0, sort_by, sort_order } = request
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/listings/search/location?${params.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        })
+        const result = await CREAListingsService.fetchListings('/api/crea/listings/search/location', { location, limit, offset, sort_by, sort_order }, options)
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ CREAListingsService.searchByLocation completed, found', result.count, 'listings')
         return result
     }
@@ -169,29 +167,16 @@ export class CREAListingsService {
     /**
      * Search by agent name (fuzzy search)
      */
-    static async searchByAgent(request: { agent_name: string; limit?: number }): Promise<CREAListingsResponse> {
+    static async searchByAgent(
+        request: { agent_name: string; limit?: number; offset?: number } & CREASortParams,
+        options: ServiceCallOptions = {}
+    ): Promise<CREAListingsResponse> {
         console.log('🔍 CREAListingsService.searchByAgent called with:', request)
 
-        const { agent_name, limit = 100 } = request
-
-        const params = new URLSearchParams({
-            agent_name: agent_name,
-            limit: limit.toString(),
-        })
+        const { agent_name, limit = 100, offset = 0, sort_by, sort_order } = request
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/listings/search/agent?${params.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        })
+        const result = await CREAListingsService.fetchListings('/api/crea/listings/search/agent', { agent_name, limit, offset, sort_by, sort_order }, options)
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ CREAListingsService.searchByAgent completed, found', result.count, 'listings')
         return result
     }
@@ -199,29 +184,16 @@ export class CREAListingsService {
     /**
      * Search by property (fuzzy search)
      */
-    static async searchByProperty(request: { property_query: string; limit?: number }): Promise<CREAListingsResponse> {
+    static async searchByProperty(
+        request: { property_query: string; limit?: number; offset?: number } & CREASortParams,
+        options: ServiceCallOptions = {}
+    ): Promise<CREAListingsResponse> {
         console.log('🔍 CREAListingsService.searchByProperty called with:', request)
 
-        const { property_query, limit = 100 } = request
+        const { property_query, limit = 100, offset = 0, sort_by, sort_order } = request
 
-        const params = new URLSearchParams({
-            property_query: property_query,
-            limit: limit.toString(),
-        })
+        const result = await CREAListingsService.fetchListings('/api/crea/listings/search/property', { property_query, limit, offset, sort_by, sort_order }, options)
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/listings/search/property?${params.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        })
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ CREAListingsService.searchByProperty completed, found', result.count, 'listings')
         return result
     }
@@ -230,7 +202,7 @@ export class CREAListingsService {
      * Combined search with agent, property, and location filters
      * @param exactMatch - If true, uses exact match endpoint (/api/crea/listings/search), otherwise uses fuzzy search (/api/crea/search)
      */
-    static async combinedSearch(request: {
+    static async combinedSearch(request: CREASortParams & {
         agent_name?: string
         property_query?: string
         property_type?: string
@@ -240,8 +212,9 @@ export class CREAListingsService {
         min_price?: number
         max_price?: number
         limit?: number
+        offset?: number
         exactMatch?: boolean
-    }): Promise<CREAListingsResponse> {
+    }, options: ServiceCallOptions = {}): Promise<CREAListingsResponse> {
         console.log('🔍 CREAListingsService.combinedSearch called with:', request)
 
         const {
@@ -254,66 +227,37 @@ export class CREAListingsService {
             min_price,
             max_price,
             limit = 100,
+            offset = 0,
+            sort_by,
+            sort_order,
             exactMatch = false
         } = request
 
-        const params = new URLSearchParams({
-            limit: limit.toString(),
-        })
-
-        // Add optional parameters only if they have values
-        if (location && location.trim().length > 0) {
-            params.set('location', location.trim())
-        }
-        if (configuration && configuration.trim().length > 0) {
-            params.set('configuration', configuration.trim())
-        }
-        if (transaction_type && transaction_type.trim().length > 0) {
-            params.set('transaction_type', transaction_type.trim())
-        }
-        if (min_price !== undefined) {
-            params.set('min_price', min_price.toString())
-        }
-        if (max_price !== undefined) {
-            params.set('max_price', max_price.toString())
-        }
-
-        // For exact match: use agent_name and property_type
-        // For fuzzy match: use agent_name and property_query
-        if (exactMatch) {
-            if (agent_name && agent_name.trim().length > 0) {
-                params.set('agent_name', agent_name.trim())
-            }
-            if (property_type && property_type.trim().length > 0) {
-                params.set('property_type', property_type.trim())
-            }
-        } else {
-            if (agent_name && agent_name.trim().length > 0) {
-                params.set('agent_name', agent_name.trim())
-            }
-            if (property_query && property_query.trim().length > 0) {
-                params.set('property_query', property_query.trim())
-            }
+        // Add optional parameters only if they have values (undefined is dropped by the client)
+        const query = {
+            limit,
+            offset,
+            sort_by,
+            sort_order,
+            location: location?.trim() || undefined,
+            configuration: configuration?.trim() || undefined,
+            transaction_type: transaction_type?.trim() || undefined,
+            min_price,
+            max_price,
+            agent_name: agent_name?.trim() || undefined,
+            // For exact match: use property_type
+            // For fuzzy match: use property_query
+            property_type: exactMatch ? property_type?.trim() || undefined : undefined,
+            property_query: exactMatch ? undefined : property_query?.trim() || undefined,
         }
 
         // Choose endpoint based on exactMatch flag
         const endpoint = exactMatch
-            ? `${API_BASE_URL}/api/crea/listings/search`  // Exact match endpoint
-            : `${API_BASE_URL}/api/crea/search`          // Fuzzy search endpoint
-
-        const response = await fetch(`${endpoint}?${params.toString()}`, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        })
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
+            ? '/api/crea/listings/search'  // Exact match endpoint
+            : '/api/crea/search'          // Fuzzy search endpoint
+
+        const result = await CREAListingsService.fetchListings(endpoint, query, options)
 
-        const result = await response.json()
         console.log(`✅ CREAListingsService.combinedSearch (${exactMatch ? 'exact' : 'fuzzy'}) completed, found`, result.count, 'listings')
         return result
     }
@@ -324,26 +268,36 @@ export class CREAListingsService {
      */
     static async updateListing(
         listingId: string,
-        updateData: Partial<CREAListing>
+        updateData: Partial<CREAListing>,
+        options: ServiceCallOptions = {}
     ): Promise<UpdateListingResponse> {
         console.log('🔍 CREAListingsService.updateListing called with:', { listingId, updateData })
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/listings/${listingId}`, {
-            method: 'PATCH',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(updateData),
-        })
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
+        const result = await HttpClient.patch<UpdateListingResponse>(
+            `/api/crea/listings/${listingId}`,
+            updateData,
+            options
+        )
 
-        const result = await response.json()
         console.log('✅ CREAListingsService.updateListing completed:', result.message)
         return result
     }
-}
 
+    /**
+     * Delete a listing
+     */
+    static async deleteListing(
+        listingId: string,
+        options: ServiceCallOptions = {}
+    ): Promise<DeleteListingResponse> {
+        console.log('🗑️ CREAListingsService.deleteListing called with:', listingId)
+
+        const result = await HttpClient.delete<DeleteListingResponse>(
+            `/api/crea/listings/${listingId}`,
+            options
+        )
+
+        console.log('✅ CREAListingsService.deleteListing completed:', result.message)
+        return result
+    }
+}
@@ -6,7 +6,7 @@
  * using LLM with listing raw text.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { HttpClient, ServiceCallOptions } from './http-client'
 
 /**
  * Request types
@@ -36,28 +36,19 @@ export class CREAMessageService {
     /**
      * Format broker message using LLM
      */
-    static async formatMessage(request: CREAMessageRequest): Promise<CREAMessageResponse> {
+    static async formatMessage(
+        request: CREAMessageRequest,
+        options: ServiceCallOptions = {}
+    ): Promise<CREAMessageResponse> {
         console.log('🔍 CREAMessageService.formatMessage called with:', request)
 
-        const response = await fetch(`${API_BASE_URL}/api/crea/get-whatsapp-message`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                raw_message: request.raw_message,
-                agent_name: request.agent_name,
-                tone: request.tone || 'professional_friendly',
-                include_emojis: request.include_emojis !== undefined ? request.include_emojis : true,
-            }),
-        })
+        const result = await HttpClient.post<CREAMessageResponse>('/api/crea/get-whatsapp-message', {
+            raw_message: request.raw_message,
+            agent_name: request.agent_name,
+            tone: request.tone || 'professional_friendly',
+            include_emojis: request.include_emojis !== undefined ? request.include_emojis : true,
+        }, options)
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ CREAMessageService.formatMessage completed')
         return result
     }
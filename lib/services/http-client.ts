@@ -0,0 +1,380 @@
+/**
+ * HTTP Client - Shared API Client
+ * ================================
+ *
+ * Single fetch wrapper used by every service and component that talks to the
+ * FastAPI backend. It owns the boilerplate that used to be copied into each
+ * service:
+ * - Base-URL resolution (direct backend URL, the Next.js rewrite proxy, or the mock backend)
+ * - Typed errors that keep the HTTP status and the backend `detail`
+ * - AbortSignal support and per-request timeouts
+ * - Retry with exponential backoff for idempotent GETs
+ */
+
+const BACKEND_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+
+/**
+ * Origin of this Next.js app, for server-side calls to its own route handlers
+ * (relative URLs have nothing to resolve against on the server)
+ */
+const APP_BASE_PATH = process.env.NEXT_PUBLIC_BASE_PATH || ''
+const APP_ORIGIN = process.env.APP_ORIGIN || `http://localhost:${process.env.PORT || 3000}`
+
+/**
+ * Path prefixes served by this app's own route handlers (app/api/search/*),
+ * not the FastAPI backend
+ */
+const APP_ROUTE_PREFIXES = ['/api/search/']
+
+/**
+ * Mock backend (lib/mock-backend) served by the app itself under /api/mock.
+ * Enabled with NEXT_PUBLIC_MOCK_BACKEND=true.
+ */
+const MOCK_BACKEND_ENABLED = process.env.NEXT_PUBLIC_MOCK_BACKEND === 'true'
+const MOCK_BACKEND_PATH = `${APP_BASE_PATH}/api/mock`
+
+/**
+ * Path prefixes rewritten to the backend in next.config.js.
+ * In the browser these go through the relative '' proxy to avoid CORS;
+ * on the server (no origin to be relative to) they hit the backend directly.
+ */
+const PROXIED_PATH_PREFIXES = ['/api/whatsapp-listings', '/api/whatsapp-raw']
+
+const DEFAULT_TIMEOUT_MS = 30000
+const DEFAULT_GET_RETRIES = 2
+const DEFAULT_RETRY_DELAY_MS = 500
+
+/**
+ * Statuses worth retrying - transient gateway/server errors and throttling
+ */
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504]
+
+/**
+ * Request types
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>
+
+export interface RetryOptions {
+    /** Number of retries after the first attempt */
+    retries: number
+    /** Base delay, doubled on each retry */
+    delayMs?: number
+}
+
+export interface RequestOptions {
+    method?: HttpMethod
+    /** Query parameters - null/undefined values are skipped */
+    query?: QueryParams
+    /** JSON-serialised body, or sent as-is when FormData */
+    body?: unknown
+    headers?: Record<string, string>
+    /** Caller-owned cancellation signal */
+    signal?: AbortSignal
+    /** Request timeout in ms (0 disables). Defaults to 30s */
+    timeoutMs?: number
+    /** Retries for GET requests (ignored for other methods). Defaults to 2 */
+    retry?: number | RetryOptions
+}
+
+/**
+ * Options services forward from their callers
+ */
+export type ServiceCallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs' | 'retry' | 'headers'>
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error raised for any failed backend request.
+ * `message` is the backend detail so existing `err.message` displays keep working.
+ */
+export class ApiError extends Error {
+    /** HTTP status, or 0 when no response was received */
+    readonly status: number
+    /** Backend `detail` (or `message`/`error`) text */
+    readonly detail: string
+    /** Fully resolved request URL */
+    readonly url: string
+    /** Parsed error body, if any */
+    readonly data: unknown
+
+    constructor(status: number, detail: string, url: string, data: unknown = null) {
+        super(detail)
+        this.name = 'ApiError'
+        this.status = status
+        this.detail = detail
+        this.url = url
+        this.data = data
+    }
+}
+
+/**
+ * Request did not complete within its timeout
+ */
+export class ApiTimeoutError extends ApiError {
+    constructor(url: string, timeoutMs: number) {
+        super(0, `Request timed out after ${timeoutMs}ms`, url)
+        this.name = 'ApiTimeoutError'
+    }
+}
+
+/**
+ * Request failed before a response arrived (offline, DNS, CORS, backend down)
+ */
+export class ApiNetworkError extends ApiError {
+    constructor(url: string, cause: unknown) {
+        super(0, cause instanceof Error ? cause.message : 'Network error', url)
+        this.name = 'ApiNetworkError'
+    }
+}
+
+/**
+ * True when the error comes from the caller aborting the request
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError'
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Pull a readable message out of a FastAPI error body
+ * Handles `detail` strings, FastAPI validation arrays, `message` and `error`
+ */
+function extractErrorDetail(data: any, status: number): string {
+    const detail = data?.detail ?? data?.message ?? data?.error
+    if (typeof detail === 'string' && detail.length > 0) {
+        return detail
+    }
+    if (Array.isArray(detail)) {
+        return detail.map((item: any) => item?.msg || JSON.stringify(item)).join('; ')
+    }
+    return `HTTP error! status: ${status}`
+}
+
+function buildQueryString(query?: QueryParams): string {
+    if (!query) return ''
+
+    const params = new URLSearchParams()
+    Object.entries(query).forEach(([key, value]) => {
+        if (value === null || value === undefined) return
+        params.set(key, String(value))
+    })
+    return params.toString()
+}
+
+function normalizeRetry(retry: RequestOptions['retry'], method: HttpMethod): Required<RetryOptions> {
+    if (method !== 'GET') {
+        return { retries: 0, delayMs: 0 }
+    }
+    if (typeof retry === 'number') {
+        return { retries: retry, delayMs: DEFAULT_RETRY_DELAY_MS }
+    }
+    return {
+        retries: retry?.retries ?? DEFAULT_GET_RETRIES,
+        delayMs: retry?.delayMs ?? DEFAULT_RETRY_DELAY_MS,
+    }
+}
+
+function isRetryable(error: unknown): boolean {
+    if (error instanceof ApiTimeoutError || error instanceof ApiNetworkError) return true
+    return error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status)
+}
+
+/**
+ * Wait for `ms`, rejecting early if the caller aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason ?? new DOMException('Aborted', 'AbortError'))
+            return
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'))
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
+async function parseBody(response: Response, url: string): Promise<any> {
+    const text = await response.text()
+    if (!text) return undefined
+
+    try {
+        return JSON.parse(text)
+    } catch {
+        throw new ApiError(response.status, 'Invalid JSON in response', url, text)
+    }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * HTTP Client
+ */
+export class HttpClient {
+    /**
+     * Base URL for a path ('' when it should go through the proxy or this app)
+     */
+    static baseUrlFor(path: string): string {
+        const isBrowser = typeof window !== 'undefined'
+        if (APP_ROUTE_PREFIXES.some(prefix => path.startsWith(prefix))) {
+            return isBrowser ? APP_BASE_PATH : `${APP_ORIGIN}${APP_BASE_PATH}`
+        }
+        if (MOCK_BACKEND_ENABLED) {
+            return isBrowser ? MOCK_BACKEND_PATH : `${APP_ORIGIN}${MOCK_BACKEND_PATH}`
+        }
+        if (isBrowser && PROXIED_PATH_PREFIXES.some(prefix => path.startsWith(prefix))) {
+            return ''
+        }
+        return BACKEND_BASE_URL
+    }
+
+    /**
+     * Resolve a backend path plus query params into a request URL
+     * Also used for EventSource URLs, which can't go through fetch
+     */
+    static resolveUrl(path: string, query?: QueryParams): string {
+        const queryString = buildQueryString(query)
+        return `${HttpClient.baseUrlFor(path)}${path}${queryString ? `?${queryString}` : ''}`
+    }
+
+    static get<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+        return HttpClient.request<T>(path, { ...options, method: 'GET' })
+    }
+
+    static post<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+        return HttpClient.request<T>(path, { ...options, method: 'POST', body })
+    }
+
+    static patch<T>(path: string, body?: unknown, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+        return HttpClient.request<T>(path, { ...options, method: 'PATCH', body })
+    }
+
+    static delete<T>(path: string, options: Omit<RequestOptions, 'method' | 'body'> = {}): Promise<T> {
+        return HttpClient.request<T>(path, { ...options, method: 'DELETE' })
+    }
+
+    /**
+     * Send a request and parse the JSON response
+     *
+     * @throws ApiError (or ApiTimeoutError / ApiNetworkError) on failure,
+     *         or the original AbortError if the caller cancelled
+     */
+    static async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+        return HttpClient.withRetry(path, options, false, async (response, url) => {
+            return (await parseBody(response, url)) as T
+        })
+    }
+
+    /**
+     * Send a request and return the raw Response once headers arrive.
+     * Used for SSE/streamed bodies - the timeout only covers the handshake,
+     * the caller reads (and cancels via `signal`) the body itself.
+     */
+    static async stream(path: string, options: RequestOptions = {}): Promise<Response> {
+        return HttpClient.withRetry(path, { retry: 0, ...options }, true, async response => response)
+    }
+
+    private static async withRetry<T>(
+        path: string,
+        options: RequestOptions,
+        streaming: boolean,
+        read: (response: Response, url: string) => Promise<T>
+    ): Promise<T> {
+        const method = options.method ?? 'GET'
+        const { retries, delayMs } = normalizeRetry(options.retry, method)
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await HttpClient.send(path, options, streaming, read)
+            } catch (error) {
+                if (attempt >= retries || !isRetryable(error)) {
+                    throw error
+                }
+                const wait = delayMs * 2 ** attempt
+                console.warn(`⚠️ ${method} ${path} failed (${(error as ApiError).detail}), retrying in ${wait}ms`)
+                await sleep(wait, options.signal)
+            }
+        }
+    }
+
+    private static async send<T>(
+        path: string,
+        options: RequestOptions,
+        streaming: boolean,
+        read: (response: Response, url: string) => Promise<T>
+    ): Promise<T> {
+        const { method = 'GET', query, body, headers = {}, signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+        const url = HttpClient.resolveUrl(path, query)
+
+        // Link caller signal and timeout into one controller for this attempt
+        const controller = new AbortController()
+        let timedOut = false
+        const onAbort = () => controller.abort(signal?.reason)
+        if (signal?.aborted) {
+            controller.abort(signal.reason)
+        } else {
+            signal?.addEventListener('abort', onAbort, { once: true })
+        }
+        const timer = timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true
+                controller.abort()
+            }, timeoutMs)
+            : null
+
+        const isFormData = typeof FormData !== 'undefined' && body instanceof FormData
+        const requestHeaders: Record<string, string> = { ...headers }
+        if (body !== undefined && !isFormData && !requestHeaders['Content-Type']) {
+            requestHeaders['Content-Type'] = 'application/json'
+        }
+
+        try {
+            let response: Response
+            try {
+                response = await fetch(url, {
+                    method,
+                    headers: requestHeaders,
+                    body: body === undefined ? undefined : isFormData ? (body as FormData) : JSON.stringify(body),
+                    signal: controller.signal,
+                })
+            } catch (error) {
+                if (timedOut) throw new ApiTimeoutError(url, timeoutMs)
+                if (isAbortError(error) || signal?.aborted) throw error
+                throw new ApiNetworkError(url, error)
+            }
+
+            if (!response.ok) {
+                const errorData = await parseBody(response, url).catch(() => null)
+                throw new ApiError(response.status, extractErrorDetail(errorData, response.status), url, errorData)
+            }
+
+            try {
+                return await read(response, url)
+            } catch (error) {
+                if (timedOut) throw new ApiTimeoutError(url, timeoutMs)
+                throw error
+            }
+        } finally {
+            if (timer) clearTimeout(timer)
+            // A streamed body is still being read - keep the caller's signal linked
+            if (!streaming) {
+                signal?.removeEventListener('abort', onAbort)
+            }
+        }
+    }
+}
@@ -6,11 +6,14 @@
  * Makes imports cleaner: import { PropalystService } from '@/lib/services'
  */
 
+export * from './http-client'
 export * from './propalyst.service'
 export * from './property-search.service'
 export * from './property-scrape.service'
+export * from './relevance-feedback.service'
 export * from './serp-property-search.service'
 export * from './query-optimizer.service'
+export * from './query-optimizer.rules'
 export * from './tavily-property-search.service'
 export * from './crea-listings.service'
 export * from './crea-message.service'
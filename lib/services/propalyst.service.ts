@@ -6,7 +6,8 @@
  * It abstracts away fetch calls and provides a clean interface for components.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { HttpClient, ServiceCallOptions } from './http-client'
+import { validateResponse, CHAT_RESPONSE_SCHEMA } from '@/lib/validation'
 
 /**
  * Request types
@@ -70,57 +71,22 @@ export class PropalystService {
   /**
    * Send chat message to backend
    */
-  static async sendChat(request: ChatRequest): Promise<ChatResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/propalyst/chat`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    return response.json()
+  static async sendChat(request: ChatRequest, options: ServiceCallOptions = {}): Promise<ChatResponse> {
+    const data = await HttpClient.post<unknown>('/api/propalyst/chat', request, options)
+    return validateResponse<ChatResponse>(CHAT_RESPONSE_SCHEMA, data, '/api/propalyst/chat')
   }
 
   /**
    * Fetch conversation summary
    */
-  static async fetchSummary(request: SummaryRequest): Promise<SummaryResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/propalyst/summary`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    return response.json()
+  static async fetchSummary(request: SummaryRequest, options: ServiceCallOptions = {}): Promise<SummaryResponse> {
+    return HttpClient.post<SummaryResponse>('/api/propalyst/summary', request, options)
   }
 
   /**
    * Fetch recommended areas
    */
-  static async fetchAreas(request: AreasRequest): Promise<AreasResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/propalyst/areas`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(request),
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    return response.json()
+  static async fetchAreas(request: AreasRequest, options: ServiceCallOptions = {}): Promise<AreasResponse> {
+    return HttpClient.post<AreasResponse>('/api/propalyst/areas', request, options)
   }
 }
@@ -6,12 +6,46 @@
  * It calls the FastAPI backend directly, following the same pattern as other services.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { HttpClient, ServiceCallOptions } from './http-client'
+import { SearchIntent, serializeSearchIntent } from './query-optimizer.service'
+import { validateResponse, SCRAPE_CACHE_INFO_SCHEMA } from '@/lib/validation'
 
 /**
  * Property source type
  */
-export type PropertySource = 'magicbricks' | 'squareyards' | 'unknown'
+export type PropertySource =
+    | 'magicbricks'
+    | 'squareyards'
+    | '99acres'
+    | 'housing'
+    | 'nobroker'
+    | 'commonfloor'
+    | 'unknown'
+
+/**
+ * Hostname (without www.) → source, for every site we can scrape
+ */
+const SOURCE_HOSTS: Array<[string, PropertySource]> = [
+    ['magicbricks.com', 'magicbricks'],
+    ['squareyards.com', 'squareyards'],
+    ['99acres.com', '99acres'],
+    ['housing.com', 'housing'],
+    ['nobroker.in', 'nobroker'],
+    ['nobroker.com', 'nobroker'],
+    ['commonfloor.com', 'commonfloor'],
+]
+
+/**
+ * Streaming endpoint for each source
+ */
+const STREAM_ENDPOINTS: Record<Exclude<PropertySource, 'unknown'>, string> = {
+    magicbricks: '/api/get_listing_details_magicbricks',
+    squareyards: '/api/get_listing_details',
+    '99acres': '/api/get_listing_details_99acres',
+    housing: '/api/get_listing_details_housing',
+    nobroker: '/api/get_listing_details_nobroker',
+    commonfloor: '/api/get_listing_details_commonfloor',
+}
 
 /**
  * Detect property source from URL
@@ -21,13 +55,8 @@ export function detectSourceFromUrl(url: string): PropertySource {
         const urlObj = new URL(url)
         const hostname = urlObj.hostname.toLowerCase().replace('www.', '')
 
-        if (hostname.includes('magicbricks.com')) {
-            return 'magicbricks'
-        } else if (hostname.includes('squareyards.com')) {
-            return 'squareyards'
-        }
-
-        return 'unknown'
+        const match = SOURCE_HOSTS.find(([host]) => hostname === host || hostname.endsWith(`.${host}`))
+        return match ? match[1] : 'unknown'
     } catch (error) {
         console.warn('Failed to parse URL:', url, error)
         return 'unknown'
@@ -98,6 +127,86 @@ export interface MagicBricksProperty {
     mismatches?: string[] // Array of mismatching criteria
 }
 
+/**
+ * Fields the 99acres, Housing, NoBroker and CommonFloor scrapers all return
+ * (each portal adds its own on top)
+ */
+export interface PortalPropertyBase {
+    title: string // e.g., "3 BHK Apartment for Sale in Whitefield"
+    location?: string // e.g., "Whitefield, Bangalore"
+    price?: string // e.g., "₹1.45 Cr", "₹38,000/month"
+    price_per_sqft?: string // e.g., "₹9,800/sqft"
+    area?: string // e.g., "1480 sqft"
+    bedrooms?: string // e.g., "3 BHK"
+    bathrooms?: string // e.g., "3"
+    furnishing?: string // e.g., "Semi-Furnished"
+    facing?: string // e.g., "East"
+    posted_date?: string // e.g., "2 days ago"
+    image_url?: string
+    description: string
+    property_url: string
+    relevance_score?: number // Relevance score (0-10 typically)
+    relevance_reason?: string // Explanation for the relevance score
+    matches?: string[] // Array of matching criteria
+    mismatches?: string[] // Array of mismatching criteria
+}
+
+/**
+ * 99acres Property (matching 99acres backend response structure)
+ */
+export interface NinetyNineAcresProperty extends PortalPropertyBase {
+    area_type?: string // e.g., "Super built-up Area"
+    possession?: string // e.g., "Ready to Move"
+    posted_by?: string // e.g., "Dealer", "Owner"
+    dealer_name?: string // e.g., "Sai Realtors"
+    rera_id?: string // e.g., "PRM/KA/RERA/1251/446/PR/171015/000287"
+}
+
+/**
+ * Housing.com Property (matching Housing backend response structure)
+ */
+export interface HousingProperty extends PortalPropertyBase {
+    project_name?: string // e.g., "Prestige Lakeside Habitat"
+    builder_name?: string // e.g., "Prestige Group"
+    possession?: string // e.g., "Ready to move"
+    agent_name?: string // e.g., "Housing Prime Agent"
+    amenities?: string[] // e.g., ["Gym", "Swimming Pool"]
+}
+
+/**
+ * NoBroker Property (owner listings - matching NoBroker backend response structure)
+ */
+export interface NoBrokerProperty extends PortalPropertyBase {
+    deposit?: string // e.g., "₹2 Lacs"
+    maintenance?: string // e.g., "₹3,500/month"
+    available_from?: string // e.g., "Immediately"
+    preferred_tenants?: string // e.g., "Family"
+    property_age?: string // e.g., "1-3 Years"
+    owner_name?: string // e.g., "Ramesh K"
+}
+
+/**
+ * CommonFloor Property (matching CommonFloor backend response structure)
+ */
+export interface CommonFloorProperty extends PortalPropertyBase {
+    project_name?: string // e.g., "Sobha Dream Acres"
+    floor?: string // e.g., "4 of 12"
+    transaction?: string // e.g., "Resale"
+    property_age?: string // e.g., "5-10 Years"
+    agent_name?: string // e.g., "Anil Kumar"
+}
+
+/**
+ * Any scraped property, whichever site it came from
+ */
+export type ScrapedProperty =
+    | SquareYardsProperty
+    | MagicBricksProperty
+    | NinetyNineAcresProperty
+    | HousingProperty
+    | NoBrokerProperty
+    | CommonFloorProperty
+
 /**
  * Scrape Response (SquareYards format - matching backend response structure)
  */
@@ -126,6 +235,28 @@ export interface MagicBricksScrapeResponse {
     error?: string
 }
 
+/**
+ * SSE 'complete' event payload (signals end of the property stream)
+ */
+export interface PropertyStreamComplete {
+    count: number
+    api_calls_made?: number | null
+    relevance_score?: number // Top-level relevance score (MagicBricks)
+    relevance_reason?: string // Top-level relevance reason (MagicBricks)
+}
+
+/**
+ * Cached scrape of one listing URL (GET /api/scraped_properties/by_url)
+ * The stream endpoints serve from this cache until it's deleted
+ */
+export interface ScrapeCacheInfo {
+    url: string
+    cached: boolean
+    scraped_at: string | null // ISO timestamp of the scrape that filled the cache
+    count: number // Properties in the cache
+    api_calls_made: number | null
+}
+
 /**
  * Property Scrape Service
  */
@@ -230,44 +361,66 @@ export class PropertyScrapeService {
     //     return result
     // }
 
+    /**
+     * When a URL was last scraped, and what's cached for it
+     *
+     * @param url - The property listing URL
+     */
+    static async getScrapeCache(url: string, options: ServiceCallOptions = {}): Promise<ScrapeCacheInfo> {
+        const path = '/api/scraped_properties/by_url'
+        const data = await HttpClient.get<unknown>(path, { ...options, query: { url } })
+        return validateResponse<ScrapeCacheInfo>(SCRAPE_CACHE_INFO_SCHEMA, data, path)
+    }
+
+    /**
+     * Delete the cached scrape of a URL - the next stream scrapes it again
+     *
+     * @param url - The property listing URL
+     */
+    static async deleteScrapeCache(url: string, options: ServiceCallOptions = {}): Promise<void> {
+        console.log('🗑️ PropertyScrapeService.deleteScrapeCache called with URL:', url)
+        await HttpClient.delete('/api/scraped_properties/by_url', { ...options, query: { url } })
+    }
+
     /**
      * Create EventSource for streaming properties via Server-Sent Events (SSE)
      * Properties stream in one at a time as backend processes batches of 5
      * 
      * @param url - The property listing URL to scrape
      * @param origQuery - Optional original search query for relevance scoring
+     * @param intent - Optional structured search intent (extra relevance context)
+     * @param lastEventId - Id of the last event received, when resuming a dropped stream
      * @returns EventSource instance for streaming properties
+     * @throws Error when the URL isn't from a site we can scrape
      */
-    static createPropertyStream(url: string, origQuery?: string): EventSource {
+    static createPropertyStream(
+        url: string,
+        origQuery?: string,
+        intent?: SearchIntent | null,
+        lastEventId?: string | null
+    ): EventSource {
         console.log('🔍 PropertyScrapeService.createPropertyStream called with URL:', url, 'origQuery:', origQuery)
 
         // Detect source from URL
         const source = detectSourceFromUrl(url)
         console.log('📍 Detected source:', source)
 
-        // Build URL with query parameters
-        const params = new URLSearchParams({
-            url: url,
-        })
-
-        if (origQuery) {
-            params.set('orig_query', origQuery)
-        } else {
-            params.set('orig_query', '')
+        // Sites without a scraper would only get a confusing error from another site's endpoint
+        if (source === 'unknown') {
+            throw new Error(`Unsupported listing site: ${url}`)
         }
 
         // Select API endpoint based on source (streaming endpoints without _batch)
-        let endpoint: string
-        if (source === 'magicbricks') {
-            endpoint = '/api/get_listing_details_magicbricks'
-        } else if (source === 'squareyards') {
-            endpoint = '/api/get_listing_details'
-        } else {
-            // Default to SquareYards endpoint for unknown sources
-            endpoint = '/api/get_listing_details'
-        }
+        const endpoint = STREAM_ENDPOINTS[source]
 
-        const streamUrl = `${API_BASE_URL}${endpoint}?${params.toString()}`
+        const streamUrl = HttpClient.resolveUrl(endpoint, {
+            url: url,
+            orig_query: origQuery || '',
+            // Structured intent from the query optimizer - extra relevance context
+            ...(intent ? { search_intent: serializeSearchIntent(intent) } : {}),
+            // Resume after the last event received - the backend skips what we already have
+            ...(lastEventId ? { last_event_id: lastEventId } : {}),
+        })
         console.log('🌐 Streaming from:', streamUrl)
 
         // Create EventSource for SSE streaming
@@ -6,7 +6,8 @@
  * It abstracts away fetch calls and provides a clean interface for components.
  */
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000'
+import { HttpClient, ServiceCallOptions } from './http-client'
+import { validateResponse, PROPERTY_SEARCH_RESPONSE_SCHEMA } from '@/lib/validation'
 
 /**
  * Request types
@@ -61,24 +62,16 @@ export class PropertySearchService {
     /**
      * Search for properties using natural language query
      */
-    static async search(request: PropertySearchRequest): Promise<PropertySearchResponse> {
+    static async search(
+        request: PropertySearchRequest,
+        options: ServiceCallOptions = {}
+    ): Promise<PropertySearchResponse> {
         console.log('🔍 PropertySearchService.search called with:', request)
         console.trace('Call stack:')
 
-        const response = await fetch(`${API_BASE_URL}/api/property-search`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(request),
-        })
+        const data = await HttpClient.post<unknown>('/api/property-search', request, options)
+        const result = validateResponse<PropertySearchResponse>(PROPERTY_SEARCH_RESPONSE_SCHEMA, data, '/api/property-search')
 
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }))
-            throw new Error(errorData.detail || `HTTP error! status: ${response.status}`)
-        }
-
-        const result = await response.json()
         console.log('✅ PropertySearchService.search completed')
         return result
     }
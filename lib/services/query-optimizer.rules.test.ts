@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { crossCheckOptimization, optimizeQueryByRules } from './query-optimizer.rules'
+
+describe('optimizeQueryByRules', () => {
+    describe('per-sqft rates', () => {
+        it.each<[string, { min: number; max: number }]>([
+            ['2000 sqft villa at 12000 per sqft in Whitefield', { min: 18000000, max: 30000000 }],
+            ['3 BHK 1500 sqft at 10000/sqft', { min: 11250000, max: 18750000 }],
+            ['2000 sqft at 12000 psf', { min: 18000000, max: 30000000 }],
+            ['2000 sqft at ₹12000 per sqft', { min: 18000000, max: 30000000 }],
+        ])('%s turns area x rate into a budget', (query, budget) => {
+            const result = optimizeQueryByRules(query)
+            expect(result.intent.budget_inr).toEqual(budget)
+            expect(result.applied).toContain('per_sqft_budget')
+            expect(result.optimized_query).toMatch(/budget [\d.]+-[\d.]+ crores/)
+            expect(result.optimized_query).not.toMatch(/sqft.*between|per sqft|\/sqft|psf/)
+        })
+
+        it.each([
+            '2000 sqft villa at 12000 per sqft in Whitefield',
+            '3 BHK 1500 sqft at 10000/sqft',
+            'villa at 12000 per sqft in Whitefield',
+        ])('%s infers no transaction', query => {
+            const result = optimizeQueryByRules(query)
+            expect(result.intent.transaction).toBeNull()
+            expect(result.optimized_query).not.toMatch(/for (rent|sale)/)
+        })
+    })
+
+    describe('totals', () => {
+        it('reads a bare small amount as rent', () => {
+            const result = optimizeQueryByRules('3 BHK in Koramangala for 40000')
+            expect(result.intent.transaction).toBe('rent')
+            expect(result.intent.budget_inr).toEqual({ min: 24000, max: 40000 })
+        })
+
+        it.each<[string, { min: number | null; max: number | null }, string]>([
+            ['3 BHK in Koramangala under 40000', { min: null, max: 40000 }, 'under 40000'],
+            ['villa below 2 crore', { min: null, max: 20000000 }, 'below 2 crore'],
+            ['flat up to 80 lakh', { min: null, max: 8000000 }, 'up to 80 lakh'],
+            ['villa above 5 crore in Whitefield', { min: 50000000, max: null }, 'above 5 crore'],
+            ['2BHK over 30000', { min: 30000, max: null }, 'over 30000'],
+            ['house more than 1.5 Cr', { min: 15000000, max: null }, 'more than 1.5 Cr'],
+            ['plot minimum 90 lakh', { min: 9000000, max: null }, 'minimum 90 lakh'],
+            ['office starting 60000', { min: 60000, max: null }, 'starting 60000'],
+        ])('%s is open-ended', (query, budget, kept) => {
+            const result = optimizeQueryByRules(query)
+            expect(result.intent.budget_inr).toEqual(budget)
+            expect(result.optimized_query).toContain(kept)
+            expect(result.optimized_query).not.toContain('between')
+            expect(result.applied).not.toContain('price_range')
+        })
+
+        it('keeps the -40% floor for approximate prices', () => {
+            const result = optimizeQueryByRules('villa around 5 crore')
+            expect(result.intent.budget_inr).toEqual({ min: 30000000, max: 50000000 })
+            expect(result.optimized_query).toContain('villa between 3-5 crores')
+        })
+
+        it('reads crores as sale', () => {
+            const result = optimizeQueryByRules('4BHK 5 crore')
+            expect(result.intent.transaction).toBe('sale')
+            expect(result.optimized_query).toContain('for sale')
+        })
+    })
+})
+
+describe('crossCheckOptimization', () => {
+    it('agrees with an open-ended intent for "under X"', () => {
+        const rules = optimizeQueryByRules('3BHK Whitefield under 40000')
+        const disagreements = crossCheckOptimization(rules, {
+            optimized_query: '3BHK apartment in Whitefield Bangalore between 24000-40000 for rent',
+            intent: { ...rules.intent, budget_inr: { min: null, max: 40000 } },
+        })
+        expect(disagreements).toEqual([])
+    })
+
+    it('flags a floor read as a cap', () => {
+        const rules = optimizeQueryByRules('villa above 5 crore in Whitefield')
+        const disagreements = crossCheckOptimization(rules, {
+            optimized_query: null,
+            intent: { ...rules.intent, budget_inr: { min: null, max: 50000000 } },
+        })
+        expect(disagreements).toEqual([expect.objectContaining({ field: 'budget', in: 'intent' })])
+    })
+})
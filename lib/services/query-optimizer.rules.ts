@@ -0,0 +1,417 @@
+/**
+ * Query Optimizer Rules
+ * =====================
+ *
+ * The QUERY_OPTIMIZATION_PROMPT rules as plain code:
+ * - Area: single value → ±25% range ("2000 sqft" → "1500-2500 sqft"), ranges kept
+ * - Budget per sqft: rate × area range → total budget in lakhs/crores
+ * - Price: single value → range with a -40% floor ("5 crore" → "3-5 crores"), ranges kept;
+ *   "under X" / "above X" are open-ended ({ max: X } / { min: X }) and keep their wording
+ * - Location: city added when the query doesn't name one
+ * - Property type: "4BHK" → "4BHK apartment" when no type is given
+ * - Rent/sale: crore/lakh prices are sales, smaller amounts are monthly rents
+ *
+ * Runs anywhere (no API calls). Used as the fallback when Gemini is
+ * unavailable, and to cross-check what Gemini returned.
+ */
+
+import { findArea, findPrice, parsePrice, ParsedArea, ParsedPrice, PriceUnit } from '@/lib/parsing'
+import type { IntentRange, SearchIntent, SearchIntentPropertyType } from './query-optimizer.service'
+
+export type QueryRule = 'area_range' | 'per_sqft_budget' | 'price_range' | 'city' | 'property_type' | 'transaction'
+
+export interface RuleOptimization {
+    optimized_query: string
+    intent: SearchIntent
+    /** Rules that changed the query */
+    applied: QueryRule[]
+}
+
+/**
+ * A value where the LLM's output doesn't match the rules
+ */
+export interface RuleDisagreement {
+    field: 'area' | 'budget' | 'transaction' | 'bedrooms' | 'city'
+    /** Where the LLM value came from */
+    in: 'query' | 'intent'
+    /** What the rules give */
+    expected: string
+    /** What the LLM gave ("missing" when it dropped the value) */
+    actual: string
+}
+
+const AREA_WIDENING = 0.25
+const PRICE_FLOOR = 0.6 // 40% below the quoted price
+/** Monthly rents stay below this; anything above is a sale price */
+const MAX_RENT_INR = 500000
+/** Relative difference still counted as agreement (LLM rounding) */
+const TOLERANCE = 0.05
+
+const DEFAULT_CITY = 'Bangalore'
+const CITY_PATTERN = /\b(bangalore|bengaluru|mumbai|navi mumbai|thane|new delhi|delhi|gurgaon|gurugram|noida|pune|hyderabad|chennai|kolkata|ahmedabad)\b/i
+const CITY_ALIASES: Record<string, string> = { bengaluru: 'bangalore', gurugram: 'gurgaon', 'new delhi': 'delhi' }
+
+const KNOWN_LOCALITIES = /\b(Indiranagar|Koramangala|Whitefield|HSR Layout|Jayanagar|JP Nagar|Sarjapur(?: Road)?|Hebbal|Electronic City|Marathahalli|Bellandur|Church Street|MG Road|Yelahanka|Hennur|Malleshwaram|Rajajinagar|Banashankari)\b/i
+// Capitalised words after "in/at/near" - case-sensitive so "in budget" isn't a locality
+const NAMED_LOCALITY = /\b(?:in|at|near)\s+([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)?)/
+
+const BHK_PATTERN = /\b(\d+)\s*BHK\b/i
+const PROPERTY_TYPES: Array<[RegExp, SearchIntentPropertyType]> = [
+    [/\bfarm\s*house\b/i, 'farmhouse'],
+    [/\bvillas?\b/i, 'villa'],
+    [/\bhouses?\b/i, 'independent_house'],
+    [/\b(?:plots?|land|site)\b/i, 'plot'],
+    [/\b(?:office|co-?working)\b/i, 'office'],
+    [/\b(?:retail|shops?|showroom|store)\b/i, 'retail'],
+    [/\b(?:warehouse|godown|storage)\b/i, 'warehouse'],
+    [/\b(?:pg|hostel)\b/i, 'pg_hostel'],
+    [/\b(?:apartments?|flats?)\b/i, 'apartment'],
+]
+const KEYWORDS = ['independent', 'semi-furnished', 'furnished', 'gated community', 'ground floor', 'storage', 'showroom', 'shop']
+
+const RENT_WORDS = /\b(?:rent(?:al)?|lease|to-let)\b/i
+const SALE_WORDS = /\b(?:sale|buy|resale|purchase)\b/i
+
+const RATE_SUFFIX = /^\s*(?:\/|per|a)\s*(?:sq\.?\s*(?:ft|feet)|sqft|square\s*(?:feet|foot|ft))\.?|^\s*psf\b/i
+// Words before a single price: a cap, a floor, or an approximate price (which gets the usual floor)
+const UPPER_BOUND_QUALIFIER = /\b(?:under|below|up\s*to|upto|within|less\s+than|max(?:imum)?)\s*$/i
+const LOWER_BOUND_QUALIFIER = /\b(?:above|over|more\s+than|at\s+least|min(?:imum)?|starting(?:\s+(?:from|at))?)\s*$/i
+const APPROXIMATE_QUALIFIER = /\b(?:around|about)\s*$/i
+// Bare rupee amounts ("40000", "24000-40000") - the optimizer reads these as prices
+const BARE_AMOUNT = /(?<![\d.,₹])(\d{4,}(?:\s*(?:-|–|to)\s*\d{4,})?)(?![\d.,])/
+
+const UNIT_FORMAT: Record<PriceUnit, { divisor: number; suffix: string }> = {
+    crore: { divisor: 10000000, suffix: ' crores' },
+    lakh: { divisor: 100000, suffix: ' lakhs' },
+    thousand: { divisor: 1000, suffix: 'k' },
+    rupee: { divisor: 1, suffix: '' },
+}
+
+interface Located<T> {
+    value: T
+    start: number
+    end: number
+}
+
+interface Edit {
+    start: number
+    end: number
+    text: string
+}
+
+// ============================================================================
+// Finding values in the query
+// ============================================================================
+
+function locate<T extends { text: string }>(query: string, value: T | null): Located<T> | null {
+    if (!value) return null
+    const start = query.indexOf(value.text)
+    return start === -1 ? null : { value, start, end: start + value.text.length }
+}
+
+function locateArea(query: string): Located<ParsedArea> | null {
+    return locate(query, findArea(query))
+}
+
+/**
+ * First price in the query - a bare 4+ digit number counts as rupees,
+ * as long as it isn't part of the area. A bare number followed by
+ * "per sqft", "/sqft" or "psf" is a rate, and says nothing about rent vs sale.
+ */
+function locatePrice(query: string, area: Located<ParsedArea> | null): Located<ParsedPrice> | null {
+    const found = locate(query, findPrice(query))
+    if (found) return found
+
+    const masked = area
+        ? query.slice(0, area.start) + ' '.repeat(area.end - area.start) + query.slice(area.end)
+        : query
+    const bare = BARE_AMOUNT.exec(masked)
+    if (!bare) return null
+
+    const price = parsePrice(bare[1])
+    if (!price) return null
+
+    const end = bare.index + bare[1].length
+    const isRate = RATE_SUFFIX.test(masked.slice(end))
+    return {
+        value: isRate ? { ...price, perSqft: true, transaction: null } : price,
+        start: bare.index,
+        end,
+    }
+}
+
+function locateLocality(query: string): Located<string> | null {
+    const known = KNOWN_LOCALITIES.exec(query)
+    if (known) return { value: known[1], start: known.index, end: known.index + known[1].length }
+
+    const named = NAMED_LOCALITY.exec(query)
+    if (!named || CITY_PATTERN.test(named[1])) return null
+    const start = named.index + named[0].length - named[1].length
+    return { value: named[1], start, end: start + named[1].length }
+}
+
+/**
+ * Which end of the budget a single price is - "under 5 crore" caps it,
+ * "above 5 crore" is a floor, anything else is the price itself
+ */
+function priceBound(query: string, price: Located<ParsedPrice>): 'max' | 'min' | null {
+    const before = query.slice(0, price.start)
+    if (UPPER_BOUND_QUALIFIER.test(before)) return 'max'
+    if (LOWER_BOUND_QUALIFIER.test(before)) return 'min'
+    return null
+}
+
+function propertyTypeOf(query: string): SearchIntentPropertyType | null {
+    return PROPERTY_TYPES.find(([pattern]) => pattern.test(query))?.[1] ?? null
+}
+
+function transactionWordsIn(text: string): SearchIntent['transaction'] {
+    const rent = RENT_WORDS.test(text)
+    const sale = SALE_WORDS.test(text)
+    if (rent === sale) return null
+    return rent ? 'rent' : 'sale'
+}
+
+function cityIn(text: string): string | null {
+    const city = CITY_PATTERN.exec(text)?.[1].toLowerCase()
+    return city ? (CITY_ALIASES[city] ?? city) : null
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatNumber(value: number): string {
+    return String(Number(value.toFixed(2)))
+}
+
+function formatPriceRange(min: number, max: number, unit: PriceUnit): string {
+    const { divisor, suffix } = UNIT_FORMAT[unit]
+    return `${formatNumber(min / divisor)}-${formatNumber(max / divisor)}${suffix}`
+}
+
+function formatRange(range: IntentRange | null): string {
+    if (!range || (range.min === null && range.max === null)) return 'missing'
+    return `${range.min ?? '?'}-${range.max ?? '?'}`
+}
+
+function applyEdits(query: string, edits: Edit[]): string {
+    let result = query
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+    }
+    return result.replace(/\s+/g, ' ').trim()
+}
+
+// ============================================================================
+// Rule engine
+// ============================================================================
+
+/**
+ * Apply the optimizer rules to a query
+ */
+export function optimizeQueryByRules(userQuery: string): RuleOptimization {
+    const query = userQuery.trim()
+    const edits: Edit[] = []
+    const appended: string[] = []
+    const applied: QueryRule[] = []
+
+    // Area: ±25% unless it's already a range
+    const area = locateArea(query)
+    let areaRange: IntentRange | null = null
+    if (area) {
+        const parsed = area.value
+        if (parsed.isRange) {
+            areaRange = { min: parsed.sqft, max: parsed.maxSqft }
+        } else {
+            areaRange = {
+                min: Math.round(parsed.sqft * (1 - AREA_WIDENING)),
+                max: Math.round(parsed.sqft * (1 + AREA_WIDENING)),
+            }
+            // Widen in the unit the user wrote ("200 sq yards" stays in yards)
+            const written = parseFloat(parsed.text.replace(/,/g, ''))
+            const unitText = parsed.text.replace(/^[\d,.\s]+/, '')
+            edits.push({
+                start: area.start,
+                end: area.end,
+                text: `${Math.round(written * (1 - AREA_WIDENING))}-${Math.round(written * (1 + AREA_WIDENING))} ${unitText}`,
+            })
+            applied.push('area_range')
+        }
+    }
+
+    // Price: a per-sqft rate becomes a total budget, a single price gets a -40% floor
+    const price = locatePrice(query, area)
+    let budget: IntentRange | null = null
+    let inferredTransaction: SearchIntent['transaction'] = null
+    if (price?.value.perSqft) {
+        if (areaRange?.min != null && areaRange.max != null) {
+            const rate = price.value
+            const min = areaRange.min * rate.amount
+            const max = areaRange.max * (rate.max ?? rate.amount)
+            budget = { min: Math.round(min), max: Math.round(max) }
+
+            const suffix = RATE_SUFFIX.exec(query.slice(price.end))
+            const saysBudget = /\bbudget\s*$/i.test(query.slice(0, price.start))
+            edits.push({
+                start: price.start,
+                end: price.end + (suffix?.[0].length ?? 0),
+                text: `${saysBudget ? '' : 'budget '}${formatPriceRange(min, max, max >= UNIT_FORMAT.crore.divisor ? 'crore' : 'lakh')}`,
+            })
+            applied.push('per_sqft_budget')
+        }
+    } else if (price) {
+        const parsed = price.value
+        const bound = priceBound(query, price)
+        if (parsed.isRange) {
+            budget = { min: parsed.amount, max: parsed.max }
+        } else if (bound === 'max') {
+            budget = { min: null, max: parsed.amount }
+        } else if (bound === 'min') {
+            budget = { min: parsed.amount, max: null }
+        } else {
+            budget = { min: Math.round(parsed.amount * PRICE_FLOOR), max: parsed.amount }
+            const qualifier = APPROXIMATE_QUALIFIER.exec(query.slice(0, price.start))
+            edits.push({
+                start: qualifier ? qualifier.index : price.start,
+                end: price.end,
+                text: `between ${formatPriceRange(budget.min!, parsed.amount, parsed.unit)}`,
+            })
+            applied.push('price_range')
+        }
+
+        inferredTransaction = parsed.transaction
+            ?? (parsed.unit === 'crore' || parsed.unit === 'lakh' || parsed.amount >= MAX_RENT_INR ? 'sale' : 'rent')
+    }
+
+    // Property type: BHK without a type is an apartment
+    const bhk = BHK_PATTERN.exec(query)
+    const statedType = propertyTypeOf(query)
+    if (bhk && !statedType) {
+        edits.push({ start: bhk.index + bhk[0].length, end: bhk.index + bhk[0].length, text: ' apartment' })
+        applied.push('property_type')
+    }
+
+    // Location: add the city after the locality (or at the end)
+    const locality = locateLocality(query)
+    const statedCity = CITY_PATTERN.exec(query)?.[1] ?? null
+    if (!statedCity) {
+        if (locality) {
+            const hasPreposition = /\b(?:in|at|near)\s+$/i.test(query.slice(0, locality.start))
+            if (!hasPreposition) edits.push({ start: locality.start, end: locality.start, text: 'in ' })
+            edits.push({ start: locality.end, end: locality.end, text: ` ${DEFAULT_CITY}` })
+        } else {
+            appended.push(DEFAULT_CITY)
+        }
+        applied.push('city')
+    }
+
+    // Rent/sale: only added when the query doesn't say
+    const statedTransaction = transactionWordsIn(query)
+    if (!statedTransaction && inferredTransaction) {
+        appended.push(`for ${inferredTransaction}`)
+        applied.push('transaction')
+    }
+
+    const lowerQuery = query.toLowerCase()
+    const intent: SearchIntent = {
+        transaction: statedTransaction ?? inferredTransaction,
+        property_type: statedType ?? (bhk ? 'apartment' : null),
+        bedrooms: bhk ? parseInt(bhk[1], 10) : null,
+        area_sqft: areaRange,
+        budget_inr: budget,
+        localities: locality ? [locality.value] : [],
+        city: statedCity ?? DEFAULT_CITY,
+        keywords: KEYWORDS.filter(keyword => lowerQuery.includes(keyword))
+            .filter((keyword, _, all) => keyword !== 'furnished' || !all.includes('semi-furnished')),
+    }
+
+    return {
+        optimized_query: applyEdits(`${query} ${appended.join(' ')}`, edits),
+        intent,
+        applied,
+    }
+}
+
+// ============================================================================
+// Cross-check
+// ============================================================================
+
+function close(a: number | null, b: number | null): boolean {
+    if (a === null || b === null) return a === b
+    return Math.abs(a - b) <= TOLERANCE * Math.max(Math.abs(a), Math.abs(b), 1)
+}
+
+function rangesAgree(expected: IntentRange, actual: IntentRange | null): boolean {
+    return actual !== null && close(expected.min, actual.min) && close(expected.max, actual.max)
+}
+
+/**
+ * rangesAgree, except an open end of the expected range accepts any value -
+ * QUERY_OPTIMIZATION_PROMPT still writes "under X" as "between 0.6X-X"
+ */
+function boundsAgree(expected: IntentRange, actual: IntentRange | null): boolean {
+    return actual !== null &&
+        (expected.min === null || close(expected.min, actual.min)) &&
+        (expected.max === null || close(expected.max, actual.max))
+}
+
+/**
+ * Budget a query's text states - the same reading optimizeQueryByRules gives it
+ */
+function budgetIn(text: string, price: Located<ParsedPrice> | null): IntentRange | null {
+    if (!price || price.value.perSqft) return null
+    const { amount, max } = price.value
+    if (max !== null) return { min: amount, max }
+    switch (priceBound(text, price)) {
+        case 'max': return { min: null, max: amount }
+        case 'min': return { min: amount, max: null }
+        default: return { min: amount, max: amount }
+    }
+}
+
+/**
+ * Compare an LLM optimization against the rules
+ *
+ * Only values the rules work out are checked - anything the rules can't
+ * read from the query is left to the LLM. Returns [] when they agree.
+ */
+export function crossCheckOptimization(
+    rules: RuleOptimization,
+    llm: { optimized_query: string | null; intent: SearchIntent | null }
+): RuleDisagreement[] {
+    const disagreements: RuleDisagreement[] = []
+    const expected = rules.intent
+
+    const check = (field: RuleDisagreement['field'], where: RuleDisagreement['in'], agrees: boolean, expectedText: string, actualText: string) => {
+        if (!agrees) disagreements.push({ field, in: where, expected: expectedText, actual: actualText })
+    }
+
+    if (llm.optimized_query !== null) {
+        const text = llm.optimized_query
+        const area = locateArea(text)
+        const price = locatePrice(text, area)
+        const areaRange = area ? { min: area.value.sqft, max: area.value.maxSqft ?? area.value.sqft } : null
+        const budget = budgetIn(text, price)
+        const bhk = BHK_PATTERN.exec(text)
+        const transaction = transactionWordsIn(text)
+        const city = cityIn(text)
+
+        if (expected.area_sqft) check('area', 'query', rangesAgree(expected.area_sqft, areaRange), formatRange(expected.area_sqft), formatRange(areaRange))
+        if (expected.budget_inr) check('budget', 'query', boundsAgree(expected.budget_inr, budget), formatRange(expected.budget_inr), formatRange(budget))
+        if (expected.bedrooms !== null) check('bedrooms', 'query', bhk !== null && parseInt(bhk[1], 10) === expected.bedrooms, String(expected.bedrooms), bhk?.[1] ?? 'missing')
+        if (expected.transaction) check('transaction', 'query', transaction === expected.transaction, expected.transaction, transaction ?? 'missing')
+        if (expected.city) check('city', 'query', city === cityIn(expected.city), expected.city, city ?? 'missing')
+    }
+
+    if (llm.intent) {
+        const intent = llm.intent
+        if (expected.area_sqft) check('area', 'intent', rangesAgree(expected.area_sqft, intent.area_sqft), formatRange(expected.area_sqft), formatRange(intent.area_sqft))
+        if (expected.budget_inr) check('budget', 'intent', rangesAgree(expected.budget_inr, intent.budget_inr), formatRange(expected.budget_inr), formatRange(intent.budget_inr))
+        if (expected.bedrooms !== null) check('bedrooms', 'intent', intent.bedrooms === expected.bedrooms, String(expected.bedrooms), intent.bedrooms === null ? 'missing' : String(intent.bedrooms))
+        if (expected.transaction) check('transaction', 'intent', intent.transaction === expected.transaction, expected.transaction, intent.transaction ?? 'missing')
+        if (expected.city) check('city', 'intent', intent.city !== null && cityIn(intent.city) === cityIn(expected.city), expected.city, intent.city ?? 'missing')
+    }
+
+    return disagreements
+}
@@ -14,62 +14,144 @@
  * - Price: -40% lower bound (5 crore → 3-5 crore)
  * - Location: Add city context (Indiranagar → Indiranagar Bangalore)
  * - Property type: Preserve as-is
+ *
+ * Alongside the rewritten query the route returns a structured SearchIntent
+ * (BHK, area and budget ranges, localities, rent/sale), so filters can be
+ * pre-populated from what the optimizer worked out.
+ *
+ * Gemini is called server-side in app/api/search/optimize-query
+ * (lib/server/query-optimizer.provider.ts) - this is a thin client of that route.
+ * When Gemini or the route is unavailable the same rules run locally
+ * (query-optimizer.rules.ts), and Gemini's output is cross-checked against them.
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { QUERY_OPTIMIZATION_PROMPT } from '@/lib/prompts/query-optimizer.prompts'
+import { HttpClient, ServiceCallOptions } from './http-client'
+import { optimizeQueryByRules, RuleDisagreement } from './query-optimizer.rules'
+import { validateRecord, SEARCH_INTENT_SCHEMA } from '@/lib/validation'
 
-const API_KEY = process.env.NEXT_PUBLIC_GOOGLE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY
+/**
+ * Property types the intent can name (same values as the /search type filter)
+ */
+export type SearchIntentPropertyType =
+    | 'apartment'
+    | 'villa'
+    | 'independent_house'
+    | 'plot'
+    | 'office'
+    | 'retail'
+    | 'warehouse'
+    | 'pg_hostel'
+    | 'farmhouse'
 
-export class QueryOptimizerService {
-    private gemini: GoogleGenerativeAI
-    private optimizerId: string
+/**
+ * Inclusive range - either end may be open
+ */
+export interface IntentRange {
+    min: number | null
+    max: number | null
+}
 
-    constructor() {
-        this.optimizerId = `optimizer-${Date.now()}-${Math.random().toString(36).substring(7)}`
+/**
+ * What the user is looking for, as worked out by the optimizer
+ * Every field is null/empty when the query doesn't say
+ */
+export interface SearchIntent {
+    transaction: 'sale' | 'rent' | null
+    property_type: SearchIntentPropertyType | null
+    bedrooms: number | null
+    /** Area range in sqft (already widened like the optimized query) */
+    area_sqft: IntentRange | null
+    /** Budget range in rupees - monthly rent for rentals */
+    budget_inr: IntentRange | null
+    /** Localities / neighbourhoods, e.g. ["Indiranagar"] */
+    localities: string[]
+    city: string | null
+    /** Other requirements, e.g. ["furnished", "gated community"] */
+    keywords: string[]
+}
 
-        if (!API_KEY) {
-            throw new Error('GOOGLE_AI_API_KEY not configured')
-        }
+/**
+ * Route response
+ */
+export interface OptimizeQueryResponse {
+    optimized_query: string
+    /** null when the intent couldn't be extracted */
+    intent: SearchIntent | null
+    /** 'rules' when Gemini was unavailable and the local rules were used */
+    source?: 'gemini' | 'rules'
+    /** Where Gemini's output doesn't match the rules - empty when they agree */
+    disagreements?: RuleDisagreement[]
+}
 
-        this.gemini = new GoogleGenerativeAI(API_KEY)
-        console.log(`[QueryOptimizer:${this.optimizerId}] 🚀 Initialized with Gemini`)
+/**
+ * Intent as a URL param value (for links to the listing page)
+ */
+export function serializeSearchIntent(intent: SearchIntent): string {
+    return JSON.stringify(intent)
+}
+
+/**
+ * Intent from a URL param value - null when missing or malformed
+ */
+export function parseSearchIntent(value: string | null | undefined): SearchIntent | null {
+    if (!value) return null
+    try {
+        return validateRecord<SearchIntent>(SEARCH_INTENT_SCHEMA, JSON.parse(value), 'search-intent-param')
+    } catch {
+        return null
     }
+}
 
+export class QueryOptimizerService {
     /**
      * Optimize user query by converting absolute values to ranges
+     * Falls back to the local rules if the route fails
      */
-    async optimize(userQuery: string): Promise<string> {
-        console.log(`[QueryOptimizer:${this.optimizerId}] 🔍 Optimizing query:`, userQuery)
+    static async optimize(userQuery: string, options: ServiceCallOptions = {}): Promise<string> {
+        console.log('🔍 QueryOptimizerService.optimize called with:', userQuery)
 
         try {
-            const prompt = QUERY_OPTIMIZATION_PROMPT(userQuery)
-            const optimizedQuery = await this.callGemini(prompt)
+            const result = await HttpClient.post<OptimizeQueryResponse>(
+                '/api/search/optimize-query',
+                { query: userQuery },
+                options
+            )
 
-            console.log(`[QueryOptimizer:${this.optimizerId}] ✅ Optimized query:`, optimizedQuery)
-            return optimizedQuery
+            console.log('✅ QueryOptimizerService.optimize completed:', result.optimized_query)
+            return result.optimized_query
 
         } catch (error: any) {
-            console.error(`[QueryOptimizer:${this.optimizerId}] ❌ Error:`, error.message)
-            // Fallback: return original query if optimization fails
-            console.log(`[QueryOptimizer:${this.optimizerId}] ⚠️ Falling back to original query`)
-            return userQuery
+            console.error('❌ Query optimization failed, using local rules:', error.message)
+            return optimizeQueryByRules(userQuery).optimized_query
         }
     }
 
     /**
-     * Call Gemini API for query optimization
+     * Optimize user query and extract its structured intent
+     * Falls back to the local rules if the route fails
      */
-    private async callGemini(prompt: string): Promise<string> {
-        console.log(`[QueryOptimizer:${this.optimizerId}] 🌐 Calling Gemini for optimization`)
+    static async optimizeWithIntent(userQuery: string, options: ServiceCallOptions = {}): Promise<OptimizeQueryResponse> {
+        console.log('🔍 QueryOptimizerService.optimizeWithIntent called with:', userQuery)
 
-        const model = this.gemini.getGenerativeModel({
-            model: 'gemini-2.0-flash-exp'
-        })
+        try {
+            const result = await HttpClient.post<OptimizeQueryResponse>(
+                '/api/search/optimize-query',
+                { query: userQuery },
+                options
+            )
 
-        const result = await model.generateContent(prompt)
-        const optimizedQuery = result.response.text().trim()
+            console.log('✅ QueryOptimizerService.optimizeWithIntent completed:', result)
+            return {
+                optimized_query: result.optimized_query,
+                intent: result.intent ?? null,
+                source: result.source,
+                disagreements: result.disagreements,
+            }
 
-        return optimizedQuery
+        } catch (error: any) {
+            console.error('❌ Query optimization failed, using local rules:', error.message)
+            const { optimized_query, intent } = optimizeQueryByRules(userQuery)
+            return { optimized_query, intent, source: 'rules', disagreements: [] }
+        }
     }
 }
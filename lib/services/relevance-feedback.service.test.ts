@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RelevanceFeedback, RelevanceFeedbackService } from './relevance-feedback.service'
+
+function feedback(id: string, vote: RelevanceFeedback['vote'], created_at: string): RelevanceFeedback {
+    return {
+        id,
+        property_url: `https://example.com/${id}`,
+        source: 'magicbricks',
+        orig_query: '3 BHK Whitefield',
+        vote,
+        relevance_score: 7,
+        matches: [],
+        mismatches: [],
+        created_at,
+    }
+}
+
+describe('RelevanceFeedbackService.flushQueue', () => {
+    beforeEach(() => {
+        const storage = new Map<string, string>()
+        vi.stubGlobal('window', {
+            localStorage: {
+                getItem: (key: string) => storage.get(key) ?? null,
+                setItem: (key: string, value: string) => storage.set(key, value),
+                removeItem: (key: string) => storage.delete(key),
+            },
+        })
+        vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+        vi.restoreAllMocks()
+    })
+
+    it('sends the queue and empties it', async () => {
+        const submit = vi.spyOn(RelevanceFeedbackService, 'submitFeedback').mockResolvedValue({ success: true, id: 'a' })
+        RelevanceFeedbackService.enqueue(feedback('a', 'up', '2025-01-01T10:00:00.000Z'))
+
+        expect(await RelevanceFeedbackService.flushQueue()).toEqual(['a'])
+        expect(submit).toHaveBeenCalledTimes(1)
+        expect(RelevanceFeedbackService.getQueue()).toEqual([])
+    })
+
+    it('keeps a vote changed while its earlier one was being sent', async () => {
+        const changed = feedback('a', 'down', '2025-01-01T10:00:05.000Z')
+        vi.spyOn(RelevanceFeedbackService, 'submitFeedback').mockImplementation(async item => {
+            RelevanceFeedbackService.enqueue(changed)
+            return { success: true, id: item.id }
+        })
+        RelevanceFeedbackService.enqueue(feedback('a', 'up', '2025-01-01T10:00:00.000Z'))
+
+        await RelevanceFeedbackService.flushQueue()
+        expect(RelevanceFeedbackService.getQueue()).toEqual([changed])
+    })
+})
@@ -0,0 +1,201 @@
+/**
+ * Relevance Feedback Service - API Client
+ * ========================================
+ *
+ * Sends users' thumbs up/down on scraped properties' relevance scores,
+ * with the search query the score was given for. Feedback given while
+ * offline (or while the backend is unreachable) is queued in localStorage
+ * and sent once the connection is back.
+ */
+
+import { HttpClient, ServiceCallOptions, ApiError, ApiNetworkError, ApiTimeoutError } from './http-client'
+import { PropertySource } from './property-scrape.service'
+import { validateResponse, RELEVANCE_FEEDBACK_SUMMARY_SCHEMA } from '@/lib/validation'
+
+/**
+ * Was the relevance score right? up: relevant, down: not relevant
+ */
+export type RelevanceVote = 'up' | 'down'
+
+/**
+ * One user's feedback on one property's relevance score
+ */
+export interface RelevanceFeedback {
+    id: string // Client-generated, so a queued item sent twice is only stored once
+    property_url: string
+    source: PropertySource
+    orig_query: string // The search the score was given for
+    vote: RelevanceVote
+    note?: string // "Wrong because..."
+    // The score as shown, so the backend can see what was overridden
+    relevance_score: number | null
+    matches: string[]
+    mismatches: string[]
+    created_at: string // ISO timestamp
+}
+
+export interface RelevanceFeedbackResponse {
+    success: boolean
+    id: string
+}
+
+/**
+ * How often users disagree with one mismatch reason
+ */
+export interface MismatchOverride {
+    reason: string
+    overrides: number // Thumbs up despite this mismatch - users didn't mind it
+    confirmations: number // Thumbs down with this mismatch - users agreed
+}
+
+export interface RelevanceFeedbackNote {
+    note: string
+    vote: RelevanceVote
+    orig_query: string
+    property_url: string
+    created_at: string
+}
+
+/**
+ * Aggregated feedback (GET /api/relevance-feedback/summary)
+ */
+export interface RelevanceFeedbackSummary {
+    total: number
+    up: number
+    down: number
+    mismatch_overrides: MismatchOverride[] // Most overridden first
+    recent_notes: RelevanceFeedbackNote[] // Newest first
+}
+
+/**
+ * Result of sending feedback
+ * - sent:   the backend has it
+ * - queued: stored locally, sent when back online
+ */
+export type FeedbackDelivery = 'sent' | 'queued'
+
+const QUEUE_STORAGE_KEY = 'relevance-feedback-queue'
+
+/**
+ * Worth keeping for later: no response, or a transient server error
+ */
+function isTransientFailure(error: unknown): boolean {
+    if (error instanceof ApiNetworkError || error instanceof ApiTimeoutError) return true
+    return error instanceof ApiError && error.status >= 500
+}
+
+function readQueue(): RelevanceFeedback[] {
+    if (typeof window === 'undefined') return []
+    try {
+        const stored = JSON.parse(window.localStorage.getItem(QUEUE_STORAGE_KEY) || '[]')
+        return Array.isArray(stored) ? stored : []
+    } catch {
+        return []
+    }
+}
+
+function writeQueue(queue: RelevanceFeedback[]): void {
+    if (queue.length === 0) {
+        window.localStorage.removeItem(QUEUE_STORAGE_KEY)
+    } else {
+        window.localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue))
+    }
+}
+
+/**
+ * Relevance Feedback Service
+ */
+export class RelevanceFeedbackService {
+    /**
+     * POST one feedback item
+     *
+     * @throws ApiError when the backend rejects it or can't be reached
+     */
+    static async submitFeedback(
+        feedback: RelevanceFeedback,
+        options: ServiceCallOptions = {}
+    ): Promise<RelevanceFeedbackResponse> {
+        console.log('👍 RelevanceFeedbackService.submitFeedback called for:', feedback.property_url, feedback.vote)
+        return HttpClient.post<RelevanceFeedbackResponse>('/api/relevance-feedback', feedback, options)
+    }
+
+    /**
+     * Send feedback, or queue it when offline / the backend is unreachable
+     *
+     * @throws ApiError when the backend rejects it (not queued - resending won't help)
+     */
+    static async sendOrQueue(feedback: RelevanceFeedback): Promise<FeedbackDelivery> {
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            RelevanceFeedbackService.enqueue(feedback)
+            return 'queued'
+        }
+
+        try {
+            await RelevanceFeedbackService.submitFeedback(feedback)
+            return 'sent'
+        } catch (error) {
+            if (!isTransientFailure(error)) throw error
+            console.warn('⚠️ Feedback not sent, queued for later:', error)
+            RelevanceFeedbackService.enqueue(feedback)
+            return 'queued'
+        }
+    }
+
+    /**
+     * Add to the offline queue - replaces an earlier item with the same id
+     */
+    static enqueue(feedback: RelevanceFeedback): void {
+        writeQueue([...readQueue().filter(item => item.id !== feedback.id), feedback])
+    }
+
+    /**
+     * Feedback waiting to be sent
+     */
+    static getQueue(): RelevanceFeedback[] {
+        return readQueue()
+    }
+
+    /**
+     * Send the queued feedback, oldest first
+     * Stops at the first transient failure (still offline); items the
+     * backend rejects are dropped
+     *
+     * @returns Ids of the items sent
+     */
+    static async flushQueue(): Promise<string[]> {
+        const queue = readQueue()
+        if (queue.length === 0) return []
+
+        console.log(`📤 Sending ${queue.length} queued feedback items`)
+        const sent: string[] = []
+        // Items are keyed by id + created_at: a vote changed mid-flush
+        // replaces its item under the same id, and must stay queued
+        const itemKey = (item: RelevanceFeedback) => `${item.id}@${item.created_at}`
+        const done = new Set<string>()
+
+        for (const feedback of queue) {
+            try {
+                await RelevanceFeedbackService.submitFeedback(feedback)
+                sent.push(feedback.id)
+                done.add(itemKey(feedback))
+            } catch (error) {
+                if (isTransientFailure(error)) break
+                console.error('❌ Queued feedback rejected, dropping it:', error)
+                done.add(itemKey(feedback))
+            }
+        }
+
+        // Re-read: feedback may have been queued while we were sending
+        writeQueue(readQueue().filter(item => !done.has(itemKey(item))))
+        return sent
+    }
+
+    /**
+     * Aggregated feedback - vote totals, most overridden mismatch reasons, recent notes
+     */
+    static async getSummary(options: ServiceCallOptions = {}): Promise<RelevanceFeedbackSummary> {
+        const path = '/api/relevance-feedback/summary'
+        const data = await HttpClient.get<unknown>(path, options)
+        return validateResponse<RelevanceFeedbackSummary>(RELEVANCE_FEEDBACK_SUMMARY_SCHEMA, data, path)
+    }
+}
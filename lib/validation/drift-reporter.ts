@@ -0,0 +1,78 @@
+/**
+ * Drift Reporter
+ * ==============
+ *
+ * Collects response-shape deviations found by the runtime schemas and logs
+ * them as one structured report per endpoint. Each distinct deviation is
+ * logged once per page load (with a running count kept in memory), so a
+ * backend rename shows up immediately without flooding the console on
+ * every request.
+ */
+
+/**
+ * What the validator did about a deviating field
+ * - coerced:   wrong primitive type, converted (e.g. "1200" -> 1200)
+ * - nulled:    missing/unusable, replaced with null
+ * - removed:   unusable optional field, removed
+ * - defaulted: missing/unusable, replaced with the schema fallback
+ * - dropped:   unrecoverable, the whole record was discarded
+ */
+export type DriftAction = 'coerced' | 'nulled' | 'removed' | 'defaulted' | 'dropped'
+
+export interface DriftIssue {
+    endpoint: string
+    /** Dotted path, with [] for array items (e.g. "data[].price") */
+    field: string
+    expected: string
+    actual: string
+    action: DriftAction
+}
+
+export interface DriftReportEntry extends DriftIssue {
+    count: number
+    first_seen: string
+}
+
+// Keyed by endpoint + field + expected + actual type + action
+const seen = new Map<string, DriftReportEntry>()
+
+function issueKey(issue: DriftIssue): string {
+    // Samples vary per record - key on the type only ("string" not 'string "12 L"')
+    const actualType = issue.actual.split(' ')[0]
+    return [issue.endpoint, issue.field, issue.expected, actualType, issue.action].join('|')
+}
+
+/**
+ * Record issues for an endpoint and log the ones not seen before
+ */
+export function reportDrift(endpoint: string, issues: DriftIssue[]): void {
+    if (issues.length === 0) return
+
+    const fresh: DriftReportEntry[] = []
+    issues.forEach(issue => {
+        const key = issueKey(issue)
+        const existing = seen.get(key)
+        if (existing) {
+            existing.count++
+            return
+        }
+        const entry = { ...issue, count: 1, first_seen: new Date().toISOString() }
+        seen.set(key, entry)
+        fresh.push(entry)
+    })
+
+    if (fresh.length === 0) return
+
+    console.warn(`⚠️ Response drift detected on ${endpoint}:`, {
+        endpoint,
+        detected_at: new Date().toISOString(),
+        issues: fresh.map(({ field, expected, actual, action }) => ({ field, expected, actual, action })),
+    })
+}
+
+/**
+ * Everything reported so far this page load, with occurrence counts
+ */
+export function getDriftReport(): DriftReportEntry[] {
+    return Array.from(seen.values())
+}
@@ -0,0 +1,7 @@
+/**
+ * Response validation - runtime schemas and drift reporting
+ */
+
+export * from './response-schema'
+export * from './drift-reporter'
+export * from './schemas'
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { field, validateRecord } from './response-schema'
+import { getStreamedPropertySchema } from './schemas'
+
+describe('validateRecord', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    const schema = {
+        id: field.string(),
+        note: field.string({ optional: true }),
+        price: field.number({ nullable: true }),
+    }
+
+    it('keeps null on optional fields', () => {
+        expect(validateRecord(schema, { id: 'a', note: null, price: null }, 'test')).toEqual({ id: 'a', note: null, price: null })
+    })
+
+    it('removes unusable optional values and leaves missing ones out', () => {
+        expect(validateRecord(schema, { id: 'a', note: { text: 'x' }, price: '12' }, 'test')).toEqual({ id: 'a', price: 12 })
+        expect(validateRecord(schema, { id: 'a', price: null }, 'test')).toEqual({ id: 'a', price: null })
+    })
+
+    it('drops records missing a required field', () => {
+        expect(validateRecord(schema, { note: 'x', price: 1 }, 'test')).toBeNull()
+    })
+
+    it('keeps a MagicBricks property\'s carpet_area key when it is null', () => {
+        const property = validateRecord<Record<string, unknown>>(getStreamedPropertySchema('magicbricks'), {
+            title: '3 BHK Flat for Sale in Indira Nagar',
+            description: '',
+            property_url: 'https://www.magicbricks.com/p/1',
+            carpet_area: null,
+        }, 'test')
+        expect(property).toHaveProperty('carpet_area', null)
+    })
+})
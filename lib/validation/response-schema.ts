@@ -0,0 +1,299 @@
+/**
+ * Response Schema - Runtime Validation
+ * =====================================
+ *
+ * Minimal runtime schemas for backend responses. TypeScript `as` casts don't
+ * check anything at runtime, so a renamed backend field silently becomes
+ * `undefined` across the UI. Validating against these schemas instead:
+ * - Coerces recoverable values ("1200" -> 1200, 3 -> "3")
+ * - Falls back to null / a default when a field is missing or unusable
+ * - Drops records that can't be repaired (e.g. a listing without an id)
+ * - Reports every deviation to the drift reporter
+ */
+
+import { reportDrift, DriftAction, DriftIssue } from './drift-reporter'
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'unknown'
+
+export interface FieldSpec {
+    type: FieldType
+    /** null is a valid value; missing/unusable values become null */
+    nullable?: boolean
+    /** Field may be absent; null is kept as sent, unusable values are removed instead of failing */
+    optional?: boolean
+    /** Used when the value is missing or unusable */
+    fallback?: unknown
+    /** Allowed values (checked after coercion) */
+    values?: readonly unknown[]
+    /** Item spec for arrays - invalid items are dropped from the array */
+    items?: FieldSpec
+    /** Nested shape for objects */
+    shape?: ObjectSchema
+}
+
+/**
+ * A field without nullable/optional/fallback is required:
+ * when it can't be read, the whole record is dropped.
+ */
+export type ObjectSchema = Record<string, FieldSpec>
+
+/**
+ * Schema covering every key of T - adding a field to the interface
+ * without a spec is a compile error
+ */
+export type SchemaFor<T> = { [K in keyof T]-?: FieldSpec }
+
+/**
+ * Field spec builders
+ */
+export const field = {
+    string: (options: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'string', ...options }),
+    number: (options: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'number', ...options }),
+    boolean: (options: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'boolean', ...options }),
+    unknown: (options: Omit<FieldSpec, 'type'> = {}): FieldSpec => ({ type: 'unknown', ...options }),
+    array: (items: FieldSpec, options: Omit<FieldSpec, 'type' | 'items'> = {}): FieldSpec => ({
+        type: 'array',
+        items,
+        ...options,
+    }),
+    object: (shape?: ObjectSchema, options: Omit<FieldSpec, 'type' | 'shape'> = {}): FieldSpec => ({
+        type: 'object',
+        shape,
+        ...options,
+    }),
+}
+
+/**
+ * Thrown when a response envelope can't be repaired
+ */
+export class ResponseShapeError extends Error {
+    readonly endpoint: string
+    readonly issues: DriftIssue[]
+
+    constructor(endpoint: string, issues: DriftIssue[]) {
+        super(`Unexpected response shape from ${endpoint}`)
+        this.name = 'ResponseShapeError'
+        this.endpoint = endpoint
+        this.issues = issues
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type FieldResult = { ok: true; value: unknown; present: boolean } | { ok: false }
+
+function describeSpec(spec: FieldSpec): string {
+    let base: string = spec.type
+    if (spec.type === 'array' && spec.items) {
+        base = `array<${describeSpec(spec.items)}>`
+    }
+    if (spec.values) {
+        base = spec.values.map(value => JSON.stringify(value)).join(' | ')
+    }
+    return spec.nullable ? `${base} | null` : base
+}
+
+function describeValue(value: unknown): string {
+    if (value === undefined) return 'undefined'
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    if (typeof value === 'string') {
+        const sample = value.length > 30 ? `${value.slice(0, 30)}…` : value
+        return `string ${JSON.stringify(sample)}`
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return `${typeof value} ${String(value)}`
+    }
+    return typeof value
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Convert a value of the wrong primitive type, if it can be done losslessly
+ */
+function coerce(value: unknown, type: FieldType): { ok: boolean; value?: unknown } {
+    if (type === 'number' && typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+        return { ok: true, value: Number(value) }
+    }
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+        return { ok: true, value: String(value) }
+    }
+    if (type === 'boolean') {
+        if (value === 'true' || value === 1) return { ok: true, value: true }
+        if (value === 'false' || value === 0) return { ok: true, value: false }
+    }
+    return { ok: false }
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+    switch (type) {
+        case 'unknown':
+            return true
+        case 'array':
+            return Array.isArray(value)
+        case 'object':
+            return isPlainObject(value)
+        case 'number':
+            return typeof value === 'number' && !Number.isNaN(value)
+        default:
+            return typeof value === type
+    }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+class Validator {
+    readonly issues: DriftIssue[] = []
+
+    constructor(private readonly endpoint: string) { }
+
+    private record(path: string, spec: FieldSpec, actual: unknown, action: DriftAction) {
+        this.issues.push({
+            endpoint: this.endpoint,
+            field: path,
+            expected: describeSpec(spec),
+            actual: describeValue(actual),
+            action,
+        })
+    }
+
+    /**
+     * Value missing or unusable - null it, remove it, default it or fail
+     */
+    private recover(path: string, spec: FieldSpec, actual: unknown): FieldResult {
+        if (spec.optional) {
+            if (actual !== undefined) this.record(path, spec, actual, 'removed')
+            return { ok: true, value: undefined, present: false }
+        }
+        if (spec.nullable) {
+            if (actual !== null) this.record(path, spec, actual, 'nulled')
+            return { ok: true, value: null, present: true }
+        }
+        if (spec.fallback !== undefined) {
+            this.record(path, spec, actual, 'defaulted')
+            // Copy so shared fallback arrays/objects are never mutated downstream
+            const fallback = Array.isArray(spec.fallback)
+                ? [...spec.fallback]
+                : isPlainObject(spec.fallback) ? { ...spec.fallback } : spec.fallback
+            return { ok: true, value: fallback, present: true }
+        }
+        this.record(path, spec, actual, 'dropped')
+        return { ok: false }
+    }
+
+    validateField(path: string, spec: FieldSpec, value: unknown): FieldResult {
+        if (value === undefined || value === null) {
+            // Optional fields keep a null too - the record reads the same as the raw response
+            if (value === null && (spec.nullable || spec.optional)) return { ok: true, value: null, present: true }
+            return this.recover(path, spec, value)
+        }
+
+        let current: unknown = value
+        if (!matchesType(current, spec.type)) {
+            const coerced = coerce(current, spec.type)
+            if (!coerced.ok) return this.recover(path, spec, value)
+            this.record(path, spec, value, 'coerced')
+            current = coerced.value
+        }
+
+        if (spec.values && !spec.values.includes(current)) {
+            return this.recover(path, spec, value)
+        }
+
+        if (spec.type === 'array' && spec.items) {
+            const items: unknown[] = []
+            ;(current as unknown[]).forEach(item => {
+                const result = this.validateField(`${path}[]`, spec.items as FieldSpec, item)
+                if (result.ok) items.push(result.value)
+            })
+            return { ok: true, value: items, present: true }
+        }
+
+        if (spec.type === 'object' && spec.shape) {
+            const result = this.validateObject(path, spec.shape, current as Record<string, unknown>)
+            return result === null ? this.recover(path, spec, value) : { ok: true, value: result, present: true }
+        }
+
+        return { ok: true, value: current, present: true }
+    }
+
+    /**
+     * Validate known keys; unknown keys are passed through untouched
+     */
+    validateObject(path: string, schema: ObjectSchema, value: Record<string, unknown>): Record<string, unknown> | null {
+        const output: Record<string, unknown> = { ...value }
+
+        for (const [key, spec] of Object.entries(schema)) {
+            const result = this.validateField(path ? `${path}.${key}` : key, spec, value[key])
+            if (!result.ok) return null
+            if (result.present) {
+                output[key] = result.value
+            } else {
+                delete output[key]
+            }
+        }
+
+        return output
+    }
+}
+
+/**
+ * Validate a response envelope, repairing what it can and dropping invalid records
+ *
+ * @throws ResponseShapeError when the envelope itself can't be repaired
+ */
+export function validateResponse<T>(schema: ObjectSchema, data: unknown, endpoint: string): T {
+    const validator = new Validator(endpoint)
+    const result = isPlainObject(data)
+        ? validator.validateObject('', schema, data)
+        : null
+
+    if (result === null) {
+        if (!isPlainObject(data)) {
+            validator.issues.push({
+                endpoint,
+                field: '(root)',
+                expected: 'object',
+                actual: describeValue(data),
+                action: 'dropped',
+            })
+        }
+        reportDrift(endpoint, validator.issues)
+        throw new ResponseShapeError(endpoint, validator.issues)
+    }
+
+    reportDrift(endpoint, validator.issues)
+    return result as T
+}
+
+/**
+ * Validate a single record (e.g. one SSE event payload)
+ *
+ * @returns The repaired record, or null when it had to be dropped
+ */
+export function validateRecord<T>(schema: ObjectSchema, data: unknown, endpoint: string): T | null {
+    const validator = new Validator(endpoint)
+    const result = isPlainObject(data)
+        ? validator.validateObject('', schema, data)
+        : null
+
+    if (result === null && !isPlainObject(data)) {
+        validator.issues.push({
+            endpoint,
+            field: '(root)',
+            expected: 'object',
+            actual: describeValue(data),
+            action: 'dropped',
+        })
+    }
+
+    reportDrift(endpoint, validator.issues)
+    return result as T | null
+}
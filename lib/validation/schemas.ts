@@ -0,0 +1,438 @@
+/**
+ * Response Schemas
+ * ================
+ *
+ * Runtime schemas for the backend responses the UI depends on.
+ * Each is typed with SchemaFor<T>, so the schema and the TypeScript
+ * interface can't drift apart silently either.
+ */
+
+import type { CREAListing, CREAListingsResponse } from '@/lib/services/crea-listings.service'
+import type { PropertySearchResponse, PropertyResult, GroundingSource, PropertySearchParams } from '@/lib/services/property-search.service'
+import type { ChatResponse } from '@/lib/services/propalyst.service'
+import type {
+    SquareYardsProperty,
+    MagicBricksProperty,
+    PortalPropertyBase,
+    NinetyNineAcresProperty,
+    HousingProperty,
+    NoBrokerProperty,
+    CommonFloorProperty,
+    PropertyStreamComplete,
+    PropertySource,
+    ScrapeCacheInfo,
+} from '@/lib/services/property-scrape.service'
+import type { WhatsAppListing, RBProperty, ListingResponse } from '@/lib/api/whatsapp-listings'
+import type { SearchIntent, IntentRange, SearchIntentPropertyType } from '@/lib/services/query-optimizer.service'
+import type {
+    RelevanceFeedbackSummary,
+    MismatchOverride,
+    RelevanceFeedbackNote,
+} from '@/lib/services/relevance-feedback.service'
+import { field, ObjectSchema, SchemaFor } from './response-schema'
+
+const optionalString = () => field.string({ optional: true })
+const nullableString = () => field.string({ nullable: true })
+const nullableNumber = () => field.number({ nullable: true })
+const stringOrEmpty = () => field.string({ fallback: '' })
+
+// ============================================================================
+// CREA listings
+// ============================================================================
+
+export const CREA_LISTING_SCHEMA: SchemaFor<CREAListing> = {
+    id: field.string(),
+    created_at: stringOrEmpty(),
+    message_date: stringOrEmpty(),
+    agent_name: stringOrEmpty(),
+    agent_contact: nullableString(),
+    company_name: nullableString(),
+    listing_type: nullableString(),
+    transaction_type: stringOrEmpty(),
+    property_type: stringOrEmpty(),
+    configuration: nullableString(),
+    size_sqft: field.number({ fallback: 0 }),
+    price: field.number({ fallback: 0 }),
+    price_text: stringOrEmpty(),
+    location: stringOrEmpty(),
+    project_name: nullableString(),
+    facing: nullableString(),
+    floor: nullableString(),
+    furnishing: nullableString(),
+    parking: nullableString(),
+    status: nullableString(),
+    amenities: nullableString(),
+    raw_message: stringOrEmpty(),
+    sender_name: nullableString(),
+}
+
+export const CREA_LISTINGS_RESPONSE_SCHEMA: SchemaFor<CREAListingsResponse> = {
+    success: field.boolean({ fallback: true }),
+    data: field.array(field.object(CREA_LISTING_SCHEMA), { fallback: [] }),
+    count: field.number({ fallback: 0 }),
+    total: field.number({ optional: true }),
+    sort_by: field.string({ optional: true, values: ['price', 'size_sqft', 'message_date', 'location', 'agent_name'] }),
+    sort_order: field.string({ optional: true, values: ['asc', 'desc'] }),
+    message: stringOrEmpty(),
+}
+
+// ============================================================================
+// WhatsApp listings + RB properties
+// ============================================================================
+
+export const WHATSAPP_LISTING_SCHEMA: SchemaFor<WhatsAppListing> = {
+    id: field.string(),
+    source_message_id: stringOrEmpty(),
+    message_date: stringOrEmpty(),
+    agent_contact: nullableString(),
+    agent_name: nullableString(),
+    company_name: nullableString(),
+    raw_message: stringOrEmpty(),
+    message_type: stringOrEmpty(),
+    property_type: nullableString(),
+    area_sqft: nullableNumber(),
+    bedrooms: nullableNumber(),
+    price: nullableNumber(),
+    price_text: nullableString(),
+    location: nullableString(),
+    project_name: nullableString(),
+    furnishing_status: nullableString(),
+    parking_count: nullableNumber(),
+    parking_text: nullableString(),
+    facing_direction: nullableString(),
+    special_features: field.array(field.string(), { nullable: true }),
+    llm_json: field.unknown({ nullable: true }),
+    created_at: stringOrEmpty(),
+    sender_name: nullableString(),
+}
+
+export const RB_PROPERTY_SCHEMA: SchemaFor<RBProperty> = {
+    id: field.string(),
+    source: stringOrEmpty(),
+    title: stringOrEmpty(),
+    description: nullableString(),
+    property_type: stringOrEmpty(),
+    bedrooms: nullableNumber(),
+    bathrooms: nullableNumber(),
+    sqft: nullableNumber(),
+    price: nullableNumber(),
+    price_text: nullableString(),
+    location: nullableString(),
+    project_name: nullableString(),
+    furnishing_status: nullableString(),
+    facing_direction: nullableString(),
+    parking_count: nullableNumber(),
+    special_features: field.array(field.string(), { nullable: true }),
+    images: field.array(field.string(), { fallback: [] }),
+    agent_name: nullableString(),
+    agent_contact: nullableString(),
+    agent_email: nullableString(),
+    company_name: nullableString(),
+    agent_avatar: nullableString(),
+    agent_vanity_url: nullableString(),
+    owner_name: nullableString(),
+    owner_number: nullableString(),
+    status: nullableString(),
+    created_at: stringOrEmpty(),
+    updated_at: stringOrEmpty(),
+    message_type: nullableString(),
+    raw_message: nullableString(),
+    static_flyer_url: nullableString(),
+    static_html_url: nullableString(),
+    verified_by: nullableString(),
+    view_count: nullableNumber(),
+    currency: nullableString(),
+    source_key: nullableString(),
+}
+
+export const LISTING_RESPONSE_SCHEMA: SchemaFor<ListingResponse> = {
+    whatsapp_listings: field.array(field.object(WHATSAPP_LISTING_SCHEMA), { fallback: [] }),
+    rb_properties: field.array(field.object(RB_PROPERTY_SCHEMA), { fallback: [] }),
+    counts: field.object(
+        {
+            whatsapp: field.number({ fallback: 0 }),
+            properties: field.number({ fallback: 0 }),
+        },
+        { fallback: { whatsapp: 0, properties: 0 } }
+    ),
+    total_count: field.number({ fallback: 0 }),
+}
+
+// ============================================================================
+// Property search
+// ============================================================================
+
+const PROPERTY_RESULT_SCHEMA: SchemaFor<PropertyResult> = {
+    title: stringOrEmpty(),
+    url: field.string(),
+    snippet: stringOrEmpty(),
+    price: field.string({ nullable: true, optional: true }),
+    location: field.string({ nullable: true, optional: true }),
+    property_type: field.string({ nullable: true, optional: true }),
+    source: stringOrEmpty(),
+}
+
+const GROUNDING_SOURCE_SCHEMA: SchemaFor<GroundingSource> = {
+    title: stringOrEmpty(),
+    url: field.string(),
+    snippet: field.string({ nullable: true, optional: true }),
+}
+
+const PROPERTY_SEARCH_PARAMS_SCHEMA: SchemaFor<PropertySearchParams> = {
+    property_type: field.string({ nullable: true, optional: true }),
+    category: stringOrEmpty(),
+    location: field.string({ nullable: true, optional: true }),
+    budget_min: field.number({ nullable: true, optional: true }),
+    budget_max: field.number({ nullable: true, optional: true }),
+    keywords: field.array(field.string(), { fallback: [] }),
+    city: stringOrEmpty(),
+}
+
+export const PROPERTY_SEARCH_RESPONSE_SCHEMA: SchemaFor<PropertySearchResponse> = {
+    results: field.array(field.object(PROPERTY_RESULT_SCHEMA), { fallback: [] }),
+    extracted_params: field.object(PROPERTY_SEARCH_PARAMS_SCHEMA, {
+        fallback: { category: '', keywords: [], city: '' },
+    }),
+    sources: field.array(field.object(GROUNDING_SOURCE_SCHEMA), { fallback: [] }),
+    total_results: field.number({ fallback: 0 }),
+    provider: stringOrEmpty(),
+}
+
+// ============================================================================
+// Propalyst chat
+// ============================================================================
+
+export const CHAT_RESPONSE_SCHEMA: SchemaFor<ChatResponse> = {
+    component: field.object(
+        {
+            type: field.string(),
+            props: field.object(undefined, { fallback: {} }),
+        },
+        { nullable: true }
+    ),
+    message: stringOrEmpty(),
+    messages: field.array(
+        field.object({
+            role: field.string({ values: ['user', 'agent'] }),
+            content: stringOrEmpty(),
+        }),
+        { fallback: [] }
+    ),
+    session_id: field.string(),
+    current_step: field.number({ fallback: 0 }),
+    completed: field.boolean({ fallback: false }),
+}
+
+// ============================================================================
+// Property stream (SSE) events
+// ============================================================================
+
+const RELEVANCE_FIELDS = {
+    relevance_score: field.number({ optional: true }),
+    relevance_reason: optionalString(),
+    matches: field.array(field.string(), { optional: true }),
+    mismatches: field.array(field.string(), { optional: true }),
+}
+
+export const SQUARE_YARDS_PROPERTY_SCHEMA: SchemaFor<SquareYardsProperty> = {
+    title: stringOrEmpty(),
+    location: stringOrEmpty(),
+    price: stringOrEmpty(),
+    price_crore: stringOrEmpty(),
+    bedrooms: stringOrEmpty(),
+    bathrooms: stringOrEmpty(),
+    area: stringOrEmpty(),
+    facing: optionalString(),
+    parking: optionalString(),
+    flooring: optionalString(),
+    furnishing: optionalString(),
+    stairs: optionalString(),
+    road_view: optionalString(),
+    description: stringOrEmpty(),
+    image_url: stringOrEmpty(),
+    agent_name: optionalString(),
+    agent_rating: optionalString(),
+    agent_url: optionalString(),
+    property_url: field.string(),
+    ...RELEVANCE_FIELDS,
+}
+
+export const MAGIC_BRICKS_PROPERTY_SCHEMA: SchemaFor<MagicBricksProperty> = {
+    photo_count: optionalString(),
+    posted_date: optionalString(),
+    agent_name: optionalString(),
+    buyers_served: optionalString(),
+    title: stringOrEmpty(),
+    society_name: optionalString(),
+    society_url: optionalString(),
+    area: optionalString(),
+    carpet_area: optionalString(),
+    super_area: optionalString(),
+    status: optionalString(),
+    floor: optionalString(),
+    transaction: optionalString(),
+    furnishing: optionalString(),
+    facing: optionalString(),
+    overlooking: optionalString(),
+    ownership: optionalString(),
+    parking: optionalString(),
+    bathroom: optionalString(),
+    balcony: optionalString(),
+    description: stringOrEmpty(),
+    description2: optionalString(),
+    price: optionalString(),
+    price_per_sqft: optionalString(),
+    property_url: field.string(),
+    ...RELEVANCE_FIELDS,
+}
+
+const PORTAL_PROPERTY_FIELDS: SchemaFor<PortalPropertyBase> = {
+    title: stringOrEmpty(),
+    location: optionalString(),
+    price: optionalString(),
+    price_per_sqft: optionalString(),
+    area: optionalString(),
+    bedrooms: optionalString(),
+    bathrooms: optionalString(),
+    furnishing: optionalString(),
+    facing: optionalString(),
+    posted_date: optionalString(),
+    image_url: optionalString(),
+    description: stringOrEmpty(),
+    property_url: field.string(),
+    ...RELEVANCE_FIELDS,
+}
+
+export const NINETY_NINE_ACRES_PROPERTY_SCHEMA: SchemaFor<NinetyNineAcresProperty> = {
+    ...PORTAL_PROPERTY_FIELDS,
+    area_type: optionalString(),
+    possession: optionalString(),
+    posted_by: optionalString(),
+    dealer_name: optionalString(),
+    rera_id: optionalString(),
+}
+
+export const HOUSING_PROPERTY_SCHEMA: SchemaFor<HousingProperty> = {
+    ...PORTAL_PROPERTY_FIELDS,
+    project_name: optionalString(),
+    builder_name: optionalString(),
+    possession: optionalString(),
+    agent_name: optionalString(),
+    amenities: field.array(field.string(), { optional: true }),
+}
+
+export const NO_BROKER_PROPERTY_SCHEMA: SchemaFor<NoBrokerProperty> = {
+    ...PORTAL_PROPERTY_FIELDS,
+    deposit: optionalString(),
+    maintenance: optionalString(),
+    available_from: optionalString(),
+    preferred_tenants: optionalString(),
+    property_age: optionalString(),
+    owner_name: optionalString(),
+}
+
+export const COMMON_FLOOR_PROPERTY_SCHEMA: SchemaFor<CommonFloorProperty> = {
+    ...PORTAL_PROPERTY_FIELDS,
+    project_name: optionalString(),
+    floor: optionalString(),
+    transaction: optionalString(),
+    property_age: optionalString(),
+    agent_name: optionalString(),
+}
+
+export const PROPERTY_STREAM_COMPLETE_SCHEMA: SchemaFor<PropertyStreamComplete> = {
+    count: field.number({ fallback: 0 }),
+    api_calls_made: field.number({ nullable: true, optional: true }),
+    relevance_score: field.number({ optional: true }),
+    relevance_reason: optionalString(),
+}
+
+export const SCRAPE_CACHE_INFO_SCHEMA: SchemaFor<ScrapeCacheInfo> = {
+    url: field.string(),
+    cached: field.boolean({ fallback: false }),
+    scraped_at: nullableString(),
+    count: field.number({ fallback: 0 }),
+    api_calls_made: nullableNumber(),
+}
+
+// ============================================================================
+// Relevance feedback
+// ============================================================================
+
+const MISMATCH_OVERRIDE_SCHEMA: SchemaFor<MismatchOverride> = {
+    reason: field.string(),
+    overrides: field.number({ fallback: 0 }),
+    confirmations: field.number({ fallback: 0 }),
+}
+
+const RELEVANCE_FEEDBACK_NOTE_SCHEMA: SchemaFor<RelevanceFeedbackNote> = {
+    note: field.string(),
+    vote: field.string({ values: ['up', 'down'] }),
+    orig_query: stringOrEmpty(),
+    property_url: stringOrEmpty(),
+    created_at: stringOrEmpty(),
+}
+
+export const RELEVANCE_FEEDBACK_SUMMARY_SCHEMA: SchemaFor<RelevanceFeedbackSummary> = {
+    total: field.number({ fallback: 0 }),
+    up: field.number({ fallback: 0 }),
+    down: field.number({ fallback: 0 }),
+    mismatch_overrides: field.array(field.object(MISMATCH_OVERRIDE_SCHEMA), { fallback: [] }),
+    recent_notes: field.array(field.object(RELEVANCE_FEEDBACK_NOTE_SCHEMA), { fallback: [] }),
+}
+
+// Record so adding a source without a schema is a compile error
+const STREAMED_PROPERTY_SCHEMAS: Record<PropertySource, ObjectSchema> = {
+    magicbricks: MAGIC_BRICKS_PROPERTY_SCHEMA,
+    squareyards: SQUARE_YARDS_PROPERTY_SCHEMA,
+    '99acres': NINETY_NINE_ACRES_PROPERTY_SCHEMA,
+    housing: HOUSING_PROPERTY_SCHEMA,
+    nobroker: NO_BROKER_PROPERTY_SCHEMA,
+    commonfloor: COMMON_FLOOR_PROPERTY_SCHEMA,
+    // No endpoint, so never streamed
+    unknown: SQUARE_YARDS_PROPERTY_SCHEMA,
+}
+
+/**
+ * Schema for a streamed 'property' event from the given source
+ */
+export function getStreamedPropertySchema(source: PropertySource): ObjectSchema {
+    return STREAMED_PROPERTY_SCHEMAS[source]
+}
+
+// ============================================================================
+// Query optimizer
+// ============================================================================
+
+// Record so adding a property type without listing it here is a compile error
+const INTENT_PROPERTY_TYPES: Record<SearchIntentPropertyType, true> = {
+    apartment: true,
+    villa: true,
+    independent_house: true,
+    plot: true,
+    office: true,
+    retail: true,
+    warehouse: true,
+    pg_hostel: true,
+    farmhouse: true,
+}
+
+const INTENT_RANGE_SCHEMA: SchemaFor<IntentRange> = {
+    min: nullableNumber(),
+    max: nullableNumber(),
+}
+
+/**
+ * LLM output - anything outside the allowed values becomes null rather than
+ * dropping the whole intent
+ */
+export const SEARCH_INTENT_SCHEMA: SchemaFor<SearchIntent> = {
+    transaction: field.string({ nullable: true, values: ['sale', 'rent'] }),
+    property_type: field.string({ nullable: true, values: Object.keys(INTENT_PROPERTY_TYPES) }),
+    bedrooms: nullableNumber(),
+    area_sqft: field.object(INTENT_RANGE_SCHEMA, { nullable: true }),
+    budget_inr: field.object(INTENT_RANGE_SCHEMA, { nullable: true }),
+    localities: field.array(field.string(), { fallback: [] }),
+    city: nullableString(),
+    keywords: field.array(field.string(), { fallback: [] }),
+}